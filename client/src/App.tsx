@@ -8,17 +8,37 @@ import Inventory from "@/pages/inventory";
 import Sales from "@/pages/sales";
 import Returns from "@/pages/returns";
 import Accounting from "@/pages/accounting";
+import Labels from "@/pages/labels";
+import Categories from "@/pages/categories";
+import Catalog from "@/pages/catalog";
+import Suppliers from "@/pages/suppliers";
+import Bundles from "@/pages/bundles";
+import SupplierDetails from "@/pages/supplier-details";
+import Stocktakes from "@/pages/stocktakes";
+import StocktakeDetails from "@/pages/stocktake-details";
+import Login from "@/pages/login";
 import NotFound from "@/pages/not-found";
+import { AuthProvider } from "@/hooks/use-auth";
+import { ProtectedRoute } from "@/lib/protected-route";
 
 function Router() {
   return (
     <Switch>
-      <Route path="/" component={Dashboard} />
-      <Route path="/dashboard" component={Dashboard} />
-      <Route path="/inventory" component={Inventory} />
-      <Route path="/sales" component={Sales} />
-      <Route path="/returns" component={Returns} />
-      <Route path="/accounting" component={Accounting} />
+      <Route path="/login" component={Login} />
+      <ProtectedRoute path="/" component={Dashboard} />
+      <ProtectedRoute path="/dashboard" component={Dashboard} />
+      <ProtectedRoute path="/inventory" component={Inventory} />
+      <ProtectedRoute path="/stocktakes" component={Stocktakes} permission="stocktake:count" />
+      <ProtectedRoute path="/stocktakes/:id" component={StocktakeDetails} permission="stocktake:count" />
+      <ProtectedRoute path="/sales" component={Sales} permission="sales:view" />
+      <ProtectedRoute path="/returns" component={Returns} permission="returns:view" />
+      <ProtectedRoute path="/accounting" component={Accounting} permission="accounting:view" />
+      <ProtectedRoute path="/labels" component={Labels} permission="products:edit" />
+      <ProtectedRoute path="/bundles" component={Bundles} permission="products:edit" />
+      <ProtectedRoute path="/categories" component={Categories} permission="products:edit" />
+      <ProtectedRoute path="/catalog" component={Catalog} permission="products:edit" />
+      <ProtectedRoute path="/suppliers" component={Suppliers} permission="accounting:view" />
+      <ProtectedRoute path="/suppliers/:id" component={SupplierDetails} permission="accounting:view" />
       <Route component={NotFound} />
     </Switch>
   );
@@ -27,12 +47,14 @@ function Router() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <TooltipProvider>
-        <div className="min-h-screen bg-background text-foreground" dir="rtl">
-          <Toaster />
-          <Router />
-        </div>
-      </TooltipProvider>
+      <AuthProvider>
+        <TooltipProvider>
+          <div className="min-h-screen bg-background text-foreground" dir="rtl">
+            <Toaster />
+            <Router />
+          </div>
+        </TooltipProvider>
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
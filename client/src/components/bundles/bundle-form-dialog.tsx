@@ -0,0 +1,235 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { fromFils, toFils } from "@shared/pricing";
+import type { BundleWithComponents, InsertBundle, InsertBundleComponent, ProductWithInventory } from "@shared/schema";
+
+interface BundleFormDialogProps {
+  bundle?: BundleWithComponents; // Omitted when adding
+  onClose: () => void;
+}
+
+const emptyComponent: InsertBundleComponent = { productId: "", color: "", size: "", quantity: 1 };
+
+export default function BundleFormDialog({ bundle, onClose }: BundleFormDialogProps) {
+  const [formData, setFormData] = useState({
+    name: bundle?.name ?? "",
+    storePrice: bundle?.storePrice ?? "",
+    onlinePrice: bundle?.onlinePrice ?? "",
+  });
+  const [components, setComponents] = useState<InsertBundleComponent[]>(
+    bundle?.components.map(({ productId, color, size, quantity }) => ({ productId, color, size, quantity }))
+      ?? [emptyComponent, emptyComponent]
+  );
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: products } = useQuery<ProductWithInventory[]>({
+    queryKey: ["/api/products"],
+  });
+
+  const findProduct = (id: string) => products?.find(product => product.id === id);
+
+  // What one set costs when its pieces are bought separately, to compare with the set price
+  const separatePrice = (field: "storePrice" | "onlinePrice") => fromFils(components.reduce((sum, component) => {
+    const product = findProduct(component.productId);
+    return product ? sum + component.quantity * toFils(product[field]) : sum;
+  }, 0));
+
+  const updateComponent = (index: number, changes: Partial<InsertBundleComponent>) => {
+    setComponents(components.map((component, i) => (i === index ? { ...component, ...changes } : component)));
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: InsertBundle) => {
+      const response = bundle
+        ? await apiRequest("PUT", `/api/bundles/${bundle.id}`, data)
+        : await apiRequest("POST", "/api/bundles", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bundles"] });
+      toast({
+        title: "تم الحفظ",
+        description: "تم حفظ الطقم بنجاح",
+      });
+      onClose();
+    },
+    onError: (error) => {
+      const duplicate = error instanceof Error && error.message.startsWith("409:");
+      toast({
+        title: "خطأ",
+        description: duplicate ? "يوجد طقم بهذا الاسم بالفعل" : "فشل في حفظ الطقم، تأكد من اختيار اللون والمقاس لكل قطعة",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const chosen = components.filter(component => component.productId);
+    if (chosen.length === 0 || chosen.some(component => !component.color || !component.size)) {
+      toast({
+        title: "بيانات ناقصة",
+        description: "اختر المنتج واللون والمقاس لكل قطعة في الطقم",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveMutation.mutate({ ...formData, components: chosen });
+  };
+
+  return (
+    <Dialog open={true} onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{bundle ? "تعديل الطقم" : "إضافة طقم"}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="bundle-name">اسم الطقم</Label>
+            <Input
+              id="bundle-name"
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              placeholder="مثال: عباية سوداء مع حجاب"
+              required
+              data-testid="input-bundle-name"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>قطع الطقم</Label>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setComponents([...components, emptyComponent])}
+                data-testid="button-add-bundle-component"
+              >
+                <Plus className="h-4 w-4 ml-1" />
+                إضافة قطعة
+              </Button>
+            </div>
+            {components.map((component, index) => {
+              const product = findProduct(component.productId);
+              const variant = product?.inventory.find(item => item.color === component.color && item.size === component.size);
+              return (
+                <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                  <div className="col-span-5">
+                    <Select
+                      value={component.productId}
+                      onValueChange={(productId) => updateComponent(index, { productId, color: "", size: "" })}
+                    >
+                      <SelectTrigger data-testid={`select-bundle-product-${index}`}>
+                        <SelectValue placeholder="اختر المنتج" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {products?.map((option) => (
+                          <SelectItem key={option.id} value={option.id}>
+                            {option.modelNumber} - {option.companyName}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="col-span-4">
+                    <Select
+                      value={variant?.id ?? ""}
+                      onValueChange={(id) => {
+                        const picked = product?.inventory.find(item => item.id === id);
+                        if (picked) updateComponent(index, { color: picked.color, size: picked.size });
+                      }}
+                      disabled={!product}
+                    >
+                      <SelectTrigger data-testid={`select-bundle-variant-${index}`}>
+                        <SelectValue placeholder="اللون / المقاس" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {product?.inventory.map((item) => (
+                          <SelectItem key={item.id} value={item.id}>
+                            {item.color} / {item.size}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="col-span-2">
+                    <Input
+                      type="number"
+                      min="1"
+                      value={component.quantity}
+                      onChange={(e) => updateComponent(index, { quantity: parseInt(e.target.value) || 1 })}
+                      title="عدد القطع في الطقم"
+                      data-testid={`input-bundle-quantity-${index}`}
+                    />
+                  </div>
+                  <div className="col-span-1">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setComponents(components.filter((_, i) => i !== index))}
+                      disabled={components.length === 1}
+                      data-testid={`button-remove-bundle-component-${index}`}
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="bundle-store-price">سعر الطقم في المتجر</Label>
+              <Input
+                id="bundle-store-price"
+                type="number"
+                min="0"
+                step="0.01"
+                value={formData.storePrice}
+                onChange={(e) => setFormData({ ...formData, storePrice: e.target.value })}
+                required
+                data-testid="input-bundle-store-price"
+              />
+              <p className="text-xs text-muted-foreground mt-1">القطع منفردة: {separatePrice("storePrice")} درهم</p>
+            </div>
+            <div>
+              <Label htmlFor="bundle-online-price">سعر الطقم أونلاين</Label>
+              <Input
+                id="bundle-online-price"
+                type="number"
+                min="0"
+                step="0.01"
+                value={formData.onlinePrice}
+                onChange={(e) => setFormData({ ...formData, onlinePrice: e.target.value })}
+                required
+                data-testid="input-bundle-online-price"
+              />
+              <p className="text-xs text-muted-foreground mt-1">القطع منفردة: {separatePrice("onlinePrice")} درهم</p>
+            </div>
+          </div>
+
+          <div className="flex gap-2 justify-end">
+            <Button type="button" variant="outline" onClick={onClose}>
+              إلغاء
+            </Button>
+            <Button type="submit" disabled={saveMutation.isPending} data-testid="button-save-bundle">
+              {saveMutation.isPending ? "جاري الحفظ..." : "حفظ"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,4 +1,6 @@
-import { User } from "lucide-react";
+import { User, LogOut } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/use-auth";
 
 interface HeaderProps {
   title: string;
@@ -6,6 +8,7 @@ interface HeaderProps {
 }
 
 export default function Header({ title, subtitle }: HeaderProps) {
+  const { user, logoutMutation } = useAuth();
   const today = new Date().toLocaleDateString('ar-AE', {
     year: 'numeric',
     month: 'long',
@@ -23,9 +26,22 @@ export default function Header({ title, subtitle }: HeaderProps) {
           <span className="text-sm text-muted-foreground" data-testid="text-today-date">
             اليوم: {today}
           </span>
-          <div className="w-10 h-10 bg-primary rounded-full flex items-center justify-center">
-            <User className="text-primary-foreground" size={20} />
+          <div className="flex items-center gap-2">
+            <div className="w-10 h-10 bg-primary rounded-full flex items-center justify-center">
+              <User className="text-primary-foreground" size={20} />
+            </div>
+            <span className="font-medium" data-testid="text-current-user">{user?.displayName}</span>
           </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => logoutMutation.mutate()}
+            disabled={logoutMutation.isPending}
+            data-testid="button-logout"
+          >
+            <LogOut className="h-4 w-4 ml-1" />
+            خروج
+          </Button>
         </div>
       </div>
     </header>
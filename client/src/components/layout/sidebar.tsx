@@ -1,16 +1,25 @@
 import { Link, useLocation } from "wouter";
-import { Gem, Home, Package, TrendingUp, RotateCcw, BarChart } from "lucide-react";
+import { Gem, Home, Package, TrendingUp, RotateCcw, BarChart, Tag, FolderTree, Palette, Truck, Boxes, ClipboardCheck } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { useAuth } from "@/hooks/use-auth";
+import type { Permission } from "@shared/permissions";
 
 export default function Sidebar() {
   const [location] = useLocation();
+  const { can } = useAuth();
 
-  const navigation = [
+  const navigation: { name: string; href: string; icon: typeof Home; permission?: Permission }[] = [
     { name: "لوحة التحكم", href: "/dashboard", icon: Home },
     { name: "إدارة المخزون", href: "/inventory", icon: Package },
-    { name: "المبيعات", href: "/sales", icon: TrendingUp },
-    { name: "المرتجعات", href: "/returns", icon: RotateCcw },
-    { name: "المحاسبة", href: "/accounting", icon: BarChart },
+    { name: "الجرد", href: "/stocktakes", icon: ClipboardCheck, permission: "stocktake:count" },
+    { name: "المبيعات", href: "/sales", icon: TrendingUp, permission: "sales:view" },
+    { name: "المرتجعات", href: "/returns", icon: RotateCcw, permission: "returns:view" },
+    { name: "المحاسبة", href: "/accounting", icon: BarChart, permission: "accounting:view" },
+    { name: "الموردون", href: "/suppliers", icon: Truck, permission: "accounting:view" },
+    { name: "الأطقم", href: "/bundles", icon: Boxes, permission: "products:edit" },
+    { name: "التصنيفات", href: "/categories", icon: FolderTree, permission: "products:edit" },
+    { name: "الألوان والمقاسات", href: "/catalog", icon: Palette, permission: "products:edit" },
+    { name: "طباعة الملصقات", href: "/labels", icon: Tag, permission: "products:edit" },
   ];
 
   return (
@@ -35,7 +44,7 @@ export default function Sidebar() {
       
       {/* Navigation Menu */}
       <div className="p-4 space-y-2">
-        {navigation.map((item) => {
+        {navigation.filter((item) => !item.permission || can(item.permission)).map((item) => {
           const isActive = location === item.href || (item.href === "/dashboard" && location === "/");
           const Icon = item.icon;
           
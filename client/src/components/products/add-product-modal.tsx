@@ -1,8 +1,9 @@
-import { useState, useRef } from "react";
+import { useState } from "react";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { insertProductSchema, type InsertProduct, COLORS, SIZES } from "@shared/schema";
+import { insertProductSchema, type InsertProduct } from "@shared/schema";
+import { resolveCategoryReorderPoint } from "@shared/reorder";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -10,8 +11,11 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
+import { useCategories } from "@/hooks/use-categories";
 import { apiRequest } from "@/lib/queryClient";
+import SupplierPicker from "@/components/suppliers/supplier-picker";
 import ColorSizeManager from "./color-size-manager";
+import ImageUpload from "./image-upload";
 
 interface AddProductModalProps {
   onClose: () => void;
@@ -19,10 +23,8 @@ interface AddProductModalProps {
 
 export default function AddProductModal({ onClose }: AddProductModalProps) {
   const [inventory, setInventory] = useState<Record<string, Record<string, number>>>({});
-  const [imageFile, setImageFile] = useState<File | null>(null);
-  const [imagePreview, setImagePreview] = useState<string>("");
-  const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
+  const { categories, getCategoryLabel } = useCategories();
   const queryClient = useQueryClient();
 
   const form = useForm<InsertProduct>({
@@ -30,9 +32,12 @@ export default function AddProductModal({ onClose }: AddProductModalProps) {
     defaultValues: {
       modelNumber: "",
       companyName: "",
+      supplierId: null,
       productType: "",
       storePrice: "0",
       onlinePrice: "0",
+      costPrice: "",
+      reorderPoint: null,
       imageUrl: "",
       specifications: "",
     },
@@ -46,6 +51,8 @@ export default function AddProductModal({ onClose }: AddProductModalProps) {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/products"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory/low-stock"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/suppliers"] });
       toast({
         title: "تم إضافة المنتج بنجاح",
         description: "تم حفظ المنتج والمخزون بنجاح",
@@ -61,20 +68,6 @@ export default function AddProductModal({ onClose }: AddProductModalProps) {
     },
   });
 
-  const handleImageUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      setImageFile(file);
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        const result = e.target?.result as string;
-        setImagePreview(result);
-        form.setValue("imageUrl", result);
-      };
-      reader.readAsDataURL(file);
-    }
-  };
-
   const onSubmit = (data: InsertProduct) => {
     // Convert inventory object to array format
     const inventoryArray = [];
@@ -91,7 +84,7 @@ export default function AddProductModal({ onClose }: AddProductModalProps) {
     }
 
     createProductMutation.mutate({
-      product: data,
+      product: { ...data, costPrice: data.costPrice || null },
       inventory: inventoryArray,
     });
   };
@@ -130,12 +123,16 @@ export default function AddProductModal({ onClose }: AddProductModalProps) {
                 name="companyName"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>اسم الشركة <span className="text-destructive">*</span></FormLabel>
+                    <FormLabel>المورد <span className="text-destructive">*</span></FormLabel>
                     <FormControl>
-                      <Input 
-                        placeholder="مثال: شركة الأزياء الراقية" 
-                        {...field}
-                        data-testid="input-company-name"
+                      <SupplierPicker
+                        supplierId={form.watch("supplierId")}
+                        name={field.value}
+                        onChange={(supplierId, name) => {
+                          form.setValue("supplierId", supplierId);
+                          field.onChange(name);
+                        }}
+                        testId="select-supplier"
                       />
                     </FormControl>
                     <FormMessage />
@@ -148,19 +145,19 @@ export default function AddProductModal({ onClose }: AddProductModalProps) {
                 name="productType"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>نوع المنتج <span className="text-destructive">*</span></FormLabel>
+                    <FormLabel>التصنيف <span className="text-destructive">*</span></FormLabel>
                     <Select onValueChange={field.onChange} defaultValue={field.value}>
                       <FormControl>
                         <SelectTrigger data-testid="select-product-type">
-                          <SelectValue placeholder="اختر نوع المنتج" />
+                          <SelectValue placeholder="اختر التصنيف" />
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        <SelectItem value="dress">فستان</SelectItem>
-                        <SelectItem value="evening-wear">فستان سهرة</SelectItem>
-                        <SelectItem value="hijab">حجاب</SelectItem>
-                        <SelectItem value="abaya">عباية</SelectItem>
-                        <SelectItem value="accessories">إكسسوارات</SelectItem>
+                        {categories.map((category) => (
+                          <SelectItem key={category.id} value={category.id}>
+                            {getCategoryLabel(category)}
+                          </SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                     <FormMessage />
@@ -174,57 +171,12 @@ export default function AddProductModal({ onClose }: AddProductModalProps) {
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>صورة المنتج</FormLabel>
-                    <div className="space-y-4">
-                      <div className="flex gap-2">
-                        <Button
-                          type="button"
-                          variant="outline"
-                          onClick={() => fileInputRef.current?.click()}
-                          data-testid="button-upload-image"
-                        >
-                          رفع صورة من الجهاز
-                        </Button>
-                        <input
-                          type="file"
-                          ref={fileInputRef}
-                          onChange={handleImageUpload}
-                          accept="image/*"
-                          className="hidden"
-                          data-testid="file-input-image"
-                        />
-                      </div>
-                      <FormControl>
-                        <Input 
-                          placeholder="أو أدخل رابط الصورة" 
-                          {...field}
-                          value={imageFile ? `تم رفع الصورة: ${imageFile.name}` : field.value || ""}
-                          readOnly={!!imageFile}
-                          data-testid="input-image-url"
-                        />
-                      </FormControl>
-                      {imagePreview && (
-                        <div className="mt-2 relative">
-                          <img 
-                            src={imagePreview} 
-                            alt="معاينة الصورة" 
-                            className="w-32 h-32 object-cover rounded-md border"
-                          />
-                          <Button
-                            type="button"
-                            variant="destructive"
-                            size="sm"
-                            onClick={() => {
-                              setImageFile(null);
-                              setImagePreview("");
-                              form.setValue("imageUrl", "");
-                            }}
-                            className="absolute top-1 right-1 h-6 w-6 p-0"
-                          >
-                            ×
-                          </Button>
-                        </div>
-                      )}
-                    </div>
+                    <FormControl>
+                      <ImageUpload
+                        value={field.value || ""}
+                        onChange={field.onChange}
+                      />
+                    </FormControl>
                     <FormMessage />
                   </FormItem>
                 )}
@@ -269,6 +221,48 @@ export default function AddProductModal({ onClose }: AddProductModalProps) {
                   </FormItem>
                 )}
               />
+
+              <FormField
+                control={form.control}
+                name="costPrice"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>سعر التكلفة (درهم)</FormLabel>
+                    <FormControl>
+                      <Input 
+                        type="number" 
+                        step="0.01" 
+                        placeholder="0.00" 
+                        {...field}
+                        value={field.value || ""}
+                        data-testid="input-cost-price"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="reorderPoint"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>حد إعادة الطلب</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="0"
+                        placeholder={`من التصنيف: ${resolveCategoryReorderPoint(categories, form.watch("productType"))}`}
+                        value={field.value ?? ""}
+                        onChange={(e) => field.onChange(e.target.value === "" ? null : parseInt(e.target.value))}
+                        data-testid="input-reorder-point"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
             </div>
             
             <FormField
@@ -292,7 +286,11 @@ export default function AddProductModal({ onClose }: AddProductModalProps) {
             />
 
             {/* Color & Size Management */}
-            <ColorSizeManager inventory={inventory} onInventoryChange={setInventory} />
+            <ColorSizeManager
+              categoryId={form.watch("productType")}
+              inventory={inventory}
+              onInventoryChange={setInventory}
+            />
 
             {/* Form Actions */}
             <div className="flex items-center justify-end space-x-4 space-x-reverse pt-6 border-t border-border">
@@ -0,0 +1,65 @@
+import { useRef, useState } from "react";
+import { ScanBarcode } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { InventoryLookup } from "@shared/schema";
+
+interface BarcodeScanInputProps {
+  onScan: (variant: InventoryLookup) => void;
+  testId: string;
+}
+
+// Scanners act as a keyboard: they type the code into the focused field and press Enter.
+// A typed SKU works the same way.
+export default function BarcodeScanInput({ onScan, testId }: BarcodeScanInputProps) {
+  const [code, setCode] = useState("");
+  const [isLooking, setIsLooking] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const lookUp = async () => {
+    const scanned = code.trim();
+    if (!scanned || isLooking) return;
+
+    setIsLooking(true);
+    try {
+      const response = await apiRequest("GET", `/api/inventory/lookup?code=${encodeURIComponent(scanned)}`);
+      onScan(await response.json());
+    } catch (error) {
+      const notFound = error instanceof Error && error.message.startsWith("404:");
+      toast({
+        title: notFound ? "الباركود غير معروف" : "تعذر قراءة الباركود",
+        description: notFound ? `لا يوجد منتج بالرمز ${scanned}` : "حدث خطأ أثناء البحث عن الرمز",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLooking(false);
+      setCode("");
+      inputRef.current?.focus();
+    }
+  };
+
+  return (
+    <div className="relative">
+      <ScanBarcode className="absolute right-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+      <Input
+        ref={inputRef}
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        onKeyDown={(e) => {
+          // Enter would otherwise submit the surrounding form
+          if (e.key === "Enter") {
+            e.preventDefault();
+            lookUp();
+          }
+        }}
+        placeholder="امسح الباركود أو اكتب رمز SKU ثم اضغط Enter"
+        className="pr-9"
+        dir="ltr"
+        autoFocus
+        data-testid={testId}
+      />
+    </div>
+  );
+}
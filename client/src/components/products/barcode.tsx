@@ -0,0 +1,55 @@
+import { encodeEan13 } from "@shared/barcode";
+
+interface BarcodeProps {
+  code: string;
+  // Width of one module (the thinnest bar) and bar height, in SVG user units
+  moduleWidth?: number;
+  height?: number;
+  className?: string;
+}
+
+// Quiet zone on each side, in modules, as the EAN-13 spec requires for reliable scans
+const QUIET_ZONE = 9;
+// Guard bars (start, centre, end) run down into the digit row
+const GUARD_MODULES = [0, 1, 2, 45, 46, 47, 48, 49, 92, 93, 94];
+
+export default function Barcode({ code, moduleWidth = 1, height = 50, className }: BarcodeProps) {
+  const modules = encodeEan13(code);
+  const textHeight = height * 0.2;
+  const width = (modules.length + QUIET_ZONE * 2) * moduleWidth;
+
+  const bars = [];
+  for (let i = 0; i < modules.length; i++) {
+    if (modules[i] !== "1") continue;
+    const isGuard = GUARD_MODULES.indexOf(i) !== -1;
+    bars.push(
+      <rect
+        key={i}
+        x={(QUIET_ZONE + i) * moduleWidth}
+        y={0}
+        width={moduleWidth}
+        height={isGuard ? height : height - textHeight}
+      />
+    );
+  }
+
+  const textProps = { y: height, fontSize: textHeight, fontFamily: "monospace", textAnchor: "middle" as const };
+
+  return (
+    <svg
+      viewBox={`0 0 ${width} ${height}`}
+      width={width}
+      height={height}
+      className={className}
+      role="img"
+      aria-label={code}
+      data-testid={`barcode-${code}`}
+    >
+      <rect x={0} y={0} width={width} height={height} fill="white" />
+      <g fill="black">{bars}</g>
+      <text {...textProps} x={(QUIET_ZONE / 2) * moduleWidth}>{code[0]}</text>
+      <text {...textProps} x={(QUIET_ZONE + 24) * moduleWidth}>{code.slice(1, 7)}</text>
+      <text {...textProps} x={(QUIET_ZONE + 71) * moduleWidth}>{code.slice(7)}</text>
+    </svg>
+  );
+}
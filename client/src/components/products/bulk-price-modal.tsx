@@ -0,0 +1,362 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useCategories } from "@/hooks/use-categories";
+import { apiRequest } from "@/lib/queryClient";
+import type { BulkPriceChange, BulkPricePreview, BulkPriceUpdate, ProductWithInventory } from "@shared/schema";
+
+interface BulkPriceModalProps {
+  products: ProductWithInventory[];
+  onClose: () => void;
+}
+
+const channelLabels: Record<string, string> = {
+  'in-store': 'المتجر',
+  'online': 'الأونلاين',
+};
+
+const emptyForm = {
+  target: "filter" as "filter" | "selection",
+  companyName: "all",
+  productType: "all",
+  status: "all",
+  productIds: [] as string[],
+  channels: ["in-store", "online"] as BulkPriceUpdate["channels"],
+  mode: "percent" as BulkPriceUpdate["mode"],
+  amount: "",
+  roundTo: "0",
+  roundDirection: "nearest" as BulkPriceUpdate["roundDirection"],
+};
+
+type BulkPriceForm = typeof emptyForm;
+
+function toRequest(form: BulkPriceForm): BulkPriceUpdate {
+  const filter: BulkPriceUpdate["filter"] = form.target === "selection"
+    ? { productIds: form.productIds }
+    : {
+      companyName: form.companyName === "all" ? undefined : form.companyName,
+      productType: form.productType === "all" ? undefined : form.productType,
+      status: form.status === "all" ? undefined : form.status as BulkPriceUpdate["filter"]["status"],
+    };
+  return {
+    filter,
+    channels: form.channels,
+    mode: form.mode,
+    amount: Number(form.amount),
+    roundTo: Number(form.roundTo),
+    roundDirection: form.roundDirection,
+  };
+}
+
+function ChangesTable({ items, testId }: { items: BulkPriceChange[]; testId: string }) {
+  return (
+    <Table data-testid={testId}>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="text-right">رقم الموديل</TableHead>
+          <TableHead className="text-right">الشركة</TableHead>
+          <TableHead className="text-right">القناة</TableHead>
+          <TableHead className="text-right">السعر الحالي</TableHead>
+          <TableHead className="text-right">السعر الجديد</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {items.map(item => item.changes.map((change) => (
+          <TableRow key={`${item.productId}-${change.channel}`} data-testid={`bulk-price-row-${item.productId}-${change.channel}`}>
+            <TableCell className="font-medium">{item.modelNumber}</TableCell>
+            <TableCell>{item.companyName}</TableCell>
+            <TableCell>{channelLabels[change.channel]}</TableCell>
+            <TableCell className="text-muted-foreground">{change.oldPrice}</TableCell>
+            <TableCell className="font-medium">{change.newPrice}</TableCell>
+          </TableRow>
+        )))}
+      </TableBody>
+    </Table>
+  );
+}
+
+export default function BulkPriceModal({ products, onClose }: BulkPriceModalProps) {
+  const [form, setForm] = useState(emptyForm);
+  const [preview, setPreview] = useState<BulkPricePreview | null>(null);
+  const { toast } = useToast();
+  const { categories, getCategoryLabel } = useCategories();
+  const queryClient = useQueryClient();
+
+  const companies = Array.from(new Set(products.map(product => product.companyName))).sort();
+
+  // Any change to the rule makes the shown preview stale
+  const update = (changes: Partial<BulkPriceForm>) => {
+    setForm({ ...form, ...changes });
+    setPreview(null);
+  };
+
+  const toggleChannel = (channel: "in-store" | "online", checked: boolean) => {
+    update({ channels: checked ? [...form.channels, channel] : form.channels.filter(c => c !== channel) });
+  };
+
+  const toggleProduct = (id: string, checked: boolean) => {
+    update({ productIds: checked ? [...form.productIds, id] : form.productIds.filter(productId => productId !== id) });
+  };
+
+  const showError = () => {
+    toast({
+      title: "خطأ",
+      description: "تأكد من اختيار المنتجات والقناة وإدخال قيمة التعديل",
+      variant: "destructive",
+    });
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: async (data: BulkPriceForm) => {
+      const response = await apiRequest("POST", "/api/products/bulk-price/preview", toRequest(data));
+      return response.json() as Promise<BulkPricePreview>;
+    },
+    onSuccess: setPreview,
+    onError: showError,
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: async (data: BulkPriceForm) => {
+      const response = await apiRequest("POST", "/api/products/bulk-price", toRequest(data));
+      return response.json() as Promise<{ updated: number }>;
+    },
+    onSuccess: ({ updated }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      toast({
+        title: "تم تعديل الأسعار",
+        description: `تم تعديل أسعار ${updated} منتج`,
+      });
+      onClose();
+    },
+    onError: () => {
+      // Prices may have changed since the preview; show the current one again
+      previewMutation.mutate(form);
+      toast({
+        title: "تعذر تعديل الأسعار",
+        description: "بعض الأسعار ستصبح صفراً أو أقل، راجع المعاينة",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handlePreview = (e: React.FormEvent) => {
+    e.preventDefault();
+    previewMutation.mutate(form);
+  };
+
+  const canPreview = form.channels.length > 0 && Number(form.amount) !== 0 && !isNaN(Number(form.amount)) &&
+    (form.target === "filter" || form.productIds.length > 0);
+  const canApply = !!preview && preview.invalid.length === 0 && preview.products.length > 0;
+
+  return (
+    <Dialog open={true} onOpenChange={onClose}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-auto">
+        <DialogHeader>
+          <DialogTitle>تعديل الأسعار بالجملة</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handlePreview} className="space-y-6">
+          <div className="space-y-3">
+            <Label>المنتجات</Label>
+            <Select value={form.target} onValueChange={(target) => update({ target: target as BulkPriceForm["target"] })}>
+              <SelectTrigger data-testid="select-bulk-price-target">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="filter">حسب الشركة أو التصنيف أو الحالة</SelectItem>
+                <SelectItem value="selection">اختيار المنتجات يدوياً</SelectItem>
+              </SelectContent>
+            </Select>
+
+            {form.target === "filter" ? (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <div>
+                  <Label>الشركة</Label>
+                  <Select value={form.companyName} onValueChange={(companyName) => update({ companyName })}>
+                    <SelectTrigger data-testid="select-bulk-price-company">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">جميع الشركات</SelectItem>
+                      {companies.map(company => (
+                        <SelectItem key={company} value={company}>{company}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>التصنيف</Label>
+                  <Select value={form.productType} onValueChange={(productType) => update({ productType })}>
+                    <SelectTrigger data-testid="select-bulk-price-category">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">جميع التصنيفات</SelectItem>
+                      {categories.map(category => (
+                        <SelectItem key={category.id} value={category.id}>{getCategoryLabel(category)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>الحالة</Label>
+                  <Select value={form.status} onValueChange={(status) => update({ status })}>
+                    <SelectTrigger data-testid="select-bulk-price-status">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">جميع الحالات</SelectItem>
+                      <SelectItem value="in-stock">متوفر</SelectItem>
+                      <SelectItem value="low-stock">مخزون قليل</SelectItem>
+                      <SelectItem value="out-of-stock">نفذ</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            ) : (
+              <div className="border border-border rounded-lg max-h-48 overflow-y-auto p-3 space-y-2">
+                {products.map(product => (
+                  <label key={product.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={form.productIds.indexOf(product.id) !== -1}
+                      onCheckedChange={(checked) => toggleProduct(product.id, checked === true)}
+                      data-testid={`checkbox-bulk-price-product-${product.id}`}
+                    />
+                    <span className="font-medium">{product.modelNumber}</span>
+                    <span className="text-muted-foreground">{product.companyName}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3 items-end">
+            <div className="space-y-2">
+              <Label>الأسعار</Label>
+              {(["in-store", "online"] as const).map(channel => (
+                <label key={channel} className="flex items-center gap-2 text-sm cursor-pointer">
+                  <Checkbox
+                    checked={form.channels.indexOf(channel) !== -1}
+                    onCheckedChange={(checked) => toggleChannel(channel, checked === true)}
+                    data-testid={`checkbox-bulk-price-channel-${channel}`}
+                  />
+                  سعر {channelLabels[channel]}
+                </label>
+              ))}
+            </div>
+            <div>
+              <Label>نوع التعديل</Label>
+              <Select value={form.mode} onValueChange={(mode) => update({ mode: mode as BulkPriceForm["mode"] })}>
+                <SelectTrigger data-testid="select-bulk-price-mode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="percent">نسبة مئوية (%)</SelectItem>
+                  <SelectItem value="fixed">مبلغ ثابت (درهم)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="bulk-price-amount">القيمة (سالبة للتخفيض)</Label>
+              <Input
+                id="bulk-price-amount"
+                type="number"
+                step="0.01"
+                value={form.amount}
+                onChange={(e) => update({ amount: e.target.value })}
+                required
+                data-testid="input-bulk-price-amount"
+              />
+            </div>
+            <div>
+              <Label>التقريب</Label>
+              <Select value={form.roundTo} onValueChange={(roundTo) => update({ roundTo })}>
+                <SelectTrigger data-testid="select-bulk-price-round-to">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="0">بدون تقريب</SelectItem>
+                  <SelectItem value="1">لأقرب درهم</SelectItem>
+                  <SelectItem value="5">لأقرب 5 دراهم</SelectItem>
+                  <SelectItem value="10">لأقرب 10 دراهم</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>اتجاه التقريب</Label>
+              <Select
+                value={form.roundDirection}
+                onValueChange={(roundDirection) => update({ roundDirection: roundDirection as BulkPriceForm["roundDirection"] })}
+                disabled={form.roundTo === "0"}
+              >
+                <SelectTrigger data-testid="select-bulk-price-round-direction">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="nearest">الأقرب</SelectItem>
+                  <SelectItem value="up">للأعلى</SelectItem>
+                  <SelectItem value="down">للأسفل</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {preview && (
+            <div className="space-y-4">
+              <div className="flex flex-wrap gap-2" data-testid="bulk-price-summary">
+                <Badge variant="outline">{preview.matched} منتج مطابق</Badge>
+                <Badge>{preview.products.length} منتج سيتغير سعره</Badge>
+                {preview.invalid.length > 0 && (
+                  <Badge variant="destructive">{preview.invalid.length} منتج بسعر غير صالح</Badge>
+                )}
+              </div>
+
+              {preview.invalid.length > 0 && (
+                <div className="space-y-2">
+                  <h4 className="font-semibold text-destructive">هذه الأسعار ستصبح صفراً أو أقل، عدّل القيمة أو استبعد المنتجات</h4>
+                  <ChangesTable items={preview.invalid} testId="table-bulk-price-invalid" />
+                </div>
+              )}
+
+              {preview.products.length > 0 ? (
+                <ChangesTable items={preview.products} testId="table-bulk-price-preview" />
+              ) : preview.invalid.length === 0 && (
+                <p className="text-sm text-muted-foreground text-center">لن يتغير أي سعر بهذا التعديل</p>
+              )}
+            </div>
+          )}
+
+          <div className="flex gap-2 justify-end">
+            <Button type="button" variant="outline" onClick={onClose}>
+              إلغاء
+            </Button>
+            <Button
+              type="submit"
+              variant="secondary"
+              disabled={!canPreview || previewMutation.isPending}
+              data-testid="button-preview-bulk-price"
+            >
+              {previewMutation.isPending ? "جاري المعاينة..." : "معاينة"}
+            </Button>
+            <Button
+              type="button"
+              onClick={() => applyMutation.mutate(form)}
+              disabled={!canApply || applyMutation.isPending}
+              data-testid="button-apply-bulk-price"
+            >
+              {applyMutation.isPending ? "جاري التطبيق..." : "تطبيق الأسعار"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
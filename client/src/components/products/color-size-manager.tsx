@@ -3,21 +3,51 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Trash2, Plus, Minus } from "lucide-react";
-import { COLORS, SIZES } from "@shared/schema";
+import { useVariantCatalog } from "@/hooks/use-variant-catalog";
+import ColorSwatch from "./color-swatch";
 
 interface ColorSizeManagerProps {
+  // Colors and sizes come from the catalog for this category
+  categoryId?: string;
   inventory: Record<string, Record<string, number>>;
   onInventoryChange: (inventory: Record<string, Record<string, number>>) => void;
+  // Per-variant cost overrides by color then size; an empty value falls back to defaultCost
+  costOverrides?: Record<string, Record<string, string>>;
+  onCostOverridesChange?: (costOverrides: Record<string, Record<string, string>>) => void;
+  defaultCost?: string | null;
+  // Per-variant reorder points, kept like the cost overrides; empty falls back to defaultReorderPoint
+  reorderOverrides?: Record<string, Record<string, string>>;
+  onReorderOverridesChange?: (reorderOverrides: Record<string, Record<string, string>>) => void;
+  defaultReorderPoint?: number;
 }
 
-export default function ColorSizeManager({ inventory, onInventoryChange }: ColorSizeManagerProps) {
+export default function ColorSizeManager({
+  categoryId,
+  inventory,
+  onInventoryChange,
+  costOverrides,
+  onCostOverridesChange,
+  defaultCost,
+  reorderOverrides,
+  onReorderOverridesChange,
+  defaultReorderPoint,
+}: ColorSizeManagerProps) {
   const [newColor, setNewColor] = useState("");
   const [activeColor, setActiveColor] = useState<string>("");
   const [newSize, setNewSize] = useState("");
+  const { catalog, getColorHex } = useVariantCatalog(categoryId);
 
-  // Initialize inventory with default colors if empty
-  const availableColors = Object.keys(inventory).length > 0 ? Object.keys(inventory) : [];
+  const availableColors = Object.keys(inventory);
+  const colorOptions = (catalog?.colors || []).filter(color => !inventory[color]);
+  const sizeOptions = (catalog?.sizes || []).filter(size => inventory[activeColor]?.[size] === undefined);
+
+  // Sizes in catalog order; sizes no longer in the catalog go last
+  const sizeRank = (size: string) => {
+    const index = catalog?.sizes.indexOf(size) ?? -1;
+    return index === -1 ? Number.MAX_SAFE_INTEGER : index;
+  };
 
   const addColor = () => {
     if (newColor.trim() && !inventory[newColor.trim()]) {
@@ -43,7 +73,7 @@ export default function ColorSizeManager({ inventory, onInventoryChange }: Color
   };
 
   const addSize = (color: string) => {
-    if (newSize.trim() && !inventory[color]?.[newSize.trim()]) {
+    if (newSize.trim() && inventory[color]?.[newSize.trim()] === undefined) {
       const updatedInventory = {
         ...inventory,
         [color]: {
@@ -75,6 +105,26 @@ export default function ColorSizeManager({ inventory, onInventoryChange }: Color
     onInventoryChange(updatedInventory);
   };
 
+  const updateCost = (color: string, size: string, cost: string) => {
+    onCostOverridesChange?.({
+      ...costOverrides,
+      [color]: {
+        ...costOverrides?.[color],
+        [size]: cost
+      }
+    });
+  };
+
+  const updateReorderPoint = (color: string, size: string, reorderPoint: string) => {
+    onReorderOverridesChange?.({
+      ...reorderOverrides,
+      [color]: {
+        ...reorderOverrides?.[color],
+        [size]: reorderPoint
+      }
+    });
+  };
+
   const getColorTotal = (color: string) => {
     if (!inventory[color]) return 0;
     return Object.values(inventory[color]).reduce((sum, qty) => sum + qty, 0);
@@ -90,18 +140,26 @@ export default function ColorSizeManager({ inventory, onInventoryChange }: Color
       <div className="flex items-center justify-between">
         <h4 className="text-lg font-semibold">إدارة الألوان والمقاسات</h4>
         <div className="flex items-center gap-2">
-          <Input 
-            type="text" 
-            placeholder="اسم اللون الجديد" 
-            value={newColor}
-            onChange={(e) => setNewColor(e.target.value)}
-            className="w-40"
-            data-testid="input-new-color"
-          />
+          <Select value={newColor} onValueChange={setNewColor} disabled={!catalog}>
+            <SelectTrigger className="w-40" data-testid="select-new-color">
+              <SelectValue placeholder={catalog ? "اختر اللون" : "اختر التصنيف أولاً"} />
+            </SelectTrigger>
+            <SelectContent>
+              {colorOptions.map((color) => (
+                <SelectItem key={color} value={color}>
+                  <span className="flex items-center gap-2">
+                    <ColorSwatch hex={getColorHex(color)} />
+                    {color}
+                  </span>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
           <Button 
             type="button" 
             onClick={addColor}
             size="sm"
+            disabled={!newColor}
             data-testid="button-add-color"
           >
             <Plus className="w-4 h-4 ml-2" />
@@ -116,7 +174,10 @@ export default function ColorSizeManager({ inventory, onInventoryChange }: Color
           {availableColors.map((color) => (
             <Card key={color} className="text-center">
               <CardContent className="p-4">
-                <div className="font-semibold text-lg mb-2">{color}</div>
+                <div className="font-semibold text-lg mb-2 flex items-center justify-center gap-2">
+                  <ColorSwatch hex={getColorHex(color)} />
+                  {color}
+                </div>
                 <div className="text-2xl font-bold text-primary mb-1">
                   {getColorTotal(color)}
                 </div>
@@ -143,6 +204,7 @@ export default function ColorSizeManager({ inventory, onInventoryChange }: Color
                   onClick={() => setActiveColor(color)}
                   data-testid={`button-color-tab-${color}`}
                 >
+                  <ColorSwatch hex={getColorHex(color)} className="ml-2" />
                   {color}
                   <button
                     type="button"
@@ -168,17 +230,21 @@ export default function ColorSizeManager({ inventory, onInventoryChange }: Color
                   <Badge variant="secondary">({activeColor})</Badge>
                 </div>
                 <div className="flex items-center gap-2">
-                  <Input
-                    type="text"
-                    placeholder="مقاس جديد"
-                    value={newSize}
-                    onChange={(e) => setNewSize(e.target.value)}
-                    className="w-32"
-                  />
+                  <Select value={newSize} onValueChange={setNewSize} disabled={sizeOptions.length === 0}>
+                    <SelectTrigger className="w-32" data-testid="select-new-size">
+                      <SelectValue placeholder="مقاس جديد" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {sizeOptions.map((size) => (
+                        <SelectItem key={size} value={size}>{size}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                   <Button
                     type="button"
                     variant="outline"
                     size="sm"
+                    disabled={!newSize}
                     onClick={() => addSize(activeColor)}
                     data-testid="button-add-size"
                   >
@@ -189,7 +255,9 @@ export default function ColorSizeManager({ inventory, onInventoryChange }: Color
               </div>
               
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                {inventory[activeColor] && Object.entries(inventory[activeColor]).map(([size, quantity], index) => (
+                {inventory[activeColor] && Object.entries(inventory[activeColor])
+                  .sort(([a], [b]) => sizeRank(a) - sizeRank(b))
+                  .map(([size, quantity], index) => (
                   <Card 
                     key={`${activeColor}-${size}`}
                     className={`${quantity > 0 ? 'border-green-200 bg-green-50/50' : 'border-gray-200 bg-gray-50/50'} transition-all`}
@@ -249,6 +317,36 @@ export default function ColorSizeManager({ inventory, onInventoryChange }: Color
                         </Button>
                       </div>
 
+                      {costOverrides && (
+                        <div className="mb-4">
+                          <Input
+                            type="number"
+                            step="0.01"
+                            placeholder={`التكلفة: ${defaultCost || "غير محددة"}`}
+                            value={costOverrides[activeColor]?.[size] || ""}
+                            onChange={(e) => updateCost(activeColor, size, e.target.value)}
+                            className="text-center"
+                            title="تكلفة خاصة بهذا المقاس، اتركها فارغة لاستخدام تكلفة المنتج"
+                            data-testid={`input-variant-cost-${index}`}
+                          />
+                        </div>
+                      )}
+
+                      {reorderOverrides && (
+                        <div className="mb-4">
+                          <Input
+                            type="number"
+                            min="0"
+                            placeholder={`حد إعادة الطلب: ${defaultReorderPoint ?? ""}`}
+                            value={reorderOverrides[activeColor]?.[size] || ""}
+                            onChange={(e) => updateReorderPoint(activeColor, size, e.target.value)}
+                            className="text-center"
+                            title="حد خاص بهذا المقاس، اتركه فارغاً لاستخدام حد المنتج"
+                            data-testid={`input-variant-reorder-point-${index}`}
+                          />
+                        </div>
+                      )}
+
                       <div className="text-center">
                         <span className={`text-sm ${quantity > 0 ? 'text-green-600' : 'text-orange-500'}`}>
                           {quantity > 0 ? 'متوفر' : 'مخزون منتهي!'}
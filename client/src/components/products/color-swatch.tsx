@@ -0,0 +1,18 @@
+import { cn } from "@/lib/utils";
+
+interface ColorSwatchProps {
+  hex?: string;
+  className?: string;
+}
+
+export default function ColorSwatch({ hex, className }: ColorSwatchProps) {
+  if (!hex) return null;
+
+  return (
+    <span
+      className={cn("inline-block h-3 w-3 rounded-full border border-border shrink-0", className)}
+      style={{ backgroundColor: hex }}
+      aria-hidden="true"
+    />
+  );
+}
@@ -3,6 +3,8 @@ import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { insertProductSchema, type InsertProduct, type ProductWithInventory } from "@shared/schema";
+import { calculateMargin, formatMargin } from "@shared/pricing";
+import { resolveCategoryReorderPoint } from "@shared/reorder";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -10,8 +12,12 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
+import { useCategories } from "@/hooks/use-categories";
 import { apiRequest } from "@/lib/queryClient";
+import SupplierPicker from "@/components/suppliers/supplier-picker";
 import ColorSizeManager from "./color-size-manager";
+import ImageUpload from "./image-upload";
+import GalleryEditor from "./gallery-editor";
 
 interface EditProductModalProps {
   product: ProductWithInventory;
@@ -21,7 +27,10 @@ interface EditProductModalProps {
 
 export default function EditProductModal({ product, open, onOpenChange }: EditProductModalProps) {
   const [inventory, setInventory] = useState<Record<string, Record<string, number>>>({});
+  const [costOverrides, setCostOverrides] = useState<Record<string, Record<string, string>>>({});
+  const [reorderOverrides, setReorderOverrides] = useState<Record<string, Record<string, string>>>({});
   const { toast } = useToast();
+  const { categories, getCategoryLabel } = useCategories();
   const queryClient = useQueryClient();
 
   // Get current inventory for this product
@@ -34,13 +43,21 @@ export default function EditProductModal({ product, open, onOpenChange }: EditPr
   useEffect(() => {
     if (currentInventory && Array.isArray(currentInventory)) {
       const inventoryMap: Record<string, Record<string, number>> = {};
+      const costMap: Record<string, Record<string, string>> = {};
+      const reorderMap: Record<string, Record<string, string>> = {};
       currentInventory.forEach((item: any) => {
         if (!inventoryMap[item.color]) {
           inventoryMap[item.color] = {};
+          costMap[item.color] = {};
+          reorderMap[item.color] = {};
         }
         inventoryMap[item.color][item.size] = item.quantity;
+        costMap[item.color][item.size] = item.costPrice || "";
+        reorderMap[item.color][item.size] = item.reorderPoint === null ? "" : String(item.reorderPoint);
       });
       setInventory(inventoryMap);
+      setCostOverrides(costMap);
+      setReorderOverrides(reorderMap);
     }
   }, [currentInventory]);
 
@@ -49,14 +66,20 @@ export default function EditProductModal({ product, open, onOpenChange }: EditPr
     defaultValues: {
       modelNumber: product.modelNumber,
       companyName: product.companyName,
+      supplierId: product.supplierId,
       productType: product.productType,
       storePrice: product.storePrice.toString(),
       onlinePrice: product.onlinePrice.toString(),
+      costPrice: product.costPrice || "",
+      reorderPoint: product.reorderPoint,
       imageUrl: product.imageUrl || "",
       specifications: product.specifications || "",
     },
   });
 
+  const watchedPrices = form.watch(["storePrice", "onlinePrice", "costPrice"]);
+  const watchedReorderPoint = form.watch("reorderPoint");
+
   const updateProductMutation = useMutation({
     mutationFn: async (data: { product: InsertProduct; inventory: any[] }) => {
       const response = await apiRequest("PUT", `/api/products/${product.id}`, data);
@@ -65,6 +88,8 @@ export default function EditProductModal({ product, open, onOpenChange }: EditPr
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/products"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory/low-stock"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/suppliers"] });
       toast({
         title: "تم التحديث بنجاح",
         description: "تم تحديث المنتج والمخزون بنجاح",
@@ -90,13 +115,15 @@ export default function EditProductModal({ product, open, onOpenChange }: EditPr
             color,
             size,
             quantity: inventory[color][size],
+            costPrice: costOverrides[color]?.[size] || null,
+            reorderPoint: reorderOverrides[color]?.[size] ? Math.max(0, parseInt(reorderOverrides[color][size]) || 0) : null,
           });
         }
       }
     }
 
     updateProductMutation.mutate({
-      product: data,
+      product: { ...data, costPrice: data.costPrice || null },
       inventory: inventoryArray,
     });
   };
@@ -135,12 +162,16 @@ export default function EditProductModal({ product, open, onOpenChange }: EditPr
                 name="companyName"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>اسم الشركة <span className="text-destructive">*</span></FormLabel>
+                    <FormLabel>المورد <span className="text-destructive">*</span></FormLabel>
                     <FormControl>
-                      <Input 
-                        placeholder="مثال: شركة الأزياء الراقية" 
-                        {...field}
-                        data-testid="input-edit-company-name"
+                      <SupplierPicker
+                        supplierId={form.watch("supplierId")}
+                        name={field.value}
+                        onChange={(supplierId, name) => {
+                          form.setValue("supplierId", supplierId);
+                          field.onChange(name);
+                        }}
+                        testId="select-edit-supplier"
                       />
                     </FormControl>
                     <FormMessage />
@@ -153,19 +184,19 @@ export default function EditProductModal({ product, open, onOpenChange }: EditPr
                 name="productType"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>نوع المنتج <span className="text-destructive">*</span></FormLabel>
+                    <FormLabel>التصنيف <span className="text-destructive">*</span></FormLabel>
                     <Select onValueChange={field.onChange} defaultValue={field.value}>
                       <FormControl>
                         <SelectTrigger data-testid="select-edit-product-type">
-                          <SelectValue placeholder="اختر نوع المنتج" />
+                          <SelectValue placeholder="اختر التصنيف" />
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        <SelectItem value="dress">فستان</SelectItem>
-                        <SelectItem value="evening-wear">فستان سهرة</SelectItem>
-                        <SelectItem value="hijab">حجاب</SelectItem>
-                        <SelectItem value="abaya">عباية</SelectItem>
-                        <SelectItem value="accessories">إكسسوارات</SelectItem>
+                        {categories.map((category) => (
+                          <SelectItem key={category.id} value={category.id}>
+                            {getCategoryLabel(category)}
+                          </SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                     <FormMessage />
@@ -180,11 +211,10 @@ export default function EditProductModal({ product, open, onOpenChange }: EditPr
                   <FormItem>
                     <FormLabel>صورة المنتج</FormLabel>
                     <FormControl>
-                      <Input 
-                        placeholder="رابط الصورة" 
-                        {...field}
+                      <ImageUpload
                         value={field.value || ""}
-                        data-testid="input-edit-image-url"
+                        onChange={field.onChange}
+                        testIdPrefix="edit-"
                       />
                     </FormControl>
                     <FormMessage />
@@ -231,6 +261,56 @@ export default function EditProductModal({ product, open, onOpenChange }: EditPr
                   </FormItem>
                 )}
               />
+
+              <FormField
+                control={form.control}
+                name="costPrice"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>سعر التكلفة (درهم)</FormLabel>
+                    <FormControl>
+                      <Input 
+                        type="number" 
+                        step="0.01" 
+                        placeholder="0.00" 
+                        {...field}
+                        value={field.value || ""}
+                        data-testid="input-edit-cost-price"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="flex flex-col justify-end text-sm" data-testid="text-edit-margin">
+                <span className="text-muted-foreground">هامش الربح</span>
+                <span className="font-medium">
+                  المتجر {formatMargin(calculateMargin(watchedPrices[0], watchedPrices[2]))}
+                  {" · "}الأونلاين {formatMargin(calculateMargin(watchedPrices[1], watchedPrices[2]))}
+                </span>
+              </div>
+
+              <FormField
+                control={form.control}
+                name="reorderPoint"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>حد إعادة الطلب</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="0"
+                        placeholder={`من التصنيف: ${resolveCategoryReorderPoint(categories, form.watch("productType"))}`}
+                        value={field.value ?? ""}
+                        onChange={(e) => field.onChange(e.target.value === "" ? null : parseInt(e.target.value))}
+                        data-testid="input-edit-reorder-point"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
             </div>
             
             <FormField
@@ -254,7 +334,19 @@ export default function EditProductModal({ product, open, onOpenChange }: EditPr
             />
 
             {/* Color & Size Management with Delete Functionality */}
-            <ColorSizeManager inventory={inventory} onInventoryChange={setInventory} />
+            <ColorSizeManager
+              categoryId={form.watch("productType")}
+              inventory={inventory}
+              onInventoryChange={setInventory}
+              costOverrides={costOverrides}
+              onCostOverridesChange={setCostOverrides}
+              defaultCost={watchedPrices[2]}
+              reorderOverrides={reorderOverrides}
+              onReorderOverridesChange={setReorderOverrides}
+              defaultReorderPoint={watchedReorderPoint ?? resolveCategoryReorderPoint(categories, form.watch("productType"))}
+            />
+
+            <GalleryEditor productId={product.id} colors={Object.keys(inventory)} />
 
             {/* Form Actions */}
             <div className="flex items-center justify-end space-x-4 space-x-reverse pt-6 border-t border-border">
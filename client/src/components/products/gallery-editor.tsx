@@ -0,0 +1,201 @@
+import { useRef, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChevronLeft, ChevronRight, ImagePlus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useVariantCatalog } from "@/hooks/use-variant-catalog";
+import { apiRequest } from "@/lib/queryClient";
+import { uploadImage } from "@/lib/upload";
+import { thumbnailUrl } from "@shared/images";
+import type { ProductImage } from "@shared/schema";
+import ColorSwatch from "./color-swatch";
+
+interface GalleryEditorProps {
+  productId: string;
+  // The colors the product is stocked in, offered as image links
+  colors: string[];
+}
+
+// Select value for images of the whole product
+const ALL_COLORS = "all";
+
+// Changes are saved as they are made, separately from the product form
+export default function GalleryEditor({ productId, colors }: GalleryEditorProps) {
+  const [isUploading, setIsUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { getColorHex } = useVariantCatalog();
+  const imagesKey = ["/api/products", productId, "images"];
+
+  const { data: images } = useQuery<ProductImage[]>({
+    queryKey: imagesKey,
+  });
+
+  const onError = () => {
+    toast({
+      title: "خطأ",
+      description: "تعذر حفظ التغيير على صور المنتج",
+      variant: "destructive",
+    });
+  };
+
+  const updateColorMutation = useMutation({
+    mutationFn: async ({ id, color }: { id: string; color: string | null }) => {
+      const response = await apiRequest("PUT", `/api/products/${productId}/images/${id}`, { color });
+      return response.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: imagesKey }),
+    onError,
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: async (imageIds: string[]) => {
+      const response = await apiRequest("PUT", `/api/products/${productId}/images/order`, { imageIds });
+      return response.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: imagesKey }),
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/products/${productId}/images/${id}`);
+      return response.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: imagesKey }),
+    onError,
+  });
+
+  const addFiles = async (files: FileList) => {
+    setIsUploading(true);
+    try {
+      // One at a time so the gallery keeps the order the files were picked in
+      for (let i = 0; i < files.length; i++) {
+        const { url } = await uploadImage(files[i]);
+        await apiRequest("POST", `/api/products/${productId}/images`, { url });
+      }
+    } catch (error) {
+      toast({
+        title: "تعذر رفع الصورة",
+        description: error instanceof Error ? error.message : "حدث خطأ غير متوقع",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUploading(false);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+      queryClient.invalidateQueries({ queryKey: imagesKey });
+    }
+  };
+
+  // In RTL the gallery reads right to left, so "earlier" is the right-hand arrow
+  const move = (index: number, offset: number) => {
+    const ids = (images || []).map(image => image.id);
+    const [id] = ids.splice(index, 1);
+    ids.splice(index + offset, 0, id);
+    reorderMutation.mutate(ids);
+  };
+
+  const handleDelete = (image: ProductImage) => {
+    if (confirm("هل أنت متأكد من حذف هذه الصورة؟")) {
+      deleteMutation.mutate(image.id);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="text-lg font-semibold">معرض الصور</h4>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isUploading}
+          data-testid="button-add-gallery-images"
+        >
+          <ImagePlus className="w-4 h-4 ml-2" />
+          {isUploading ? "جاري رفع الصور..." : "إضافة صور"}
+        </Button>
+        <input
+          type="file"
+          ref={fileInputRef}
+          onChange={(e) => e.target.files && addFiles(e.target.files)}
+          accept="image/*"
+          multiple
+          className="hidden"
+          data-testid="file-input-gallery"
+        />
+      </div>
+
+      {!images || images.length === 0 ? (
+        <p className="text-sm text-muted-foreground">لا توجد صور إضافية. أضف صوراً لكل لون ليراها الموظفون عند البيع.</p>
+      ) : (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {images.map((image, index) => (
+            <div key={image.id} className="border rounded-lg p-2 space-y-2" data-testid={`gallery-image-${image.id}`}>
+              <img
+                src={thumbnailUrl(image.url)}
+                alt={image.color ? `صورة باللون ${image.color}` : "صورة المنتج"}
+                className="w-full aspect-[3/4] object-cover rounded-md"
+                loading="lazy"
+              />
+              <Select
+                value={image.color || ALL_COLORS}
+                onValueChange={(value) => updateColorMutation.mutate({ id: image.id, color: value === ALL_COLORS ? null : value })}
+              >
+                <SelectTrigger className="h-8" data-testid={`select-gallery-color-${image.id}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_COLORS}>كل الألوان</SelectItem>
+                  {colors.map((color) => (
+                    <SelectItem key={color} value={color}>
+                      <span className="flex items-center gap-2">
+                        <ColorSwatch hex={getColorHex(color)} />
+                        {color}
+                      </span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="flex items-center justify-between">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => move(index, -1)}
+                  disabled={index === 0 || reorderMutation.isPending}
+                  title="تقديم"
+                >
+                  <ChevronRight className="w-4 h-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleDelete(image)}
+                  className="text-destructive"
+                  data-testid={`button-delete-gallery-image-${image.id}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => move(index, 1)}
+                  disabled={index === images.length - 1 || reorderMutation.isPending}
+                  title="تأخير"
+                >
+                  <ChevronLeft className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
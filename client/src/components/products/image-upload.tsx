@@ -0,0 +1,89 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { uploadImage } from "@/lib/upload";
+import { thumbnailUrl } from "@shared/images";
+
+interface ImageUploadProps {
+  value: string;
+  onChange: (url: string) => void;
+  // Prefixes the test ids, e.g. "edit-" gives "input-edit-image-url"
+  testIdPrefix?: string;
+}
+
+// Uploads the chosen file right away; the form only keeps the short URL the server returns
+export default function ImageUpload({ value, onChange, testIdPrefix = "" }: ImageUploadProps) {
+  const [isUploading, setIsUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const upload = async (file: File) => {
+    setIsUploading(true);
+    try {
+      const image = await uploadImage(file);
+      onChange(image.url);
+    } catch (error) {
+      toast({
+        title: "تعذر رفع الصورة",
+        description: error instanceof Error ? error.message : "حدث خطأ غير متوقع",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUploading(false);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isUploading}
+          data-testid={`button-${testIdPrefix}upload-image`}
+        >
+          {isUploading ? "جاري رفع الصورة..." : "رفع صورة من الجهاز"}
+        </Button>
+        <input
+          type="file"
+          ref={fileInputRef}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) upload(file);
+          }}
+          accept="image/*"
+          className="hidden"
+          data-testid={`file-input-${testIdPrefix}image`}
+        />
+      </div>
+      <Input
+        placeholder="أو أدخل رابط الصورة"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        dir="ltr"
+        data-testid={`input-${testIdPrefix}image-url`}
+      />
+      {value && (
+        <div className="mt-2 relative w-32">
+          <img
+            src={thumbnailUrl(value)}
+            alt="معاينة الصورة"
+            className="w-32 h-32 object-cover rounded-md border"
+          />
+          <Button
+            type="button"
+            variant="destructive"
+            size="sm"
+            onClick={() => onChange("")}
+            className="absolute top-1 right-1 h-6 w-6 p-0"
+          >
+            ×
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
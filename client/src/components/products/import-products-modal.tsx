@@ -0,0 +1,233 @@
+import { useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Download, FileSpreadsheet, Upload } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useCategories } from "@/hooks/use-categories";
+import type { ImportPreview } from "@shared/schema";
+
+interface ImportProductsModalProps {
+  onClose: () => void;
+}
+
+const TEMPLATE_CSV =
+  "modelNumber,companyName,productType,storePrice,onlinePrice,costPrice,color,size,quantity\n" +
+  "DRS-001,شركة المثال,dress,250,270,150,أسود,38,4\n" +
+  "DRS-001,شركة المثال,dress,250,270,150,أسود,40,6\n";
+
+// Posts the file as multipart form data. The import endpoints answer a file with invalid
+// rows with a 400 that still carries the preview, so that body is returned rather than thrown.
+async function postImportFile(url: string, file: File): Promise<any> {
+  const body = new FormData();
+  body.append("file", file);
+
+  const response = await fetch(url, { method: "POST", body, credentials: "include" });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok && !(response.status === 400 && Array.isArray(data.errors))) {
+    throw new Error(response.status === 413 ? "حجم الملف أكبر من 5 ميجابايت" : data.message || "تعذر قراءة الملف");
+  }
+  return data;
+}
+
+export default function ImportProductsModal({ onClose }: ImportProductsModalProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const { getCategoryName } = useCategories();
+  const queryClient = useQueryClient();
+
+  const showError = (error: unknown) => {
+    toast({
+      title: "خطأ",
+      description: error instanceof Error ? error.message : "حدث خطأ غير متوقع",
+      variant: "destructive",
+    });
+  };
+
+  const selectFile = async (selected: File) => {
+    setFile(selected);
+    setPreview(null);
+    setIsReading(true);
+    try {
+      setPreview(await postImportFile("/api/products/import/preview", selected));
+    } catch (error) {
+      setFile(null);
+      showError(error);
+    } finally {
+      setIsReading(false);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  // The server validates the file again and answers with a fresh preview if anything changed since
+  const confirmImport = async () => {
+    if (!file) return;
+    setIsImporting(true);
+    try {
+      const result = await postImportFile("/api/products/import", file);
+      if (result.errors) {
+        setPreview(result);
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory/low-stock"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/suppliers"] });
+      toast({
+        title: "تم الاستيراد",
+        description: `تمت إضافة ${result.created} منتج وتحديث ${result.updated} منتج`,
+      });
+      onClose();
+    } catch (error) {
+      showError(error);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const downloadTemplate = () => {
+    // The byte order mark makes Excel open the Arabic text as UTF-8
+    const blob = new Blob(["\uFEFF" + TEMPLATE_CSV], { type: "text/csv;charset=utf-8" });
+    const link = document.createElement("a");
+    link.href = URL.createObjectURL(blob);
+    link.download = "products-import-template.csv";
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  const createCount = preview?.products.filter(item => item.action === "create").length ?? 0;
+  const updateCount = preview?.products.filter(item => item.action === "update").length ?? 0;
+  const canImport = !!preview && preview.errors.length === 0 && preview.products.length > 0;
+
+  return (
+    <Dialog open={true} onOpenChange={onClose}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-auto">
+        <DialogHeader>
+          <DialogTitle>استيراد المنتجات من ملف</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="border border-dashed border-border rounded-lg p-6 text-center space-y-3">
+            <FileSpreadsheet className="h-10 w-10 mx-auto text-muted-foreground" />
+            <p className="text-sm text-muted-foreground">
+              ملف CSV أو XLSX بصف لكل لون ومقاس: رقم الموديل، الشركة، التصنيف، سعر المحل، سعر الأونلاين، سعر التكلفة (اختياري)، اللون، المقاس والكمية.
+              الموديلات الموجودة تُحدَّث وتُضبط كمياتها على ما في الملف.
+            </p>
+            <div className="flex justify-center gap-2">
+              <Button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isReading || isImporting}
+                data-testid="button-choose-import-file"
+              >
+                <Upload className="w-4 h-4 ml-2" />
+                {isReading ? "جاري قراءة الملف..." : file ? "اختيار ملف آخر" : "اختيار ملف"}
+              </Button>
+              <Button type="button" variant="outline" onClick={downloadTemplate} data-testid="button-download-import-template">
+                <Download className="w-4 h-4 ml-2" />
+                تحميل نموذج
+              </Button>
+            </div>
+            {file && <p className="text-sm font-medium" dir="ltr">{file.name}</p>}
+            <input
+              type="file"
+              ref={fileInputRef}
+              onChange={(e) => e.target.files?.[0] && selectFile(e.target.files[0])}
+              accept=".csv,.xlsx"
+              className="hidden"
+              data-testid="file-input-import"
+            />
+          </div>
+
+          {preview && (
+            <>
+              <div className="flex flex-wrap gap-2" data-testid="import-summary">
+                <Badge variant="outline">{preview.rowCount} صف</Badge>
+                <Badge>{createCount} منتج جديد</Badge>
+                <Badge variant="secondary">{updateCount} منتج سيتم تحديثه</Badge>
+                {preview.errors.length > 0 && (
+                  <Badge variant="destructive">{preview.errors.length} خطأ</Badge>
+                )}
+              </div>
+
+              {preview.errors.length > 0 && (
+                <div className="space-y-2">
+                  <h4 className="font-semibold text-destructive">أخطاء يجب تصحيحها في الملف قبل الاستيراد</h4>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="text-right w-24">الصف</TableHead>
+                        <TableHead className="text-right">الخطأ</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {preview.errors.map((error, index) => (
+                        <TableRow key={index} data-testid={`import-error-${error.row}`}>
+                          <TableCell>{error.row}</TableCell>
+                          <TableCell>{error.message}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+
+              {preview.products.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="text-right">رقم الموديل</TableHead>
+                      <TableHead className="text-right">الشركة</TableHead>
+                      <TableHead className="text-right">التصنيف</TableHead>
+                      <TableHead className="text-right">سعر المحل</TableHead>
+                      <TableHead className="text-right">الألوان والمقاسات</TableHead>
+                      <TableHead className="text-right">الكمية</TableHead>
+                      <TableHead className="text-right">الإجراء</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.products.map(({ product, variants, action }) => (
+                      <TableRow key={product.modelNumber} data-testid={`import-product-${product.modelNumber}`}>
+                        <TableCell className="font-medium">{product.modelNumber}</TableCell>
+                        <TableCell>{product.companyName}</TableCell>
+                        <TableCell>{getCategoryName(product.productType)}</TableCell>
+                        <TableCell>{product.storePrice}</TableCell>
+                        <TableCell>{variants.length}</TableCell>
+                        <TableCell>{variants.reduce((sum, variant) => sum + variant.quantity, 0)}</TableCell>
+                        <TableCell>
+                          {action === "create"
+                            ? <Badge>جديد</Badge>
+                            : <Badge variant="secondary">تحديث</Badge>}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </>
+          )}
+
+          <div className="flex gap-2 justify-end">
+            <Button type="button" variant="outline" onClick={onClose}>
+              إلغاء
+            </Button>
+            <Button
+              type="button"
+              onClick={confirmImport}
+              disabled={!canImport || isImporting}
+              data-testid="button-confirm-import"
+            >
+              {isImporting ? "جاري الاستيراد..." : "تأكيد الاستيراد"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
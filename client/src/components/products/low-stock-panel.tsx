@@ -0,0 +1,80 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle } from "lucide-react";
+import type { LowStockVariant } from "@shared/schema";
+
+// Rows shown before "show all"
+const COLLAPSED_ROWS = 8;
+
+// Colors and sizes below their reorder point, emptiest first
+export default function LowStockPanel() {
+  const [showAll, setShowAll] = useState(false);
+
+  const { data: variants, isLoading } = useQuery<LowStockVariant[]>({
+    queryKey: ["/api/inventory/low-stock"],
+  });
+
+  const visible = showAll ? variants : variants?.slice(0, COLLAPSED_ROWS);
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <AlertTriangle className="h-5 w-5 text-destructive" />
+          أصناف تحتاج إعادة طلب
+          {variants && variants.length > 0 && <Badge variant="destructive">{variants.length}</Badge>}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-center text-muted-foreground py-4">جاري التحميل...</p>
+        ) : !variants || variants.length === 0 ? (
+          <p className="text-center text-muted-foreground py-4">كل الألوان والمقاسات فوق حد إعادة الطلب</p>
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-right">المنتج</TableHead>
+                  <TableHead className="text-right">اللون</TableHead>
+                  <TableHead className="text-right">المقاس</TableHead>
+                  <TableHead className="text-right">الكمية</TableHead>
+                  <TableHead className="text-right">حد إعادة الطلب</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visible!.map((variant) => (
+                  <TableRow key={variant.id} data-testid={`row-low-stock-${variant.id}`}>
+                    <TableCell className="font-medium">
+                      {variant.product.modelNumber}
+                      <span className="text-muted-foreground text-sm"> - {variant.product.companyName}</span>
+                    </TableCell>
+                    <TableCell>{variant.color}</TableCell>
+                    <TableCell>{variant.size}</TableCell>
+                    <TableCell>
+                      <Badge variant={variant.quantity === 0 ? "destructive" : "secondary"}>
+                        {variant.quantity === 0 ? "نفد" : variant.quantity}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">{variant.threshold}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {variants.length > COLLAPSED_ROWS && (
+              <div className="flex justify-center mt-2">
+                <Button variant="ghost" size="sm" onClick={() => setShowAll(!showAll)} data-testid="button-toggle-low-stock">
+                  {showAll ? "عرض أقل" : `عرض الكل (${variants.length})`}
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,275 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CalendarClock, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+import type { PriceChangeWithUser, ScheduledPriceChange } from "@shared/schema";
+
+interface PriceHistoryProps {
+  productId: string;
+}
+
+const channelLabels: Record<string, string> = {
+  'in-store': 'المتجر',
+  'online': 'الأونلاين',
+};
+
+const reasonLabels: Record<string, string> = {
+  'created': 'إضافة المنتج',
+  'manual-edit': 'تعديل يدوي',
+  'import': 'استيراد',
+  'schedule-start': 'بداية تغيير مجدول',
+  'schedule-end': 'نهاية تغيير مجدول',
+  'bulk-update': 'تعديل بالجملة',
+};
+
+const statusLabels: Record<string, string> = {
+  'pending': 'مجدول',
+  'active': 'سارٍ',
+  'completed': 'منتهٍ',
+  'cancelled': 'ملغى',
+};
+
+const emptyForm = { channel: "online", price: "", startsAt: "", endsAt: "" };
+
+const formatDate = (date: string | Date) => new Date(date).toLocaleString('ar-AE');
+
+export default function PriceHistory({ productId }: PriceHistoryProps) {
+  const [formData, setFormData] = useState(emptyForm);
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: history, isLoading } = useQuery<PriceChangeWithUser[]>({
+    queryKey: ["/api/products", productId, "price-history"],
+  });
+
+  const { data: schedules } = useQuery<ScheduledPriceChange[]>({
+    queryKey: ["/api/products", productId, "price-schedules"],
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/products", productId, "price-schedules"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/products", productId, "price-history"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+  };
+
+  const scheduleMutation = useMutation({
+    mutationFn: async (data: typeof emptyForm) => {
+      const response = await apiRequest("POST", `/api/products/${productId}/price-schedules`, {
+        channel: data.channel,
+        price: data.price,
+        // datetime-local values are local time; the server stores instants
+        startsAt: new Date(data.startsAt).toISOString(),
+        endsAt: data.endsAt ? new Date(data.endsAt).toISOString() : null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      setFormData(emptyForm);
+      toast({
+        title: "تمت الجدولة",
+        description: "سيتم تطبيق السعر الجديد تلقائياً في الموعد المحدد",
+      });
+    },
+    onError: (error) => {
+      const overlaps = error instanceof Error && error.message.startsWith("409:");
+      toast({
+        title: "تعذر جدولة تغيير السعر",
+        description: overlaps
+          ? "يوجد تغيير مجدول آخر لنفس القناة في هذه الفترة"
+          : "تأكد من أن السعر صحيح وأن موعد البداية في المستقبل وقبل موعد النهاية",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/products/${productId}/price-schedules/${id}`);
+      return response.json();
+    },
+    onSuccess: invalidate,
+    onError: () => {
+      toast({
+        title: "خطأ",
+        description: "تعذر إلغاء تغيير السعر",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    scheduleMutation.mutate(formData);
+  };
+
+  const handleCancel = (change: ScheduledPriceChange) => {
+    const message = change.status === "active"
+      ? "سيعود السعر السابق فوراً. هل تريد إلغاء هذا التغيير؟"
+      : "هل تريد إلغاء هذا التغيير المجدول؟";
+    if (confirm(message)) {
+      cancelMutation.mutate(change.id);
+    }
+  };
+
+  const openSchedules = (schedules || []).filter(change => change.status === "pending" || change.status === "active");
+
+  return (
+    <div className="space-y-4">
+      <h4 className="text-lg font-bold text-center">الأسعار</h4>
+
+      {/* التغييرات المجدولة */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 space-y-4">
+        <h5 className="font-semibold flex items-center gap-2">
+          <CalendarClock className="h-4 w-4" />
+          تغييرات الأسعار المجدولة
+        </h5>
+
+        {openSchedules.length === 0 ? (
+          <p className="text-sm text-muted-foreground">لا توجد تغييرات مجدولة</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="text-right">القناة</TableHead>
+                <TableHead className="text-right">السعر</TableHead>
+                <TableHead className="text-right">من</TableHead>
+                <TableHead className="text-right">إلى</TableHead>
+                <TableHead className="text-right">الحالة</TableHead>
+                {can("products:edit") && <TableHead className="text-right"></TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {openSchedules.map((change) => (
+                <TableRow key={change.id} data-testid={`row-price-schedule-${change.id}`}>
+                  <TableCell>{channelLabels[change.channel] || change.channel}</TableCell>
+                  <TableCell className="font-medium">{change.price} درهم</TableCell>
+                  <TableCell>{formatDate(change.startsAt)}</TableCell>
+                  <TableCell>{change.endsAt ? formatDate(change.endsAt) : "دائم"}</TableCell>
+                  <TableCell>
+                    <Badge variant={change.status === "active" ? "default" : "outline"}>{statusLabels[change.status]}</Badge>
+                  </TableCell>
+                  {can("products:edit") && (
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleCancel(change)}
+                        disabled={cancelMutation.isPending}
+                        title="إلغاء"
+                        data-testid={`button-cancel-price-schedule-${change.id}`}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {can("products:edit") && (
+          <form onSubmit={handleSubmit} className="grid grid-cols-2 md:grid-cols-5 gap-3 items-end">
+            <div>
+              <Label>القناة</Label>
+              <Select value={formData.channel} onValueChange={(channel) => setFormData({ ...formData, channel })}>
+                <SelectTrigger data-testid="select-price-schedule-channel">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="in-store">المتجر</SelectItem>
+                  <SelectItem value="online">الأونلاين</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="price-schedule-price">السعر الجديد</Label>
+              <Input
+                id="price-schedule-price"
+                type="number"
+                min="0"
+                step="0.01"
+                value={formData.price}
+                onChange={(e) => setFormData({ ...formData, price: e.target.value })}
+                required
+                data-testid="input-price-schedule-price"
+              />
+            </div>
+            <div>
+              <Label htmlFor="price-schedule-starts">من</Label>
+              <Input
+                id="price-schedule-starts"
+                type="datetime-local"
+                value={formData.startsAt}
+                onChange={(e) => setFormData({ ...formData, startsAt: e.target.value })}
+                required
+                data-testid="input-price-schedule-starts"
+              />
+            </div>
+            <div>
+              <Label htmlFor="price-schedule-ends">إلى (اختياري)</Label>
+              <Input
+                id="price-schedule-ends"
+                type="datetime-local"
+                value={formData.endsAt}
+                onChange={(e) => setFormData({ ...formData, endsAt: e.target.value })}
+                data-testid="input-price-schedule-ends"
+              />
+            </div>
+            <Button type="submit" disabled={scheduleMutation.isPending} data-testid="button-add-price-schedule">
+              {scheduleMutation.isPending ? "جاري الحفظ..." : "جدولة"}
+            </Button>
+          </form>
+        )}
+      </div>
+
+      {/* سجل الأسعار */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+        <h5 className="font-semibold mb-3">سجل تغييرات الأسعار</h5>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground text-center">جاري التحميل...</p>
+        ) : !history || history.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center">لم يتغير سعر هذا المنتج بعد</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="text-right">التاريخ</TableHead>
+                <TableHead className="text-right">القناة</TableHead>
+                <TableHead className="text-right">السعر السابق</TableHead>
+                <TableHead className="text-right">السعر الجديد</TableHead>
+                <TableHead className="text-right">السبب</TableHead>
+                <TableHead className="text-right">بواسطة</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {history.map((entry) => (
+                <TableRow key={entry.id} data-testid={`row-price-history-${entry.id}`}>
+                  <TableCell>{formatDate(entry.createdAt)}</TableCell>
+                  <TableCell>{channelLabels[entry.channel] || entry.channel}</TableCell>
+                  <TableCell className="text-muted-foreground">{entry.oldPrice ?? "—"}</TableCell>
+                  <TableCell className="font-medium">{entry.newPrice}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{reasonLabels[entry.reason] || entry.reason}</Badge>
+                  </TableCell>
+                  <TableCell>{entry.changedByName || (entry.scheduledChangeId ? "تلقائي" : "—")}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Image as ImageIcon } from "lucide-react";
+import { thumbnailUrl } from "@shared/images";
+import type { Product, ProductImage } from "@shared/schema";
+
+interface ProductGalleryProps {
+  product: Product;
+}
+
+// The cover image followed by the gallery; clicking a thumbnail shows it large
+export default function ProductGallery({ product }: ProductGalleryProps) {
+  const [selectedUrl, setSelectedUrl] = useState<string | null>(null);
+
+  const { data: images } = useQuery<ProductImage[]>({
+    queryKey: ["/api/products", product.id, "images"],
+  });
+
+  const slides: { url: string; color: string | null }[] = [];
+  if (product.imageUrl) {
+    slides.push({ url: product.imageUrl, color: null });
+  }
+  (images || []).forEach(image => slides.push({ url: image.url, color: image.color }));
+
+  const current = slides.find(slide => slide.url === selectedUrl) || slides[0];
+
+  if (!current) {
+    return (
+      <div className="flex justify-center">
+        <div className="w-48 h-64 bg-muted rounded-lg flex flex-col items-center justify-center">
+          <ImageIcon className="h-12 w-12 text-muted-foreground mb-2" />
+          <span className="text-muted-foreground text-sm">لا توجد صورة</span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col items-center gap-3">
+      <div className="relative w-64 h-80 bg-muted rounded-lg overflow-hidden">
+        <img
+          src={current.url}
+          alt={`صورة ${product.modelNumber}`}
+          className="w-full h-full object-cover"
+          data-testid="gallery-main-image"
+        />
+        {current.color && (
+          <Badge className="absolute bottom-2 right-2">{current.color}</Badge>
+        )}
+      </div>
+
+      {slides.length > 1 && (
+        <div className="flex flex-wrap justify-center gap-2">
+          {slides.map((slide) => (
+            <button
+              key={slide.url}
+              type="button"
+              onClick={() => setSelectedUrl(slide.url)}
+              className={`w-14 h-16 rounded-md overflow-hidden border-2 ${slide.url === current.url ? "border-primary" : "border-transparent"}`}
+              title={slide.color || "كل الألوان"}
+              data-testid={`gallery-thumb-${slide.url}`}
+            >
+              <img src={thumbnailUrl(slide.url)} alt="" className="w-full h-full object-cover" loading="lazy" />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -6,33 +6,109 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
-import { Eye, Edit, Trash2, Package, Image as ImageIcon } from "lucide-react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Eye, Edit, Trash2, Package, Image as ImageIcon, ChevronRight, ChevronLeft, PackageMinus } from "lucide-react";
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useCategories } from "@/hooks/use-categories";
 import EditProductModal from "./edit-product-modal";
-import type { ProductWithInventory } from "@shared/schema";
+import StockMovementHistory from "./stock-movement-history";
+import StockAdjustmentDialog from "./stock-adjustment-dialog";
+import ProductGallery from "./product-gallery";
+import PriceHistory from "./price-history";
+import type { ProductWithInventory, Supplier } from "@shared/schema";
+import {
+  DEFAULT_PRODUCT_LIST_QUERY,
+  type ProductFilter,
+  type ProductListQuery,
+  type ProductPage,
+} from "@shared/product-filter";
+import { calculateMargin, formatMargin } from "@shared/pricing";
+import { thumbnailUrl } from "@shared/images";
 
 interface ProductTableProps {
-  products?: ProductWithInventory[];
-  isLoading: boolean;
+  // Pass both to control the search, filters and page from outside, e.g. to keep them in the URL
+  query?: ProductListQuery;
+  onQueryChange?: (query: ProductListQuery) => void;
 }
 
-export default function ProductTable({ products, isLoading }: ProductTableProps) {
-  const [searchTerm, setSearchTerm] = useState("");
-  const [statusFilter, setStatusFilter] = useState("all");
+const sortOptions: { value: string; label: string }[] = [
+  { value: "createdAt:desc", label: "الأحدث أولاً" },
+  { value: "createdAt:asc", label: "الأقدم أولاً" },
+  { value: "modelNumber:asc", label: "رقم الموديل" },
+  { value: "companyName:asc", label: "الشركة" },
+  { value: "storePrice:asc", label: "السعر: من الأقل" },
+  { value: "storePrice:desc", label: "السعر: من الأعلى" },
+  { value: "totalQuantity:asc", label: "الكمية: من الأقل" },
+  { value: "totalQuantity:desc", label: "الكمية: من الأكثر" },
+];
+
+const PAGE_SIZES = [12, 24, 48];
+
+// Why the server kept a product instead of deleting it (ProductInUseError reasons)
+const productInUseLabels: Record<string, string> = {
+  sales: "تم بيع المنتج من قبل، ولا يمكن حذفه",
+  returns: "للمنتج مرتجعات مسجلة، ولا يمكن حذفه",
+  stocktakes: "المنتج مدرج في جلسة جرد، ولا يمكن حذفه",
+  "stock-adjustments": "للمنتج تسويات مخزون مسجلة، ولا يمكن حذفه",
+  "stock-movements": "للمنتج حركات مخزون مسجلة، ولا يمكن حذفه",
+  "price-history": "للمنتج سجل تغييرات أسعار، ولا يمكن حذفه",
+};
+
+// Products are searched, filtered, sorted and paged on the server, one page at a time
+export default function ProductTable({ query: controlledQuery, onQueryChange }: ProductTableProps) {
+  const [ownQuery, setOwnQuery] = useState(DEFAULT_PRODUCT_LIST_QUERY);
+  const query = controlledQuery ?? ownQuery;
+  const setQuery = onQueryChange ?? setOwnQuery;
+  // Typed text is applied after a pause instead of on every keystroke
+  const [typed, setTyped] = useState({ search: query.search, minPrice: query.minPrice, maxPrice: query.maxPrice });
   const [selectedProduct, setSelectedProduct] = useState<ProductWithInventory | null>(null);
   const [isViewModalOpen, setIsViewModalOpen] = useState(false);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
+  const [historyVariant, setHistoryVariant] = useState<{ color: string; size: string } | null>(null);
+  const [isAdjustOpen, setIsAdjustOpen] = useState(false);
   const { toast } = useToast();
+  const { can } = useAuth();
+  const { categories, getCategoryName, getCategoryLabel } = useCategories();
   const queryClient = useQueryClient();
 
+  const { data: productPage, isLoading } = useQuery<ProductPage>({
+    queryKey: ["/api/products", query],
+    placeholderData: keepPreviousData,
+  });
+
+  const { data: suppliers } = useQuery<Supplier[]>({
+    queryKey: ["/api/suppliers"],
+  });
+
+  // Keep the open details in step with the refetched page, e.g. after a stock adjustment
+  useEffect(() => {
+    const fresh = selectedProduct && productPage?.items.find(product => product.id === selectedProduct.id);
+    if (fresh) setSelectedProduct(fresh);
+  }, [productPage]);
+
+  // Changing any filter starts again from the first page
+  const updateFilter = (changes: Partial<ProductFilter>) => setQuery({ ...query, ...changes, page: 1 });
+
+  useEffect(() => {
+    setTyped({ search: query.search, minPrice: query.minPrice, maxPrice: query.maxPrice });
+  }, [query.search, query.minPrice, query.maxPrice]);
+
+  useEffect(() => {
+    if (typed.search === query.search && typed.minPrice === query.minPrice && typed.maxPrice === query.maxPrice) return;
+    // Half-typed prices such as "12." wait until they are complete
+    if (!/^(\d+(\.\d{1,2})?)?$/.test(typed.minPrice) || !/^(\d+(\.\d{1,2})?)?$/.test(typed.maxPrice)) return;
+    const timer = setTimeout(() => updateFilter(typed), 300);
+    return () => clearTimeout(timer);
+  }, [typed]);
+
   const deleteProductMutation = useMutation({
     mutationFn: async (id: string) => {
       const response = await fetch(`/api/products/${id}`, {
         method: 'DELETE'
       });
       if (!response.ok) {
-        throw new Error('Failed to delete product');
+        throw new Error(`${response.status}: ${await response.text()}`);
       }
       return response.json();
     },
@@ -43,10 +119,18 @@ export default function ProductTable({ products, isLoading }: ProductTableProps)
         description: "تم حذف المنتج بنجاح"
       });
     },
-    onError: () => {
+    onError: (error) => {
+      // A 409 names the bundles that use the product, or the records that keep it
+      const conflict = error instanceof Error && error.message.startsWith("409:")
+        ? JSON.parse(error.message.slice(4)) as { bundles?: string[]; reason?: string }
+        : undefined;
       toast({
         title: "خطأ",
-        description: "حدث خطأ أثناء حذف المنتج",
+        description: conflict?.bundles
+          ? "المنتج جزء من طقم، احذفه من الطقم أولاً"
+          : conflict?.reason
+            ? productInUseLabels[conflict.reason] || "المنتج له سجلات محفوظة ولا يمكن حذفه"
+            : "حدث خطأ أثناء حذف المنتج",
         variant: "destructive"
       });
     }
@@ -54,6 +138,7 @@ export default function ProductTable({ products, isLoading }: ProductTableProps)
 
   const handleView = (product: ProductWithInventory) => {
     setSelectedProduct(product);
+    setHistoryVariant(null);
     setIsViewModalOpen(true);
   };
 
@@ -68,12 +153,12 @@ export default function ProductTable({ products, isLoading }: ProductTableProps)
     }
   };
 
-  const filteredProducts = products?.filter((product) => {
-    const matchesSearch = product.modelNumber.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         product.companyName.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesStatus = statusFilter === "all" || product.status === statusFilter;
-    return matchesSearch && matchesStatus;
-  }) || [];
+  const products = productPage?.items || [];
+  const total = productPage?.total ?? 0;
+  const firstShown = total === 0 ? 0 : (query.page - 1) * query.limit + 1;
+  const lastShown = Math.min(query.page * query.limit, total);
+  const isUnfiltered = !query.search && !query.minPrice && !query.maxPrice &&
+    query.status === "all" && query.category === "all" && query.company === "all";
 
   const getStatusBadge = (status: string) => {
     switch (status) {
@@ -88,17 +173,6 @@ export default function ProductTable({ products, isLoading }: ProductTableProps)
     }
   };
 
-  const getProductTypeName = (type: string) => {
-    const typeMap: Record<string, string> = {
-      'dress': 'فستان',
-      'evening-wear': 'فستان سهرة',
-      'hijab': 'حجاب',
-      'abaya': 'عباية',
-      'accessories': 'إكسسوارات'
-    };
-    return typeMap[type] || type;
-  };
-
   if (isLoading) {
     return (
       <Card>
@@ -119,50 +193,116 @@ export default function ProductTable({ products, isLoading }: ProductTableProps)
           <CardHeader>
             <div className="flex items-center justify-between">
               <h3 className="text-lg font-semibold">جدول المخزون</h3>
-              <div className="flex items-center space-x-4 space-x-reverse">
-                <Input 
-                  type="text" 
-                  placeholder="البحث في المنتجات..." 
-                  value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
-                  className="w-64"
-                  data-testid="input-search-products"
-                />
-                <Select value={statusFilter} onValueChange={setStatusFilter}>
-                  <SelectTrigger className="w-40" data-testid="select-status-filter">
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="all">جميع المنتجات</SelectItem>
-                    <SelectItem value="in-stock">متوفر</SelectItem>
-                    <SelectItem value="low-stock">مخزون قليل</SelectItem>
-                    <SelectItem value="out-of-stock">نفذ</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
+              <span className="text-sm text-muted-foreground" data-testid="text-products-total">{total} منتج</span>
+            </div>
+            <div className="flex flex-wrap items-center gap-3 pt-2">
+              <Input 
+                type="text" 
+                placeholder="البحث في المنتجات..." 
+                value={typed.search}
+                onChange={(e) => setTyped({ ...typed, search: e.target.value })}
+                className="w-64"
+                data-testid="input-search-products"
+              />
+              <Select value={query.status} onValueChange={(status) => updateFilter({ status: status as ProductFilter["status"] })}>
+                <SelectTrigger className="w-40" data-testid="select-status-filter">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">جميع المنتجات</SelectItem>
+                  <SelectItem value="in-stock">متوفر</SelectItem>
+                  <SelectItem value="low-stock">مخزون قليل</SelectItem>
+                  <SelectItem value="out-of-stock">نفذ</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={query.category} onValueChange={(category) => updateFilter({ category })}>
+                <SelectTrigger className="w-44" data-testid="select-category-filter">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">جميع التصنيفات</SelectItem>
+                  {categories.map((category) => (
+                    <SelectItem key={category.id} value={category.id}>
+                      {getCategoryLabel(category)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={query.company} onValueChange={(company) => updateFilter({ company })}>
+                <SelectTrigger className="w-44" data-testid="select-company-filter">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">جميع الشركات</SelectItem>
+                  {suppliers?.map((supplier) => (
+                    <SelectItem key={supplier.id} value={supplier.name}>
+                      {supplier.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="أقل سعر"
+                value={typed.minPrice}
+                onChange={(e) => setTyped({ ...typed, minPrice: e.target.value })}
+                className="w-28"
+                data-testid="input-min-price-filter"
+              />
+              <Input
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="أعلى سعر"
+                value={typed.maxPrice}
+                onChange={(e) => setTyped({ ...typed, maxPrice: e.target.value })}
+                className="w-28"
+                data-testid="input-max-price-filter"
+              />
+              <Select
+                value={`${query.sort}:${query.order}`}
+                onValueChange={(value) => {
+                  const [sort, order] = value.split(":");
+                  updateFilter({ sort: sort as ProductFilter["sort"], order: order as ProductFilter["order"] });
+                }}
+              >
+                <SelectTrigger className="w-44" data-testid="select-sort">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {sortOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
           </CardHeader>
         </Card>
 
         {/* عرض المنتجات في شكل بطاقات مع صور */}
-        {filteredProducts.length === 0 ? (
+        {products.length === 0 ? (
           <Card>
             <CardContent className="p-8 text-center">
               <Package className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
               <p className="text-muted-foreground">
-                {products?.length === 0 ? "لا توجد منتجات مضافة بعد" : "لم يتم العثور على منتجات مطابقة"}
+                {total > 0
+                  ? "لا توجد منتجات في هذه الصفحة"
+                  : isUnfiltered ? "لا توجد منتجات مضافة بعد" : "لم يتم العثور على منتجات مطابقة"}
               </p>
             </CardContent>
           </Card>
         ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {filteredProducts.map((product) => (
+            {products.map((product) => (
               <Card key={product.id} className="overflow-hidden hover:shadow-lg transition-shadow">
                 {/* صورة المنتج */}
                 <div className="aspect-[3/4] bg-muted flex items-center justify-center relative overflow-hidden">
                   {product.imageUrl ? (
                     <img 
-                      src={product.imageUrl} 
+                      src={thumbnailUrl(product.imageUrl)} 
+                      loading="lazy"
                       alt={`صورة ${product.modelNumber}`}
                       className="w-full h-full object-cover"
                       onError={(e) => {
@@ -187,8 +327,8 @@ export default function ProductTable({ products, isLoading }: ProductTableProps)
                     
                     <div className="flex items-center justify-between">
                       <div className="text-right">
-                        <p className="text-sm text-muted-foreground">النوع</p>
-                        <p className="font-medium">{getProductTypeName(product.productType)}</p>
+                        <p className="text-sm text-muted-foreground">التصنيف</p>
+                        <p className="font-medium">{getCategoryName(product.productType)}</p>
                       </div>
                       <div>{getStatusBadge(product.status)}</div>
                     </div>
@@ -203,6 +343,13 @@ export default function ProductTable({ products, isLoading }: ProductTableProps)
                         <p className="font-bold text-accent">{product.onlinePrice} درهم</p>
                       </div>
                     </div>
+
+                    {can("products:edit") && (
+                      <p className="text-xs text-muted-foreground text-right" data-testid={`text-margin-${product.id}`}>
+                        هامش الربح: المتجر {formatMargin(calculateMargin(product.storePrice, product.costPrice))}
+                        {" · "}الأونلاين {formatMargin(calculateMargin(product.onlinePrice, product.costPrice))}
+                      </p>
+                    )}
                     
                     <div className="text-center p-2 bg-muted/30 rounded">
                       <p className="text-sm text-muted-foreground">المخزون المتاح</p>
@@ -211,16 +358,18 @@ export default function ProductTable({ products, isLoading }: ProductTableProps)
                     
                     {/* أزرار الإجراءات */}
                     <div className="flex items-center justify-center space-x-2 space-x-reverse pt-2">
-                      <Button 
-                        variant="outline" 
-                        size="sm" 
-                        title="تعديل"
-                        onClick={() => handleEdit(product)}
-                        data-testid={`button-edit-${product.id}`}
-                      >
-                        <Edit className="h-4 w-4 ml-1" />
-                        تعديل
-                      </Button>
+                      {can("products:edit") && (
+                        <Button 
+                          variant="outline" 
+                          size="sm" 
+                          title="تعديل"
+                          onClick={() => handleEdit(product)}
+                          data-testid={`button-edit-${product.id}`}
+                        >
+                          <Edit className="h-4 w-4 ml-1" />
+                          تعديل
+                        </Button>
+                      )}
                       <Button 
                         variant="outline" 
                         size="sm" 
@@ -231,17 +380,19 @@ export default function ProductTable({ products, isLoading }: ProductTableProps)
                         <Eye className="h-4 w-4 ml-1" />
                         التفاصيل
                       </Button>
-                      <Button 
-                        variant="outline" 
-                        size="sm" 
-                        title="حذف"
-                        onClick={() => handleDelete(product.id)}
-                        disabled={deleteProductMutation.isPending}
-                        data-testid={`button-delete-${product.id}`}
-                      >
-                        <Trash2 className="h-4 w-4 ml-1 text-destructive" />
-                        حذف
-                      </Button>
+                      {can("products:delete") && (
+                        <Button 
+                          variant="outline" 
+                          size="sm" 
+                          title="حذف"
+                          onClick={() => handleDelete(product.id)}
+                          disabled={deleteProductMutation.isPending}
+                          data-testid={`button-delete-${product.id}`}
+                        >
+                          <Trash2 className="h-4 w-4 ml-1 text-destructive" />
+                          حذف
+                        </Button>
+                      )}
                     </div>
                   </div>
                 </CardContent>
@@ -249,6 +400,50 @@ export default function ProductTable({ products, isLoading }: ProductTableProps)
             ))}
           </div>
         )}
+
+        {/* التنقل بين الصفحات */}
+        {total > 0 && (
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <p className="text-sm text-muted-foreground" data-testid="text-page-range">
+              عرض {firstShown}–{lastShown} من {total}
+            </p>
+            <div className="flex items-center gap-2">
+              <Select value={String(query.limit)} onValueChange={(limit) => setQuery({ ...query, limit: Number(limit), page: 1 })}>
+                <SelectTrigger className="w-24" data-testid="select-page-size">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PAGE_SIZES.map((size) => (
+                    <SelectItem key={size} value={String(size)}>{size} / صفحة</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setQuery({ ...query, page: query.page - 1 })}
+                disabled={query.page <= 1}
+                data-testid="button-previous-page"
+              >
+                <ChevronRight className="h-4 w-4 ml-1" />
+                السابق
+              </Button>
+              <span className="text-sm">
+                صفحة {query.page} من {productPage?.pageCount ?? 1}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setQuery({ ...query, page: query.page + 1 })}
+                disabled={query.page >= (productPage?.pageCount ?? 1)}
+                data-testid="button-next-page"
+              >
+                التالي
+                <ChevronLeft className="h-4 w-4 mr-1" />
+              </Button>
+            </div>
+          </div>
+        )}
       </div>
 
       {/* نافذة عرض التفاصيل */}
@@ -259,26 +454,8 @@ export default function ProductTable({ products, isLoading }: ProductTableProps)
               <DialogTitle>تفاصيل المنتج - {selectedProduct.modelNumber}</DialogTitle>
             </DialogHeader>
             <div className="space-y-6">
-              {/* صورة المنتج */}
-              <div className="flex justify-center">
-                <div className="w-48 h-64 bg-muted rounded-lg flex flex-col items-center justify-center relative overflow-hidden">
-                  {selectedProduct.imageUrl ? (
-                    <img 
-                      src={selectedProduct.imageUrl} 
-                      alt={`صورة ${selectedProduct.modelNumber}`}
-                      className="w-full h-full object-cover rounded-lg"
-                      onError={(e) => {
-                        e.currentTarget.style.display = 'none';
-                        e.currentTarget.nextElementSibling?.classList.remove('hidden');
-                      }}
-                    />
-                  ) : null}
-                  <div className={`text-center ${selectedProduct.imageUrl ? 'hidden' : ''}`}>
-                    <ImageIcon className="h-12 w-12 text-muted-foreground mb-2" />
-                    <span className="text-muted-foreground text-sm">لا توجد صورة</span>
-                  </div>
-                </div>
-              </div>
+              {/* صور المنتج */}
+              <ProductGallery product={selectedProduct} />
               
               {/* معلومات المنتج */}
               <div className="grid grid-cols-2 gap-4">
@@ -291,8 +468,8 @@ export default function ProductTable({ products, isLoading }: ProductTableProps)
                   <p className="text-lg">{selectedProduct.companyName}</p>
                 </div>
                 <div>
-                  <label className="text-sm font-medium text-muted-foreground">نوع المنتج</label>
-                  <p className="text-lg">{getProductTypeName(selectedProduct.productType)}</p>
+                  <label className="text-sm font-medium text-muted-foreground">التصنيف</label>
+                  <p className="text-lg">{getCategoryName(selectedProduct.productType)}</p>
                 </div>
                 <div>
                   <label className="text-sm font-medium text-muted-foreground">الحالة</label>
@@ -306,6 +483,20 @@ export default function ProductTable({ products, isLoading }: ProductTableProps)
                   <label className="text-sm font-medium text-muted-foreground">سعر الأونلاين</label>
                   <p className="text-lg font-bold text-accent">{selectedProduct.onlinePrice} درهم</p>
                 </div>
+                {can("products:edit") && (
+                  <div>
+                    <label className="text-sm font-medium text-muted-foreground">سعر التكلفة</label>
+                    <p className="text-lg font-bold">
+                      {selectedProduct.costPrice ? `${selectedProduct.costPrice} درهم` : "غير محدد"}
+                    </p>
+                  </div>
+                )}
+                {can("products:edit") && (
+                  <div>
+                    <label className="text-sm font-medium text-muted-foreground">هامش الربح (المتجر)</label>
+                    <p className="text-lg font-bold">{formatMargin(calculateMargin(selectedProduct.storePrice, selectedProduct.costPrice))}</p>
+                  </div>
+                )}
               </div>
               
               {/* تفاصيل المخزون بعرض موسع */}
@@ -348,7 +539,18 @@ export default function ProductTable({ products, isLoading }: ProductTableProps)
                                 {items
                                   .sort((a, b) => a.size.localeCompare(b.size))
                                   .map((item: any, index: number) => (
-                                  <div key={index} className="bg-accent/10 p-3 rounded-lg text-center border border-accent/20">
+                                  <button
+                                    type="button"
+                                    key={index}
+                                    onClick={() => setHistoryVariant({ color: item.color, size: item.size })}
+                                    title="عرض سجل الحركة"
+                                    className={`p-3 rounded-lg text-center border transition-colors ${
+                                      historyVariant?.color === item.color && historyVariant?.size === item.size
+                                        ? "bg-accent/30 border-accent"
+                                        : "bg-accent/10 border-accent/20 hover:bg-accent/20"
+                                    }`}
+                                    data-testid={`button-variant-history-${item.color}-${item.size}`}
+                                  >
                                     <div className="text-lg font-bold text-gray-800 mb-1">
                                       {item.size}
                                     </div>
@@ -358,13 +560,40 @@ export default function ProductTable({ products, isLoading }: ProductTableProps)
                                     <div className="text-xs text-muted-foreground">
                                       قطعة
                                     </div>
-                                  </div>
+                                    {item.sku && (
+                                      <div className="text-[10px] text-muted-foreground font-mono mt-1" dir="ltr">
+                                        {item.sku}
+                                      </div>
+                                    )}
+                                  </button>
                                 ))}
                               </div>
                             </div>
                           </div>
                         ));
                       })()}
+
+                      {can("products:edit") && (
+                        <div className="flex justify-center mb-4">
+                          <Button variant="outline" onClick={() => setIsAdjustOpen(true)} data-testid="button-adjust-stock">
+                            <PackageMinus className="h-4 w-4 ml-1" />
+                            تسوية المخزون
+                          </Button>
+                        </div>
+                      )}
+
+                      {/* سجل حركة المقاس المختار */}
+                      {historyVariant ? (
+                        <StockMovementHistory
+                          productId={selectedProduct.id}
+                          color={historyVariant.color}
+                          size={historyVariant.size}
+                        />
+                      ) : (
+                        <p className="text-sm text-muted-foreground text-center">
+                          اضغط على أي مقاس لعرض سجل حركة المخزون الخاص به
+                        </p>
+                      )}
                       
                       {/* ملخص الألوان */}
                       <div className="mt-6 p-4 bg-white/50 rounded-lg">
@@ -409,11 +638,23 @@ export default function ProductTable({ products, isLoading }: ProductTableProps)
                   )}
                 </div>
               </div>
+
+              {/* الأسعار المجدولة وسجل الأسعار */}
+              <PriceHistory productId={selectedProduct.id} />
             </div>
           </DialogContent>
         </Dialog>
       )}
 
+      {/* نافذة تسوية المخزون */}
+      {selectedProduct && isAdjustOpen && (
+        <StockAdjustmentDialog
+          product={selectedProduct}
+          variant={historyVariant ?? undefined}
+          onClose={() => setIsAdjustOpen(false)}
+        />
+      )}
+
       {/* نافذة التعديل */}
       {selectedProduct && (
         <EditProductModal 
@@ -0,0 +1,172 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { STOCK_ADJUSTMENT_REASONS, type InsertStockAdjustment, type ProductWithInventory, type StockAdjustmentReason } from "@shared/schema";
+
+export const stockAdjustmentReasonLabels: Record<string, string> = {
+  'damaged': 'تالف',
+  'lost': 'مفقود',
+  'gift': 'هدية',
+  'sample': 'عينة',
+  'found': 'تم العثور عليه',
+};
+
+interface StockAdjustmentDialogProps {
+  product: ProductWithInventory;
+  variant?: { color: string; size: string }; // Preselected variant, if any
+  onClose: () => void;
+}
+
+// Writes pieces off, or adds back pieces that turned up, for one color and size
+export default function StockAdjustmentDialog({ product, variant, onClose }: StockAdjustmentDialogProps) {
+  const [formData, setFormData] = useState({
+    variantId: product.inventory.find(item => item.color === variant?.color && item.size === variant?.size)?.id ?? "",
+    reason: "damaged" as StockAdjustmentReason,
+    quantity: "1",
+    note: "",
+  });
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const selected = product.inventory.find(item => item.id === formData.variantId);
+  const quantity = Number(formData.quantity);
+  const delta = formData.reason === "found" ? quantity : -quantity;
+  const isValidQuantity = Number.isInteger(quantity) && quantity > 0;
+
+  const adjustMutation = useMutation({
+    mutationFn: async (data: InsertStockAdjustment) => {
+      const response = await apiRequest("POST", "/api/stock-adjustments", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      // Also refreshes the product's stock movements and adjustments
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory/low-stock"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stock-adjustments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reports/adjustments"] });
+      toast({
+        title: "تم الحفظ",
+        description: "تم تسجيل تسوية المخزون",
+      });
+      onClose();
+    },
+    onError: (error) => {
+      const short = error instanceof Error && error.message.startsWith("409:");
+      toast({
+        title: "خطأ",
+        description: short ? "الكمية المتاحة أقل من الكمية المطلوب خصمها" : "فشل في تسجيل تسوية المخزون",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected || !isValidQuantity) return;
+    adjustMutation.mutate({
+      productId: product.id,
+      color: selected.color,
+      size: selected.size,
+      delta,
+      reason: formData.reason,
+      note: formData.note || null,
+    });
+  };
+
+  return (
+    <Dialog open={true} onOpenChange={onClose}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>تسوية المخزون - {product.modelNumber}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label>اللون والمقاس</Label>
+            <Select value={formData.variantId} onValueChange={(value) => setFormData({ ...formData, variantId: value })}>
+              <SelectTrigger data-testid="select-adjustment-variant">
+                <SelectValue placeholder="اختر اللون والمقاس" />
+              </SelectTrigger>
+              <SelectContent>
+                {product.inventory.map((item) => (
+                  <SelectItem key={item.id} value={item.id}>
+                    {item.color} / {item.size} ({item.quantity} قطعة)
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label>السبب</Label>
+              <Select
+                value={formData.reason}
+                onValueChange={(value) => setFormData({ ...formData, reason: value as StockAdjustmentReason })}
+              >
+                <SelectTrigger data-testid="select-adjustment-reason">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {STOCK_ADJUSTMENT_REASONS.map((reason) => (
+                    <SelectItem key={reason} value={reason}>
+                      {stockAdjustmentReasonLabels[reason]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="adjustment-quantity">
+                {formData.reason === "found" ? "عدد القطع المضافة" : "عدد القطع المخصومة"}
+              </Label>
+              <Input
+                id="adjustment-quantity"
+                type="number"
+                min="1"
+                value={formData.quantity}
+                onChange={(e) => setFormData({ ...formData, quantity: e.target.value })}
+                required
+                data-testid="input-adjustment-quantity"
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="adjustment-note">ملاحظة</Label>
+            <Textarea
+              id="adjustment-note"
+              value={formData.note}
+              onChange={(e) => setFormData({ ...formData, note: e.target.value })}
+              placeholder="مثال: تمزق أثناء القياس"
+              rows={2}
+              data-testid="textarea-adjustment-note"
+            />
+          </div>
+          {selected && isValidQuantity && (
+            <p className={`text-sm ${selected.quantity + delta < 0 ? "text-destructive" : "text-muted-foreground"}`}>
+              الكمية بعد التسوية: {selected.quantity} ← {selected.quantity + delta}
+            </p>
+          )}
+          <div className="flex gap-2 justify-end">
+            <Button type="button" variant="outline" onClick={onClose}>
+              إلغاء
+            </Button>
+            <Button
+              type="submit"
+              disabled={adjustMutation.isPending || !selected || !isValidQuantity}
+              data-testid="button-save-adjustment"
+            >
+              {adjustMutation.isPending ? "جاري الحفظ..." : "حفظ التسوية"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,122 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { stockAdjustmentReasonLabels } from "./stock-adjustment-dialog";
+import type { StockAdjustmentReport as Report, StockAdjustmentWithDetails } from "@shared/schema";
+
+// Adjustments listed before "show all"
+const COLLAPSED_ROWS = 10;
+
+const signed = (value: number) => (value > 0 ? `+${value}` : `${value}`);
+
+// Stock written off or found, per reason and valued at cost, with the adjustments behind it
+export default function StockAdjustmentReport() {
+  const [showAll, setShowAll] = useState(false);
+
+  const { data: report, isLoading } = useQuery<Report>({
+    queryKey: ["/api/reports/adjustments"],
+  });
+
+  const { data: adjustments } = useQuery<StockAdjustmentWithDetails[]>({
+    queryKey: ["/api/stock-adjustments"],
+  });
+
+  const visible = showAll ? adjustments : adjustments?.slice(0, COLLAPSED_ROWS);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>تسويات المخزون</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <p>جاري التحميل...</p>
+        ) : !report || report.reasons.length === 0 ? (
+          <p className="text-muted-foreground">لا توجد تسويات مسجلة</p>
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-right">السبب</TableHead>
+                  <TableHead className="text-right">عدد التسويات</TableHead>
+                  <TableHead className="text-right">القطع</TableHead>
+                  <TableHead className="text-right">القيمة بسعر التكلفة</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.reasons.map((row) => (
+                  <TableRow key={row.reason} data-testid={`row-adjustment-reason-${row.reason}`}>
+                    <TableCell className="font-medium">{stockAdjustmentReasonLabels[row.reason] || row.reason}</TableCell>
+                    <TableCell>{row.count}</TableCell>
+                    <TableCell>{signed(row.units)}</TableCell>
+                    <TableCell className={Number(row.value) >= 0 ? "text-accent" : "text-destructive"}>
+                      {row.value} درهم
+                      {row.uncostedCount > 0 && (
+                        <span className="text-xs text-muted-foreground"> ({row.uncostedCount} بلا تكلفة)</span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+                <TableRow className="font-bold">
+                  <TableCell>الإجمالي</TableCell>
+                  <TableCell>{report.reasons.reduce((sum, row) => sum + row.count, 0)}</TableCell>
+                  <TableCell>{signed(report.units)}</TableCell>
+                  <TableCell className={Number(report.value) >= 0 ? "text-accent" : "text-destructive"}>
+                    {report.value} درهم
+                  </TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+
+            {visible && visible.length > 0 && (
+              <div>
+                <h4 className="font-semibold mb-2">آخر التسويات</h4>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="text-right">التاريخ</TableHead>
+                      <TableHead className="text-right">المنتج</TableHead>
+                      <TableHead className="text-right">اللون / المقاس</TableHead>
+                      <TableHead className="text-right">السبب</TableHead>
+                      <TableHead className="text-right">التغيير</TableHead>
+                      <TableHead className="text-right">ملاحظة</TableHead>
+                      <TableHead className="text-right">الموظف</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visible.map((adjustment) => (
+                      <TableRow key={adjustment.id} data-testid={`row-adjustment-${adjustment.id}`}>
+                        <TableCell>{new Date(adjustment.createdAt).toLocaleDateString('ar-AE')}</TableCell>
+                        <TableCell className="font-medium">{adjustment.product.modelNumber}</TableCell>
+                        <TableCell>{adjustment.color} / {adjustment.size}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{stockAdjustmentReasonLabels[adjustment.reason] || adjustment.reason}</Badge>
+                        </TableCell>
+                        <TableCell className={adjustment.delta > 0 ? "text-accent font-bold" : "text-destructive font-bold"}>
+                          {signed(adjustment.delta)}
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">{adjustment.note || "—"}</TableCell>
+                        <TableCell>{adjustment.createdByName || "—"}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                {adjustments!.length > COLLAPSED_ROWS && (
+                  <div className="flex justify-center mt-2">
+                    <Button variant="ghost" size="sm" onClick={() => setShowAll(!showAll)} data-testid="button-toggle-adjustments">
+                      {showAll ? "عرض أقل" : `عرض الكل (${adjustments!.length})`}
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
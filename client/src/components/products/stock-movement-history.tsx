@@ -0,0 +1,89 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { stockAdjustmentReasonLabels } from "./stock-adjustment-dialog";
+import type { StockAdjustmentWithDetails, StockMovement } from "@shared/schema";
+
+interface StockMovementHistoryProps {
+  productId: string;
+  color: string;
+  size: string;
+}
+
+const reasonLabels: Record<string, string> = {
+  'sale': 'بيع',
+  'return': 'مرتجع',
+  'exchange': 'استبدال',
+  'manual-edit': 'تعديل يدوي',
+  'receipt': 'استلام',
+  'import': 'استيراد',
+  'stocktake': 'جرد',
+  'adjustment': 'تسوية',
+};
+
+export default function StockMovementHistory({ productId, color, size }: StockMovementHistoryProps) {
+  const { data: movements, isLoading } = useQuery<StockMovement[]>({
+    queryKey: ["/api/products", productId, "stock-movements"],
+  });
+
+  const variantMovements = (movements || []).filter(
+    (movement) => movement.color === color && movement.size === size
+  );
+
+  // Adjustments carry the reason and note shown as their reference
+  const { data: adjustments } = useQuery<StockAdjustmentWithDetails[]>({
+    queryKey: ["/api/products", productId, "stock-adjustments"],
+    enabled: variantMovements.some(movement => movement.adjustmentId),
+  });
+  const describeAdjustment = (adjustmentId: string) => {
+    const adjustment = adjustments?.find(item => item.id === adjustmentId);
+    if (!adjustment) return "";
+    const label = stockAdjustmentReasonLabels[adjustment.reason] || adjustment.reason;
+    return adjustment.note ? `${label}: ${adjustment.note}` : label;
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+      <h5 className="font-semibold mb-3 text-center">
+        سجل حركة المخزون - {color} / {size}
+      </h5>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground text-center">جاري التحميل...</p>
+      ) : variantMovements.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center">لا توجد حركات مسجلة لهذا المقاس</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="text-right">التاريخ</TableHead>
+              <TableHead className="text-right">السبب</TableHead>
+              <TableHead className="text-right">التغيير</TableHead>
+              <TableHead className="text-right">الرصيد</TableHead>
+              <TableHead className="text-right">المرجع</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {variantMovements.map((movement) => (
+              <TableRow key={movement.id} data-testid={`row-movement-${movement.id}`}>
+                <TableCell>{new Date(movement.createdAt).toLocaleString('ar-AE')}</TableCell>
+                <TableCell>
+                  <Badge variant="outline">{reasonLabels[movement.reason] || movement.reason}</Badge>
+                </TableCell>
+                <TableCell className={movement.delta > 0 ? "text-accent font-bold" : "text-destructive font-bold"}>
+                  {movement.delta > 0 ? `+${movement.delta}` : movement.delta}
+                </TableCell>
+                <TableCell className="font-medium">{movement.balance}</TableCell>
+                <TableCell className="text-xs text-muted-foreground">
+                  {movement.saleId && `بيع #${movement.saleId.slice(-8)}`}
+                  {movement.returnId && `مرتجع #${movement.returnId.slice(-8)}`}
+                  {movement.adjustmentId && describeAdjustment(movement.adjustmentId)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
@@ -2,7 +2,7 @@ import { useState } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useForm, useFieldArray } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { insertReturnSchema, type InsertReturn, type InsertReturnItem } from "@shared/schema";
+import { insertReturnSchema, type BundleWithComponents, type InsertReturn, type InsertReturnItem, type InventoryLookup, type SaleWithItems } from "@shared/schema";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -12,7 +12,9 @@ import { Card, CardContent } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { Trash2, Plus } from "lucide-react";
+import BarcodeScanInput from "@/components/products/barcode-scan-input";
 import { z } from "zod";
+import { saleMatchesSearch } from "@shared/search";
 
 const returnFormSchema = z.object({
   originalSaleId: z.string().min(1, "الفاتورة الأصلية مطلوبة"),
@@ -51,6 +53,8 @@ export default function ReturnForm({ onClose }: ReturnFormProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
+  const [saleSearch, setSaleSearch] = useState("");
+
   const { data: sales } = useQuery({
     queryKey: ["/api/sales"],
   });
@@ -59,6 +63,10 @@ export default function ReturnForm({ onClose }: ReturnFormProps) {
     queryKey: ["/api/products"],
   });
 
+  const { data: bundles } = useQuery<BundleWithComponents[]>({
+    queryKey: ["/api/bundles"],
+  });
+
   const form = useForm<ReturnFormData>({
     resolver: zodResolver(returnFormSchema),
     defaultValues: {
@@ -73,7 +81,7 @@ export default function ReturnForm({ onClose }: ReturnFormProps) {
     },
   });
 
-  const { fields, append, remove } = useFieldArray({
+  const { fields, append, remove, update } = useFieldArray({
     control: form.control,
     name: "items",
   });
@@ -87,6 +95,7 @@ export default function ReturnForm({ onClose }: ReturnFormProps) {
       queryClient.invalidateQueries({ queryKey: ["/api/returns"] });
       queryClient.invalidateQueries({ queryKey: ["/api/products"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory/low-stock"] });
       toast({
         title: "تم تسجيل المرتجع بنجاح",
         description: "تم حفظ المرتجع وتحديث المخزون",
@@ -112,6 +121,59 @@ export default function ReturnForm({ onClose }: ReturnFormProps) {
     }
   };
 
+  // Scanning the returned piece adds it as a line, or bumps the quantity if it is already listed
+  const addScannedVariant = (variant: InventoryLookup) => {
+    const items = form.getValues("items");
+    const existingIndex = items.findIndex(item =>
+      item.productId === variant.productId && item.color === variant.color && item.size === variant.size
+    );
+
+    if (existingIndex !== -1) {
+      form.setValue(`items.${existingIndex}.quantity`, items[existingIndex].quantity + 1);
+      return;
+    }
+
+    const line = { productId: variant.productId, color: variant.color, size: variant.size, quantity: 1 };
+    const blankIndex = items.findIndex(item => !item.productId);
+    if (blankIndex !== -1) {
+      update(blankIndex, line);
+    } else {
+      append(line);
+    }
+  };
+
+  // Bundles were recorded as one sale item per component; returning the set lists all of them
+  const soldBundleIds: string[] = selectedSale
+    ? Array.from(new Set((selectedSale as SaleWithItems).items.map(item => item.bundleId).filter((id): id is string => !!id)))
+    : [];
+
+  const addBundleReturn = (bundleId: string) => {
+    // The piece carrying the price rounding is a separate item of the same variant
+    const bundleLines: { productId: string; color: string; size: string; quantity: number }[] = [];
+    (selectedSale as SaleWithItems).items.filter(item => item.bundleId === bundleId).forEach((soldItem) => {
+      const same = bundleLines.find(line =>
+        line.productId === soldItem.productId && line.color === soldItem.color && line.size === soldItem.size
+      );
+      if (same) same.quantity += soldItem.quantity;
+      else bundleLines.push({ productId: soldItem.productId, color: soldItem.color, size: soldItem.size, quantity: soldItem.quantity });
+    });
+
+    bundleLines.forEach((line) => {
+      const items = form.getValues("items");
+      const existingIndex = items.findIndex(item =>
+        item.productId === line.productId && item.color === line.color && item.size === line.size
+      );
+      const blankIndex = items.findIndex(item => !item.productId);
+      if (existingIndex !== -1) {
+        form.setValue(`items.${existingIndex}.quantity`, line.quantity);
+      } else if (blankIndex !== -1) {
+        update(blankIndex, line);
+      } else {
+        append(line);
+      }
+    });
+  };
+
   const onSubmit = (data: ReturnFormData) => {
     const returnData: InsertReturn = {
       originalSaleId: data.originalSaleId,
@@ -153,6 +215,12 @@ export default function ReturnForm({ onClose }: ReturnFormProps) {
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>الفاتورة الأصلية <span className="text-destructive">*</span></FormLabel>
+                    <Input
+                      placeholder="ابحث برقم الفاتورة أو اسم العميل أو الهاتف..."
+                      value={saleSearch}
+                      onChange={(e) => setSaleSearch(e.target.value)}
+                      data-testid="input-search-original-sale"
+                    />
                     <Select onValueChange={(value) => {
                       field.onChange(value);
                       handleSaleChange(value);
@@ -163,11 +231,14 @@ export default function ReturnForm({ onClose }: ReturnFormProps) {
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        {(sales as any)?.map((sale: any) => (
-                          <SelectItem key={sale.id} value={sale.id}>
-                            {sale.invoiceNumber} - {sale.total} درهم
-                          </SelectItem>
-                        ))}
+                        {/* The picked invoice stays listed while the search changes */}
+                        {(sales as any)
+                          ?.filter((sale: any) => sale.id === field.value || saleMatchesSearch(sale, saleSearch))
+                          .map((sale: any) => (
+                            <SelectItem key={sale.id} value={sale.id}>
+                              {sale.invoiceNumber} - {sale.total} درهم{sale.customerName ? ` - ${sale.customerName}` : ""}
+                            </SelectItem>
+                          ))}
                       </SelectContent>
                     </Select>
                     <FormMessage />
@@ -359,6 +430,23 @@ export default function ReturnForm({ onClose }: ReturnFormProps) {
                       <p className="font-bold text-primary">{selectedSale.total} درهم</p>
                     </div>
                   </div>
+                  {soldBundleIds.length > 0 && (
+                    <div className="flex flex-wrap items-center gap-2 mt-4 text-sm">
+                      <span className="text-muted-foreground">أطقم في الفاتورة:</span>
+                      {soldBundleIds.map((bundleId) => (
+                        <Button
+                          key={bundleId}
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => addBundleReturn(bundleId)}
+                          data-testid={`button-return-bundle-${bundleId}`}
+                        >
+                          إرجاع الطقم كاملاً: {bundles?.find(bundle => bundle.id === bundleId)?.name ?? "طقم"}
+                        </Button>
+                      ))}
+                    </div>
+                  )}
                 </CardContent>
               </Card>
             )}
@@ -376,6 +464,10 @@ export default function ReturnForm({ onClose }: ReturnFormProps) {
                   إضافة عنصر
                 </Button>
               </div>
+
+              <div className="mb-4">
+                <BarcodeScanInput onScan={addScannedVariant} testId="input-return-scan" />
+              </div>
               
               <div className="space-y-4">
                 {fields.map((field, index) => (
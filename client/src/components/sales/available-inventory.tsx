@@ -2,9 +2,14 @@ import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import ColorSwatch from "@/components/products/color-swatch";
+import { useVariantCatalog } from "@/hooks/use-variant-catalog";
+import { thumbnailUrl } from "@shared/images";
+import type { ProductImage, ProductInventory } from "@shared/schema";
 
 interface AvailableInventoryProps {
   productId: string;
+  categoryId?: string;
   selectedColor?: string;
   selectedSize?: string;
   onColorSelect: (color: string) => void;
@@ -13,17 +18,26 @@ interface AvailableInventoryProps {
 
 export default function AvailableInventory({ 
   productId, 
+  categoryId,
   selectedColor, 
   selectedSize, 
   onColorSelect, 
   onSizeSelect 
 }: AvailableInventoryProps) {
-  const { data: inventory } = useQuery({
+  const { data: inventory } = useQuery<ProductInventory[]>({
     queryKey: ["/api/products", productId, "inventory"],
     enabled: !!productId,
   });
+  const { data: images } = useQuery<ProductImage[]>({
+    queryKey: ["/api/products", productId, "images"],
+    enabled: !!productId,
+  });
+  const { catalog, getColorHex } = useVariantCatalog(categoryId);
 
-  const inventoryArray = (inventory as any) || [];
+  // Only variants the category's catalog offers, in catalog size order
+  const inventoryArray = (inventory || [])
+    .filter(item => !catalog || (catalog.colors.indexOf(item.color) !== -1 && catalog.sizes.indexOf(item.size) !== -1))
+    .sort((a, b) => catalog ? catalog.sizes.indexOf(a.size) - catalog.sizes.indexOf(b.size) : 0);
 
   if (!inventoryArray || inventoryArray.length === 0) {
     return (
@@ -46,6 +60,8 @@ export default function AvailableInventory({
 
   const availableColors = Object.keys(colorGroups);
   const selectedColorInventory = selectedColor ? colorGroups[selectedColor] || [] : [];
+  // Lets the cashier check the piece against the photo of the picked color
+  const selectedColorImages = selectedColor ? (images || []).filter(image => image.color === selectedColor) : [];
 
   const getColorTotal = (color: string) => {
     return colorGroups[color].reduce((sum: number, item: any) => sum + item.quantity, 0);
@@ -75,12 +91,30 @@ export default function AvailableInventory({
                 onClick={() => onColorSelect(color)}
                 data-testid={`button-select-color-${color}`}
               >
+                <ColorSwatch hex={getColorHex(color)} className="ml-1" />
                 {color} ({getColorTotal(color)})
               </Button>
             ))}
           </div>
         </div>
 
+        {/* Photos of the Selected Color */}
+        {selectedColorImages.length > 0 && (
+          <div className="flex gap-2 mb-4 overflow-x-auto">
+            {selectedColorImages.map((image) => (
+              <a key={image.id} href={image.url} target="_blank" rel="noreferrer">
+                <img
+                  src={thumbnailUrl(image.url)}
+                  alt={`صورة باللون ${selectedColor}`}
+                  className="w-16 h-20 object-cover rounded-md border"
+                  loading="lazy"
+                  data-testid={`img-color-${image.id}`}
+                />
+              </a>
+            ))}
+          </div>
+        )}
+
         {/* Available Sizes for Selected Color */}
         {selectedColor && selectedColorInventory.length > 0 && (
           <div className="mb-4">
@@ -117,7 +151,7 @@ export default function AvailableInventory({
 
         {/* Summary */}
         <div className="text-xs text-muted-foreground">
-          إجمالي: {availableColors.length} لون، {inventory.length} مقاس متوفر
+          إجمالي: {availableColors.length} لون، {inventoryArray.length} مقاس متوفر
         </div>
       </CardContent>
     </Card>
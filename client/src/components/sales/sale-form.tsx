@@ -2,7 +2,8 @@ import { useState, useEffect } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useForm, useFieldArray } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { insertSaleSchema, type InsertSale, type InsertSaleItem } from "@shared/schema";
+import { type BundleWithComponents, type InventoryLookup, type SaleRequest, type SaleRequestLine, type StockShortage } from "@shared/schema";
+import { calculateSaleTotals, getChannelPrice, getFeeRate, toFils } from "@shared/pricing";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -11,8 +12,9 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "
 import { Card, CardContent } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { Trash2, Plus } from "lucide-react";
+import { Trash2, Plus, Boxes } from "lucide-react";
 import AvailableInventory from "./available-inventory";
+import BarcodeScanInput from "@/components/products/barcode-scan-input";
 import { z } from "zod";
 
 const saleFormSchema = z.object({
@@ -21,16 +23,41 @@ const saleFormSchema = z.object({
   customerName: z.string().min(1, "اسم الزبون مطلوب"),
   customerPhone: z.string().min(1, "رقم هاتف الزبون مطلوب"),
   trackingNumber: z.string().optional(),
+  // A line is one variant, or a bundle sold as one line at the set price
   items: z.array(z.object({
-    productId: z.string().min(1, "المنتج مطلوب"),
-    color: z.string().min(1, "اللون مطلوب"),
-    size: z.string().min(1, "المقاس مطلوب"),
+    kind: z.enum(["variant", "bundle"]),
+    productId: z.string(),
+    color: z.string(),
+    size: z.string(),
+    bundleId: z.string(),
     quantity: z.number().min(1, "الكمية يجب أن تكون على الأقل 1"),
     unitPrice: z.string().min(1, "سعر الوحدة مطلوب"),
+    priceOverrideReason: z.string().optional(),
+  }).superRefine((item, ctx) => {
+    const required = item.kind === "bundle"
+      ? [["bundleId", "الطقم مطلوب"]] as const
+      : [["productId", "المنتج مطلوب"], ["color", "اللون مطلوب"], ["size", "المقاس مطلوب"]] as const;
+    required.forEach(([field, message]) => {
+      if (!item[field]) ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message });
+    });
   })).min(1, "يجب إضافة عنصر واحد على الأقل"),
 });
 
 type SaleFormData = z.infer<typeof saleFormSchema>;
+type SaleFormLine = SaleFormData["items"][number];
+
+const blankLine: SaleFormLine = { kind: "variant", productId: "", color: "", size: "", bundleId: "", quantity: 1, unitPrice: "0", priceOverrideReason: "" };
+
+// apiRequest errors look like "409: {json body}"; pull out the per-line shortages if present
+function getStockShortages(error: unknown): StockShortage[] {
+  if (!(error instanceof Error) || !error.message.startsWith("409:")) return [];
+  try {
+    const body = JSON.parse(error.message.slice("409:".length));
+    return Array.isArray(body.shortages) ? body.shortages : [];
+  } catch {
+    return [];
+  }
+}
 
 interface SaleFormProps {
   onClose: () => void;
@@ -44,6 +71,10 @@ export default function SaleForm({ onClose }: SaleFormProps) {
     queryKey: ["/api/products"],
   });
 
+  const { data: bundles } = useQuery<BundleWithComponents[]>({
+    queryKey: ["/api/bundles"],
+  });
+
   const form = useForm<SaleFormData>({
     resolver: zodResolver(saleFormSchema),
     defaultValues: {
@@ -52,11 +83,11 @@ export default function SaleForm({ onClose }: SaleFormProps) {
       customerName: "",
       customerPhone: "",
       trackingNumber: "",
-      items: [{ productId: "", color: "", size: "", quantity: 1, unitPrice: "0" }],
+      items: [blankLine],
     },
   });
 
-  const { fields, append, remove } = useFieldArray({
+  const { fields, append, remove, update } = useFieldArray({
     control: form.control,
     name: "items",
   });
@@ -66,7 +97,7 @@ export default function SaleForm({ onClose }: SaleFormProps) {
   const channel = form.watch("channel");
 
   const createSaleMutation = useMutation({
-    mutationFn: async (data: { sale: InsertSale; items: InsertSaleItem[] }) => {
+    mutationFn: async (data: { sale: SaleRequest; items: SaleRequestLine[] }) => {
       const response = await apiRequest("POST", "/api/sales", data);
       return response.json();
     },
@@ -74,6 +105,7 @@ export default function SaleForm({ onClose }: SaleFormProps) {
       queryClient.invalidateQueries({ queryKey: ["/api/sales"] });
       queryClient.invalidateQueries({ queryKey: ["/api/products"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory/low-stock"] });
       toast({
         title: "تم تسجيل البيع بنجاح",
         description: "تم حفظ البيع وتحديث المخزون",
@@ -81,6 +113,21 @@ export default function SaleForm({ onClose }: SaleFormProps) {
       onClose();
     },
     onError: (error) => {
+      const shortages = getStockShortages(error);
+      if (shortages.length > 0) {
+        shortages.forEach((shortage) => {
+          form.setError(`items.${shortage.line}.quantity`, {
+            message: `المتوفر ${shortage.available} قطعة فقط`,
+          });
+        });
+        toast({
+          title: "الكمية غير متوفرة",
+          description: "بعض العناصر غير متوفرة بالكمية المطلوبة، لم يتم تسجيل البيع",
+          variant: "destructive",
+        });
+        return;
+      }
+
       toast({
         title: "خطأ في تسجيل البيع",
         description: error instanceof Error ? error.message : "حدث خطأ غير متوقع",
@@ -89,34 +136,61 @@ export default function SaleForm({ onClose }: SaleFormProps) {
     },
   });
 
-  // Calculate totals
-  const subtotal = watchedItems.reduce((sum, item) => {
-    return sum + (item.quantity * parseFloat(item.unitPrice || "0"));
-  }, 0);
+  // Preview totals; the server recomputes them from catalog prices and rejects a mismatch
+  const { subtotal, fees, total } = calculateSaleTotals(
+    watchedItems.map(item => ({ quantity: item.quantity, unitPrice: item.unitPrice || "0" })),
+    paymentMethod
+  );
+  const feePercentage = getFeeRate(paymentMethod) * 100;
+
+  const findBundle = (bundleId: string) => bundles?.find(bundle => bundle.id === bundleId);
+
+  // The channel price of the line's product, or of one set for a bundle line
+  const getListPrice = (line: Pick<SaleFormLine, "kind" | "productId" | "bundleId">) => {
+    const priced = line.kind === "bundle"
+      ? findBundle(line.bundleId)
+      : (products as any)?.find((p: any) => p.id === line.productId);
+    return priced ? getChannelPrice(priced, form.getValues("channel")) : undefined;
+  };
 
-  const feePercentage = paymentMethod === "visa" ? 0.05 : 0;
-  const fees = subtotal * feePercentage;
-  const total = subtotal + fees;
+  const isPriceOverridden = (index: number) => {
+    const item = watchedItems[index];
+    const listPrice = item ? getListPrice(item) : undefined;
+    return listPrice !== undefined && toFils(item.unitPrice) !== toFils(listPrice);
+  };
 
   const onSubmit = (data: SaleFormData) => {
-    const saleData: InsertSale = {
+    const missingReason = data.items.findIndex((item, index) =>
+      isPriceOverridden(index) && !item.priceOverrideReason?.trim()
+    );
+    if (missingReason !== -1) {
+      form.setError(`items.${missingReason}.priceOverrideReason`, {
+        message: "يجب ذكر سبب تعديل السعر",
+      });
+      return;
+    }
+
+    const saleData: SaleRequest = {
       channel: data.channel as "in-store" | "online",
       paymentMethod: data.paymentMethod,
       customerName: data.customerName,
       customerPhone: data.customerPhone,
       trackingNumber: data.trackingNumber || null,
-      subtotal: subtotal.toFixed(2),
-      fees: fees.toFixed(2),
-      total: total.toFixed(2),
+      subtotal,
+      fees,
+      total,
     };
 
-    const itemsData: InsertSaleItem[] = data.items.map(item => ({
-      productId: item.productId,
-      color: item.color,
-      size: item.size,
-      quantity: item.quantity,
-      unitPrice: item.unitPrice,
-    }));
+    const itemsData: SaleRequestLine[] = data.items.map((item, index) => {
+      const pricing = {
+        quantity: item.quantity,
+        unitPrice: item.unitPrice,
+        priceOverrideReason: isPriceOverridden(index) ? item.priceOverrideReason : undefined,
+      };
+      return item.kind === "bundle"
+        ? { bundleId: item.bundleId, ...pricing }
+        : { productId: item.productId, color: item.color, size: item.size, ...pricing };
+    });
 
     createSaleMutation.mutate({
       sale: saleData,
@@ -124,16 +198,52 @@ export default function SaleForm({ onClose }: SaleFormProps) {
     });
   };
 
-  // Update unit price when product or channel changes
-  const updateUnitPrice = (index: number, productId: string) => {
-    const product = (products as any)?.find((p: any) => p.id === productId);
-    if (product) {
-      const channel = form.getValues("channel");
-      const price = channel === "online" ? product.onlinePrice : product.storePrice;
+  // Update unit price when the product, bundle or channel changes
+  const updateUnitPrice = (index: number) => {
+    const price = getListPrice(form.getValues(`items.${index}`));
+    if (price !== undefined) {
       form.setValue(`items.${index}.unitPrice`, price);
     }
   };
 
+  // A scan adds the variant at the channel price, or bumps the quantity if it is already a line
+  const addScannedVariant = (variant: InventoryLookup) => {
+    const items = form.getValues("items");
+    const existingIndex = items.findIndex(item => item.kind === "variant" &&
+      item.productId === variant.productId && item.color === variant.color && item.size === variant.size
+    );
+    const quantity = existingIndex === -1 ? 1 : items[existingIndex].quantity + 1;
+
+    if (existingIndex !== -1) {
+      form.setValue(`items.${existingIndex}.quantity`, quantity);
+    } else {
+      const line = {
+        ...blankLine,
+        productId: variant.productId,
+        color: variant.color,
+        size: variant.size,
+        quantity,
+        unitPrice: getChannelPrice(variant.product, form.getValues("channel")),
+        priceOverrideReason: "",
+      };
+      // Fill the blank starter line rather than leaving it behind
+      const blankIndex = items.findIndex(item => item.kind === "variant" && !item.productId);
+      if (blankIndex !== -1) {
+        update(blankIndex, line);
+      } else {
+        append(line);
+      }
+    }
+
+    if (quantity > variant.quantity) {
+      toast({
+        title: "الكمية غير متوفرة",
+        description: `${variant.product.modelNumber} - ${variant.color} / ${variant.size}: المتوفر ${variant.quantity} قطعة فقط`,
+        variant: "destructive",
+      });
+    }
+  };
+
   return (
     <Dialog open={true} onOpenChange={onClose}>
       <DialogContent className="max-w-4xl max-h-[90vh] overflow-auto">
@@ -154,11 +264,7 @@ export default function SaleForm({ onClose }: SaleFormProps) {
                     <Select onValueChange={(value) => {
                       field.onChange(value);
                       // Update prices for all items when channel changes
-                      watchedItems.forEach((item, index) => {
-                        if (item.productId) {
-                          updateUnitPrice(index, item.productId);
-                        }
-                      });
+                      watchedItems.forEach((_, index) => updateUnitPrice(index));
                     }} defaultValue={field.value}>
                       <FormControl>
                         <SelectTrigger data-testid="select-sales-channel">
@@ -189,7 +295,7 @@ export default function SaleForm({ onClose }: SaleFormProps) {
                       </FormControl>
                       <SelectContent>
                         <SelectItem value="cash">نقدي</SelectItem>
-                        <SelectItem value="visa">فيزا (+5% رسوم)</SelectItem>
+                        <SelectItem value="visa">فيزا (+{getFeeRate("visa") * 100}% رسوم)</SelectItem>
                         <SelectItem value="bank-transfer">حوالة بنكية</SelectItem>
                         <SelectItem value="cash-on-delivery">الدفع عند الاستلام</SelectItem>
                       </SelectContent>
@@ -265,14 +371,29 @@ export default function SaleForm({ onClose }: SaleFormProps) {
             <div>
               <div className="flex items-center justify-between mb-4">
                 <h4 className="text-lg font-medium">عناصر البيع</h4>
-                <Button 
-                  type="button" 
-                  onClick={() => append({ productId: "", color: "", size: "", quantity: 1, unitPrice: "0" })}
-                  data-testid="button-add-item"
-                >
-                  <Plus className="w-4 h-4 ml-2" />
-                  إضافة عنصر
-                </Button>
+                <div className="flex gap-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => append({ ...blankLine, kind: "bundle" })}
+                    data-testid="button-add-bundle-item"
+                  >
+                    <Boxes className="w-4 h-4 ml-2" />
+                    إضافة طقم
+                  </Button>
+                  <Button 
+                    type="button" 
+                    onClick={() => append(blankLine)}
+                    data-testid="button-add-item"
+                  >
+                    <Plus className="w-4 h-4 ml-2" />
+                    إضافة عنصر
+                  </Button>
+                </div>
+              </div>
+
+              <div className="mb-4">
+                <BarcodeScanInput onScan={addScannedVariant} testId="input-sale-scan" />
               </div>
               
               <div className="space-y-4">
@@ -280,72 +401,104 @@ export default function SaleForm({ onClose }: SaleFormProps) {
                   <Card key={field.id}>
                     <CardContent className="p-4">
                       <div className="grid grid-cols-2 lg:grid-cols-6 gap-4 mb-4">
-                        <FormField
-                          control={form.control}
-                          name={`items.${index}.productId`}
-                          render={({ field }) => (
-                            <FormItem>
-                              <FormLabel>المنتج</FormLabel>
-                              <Select onValueChange={(value) => {
-                                field.onChange(value);
-                                updateUnitPrice(index, value);
-                                // Reset color and size when product changes
-                                form.setValue(`items.${index}.color`, "");
-                                form.setValue(`items.${index}.size`, "");
-                              }} defaultValue={field.value}>
-                                <FormControl>
-                                  <SelectTrigger data-testid={`select-product-${index}`}>
-                                    <SelectValue placeholder="اختر المنتج" />
-                                  </SelectTrigger>
-                                </FormControl>
-                                <SelectContent>
-                                  {(products as any)?.map((product: any) => (
-                                    <SelectItem key={product.id} value={product.id}>
-                                      {product.modelNumber} - {product.companyName}
-                                    </SelectItem>
-                                  ))}
-                                </SelectContent>
-                              </Select>
-                              <FormMessage />
-                            </FormItem>
-                          )}
-                        />
+                        {watchedItems[index]?.kind === "bundle" ? (
+                          <FormField
+                            control={form.control}
+                            name={`items.${index}.bundleId`}
+                            render={({ field }) => (
+                              <FormItem className="col-span-2 lg:col-span-3">
+                                <FormLabel>الطقم</FormLabel>
+                                <Select onValueChange={(value) => {
+                                  field.onChange(value);
+                                  updateUnitPrice(index);
+                                }} defaultValue={field.value}>
+                                  <FormControl>
+                                    <SelectTrigger data-testid={`select-bundle-${index}`}>
+                                      <SelectValue placeholder="اختر الطقم" />
+                                    </SelectTrigger>
+                                  </FormControl>
+                                  <SelectContent>
+                                    {bundles?.map((bundle) => (
+                                      <SelectItem key={bundle.id} value={bundle.id}>
+                                        {bundle.name}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        ) : (
+                          <>
+                            <FormField
+                              control={form.control}
+                              name={`items.${index}.productId`}
+                              render={({ field }) => (
+                                <FormItem>
+                                  <FormLabel>المنتج</FormLabel>
+                                  <Select onValueChange={(value) => {
+                                    field.onChange(value);
+                                    updateUnitPrice(index);
+                                    // Reset color and size when product changes
+                                    form.setValue(`items.${index}.color`, "");
+                                    form.setValue(`items.${index}.size`, "");
+                                  }} defaultValue={field.value}>
+                                    <FormControl>
+                                      <SelectTrigger data-testid={`select-product-${index}`}>
+                                        <SelectValue placeholder="اختر المنتج" />
+                                      </SelectTrigger>
+                                    </FormControl>
+                                    <SelectContent>
+                                      {(products as any)?.map((product: any) => (
+                                        <SelectItem key={product.id} value={product.id}>
+                                          {product.modelNumber} - {product.companyName}
+                                        </SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
                         
-                        <FormField
-                          control={form.control}
-                          name={`items.${index}.color`}
-                          render={({ field }) => (
-                            <FormItem>
-                              <FormLabel>اللون</FormLabel>
-                              <FormControl>
-                                <Input 
-                                  placeholder="مثال: أسود، أبيض، أحمر" 
-                                  {...field}
-                                  data-testid={`input-color-${index}`}
-                                />
-                              </FormControl>
-                              <FormMessage />
-                            </FormItem>
-                          )}
-                        />
+                            <FormField
+                              control={form.control}
+                              name={`items.${index}.color`}
+                              render={({ field }) => (
+                                <FormItem>
+                                  <FormLabel>اللون</FormLabel>
+                                  <FormControl>
+                                    <Input 
+                                      placeholder="مثال: أسود، أبيض، أحمر" 
+                                      {...field}
+                                      data-testid={`input-color-${index}`}
+                                    />
+                                  </FormControl>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
                         
-                        <FormField
-                          control={form.control}
-                          name={`items.${index}.size`}
-                          render={({ field }) => (
-                            <FormItem>
-                              <FormLabel>المقاس</FormLabel>
-                              <FormControl>
-                                <Input 
-                                  placeholder="مثال: 38، 40، L، XL" 
-                                  {...field}
-                                  data-testid={`input-size-${index}`}
-                                />
-                              </FormControl>
-                              <FormMessage />
-                            </FormItem>
-                          )}
-                        />
+                            <FormField
+                              control={form.control}
+                              name={`items.${index}.size`}
+                              render={({ field }) => (
+                                <FormItem>
+                                  <FormLabel>المقاس</FormLabel>
+                                  <FormControl>
+                                    <Input 
+                                      placeholder="مثال: 38، 40، L، XL" 
+                                      {...field}
+                                      data-testid={`input-size-${index}`}
+                                    />
+                                  </FormControl>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
+                          </>
+                        )}
                         
                         <FormField
                           control={form.control}
@@ -399,11 +552,47 @@ export default function SaleForm({ onClose }: SaleFormProps) {
                           </Button>
                         </div>
                       </div>
+
+                      {/* Manual price override needs a justification */}
+                      {isPriceOverridden(index) && (
+                        <FormField
+                          control={form.control}
+                          name={`items.${index}.priceOverrideReason`}
+                          render={({ field }) => (
+                            <FormItem className="mb-4">
+                              <FormLabel>
+                                سبب تعديل السعر (السعر الأصلي: {getListPrice(watchedItems[index])} درهم) <span className="text-destructive">*</span>
+                              </FormLabel>
+                              <FormControl>
+                                <Input 
+                                  placeholder="مثال: خصم للزبائن الدائمين" 
+                                  {...field}
+                                  value={field.value || ""}
+                                  data-testid={`input-price-override-reason-${index}`}
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      )}
                       
+                      {/* The pieces a bundle line takes from stock */}
+                      {watchedItems[index]?.kind === "bundle" && findBundle(watchedItems[index].bundleId) && (
+                        <div className="text-sm text-muted-foreground space-y-1" data-testid={`text-bundle-components-${index}`}>
+                          {findBundle(watchedItems[index].bundleId)!.components.map((component) => (
+                            <p key={component.id}>
+                              {component.quantity * watchedItems[index].quantity} × {component.product.modelNumber} - {component.color} / {component.size}
+                            </p>
+                          ))}
+                        </div>
+                      )}
+
                       {/* Available Inventory Display */}
-                      {watchedItems[index]?.productId && (
+                      {watchedItems[index]?.kind === "variant" && watchedItems[index]?.productId && (
                         <AvailableInventory 
                           productId={watchedItems[index].productId}
+                          categoryId={(products as any)?.find((p: any) => p.id === watchedItems[index].productId)?.productType}
                           selectedColor={watchedItems[index].color}
                           selectedSize={watchedItems[index].size}
                           onColorSelect={(color) => form.setValue(`items.${index}.color`, color)}
@@ -422,17 +611,17 @@ export default function SaleForm({ onClose }: SaleFormProps) {
                 <div className="space-y-2">
                   <div className="flex justify-between">
                     <span>المجموع الفرعي:</span>
-                    <span data-testid="text-subtotal">{subtotal.toFixed(2)} درهم</span>
+                    <span data-testid="text-subtotal">{subtotal} درهم</span>
                   </div>
-                  {paymentMethod === "visa" && (
+                  {feePercentage > 0 && (
                     <div className="flex justify-between">
-                      <span>رسوم فيزا (5%):</span>
-                      <span data-testid="text-fees">{fees.toFixed(2)} درهم</span>
+                      <span>رسوم الدفع ({feePercentage}%):</span>
+                      <span data-testid="text-fees">{fees} درهم</span>
                     </div>
                   )}
                   <div className="flex justify-between font-bold text-lg">
                     <span>المجموع الإجمالي:</span>
-                    <span data-testid="text-total">{total.toFixed(2)} درهم</span>
+                    <span data-testid="text-total">{total} درهم</span>
                   </div>
                 </div>
               </CardContent>
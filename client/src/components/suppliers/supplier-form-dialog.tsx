@@ -0,0 +1,150 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { InsertSupplier, Supplier } from "@shared/schema";
+
+interface SupplierFormDialogProps {
+  supplier?: Supplier; // Omitted when adding
+  onClose: () => void;
+}
+
+export default function SupplierFormDialog({ supplier, onClose }: SupplierFormDialogProps) {
+  const [formData, setFormData] = useState({
+    name: supplier?.name ?? "",
+    contactName: supplier?.contactName ?? "",
+    phone: supplier?.phone ?? "",
+    email: supplier?.email ?? "",
+    address: supplier?.address ?? "",
+    notes: supplier?.notes ?? "",
+  });
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: InsertSupplier) => {
+      const response = supplier
+        ? await apiRequest("PUT", `/api/suppliers/${supplier.id}`, data)
+        : await apiRequest("POST", "/api/suppliers", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/suppliers"] });
+      // A new name is copied onto the supplier's products and purchases
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/purchases"] });
+      toast({
+        title: "تم الحفظ",
+        description: "تم حفظ بيانات المورد بنجاح",
+      });
+      onClose();
+    },
+    onError: (error) => {
+      const duplicate = error instanceof Error && error.message.startsWith("409:");
+      toast({
+        title: "خطأ",
+        description: duplicate ? "يوجد مورد بهذا الاسم بالفعل" : "فشل في حفظ بيانات المورد",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate({
+      name: formData.name,
+      contactName: formData.contactName || null,
+      phone: formData.phone || null,
+      email: formData.email || null,
+      address: formData.address || null,
+      notes: formData.notes || null,
+    });
+  };
+
+  return (
+    <Dialog open={true} onOpenChange={onClose}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{supplier ? "تعديل المورد" : "إضافة مورد"}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="supplier-name">اسم المورد</Label>
+            <Input
+              id="supplier-name"
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              required
+              data-testid="input-supplier-name"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="supplier-contact">مسؤول التواصل</Label>
+              <Input
+                id="supplier-contact"
+                value={formData.contactName}
+                onChange={(e) => setFormData({ ...formData, contactName: e.target.value })}
+                data-testid="input-supplier-contact"
+              />
+            </div>
+            <div>
+              <Label htmlFor="supplier-phone">الهاتف</Label>
+              <Input
+                id="supplier-phone"
+                value={formData.phone}
+                onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                dir="ltr"
+                className="text-right"
+                data-testid="input-supplier-phone"
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="supplier-email">البريد الإلكتروني</Label>
+            <Input
+              id="supplier-email"
+              type="email"
+              value={formData.email}
+              onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+              dir="ltr"
+              className="text-right"
+              data-testid="input-supplier-email"
+            />
+          </div>
+          <div>
+            <Label htmlFor="supplier-address">العنوان</Label>
+            <Input
+              id="supplier-address"
+              value={formData.address}
+              onChange={(e) => setFormData({ ...formData, address: e.target.value })}
+              data-testid="input-supplier-address"
+            />
+          </div>
+          <div>
+            <Label htmlFor="supplier-notes">ملاحظات</Label>
+            <Textarea
+              id="supplier-notes"
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              data-testid="input-supplier-notes"
+            />
+          </div>
+          <div className="flex gap-2 justify-end">
+            <Button type="button" variant="outline" onClick={onClose}>
+              إلغاء
+            </Button>
+            <Button type="submit" disabled={saveMutation.isPending} data-testid="button-save-supplier">
+              {saveMutation.isPending ? "جاري الحفظ..." : "حفظ"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
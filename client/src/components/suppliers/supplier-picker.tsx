@@ -0,0 +1,81 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Check, ChevronsUpDown, Plus } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { Supplier } from "@shared/schema";
+import { matchesSearch, normalizeSearchText } from "@shared/search";
+
+interface SupplierPickerProps {
+  supplierId: string | null | undefined;
+  name: string;
+  // A typed name that matches no supplier comes back with a null id; the server adds the supplier on save
+  onChange: (supplierId: string | null, name: string) => void;
+  testId?: string;
+}
+
+export default function SupplierPicker({ supplierId, name, onChange, testId = "select-supplier" }: SupplierPickerProps) {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+
+  const { data: suppliers } = useQuery<Supplier[]>({
+    queryKey: ["/api/suppliers"],
+  });
+
+  const typed = search.trim().replace(/\s+/g, " ");
+  // Same rule as the server uses to find a supplier by name
+  const exists = (suppliers || []).some(supplier => normalizeSearchText(supplier.name) === normalizeSearchText(typed));
+
+  const select = (id: string | null, supplierName: string) => {
+    onChange(id, supplierName);
+    setSearch("");
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className="w-full justify-between font-normal"
+          data-testid={testId}
+        >
+          {name || <span className="text-muted-foreground">اختر المورد</span>}
+          <ChevronsUpDown className="h-4 w-4 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="p-0 w-[--radix-popover-trigger-width]" align="start">
+        <Command filter={(value, term) => (matchesSearch(term, value) ? 1 : 0)}>
+          <CommandInput placeholder="ابحث عن مورد..." value={search} onValueChange={setSearch} />
+          <CommandList>
+            <CommandEmpty>لا يوجد مورد بهذا الاسم</CommandEmpty>
+            <CommandGroup>
+              {(suppliers || []).map(supplier => (
+                <CommandItem
+                  key={supplier.id}
+                  value={supplier.name}
+                  onSelect={() => select(supplier.id, supplier.name)}
+                  data-testid={`option-supplier-${supplier.id}`}
+                >
+                  <Check className={cn("ml-2 h-4 w-4", supplier.id === supplierId ? "opacity-100" : "opacity-0")} />
+                  {supplier.name}
+                </CommandItem>
+              ))}
+              {typed && !exists && (
+                <CommandItem value={`+ ${typed}`} onSelect={() => select(null, typed)} data-testid="option-new-supplier">
+                  <Plus className="ml-2 h-4 w-4" />
+                  إضافة مورد جديد: {typed}
+                </CommandItem>
+              )}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
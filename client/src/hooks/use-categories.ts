@@ -0,0 +1,44 @@
+import { useQuery } from "@tanstack/react-query";
+import { isInCategory as isInCategoryTree } from "@shared/product-filter";
+import type { Category } from "@shared/schema";
+
+export interface CategoryOption extends Category {
+  depth: number; // 0 for top-level categories
+}
+
+// Parents first, each followed by its subcategories, keeping the server's sort order
+function flattenTree(categories: Category[]): CategoryOption[] {
+  const known = new Set(categories.map(category => category.id));
+  const result: CategoryOption[] = [];
+
+  const visit = (parentId: string | null, depth: number) => {
+    categories
+      .filter(category => (category.parentId && known.has(category.parentId) ? category.parentId : null) === parentId)
+      .forEach((category) => {
+        result.push({ ...category, depth });
+        visit(category.id, depth + 1);
+      });
+  };
+  visit(null, 0);
+
+  return result;
+}
+
+export function useCategories() {
+  const { data, isLoading } = useQuery<Category[]>({
+    queryKey: ["/api/categories"],
+  });
+
+  const categories = flattenTree(data || []);
+
+  // Products keep the category id; an id that is no longer known is shown as is
+  const getCategoryName = (id: string) => categories.find(category => category.id === id)?.nameAr ?? id;
+
+  // Subcategories are indented with one dash per level in select lists
+  const getCategoryLabel = (category: CategoryOption) => "— ".repeat(category.depth) + category.nameAr;
+
+  // True when `id` is `ancestorId` or one of its subcategories at any depth
+  const isInCategory = (id: string, ancestorId: string) => isInCategoryTree(categories, id, ancestorId);
+
+  return { categories, isLoading, getCategoryName, getCategoryLabel, isInCategory };
+}
@@ -0,0 +1,29 @@
+import { useLocation, useSearch } from "wouter";
+import {
+  DEFAULT_PRODUCT_LIST_QUERY,
+  productListQuerySchema,
+  type ProductListQuery,
+} from "@shared/product-filter";
+
+// The product list query kept in the page URL, so a filtered view can be reloaded, bookmarked or shared.
+// Only values that differ from the defaults are written; a malformed URL falls back to the defaults.
+export function useProductListQuery(): [ProductListQuery, (query: ProductListQuery) => void] {
+  const search = useSearch();
+  const [location, navigate] = useLocation();
+
+  const parsed = productListQuerySchema.safeParse(Object.fromEntries(new URLSearchParams(search)));
+  const query = parsed.success ? parsed.data : DEFAULT_PRODUCT_LIST_QUERY;
+
+  const setQuery = (next: ProductListQuery) => {
+    const params = new URLSearchParams();
+    (Object.keys(next) as (keyof ProductListQuery)[]).forEach((key) => {
+      if (String(next[key]) !== String(DEFAULT_PRODUCT_LIST_QUERY[key])) {
+        params.set(key, String(next[key]));
+      }
+    });
+    const queryString = params.toString();
+    navigate(queryString ? `${location}?${queryString}` : location, { replace: true });
+  };
+
+  return [query, setQuery];
+}
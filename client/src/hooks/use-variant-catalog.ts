@@ -0,0 +1,26 @@
+import { useQuery } from "@tanstack/react-query";
+import { getVariantCatalog } from "@shared/catalog";
+import type { Category, Color, SizeSystem } from "@shared/schema";
+
+// Colors and size systems, plus the subset a product in `categoryId` may use
+export function useVariantCatalog(categoryId?: string) {
+  const { data: colors, isLoading: colorsLoading } = useQuery<Color[]>({
+    queryKey: ["/api/colors"],
+  });
+  const { data: sizeSystems, isLoading: sizeSystemsLoading } = useQuery<SizeSystem[]>({
+    queryKey: ["/api/size-systems"],
+  });
+  const { data: categories, isLoading: categoriesLoading } = useQuery<Category[]>({
+    queryKey: ["/api/categories"],
+  });
+
+  const isLoading = colorsLoading || sizeSystemsLoading || categoriesLoading;
+  const catalog = categoryId && !isLoading
+    ? getVariantCatalog(categories || [], colors || [], sizeSystems || [], categoryId)
+    : null;
+
+  // Colors removed from the catalog still show on old variants, without a swatch
+  const getColorHex = (name: string) => colors?.find(color => color.name === name)?.hex;
+
+  return { colors: colors || [], sizeSystems: sizeSystems || [], catalog, getColorHex, isLoading };
+}
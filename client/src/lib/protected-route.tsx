@@ -0,0 +1,33 @@
+import type { ComponentType } from "react";
+import { Redirect, Route } from "wouter";
+import { Loader2 } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import type { Permission } from "@shared/permissions";
+
+export function ProtectedRoute({
+  path,
+  component: Component,
+  permission,
+}: {
+  path: string;
+  component: ComponentType;
+  permission?: Permission;
+}) {
+  const { user, isLoading, can } = useAuth();
+
+  return (
+    <Route path={path}>
+      {isLoading ? (
+        <div className="flex items-center justify-center min-h-screen">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : !user ? (
+        <Redirect to="/login" />
+      ) : permission && !can(permission) ? (
+        <Redirect to="/" />
+      ) : (
+        <Component />
+      )}
+    </Route>
+  );
+}
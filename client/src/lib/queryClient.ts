@@ -23,13 +23,30 @@ export async function apiRequest(
   return res;
 }
 
+// Path segments joined with "/"; a trailing object becomes the query string,
+// e.g. ["/api/products", { page: 2 }] fetches /api/products?page=2
+export function queryKeyUrl(queryKey: readonly unknown[]): string {
+  const last = queryKey[queryKey.length - 1];
+  if (queryKey.length < 2 || typeof last !== "object" || last === null) {
+    return queryKey.join("/");
+  }
+
+  const params = new URLSearchParams();
+  Object.keys(last).forEach((key) => {
+    const value = (last as Record<string, unknown>)[key];
+    if (value !== undefined && value !== null && value !== "") params.set(key, String(value));
+  });
+  const search = params.toString();
+  return queryKey.slice(0, -1).join("/") + (search ? `?${search}` : "");
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const res = await fetch(queryKey.join("/") as string, {
+    const res = await fetch(queryKeyUrl(queryKey), {
       credentials: "include",
     });
 
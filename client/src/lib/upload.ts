@@ -0,0 +1,21 @@
+export interface UploadedImage {
+  url: string;
+  thumbnailUrl: string;
+}
+
+// Sends one image to the upload endpoint. Not apiRequest: the browser has to set
+// the multipart Content-Type itself. Errors carry an Arabic message for toasts.
+export async function uploadImage(file: File): Promise<UploadedImage> {
+  const body = new FormData();
+  body.append("image", file);
+
+  const response = await fetch("/api/uploads/images", {
+    method: "POST",
+    body,
+    credentials: "include",
+  });
+  if (!response.ok) {
+    throw new Error(response.status === 413 ? "حجم الصورة أكبر من 10 ميجابايت" : "الملف ليس صورة مدعومة");
+  }
+  return response.json();
+}
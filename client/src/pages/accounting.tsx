@@ -5,11 +5,17 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import Sidebar from "@/components/layout/sidebar";
 import Header from "@/components/layout/header";
+import SupplierPicker from "@/components/suppliers/supplier-picker";
+import StockAdjustmentReport from "@/components/products/stock-adjustment-report";
+import { Link } from "wouter";
 import { BarChart, DollarSign, TrendingUp, Package } from "lucide-react";
+import type { ProductSalesSummary } from "@shared/schema";
 
 export default function Accounting() {
   const [showExpenseForm, setShowExpenseForm] = useState(false);
@@ -20,12 +26,14 @@ export default function Accounting() {
     amount: "",
   });
   const [purchaseData, setPurchaseData] = useState({
+    supplierId: null as string | null,
     supplierName: "",
     invoiceNumber: "",
     totalAmount: "",
   });
 
   const { toast } = useToast();
+  const { can } = useAuth();
   const queryClient = useQueryClient();
 
   const { data: expenses, isLoading: expensesLoading } = useQuery({
@@ -40,6 +48,11 @@ export default function Accounting() {
     queryKey: ["/api/sales"],
   });
 
+  // Bundle sales are credited to their component products
+  const { data: productSales, isLoading: productSalesLoading } = useQuery<ProductSalesSummary[]>({
+    queryKey: ["/api/reports/products"],
+  });
+
   const createExpenseMutation = useMutation({
     mutationFn: async (data: any) => {
       const response = await fetch('/api/expenses', {
@@ -84,6 +97,7 @@ export default function Accounting() {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
+          supplierId: data.supplierId,
           supplier: data.supplierName,
           description: `فاتورة رقم ${data.invoiceNumber}`,
           amount: data.totalAmount,
@@ -100,8 +114,9 @@ export default function Accounting() {
         description: "تم تسجيل فاتورة الشراء بنجاح",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/purchases"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/suppliers"] });
       setShowPurchaseForm(false);
-      setPurchaseData({ supplierName: "", invoiceNumber: "", totalAmount: "" });
+      setPurchaseData({ supplierId: null, supplierName: "", invoiceNumber: "", totalAmount: "" });
     },
     onError: () => {
       toast({
@@ -119,6 +134,14 @@ export default function Accounting() {
 
   const handlePurchaseSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    if (!purchaseData.supplierName) {
+      toast({
+        title: "خطأ",
+        description: "اختر المورد",
+        variant: "destructive",
+      });
+      return;
+    }
     createPurchaseMutation.mutate(purchaseData);
   };
 
@@ -190,14 +213,58 @@ export default function Accounting() {
           </div>
 
           {/* أزرار الإجراءات */}
-          <div className="flex items-center space-x-4 space-x-reverse">
-            <Button onClick={() => setShowExpenseForm(true)}>
-              إضافة مصروف جديد
-            </Button>
-            <Button onClick={() => setShowPurchaseForm(true)} variant="outline">
-              إضافة فاتورة شراء
-            </Button>
-          </div>
+          {can("accounting:edit") && (
+            <div className="flex items-center space-x-4 space-x-reverse">
+              <Button onClick={() => setShowExpenseForm(true)}>
+                إضافة مصروف جديد
+              </Button>
+              <Button onClick={() => setShowPurchaseForm(true)} variant="outline">
+                إضافة فاتورة شراء
+              </Button>
+            </div>
+          )}
+
+          {/* مبيعات المنتجات */}
+          <Card>
+            <CardHeader>
+              <CardTitle>مبيعات المنتجات</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {productSalesLoading ? (
+                <p>جاري التحميل...</p>
+              ) : productSales && productSales.length > 0 ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="text-right">المنتج</TableHead>
+                      <TableHead className="text-right">الكمية</TableHead>
+                      <TableHead className="text-right">الإيراد</TableHead>
+                      <TableHead className="text-right">منها من الأطقم</TableHead>
+                      <TableHead className="text-right">إجمالي الربح</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {productSales.map((row) => (
+                      <TableRow key={row.productId} data-testid={`row-product-sales-${row.productId}`}>
+                        <TableCell className="font-medium">{row.modelNumber} - {row.companyName}</TableCell>
+                        <TableCell>{row.quantity}</TableCell>
+                        <TableCell>{row.revenue} درهم</TableCell>
+                        <TableCell className="text-muted-foreground">{row.bundleRevenue} درهم</TableCell>
+                        <TableCell className={Number(row.grossProfit) >= 0 ? "text-accent" : "text-destructive"}>
+                          {row.grossProfit} درهم
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : (
+                <p className="text-muted-foreground">لا توجد مبيعات مسجلة</p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* تسويات المخزون */}
+          <StockAdjustmentReport />
 
           {/* قائمة المصروفات */}
           <Card>
@@ -238,7 +305,13 @@ export default function Accounting() {
                   {(purchases as any[]).map((purchase: any) => (
                     <div key={purchase.id} className="flex items-center justify-between p-3 border rounded">
                       <div>
-                        <p className="font-medium">{purchase.supplier}</p>
+                        {purchase.supplierId ? (
+                          <Link href={`/suppliers/${purchase.supplierId}`}>
+                            <a className="font-medium hover:underline">{purchase.supplier}</a>
+                          </Link>
+                        ) : (
+                          <p className="font-medium">{purchase.supplier}</p>
+                        )}
                         <p className="text-sm text-muted-foreground">{purchase.description}</p>
                       </div>
                       <Badge variant="secondary">{purchase.amount} درهم</Badge>
@@ -323,12 +396,12 @@ export default function Accounting() {
               <CardContent>
                 <form onSubmit={handlePurchaseSubmit} className="space-y-4">
                   <div>
-                    <Label htmlFor="supplierName">اسم المورد</Label>
-                    <Input
-                      id="supplierName"
-                      value={purchaseData.supplierName}
-                      onChange={(e) => setPurchaseData(prev => ({ ...prev, supplierName: e.target.value }))}
-                      required
+                    <Label>المورد</Label>
+                    <SupplierPicker
+                      supplierId={purchaseData.supplierId}
+                      name={purchaseData.supplierName}
+                      onChange={(supplierId, supplierName) => setPurchaseData(prev => ({ ...prev, supplierId, supplierName }))}
+                      testId="select-purchase-supplier"
                     />
                   </div>
                   <div>
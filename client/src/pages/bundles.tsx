@@ -0,0 +1,144 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import Sidebar from "@/components/layout/sidebar";
+import Header from "@/components/layout/header";
+import BundleFormDialog from "@/components/bundles/bundle-form-dialog";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Boxes, Edit, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { bundleSeparatePrice } from "@shared/bundles";
+import type { BundleWithComponents } from "@shared/schema";
+
+export default function Bundles() {
+  const [editing, setEditing] = useState<BundleWithComponents | null>(null);
+  const [showAdd, setShowAdd] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: bundles, isLoading } = useQuery<BundleWithComponents[]>({
+    queryKey: ["/api/bundles"],
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/bundles/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bundles"] });
+      toast({
+        title: "تم الحذف",
+        description: "تم حذف الطقم",
+      });
+    },
+    onError: (error) => {
+      const sold = error instanceof Error && error.message.startsWith("409:");
+      toast({
+        title: "تعذر حذف الطقم",
+        description: sold ? "تم بيع هذا الطقم من قبل ويبقى محفوظاً في سجل المبيعات" : "حدث خطأ أثناء حذف الطقم",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleDelete = (bundle: BundleWithComponents) => {
+    if (confirm(`هل تريد حذف الطقم "${bundle.name}"؟`)) {
+      deleteMutation.mutate(bundle.id);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex">
+      <Sidebar />
+      <main className="flex-1 overflow-hidden">
+        <Header title="الأطقم" subtitle="قطع تباع معاً بسعر الطقم وتخصم كل قطعة من مخزونها" />
+
+        <div className="p-6 overflow-y-auto h-full">
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between gap-4">
+                <CardTitle className="flex items-center gap-2">
+                  <Boxes className="h-5 w-5" />
+                  جميع الأطقم
+                </CardTitle>
+                <Button onClick={() => setShowAdd(true)} data-testid="button-add-bundle">
+                  <Plus className="h-4 w-4 ml-1" />
+                  إضافة طقم
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <p className="text-center text-muted-foreground py-8">جاري التحميل...</p>
+              ) : !bundles || bundles.length === 0 ? (
+                <p className="text-center text-muted-foreground py-8">لا توجد أطقم بعد</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="text-right">الطقم</TableHead>
+                      <TableHead className="text-right">القطع</TableHead>
+                      <TableHead className="text-right">سعر المتجر</TableHead>
+                      <TableHead className="text-right">سعر الأونلاين</TableHead>
+                      <TableHead className="text-right">القطع منفردة (المتجر)</TableHead>
+                      <TableHead className="text-right"></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {bundles.map((bundle) => (
+                      <TableRow key={bundle.id} data-testid={`row-bundle-${bundle.id}`}>
+                        <TableCell className="font-medium">{bundle.name}</TableCell>
+                        <TableCell>
+                          <ul className="text-sm space-y-1">
+                            {bundle.components.map((component) => (
+                              <li key={component.id}>
+                                {component.quantity > 1 && `${component.quantity} × `}
+                                {component.product.modelNumber} - {component.color} / {component.size}
+                              </li>
+                            ))}
+                          </ul>
+                        </TableCell>
+                        <TableCell className="font-medium">{bundle.storePrice} درهم</TableCell>
+                        <TableCell className="font-medium">{bundle.onlinePrice} درهم</TableCell>
+                        <TableCell className="text-muted-foreground">{bundleSeparatePrice(bundle, "in-store")} درهم</TableCell>
+                        <TableCell>
+                          <div className="flex gap-1">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setEditing(bundle)}
+                              title="تعديل"
+                              data-testid={`button-edit-bundle-${bundle.id}`}
+                            >
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleDelete(bundle)}
+                              disabled={deleteMutation.isPending}
+                              title="حذف"
+                              data-testid={`button-delete-bundle-${bundle.id}`}
+                            >
+                              <Trash2 className="h-4 w-4 text-destructive" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+
+      {showAdd && <BundleFormDialog onClose={() => setShowAdd(false)} />}
+      {editing && <BundleFormDialog bundle={editing} onClose={() => setEditing(null)} />}
+    </div>
+  );
+}
@@ -0,0 +1,319 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import Sidebar from "@/components/layout/sidebar";
+import Header from "@/components/layout/header";
+import ColorSwatch from "@/components/products/color-swatch";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Edit, Palette, Plus, Ruler, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useVariantCatalog } from "@/hooks/use-variant-catalog";
+import { apiRequest } from "@/lib/queryClient";
+import type { Color, InsertSizeSystem, SizeSystem } from "@shared/schema";
+
+// Sizes are typed as one comma-separated list, in the order they should be offered
+const parseSizes = (value: string) =>
+  value.split(/[,،]/).map(size => size.trim()).filter(size => size.length > 0);
+
+export default function Catalog() {
+  const [newColor, setNewColor] = useState({ name: "", hex: "#000000" });
+  // null while the dialog is closed; "new" when adding
+  const [editingSystem, setEditingSystem] = useState<SizeSystem | "new" | null>(null);
+  const [systemForm, setSystemForm] = useState({ nameAr: "", sizes: "" });
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { colors, sizeSystems, isLoading } = useVariantCatalog();
+
+  // A 409 means the item is still in use; `inUseMessage` explains by what
+  const showError = (error: unknown, inUseMessage?: string) => {
+    const inUse = error instanceof Error && error.message.startsWith("409:");
+    toast({
+      title: "خطأ",
+      description: inUse && inUseMessage ? inUseMessage : "حدث خطأ أثناء حفظ التغييرات",
+      variant: "destructive",
+    });
+  };
+
+  const createColorMutation = useMutation({
+    mutationFn: async (data: { name: string; hex: string }) => {
+      const response = await apiRequest("POST", "/api/colors", { ...data, sortOrder: colors.length });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/colors"] });
+      setNewColor({ name: "", hex: "#000000" });
+    },
+    onError: (error) => showError(error),
+  });
+
+  const updateColorMutation = useMutation({
+    mutationFn: async ({ id, hex }: { id: string; hex: string }) => {
+      const response = await apiRequest("PUT", `/api/colors/${id}`, { hex });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/colors"] });
+    },
+    onError: (error) => showError(error),
+  });
+
+  const deleteColorMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/colors/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/colors"] });
+    },
+    onError: (error) => showError(error, "اللون مستخدم في المخزون ولا يمكن حذفه"),
+  });
+
+  const saveSystemMutation = useMutation({
+    mutationFn: async (data: InsertSizeSystem) => {
+      const response = editingSystem === "new" || !editingSystem
+        ? await apiRequest("POST", "/api/size-systems", data)
+        : await apiRequest("PUT", `/api/size-systems/${editingSystem.id}`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/size-systems"] });
+      toast({
+        title: "تم الحفظ",
+        description: "تم حفظ نظام المقاسات بنجاح",
+      });
+      setEditingSystem(null);
+    },
+    onError: (error) => showError(error),
+  });
+
+  const deleteSystemMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/size-systems/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/size-systems"] });
+    },
+    onError: (error) => showError(error, "نظام المقاسات مرتبط بتصنيفات، غيّر نظام مقاساتها أولاً"),
+  });
+
+  const handleAddColor = (e: React.FormEvent) => {
+    e.preventDefault();
+    createColorMutation.mutate({ name: newColor.name.trim(), hex: newColor.hex });
+  };
+
+  const handleDeleteColor = (color: Color) => {
+    if (confirm(`هل أنت متأكد من حذف اللون "${color.name}"؟`)) {
+      deleteColorMutation.mutate(color.id);
+    }
+  };
+
+  const openSystem = (system: SizeSystem | "new") => {
+    setSystemForm(system === "new"
+      ? { nameAr: "", sizes: "" }
+      : { nameAr: system.nameAr, sizes: system.sizes.join(", ") });
+    setEditingSystem(system);
+  };
+
+  const handleDeleteSystem = (system: SizeSystem) => {
+    if (confirm(`هل أنت متأكد من حذف نظام المقاسات "${system.nameAr}"؟`)) {
+      deleteSystemMutation.mutate(system.id);
+    }
+  };
+
+  const handleSystemSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveSystemMutation.mutate({ nameAr: systemForm.nameAr, sizes: parseSizes(systemForm.sizes) });
+  };
+
+  return (
+    <div className="min-h-screen flex">
+      <Sidebar />
+      <main className="flex-1 overflow-hidden">
+        <Header title="الألوان والمقاسات" subtitle="الألوان وأنظمة المقاسات المتاحة عند إضافة المخزون" />
+
+        <div className="p-6 overflow-y-auto h-full space-y-6">
+          {/* Colors */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Palette className="h-5 w-5" />
+                الألوان
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <form onSubmit={handleAddColor} className="flex items-end gap-2">
+                <div>
+                  <Label htmlFor="color-name">اسم اللون</Label>
+                  <Input
+                    id="color-name"
+                    value={newColor.name}
+                    onChange={(e) => setNewColor({ ...newColor, name: e.target.value })}
+                    className="w-48"
+                    required
+                    data-testid="input-color-name"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="color-hex">اللون</Label>
+                  <Input
+                    id="color-hex"
+                    type="color"
+                    value={newColor.hex}
+                    onChange={(e) => setNewColor({ ...newColor, hex: e.target.value })}
+                    className="w-16 p-1"
+                    data-testid="input-color-hex"
+                  />
+                </div>
+                <Button type="submit" disabled={createColorMutation.isPending} data-testid="button-add-catalog-color">
+                  <Plus className="h-4 w-4 ml-1" />
+                  إضافة لون
+                </Button>
+              </form>
+
+              {isLoading ? (
+                <p className="text-center text-muted-foreground py-4">جاري التحميل...</p>
+              ) : (
+                <div className="flex flex-wrap gap-3">
+                  {colors.map((color) => (
+                    <div
+                      key={color.id}
+                      className="flex items-center gap-2 border border-border rounded-lg px-3 py-2"
+                      data-testid={`color-${color.id}`}
+                    >
+                      <ColorSwatch hex={color.hex} className="h-5 w-5" />
+                      <span>{color.name}</span>
+                      <Input
+                        type="color"
+                        value={color.hex}
+                        onChange={(e) => updateColorMutation.mutate({ id: color.id, hex: e.target.value })}
+                        className="w-10 h-8 p-1"
+                        title="تغيير لون العينة"
+                        data-testid={`input-color-hex-${color.id}`}
+                      />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDeleteColor(color)}
+                        className="text-destructive"
+                        data-testid={`button-delete-color-${color.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Size systems */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className="flex items-center gap-2">
+                  <Ruler className="h-5 w-5" />
+                  أنظمة المقاسات
+                </CardTitle>
+                <Button onClick={() => openSystem("new")} data-testid="button-add-size-system">
+                  <Plus className="h-4 w-4 ml-1" />
+                  إضافة نظام مقاسات
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-right">الاسم</TableHead>
+                    <TableHead className="text-right">المقاسات</TableHead>
+                    <TableHead className="text-right">الإجراءات</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sizeSystems.map((system) => (
+                    <TableRow key={system.id} data-testid={`row-size-system-${system.id}`}>
+                      <TableCell className="font-medium">{system.nameAr}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {system.sizes.map((size) => (
+                            <Badge key={size} variant="outline">{size}</Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => openSystem(system)}
+                            data-testid={`button-edit-size-system-${system.id}`}
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleDeleteSystem(system)}
+                            data-testid={`button-delete-size-system-${system.id}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+
+      <Dialog open={editingSystem !== null} onOpenChange={(open) => !open && setEditingSystem(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingSystem === "new" ? "إضافة نظام مقاسات" : "تعديل نظام المقاسات"}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSystemSubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="size-system-name">الاسم</Label>
+              <Input
+                id="size-system-name"
+                value={systemForm.nameAr}
+                onChange={(e) => setSystemForm({ ...systemForm, nameAr: e.target.value })}
+                required
+                data-testid="input-size-system-name"
+              />
+            </div>
+            <div>
+              <Label htmlFor="size-system-sizes">المقاسات (مفصولة بفاصلة، بالترتيب)</Label>
+              <Input
+                id="size-system-sizes"
+                value={systemForm.sizes}
+                onChange={(e) => setSystemForm({ ...systemForm, sizes: e.target.value })}
+                placeholder="S, M, L, XL"
+                dir="ltr"
+                required
+                data-testid="input-size-system-sizes"
+              />
+            </div>
+            <div className="flex gap-2 justify-end">
+              <Button type="button" variant="outline" onClick={() => setEditingSystem(null)}>
+                إلغاء
+              </Button>
+              <Button type="submit" disabled={saveSystemMutation.isPending} data-testid="button-save-size-system">
+                {saveSystemMutation.isPending ? "جاري الحفظ..." : "حفظ"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
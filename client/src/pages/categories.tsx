@@ -0,0 +1,316 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import Sidebar from "@/components/layout/sidebar";
+import Header from "@/components/layout/header";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Edit, FolderTree, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useCategories, type CategoryOption } from "@/hooks/use-categories";
+import { apiRequest } from "@/lib/queryClient";
+import { resolveCategoryReorderPoint } from "@shared/reorder";
+import type { InsertCategory, ProductWithInventory, SizeSystem } from "@shared/schema";
+
+// Select values standing in for null
+const NO_PARENT = "none";
+const INHERIT_SIZES = "inherit";
+
+// A blank reorder point inherits the parent's
+const emptyForm = { nameAr: "", nameEn: "", parentId: NO_PARENT, sizeSystemId: INHERIT_SIZES, reorderPoint: "", sortOrder: "0" };
+
+export default function Categories() {
+  // null while the dialog is closed; "new" when adding
+  const [editing, setEditing] = useState<CategoryOption | "new" | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { categories, isLoading, getCategoryLabel, isInCategory } = useCategories();
+
+  const { data: products } = useQuery<ProductWithInventory[]>({
+    queryKey: ["/api/products"],
+  });
+
+  const { data: sizeSystems } = useQuery<SizeSystem[]>({
+    queryKey: ["/api/size-systems"],
+  });
+
+  const getSizeSystemName = (id: string | null) =>
+    id ? sizeSystems?.find(system => system.id === id)?.nameAr ?? id : "من التصنيف الرئيسي";
+
+  const productCount = (id: string) => (products || []).filter(p => p.productType === id).length;
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: InsertCategory) => {
+      const response = editing === "new" || !editing
+        ? await apiRequest("POST", "/api/categories", data)
+        : await apiRequest("PUT", `/api/categories/${editing.id}`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
+      // Reorder points decide the products' stock status
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory/low-stock"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      toast({
+        title: "تم الحفظ",
+        description: "تم حفظ التصنيف بنجاح",
+      });
+      setEditing(null);
+    },
+    onError: () => {
+      toast({
+        title: "خطأ",
+        description: "فشل في حفظ التصنيف",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/categories/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
+      toast({
+        title: "تم الحذف",
+        description: "تم حذف التصنيف بنجاح",
+      });
+    },
+    onError: (error) => {
+      const inUse = error instanceof Error && error.message.startsWith("409:");
+      toast({
+        title: "تعذر حذف التصنيف",
+        description: inUse
+          ? "التصنيف مستخدم في منتجات أو تصنيفات فرعية، انقلها إلى تصنيف آخر أولاً"
+          : "حدث خطأ أثناء حذف التصنيف",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openNew = () => {
+    setFormData(emptyForm);
+    setEditing("new");
+  };
+
+  const openEdit = (category: CategoryOption) => {
+    setFormData({
+      nameAr: category.nameAr,
+      nameEn: category.nameEn,
+      parentId: category.parentId || NO_PARENT,
+      sizeSystemId: category.sizeSystemId || INHERIT_SIZES,
+      reorderPoint: category.reorderPoint === null ? "" : String(category.reorderPoint),
+      sortOrder: String(category.sortOrder),
+    });
+    setEditing(category);
+  };
+
+  const handleDelete = (category: CategoryOption) => {
+    if (confirm(`هل أنت متأكد من حذف التصنيف "${category.nameAr}"؟`)) {
+      deleteMutation.mutate(category.id);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate({
+      nameAr: formData.nameAr,
+      nameEn: formData.nameEn,
+      parentId: formData.parentId === NO_PARENT ? null : formData.parentId,
+      sizeSystemId: formData.sizeSystemId === INHERIT_SIZES ? null : formData.sizeSystemId,
+      reorderPoint: formData.reorderPoint === "" ? null : Math.max(0, parseInt(formData.reorderPoint) || 0),
+      sortOrder: parseInt(formData.sortOrder) || 0,
+    });
+  };
+
+  // A category cannot move under itself or its own subcategories
+  const parentOptions = categories.filter(
+    category => editing === "new" || !editing || !isInCategory(category.id, editing.id)
+  );
+
+  return (
+    <div className="min-h-screen flex">
+      <Sidebar />
+      <main className="flex-1 overflow-hidden">
+        <Header title="التصنيفات" subtitle="تصنيفات المنتجات المستخدمة في النماذج والفلاتر" />
+
+        <div className="p-6 overflow-y-auto h-full">
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className="flex items-center gap-2">
+                  <FolderTree className="h-5 w-5" />
+                  جميع التصنيفات
+                </CardTitle>
+                <Button onClick={openNew} data-testid="button-add-category">
+                  <Plus className="h-4 w-4 ml-1" />
+                  إضافة تصنيف
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <p className="text-center text-muted-foreground py-8">جاري التحميل...</p>
+              ) : categories.length === 0 ? (
+                <p className="text-center text-muted-foreground py-8">لا توجد تصنيفات بعد</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="text-right">الاسم بالعربية</TableHead>
+                      <TableHead className="text-right">الاسم بالإنجليزية</TableHead>
+                      <TableHead className="text-right">نظام المقاسات</TableHead>
+                      <TableHead className="text-right">حد إعادة الطلب</TableHead>
+                      <TableHead className="text-right">الترتيب</TableHead>
+                      <TableHead className="text-right">المنتجات</TableHead>
+                      <TableHead className="text-right">الإجراءات</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {categories.map((category) => (
+                      <TableRow key={category.id} data-testid={`row-category-${category.id}`}>
+                        <TableCell className="font-medium">{getCategoryLabel(category)}</TableCell>
+                        <TableCell dir="ltr" className="text-right">{category.nameEn}</TableCell>
+                        <TableCell>{getSizeSystemName(category.sizeSystemId)}</TableCell>
+                        <TableCell className={category.reorderPoint === null ? "text-muted-foreground" : undefined}>
+                          {resolveCategoryReorderPoint(categories, category.id)}
+                        </TableCell>
+                        <TableCell>{category.sortOrder}</TableCell>
+                        <TableCell>{productCount(category.id)}</TableCell>
+                        <TableCell>
+                          <div className="flex gap-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => openEdit(category)}
+                              data-testid={`button-edit-category-${category.id}`}
+                            >
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleDelete(category)}
+                              disabled={deleteMutation.isPending}
+                              data-testid={`button-delete-category-${category.id}`}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing === "new" ? "إضافة تصنيف" : "تعديل التصنيف"}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="category-name-ar">الاسم بالعربية</Label>
+              <Input
+                id="category-name-ar"
+                value={formData.nameAr}
+                onChange={(e) => setFormData({ ...formData, nameAr: e.target.value })}
+                required
+                data-testid="input-category-name-ar"
+              />
+            </div>
+            <div>
+              <Label htmlFor="category-name-en">الاسم بالإنجليزية</Label>
+              <Input
+                id="category-name-en"
+                value={formData.nameEn}
+                onChange={(e) => setFormData({ ...formData, nameEn: e.target.value })}
+                dir="ltr"
+                required
+                data-testid="input-category-name-en"
+              />
+            </div>
+            <div>
+              <Label>التصنيف الرئيسي</Label>
+              <Select value={formData.parentId} onValueChange={(value) => setFormData({ ...formData, parentId: value })}>
+                <SelectTrigger data-testid="select-category-parent">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_PARENT}>بدون (تصنيف رئيسي)</SelectItem>
+                  {parentOptions.map((category) => (
+                    <SelectItem key={category.id} value={category.id}>
+                      {getCategoryLabel(category)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>نظام المقاسات</Label>
+              <Select value={formData.sizeSystemId} onValueChange={(value) => setFormData({ ...formData, sizeSystemId: value })}>
+                <SelectTrigger data-testid="select-category-size-system">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={INHERIT_SIZES}>من التصنيف الرئيسي</SelectItem>
+                  {(sizeSystems || []).map((system) => (
+                    <SelectItem key={system.id} value={system.id}>
+                      {system.nameAr} ({system.sizes.join("، ")})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="category-reorder-point">حد إعادة الطلب</Label>
+              <Input
+                id="category-reorder-point"
+                type="number"
+                min="0"
+                value={formData.reorderPoint}
+                onChange={(e) => setFormData({ ...formData, reorderPoint: e.target.value })}
+                placeholder="من التصنيف الرئيسي"
+                data-testid="input-category-reorder-point"
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                ينبّه النظام عندما تقل كمية أي لون ومقاس عن هذا الحد، ما لم يحدد المنتج حداً خاصاً به
+              </p>
+            </div>
+            <div>
+              <Label htmlFor="category-sort-order">الترتيب</Label>
+              <Input
+                id="category-sort-order"
+                type="number"
+                value={formData.sortOrder}
+                onChange={(e) => setFormData({ ...formData, sortOrder: e.target.value })}
+                data-testid="input-category-sort-order"
+              />
+            </div>
+            <div className="flex gap-2 justify-end">
+              <Button type="button" variant="outline" onClick={() => setEditing(null)}>
+                إلغاء
+              </Button>
+              <Button type="submit" disabled={saveMutation.isPending} data-testid="button-save-category">
+                {saveMutation.isPending ? "جاري الحفظ..." : "حفظ"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -5,25 +5,23 @@ import ProductTable from "@/components/products/product-table";
 import AddProductModal from "@/components/products/add-product-modal";
 import SaleForm from "@/components/sales/sale-form";
 import ReturnForm from "@/components/returns/return-form";
+import LowStockPanel from "@/components/products/low-stock-panel";
 import { Card, CardContent } from "@/components/ui/card";
 import { useState } from "react";
+import { useAuth } from "@/hooks/use-auth";
 import { Package, TrendingUp, AlertTriangle, RotateCcw } from "lucide-react";
 
 export default function Dashboard() {
   const [showAddProduct, setShowAddProduct] = useState(false);
   const [showSaleForm, setShowSaleForm] = useState(false);
   const [showReturnForm, setShowReturnForm] = useState(false);
+  const { can } = useAuth();
 
   const { data: stats, isLoading: statsLoading } = useQuery({
     queryKey: ["/api/dashboard/stats"],
   });
 
-  const { data: products, isLoading: productsLoading } = useQuery({
-    queryKey: ["/api/products"],
-  });
-
   const statsData = (stats as any) || {};
-  const productsArray = (products as any) || [];
 
   return (
     <div className="min-h-screen flex">
@@ -59,6 +57,11 @@ export default function Dashboard() {
                       {statsLoading ? "..." : statsData.todaySales || 0}
                     </p>
                     <p className="text-xs text-muted-foreground">درهم إماراتي</p>
+                    {can("accounting:view") && (
+                      <p className="text-xs text-muted-foreground mt-1" data-testid="text-today-gross-profit">
+                        إجمالي الربح: {statsLoading ? "..." : statsData.todayGrossProfit || 0} درهم
+                      </p>
+                    )}
                   </div>
                   <div className="w-12 h-12 bg-accent/10 rounded-lg flex items-center justify-center">
                     <TrendingUp className="text-accent text-xl" />
@@ -73,9 +76,12 @@ export default function Dashboard() {
                   <div>
                     <p className="text-sm text-muted-foreground">مخزون منخفض</p>
                     <p className="text-3xl font-bold text-destructive" data-testid="text-low-stock">
-                      {statsLoading ? "..." : statsData.outOfStockCount || 0}
+                      {statsLoading ? "..." : statsData.lowStockCount || 0}
+                    </p>
+                    <p className="text-xs text-muted-foreground">لون ومقاس تحت حد إعادة الطلب</p>
+                    <p className="text-xs text-muted-foreground mt-1" data-testid="text-out-of-stock">
+                      منتجات نفدت بالكامل: {statsLoading ? "..." : statsData.outOfStockCount || 0}
                     </p>
-                    <p className="text-xs text-muted-foreground">منتج يحتاج تجديد</p>
                   </div>
                   <div className="w-12 h-12 bg-destructive/10 rounded-lg flex items-center justify-center">
                     <AlertTriangle className="text-destructive text-xl" />
@@ -106,41 +112,49 @@ export default function Dashboard() {
           <div className="mb-8">
             <h3 className="text-xl font-semibold mb-4">الإجراءات السريعة</h3>
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-              <button 
-                onClick={() => setShowAddProduct(true)}
-                className="bg-primary text-primary-foreground p-4 rounded-lg hover:bg-primary/90 transition-colors"
-                data-testid="button-add-product"
-              >
-                <div className="flex items-center gap-3">
-                  <Package className="text-xl" />
-                  <span className="font-medium">إضافة منتج جديد</span>
-                </div>
-              </button>
-              <button 
-                onClick={() => setShowSaleForm(true)}
-                className="bg-accent text-accent-foreground p-4 rounded-lg hover:bg-accent/90 transition-colors"
-                data-testid="button-new-sale"
-              >
-                <div className="flex items-center gap-3">
-                  <TrendingUp className="text-xl" />
-                  <span className="font-medium">تسجيل بيع جديد</span>
-                </div>
-              </button>
-              <button 
-                onClick={() => setShowReturnForm(true)}
-                className="bg-secondary text-secondary-foreground p-4 rounded-lg hover:bg-secondary/80 transition-colors"
-                data-testid="button-new-return"
-              >
-                <div className="flex items-center gap-3">
-                  <RotateCcw className="text-xl" />
-                  <span className="font-medium">تسجيل مرتجع</span>
-                </div>
-              </button>
+              {can("products:edit") && (
+                <button 
+                  onClick={() => setShowAddProduct(true)}
+                  className="bg-primary text-primary-foreground p-4 rounded-lg hover:bg-primary/90 transition-colors"
+                  data-testid="button-add-product"
+                >
+                  <div className="flex items-center gap-3">
+                    <Package className="text-xl" />
+                    <span className="font-medium">إضافة منتج جديد</span>
+                  </div>
+                </button>
+              )}
+              {can("sales:create") && (
+                <button 
+                  onClick={() => setShowSaleForm(true)}
+                  className="bg-accent text-accent-foreground p-4 rounded-lg hover:bg-accent/90 transition-colors"
+                  data-testid="button-new-sale"
+                >
+                  <div className="flex items-center gap-3">
+                    <TrendingUp className="text-xl" />
+                    <span className="font-medium">تسجيل بيع جديد</span>
+                  </div>
+                </button>
+              )}
+              {can("returns:create") && (
+                <button 
+                  onClick={() => setShowReturnForm(true)}
+                  className="bg-secondary text-secondary-foreground p-4 rounded-lg hover:bg-secondary/80 transition-colors"
+                  data-testid="button-new-return"
+                >
+                  <div className="flex items-center gap-3">
+                    <RotateCcw className="text-xl" />
+                    <span className="font-medium">تسجيل مرتجع</span>
+                  </div>
+                </button>
+              )}
             </div>
           </div>
 
+          <LowStockPanel />
+
           {/* Product Inventory Table */}
-          <ProductTable products={productsArray} isLoading={productsLoading} />
+          <ProductTable />
         </div>
       </main>
 
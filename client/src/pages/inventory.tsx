@@ -3,17 +3,34 @@ import Sidebar from "@/components/layout/sidebar";
 import Header from "@/components/layout/header";
 import ProductTable from "@/components/products/product-table";
 import AddProductModal from "@/components/products/add-product-modal";
+import ImportProductsModal from "@/components/products/import-products-modal";
+import BulkPriceModal from "@/components/products/bulk-price-modal";
 import { useState } from "react";
+import { useAuth } from "@/hooks/use-auth";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Download } from "lucide-react";
+import { useProductListQuery } from "@/hooks/use-product-list-query";
+import type { ProductListQuery } from "@shared/product-filter";
+import { canViewCosts } from "@shared/permissions";
+import type { ProductWithInventory } from "@shared/schema";
+
+// Export links carry the table's current search, filters and sort, but every page of matches
+const exportUrl = ({ page, limit, ...filter }: ProductListQuery, level: "product" | "variant", format: "csv" | "xlsx") =>
+  `/api/products/export?${new URLSearchParams({ ...filter, level, format })}`;
 
 export default function Inventory() {
   const [showAddProduct, setShowAddProduct] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [showBulkPrice, setShowBulkPrice] = useState(false);
+  const [query, setQuery] = useProductListQuery();
+  const { user, can } = useAuth();
 
-  const { data: products, isLoading } = useQuery({
+  // The whole catalog is only needed to pick products for a bulk price change
+  const { data: products } = useQuery<ProductWithInventory[]>({
     queryKey: ["/api/products"],
+    enabled: showBulkPrice,
   });
 
-  const productsArray = (products as any) || [];
-
   return (
     <div className="min-h-screen flex">
       <Sidebar />
@@ -23,22 +40,80 @@ export default function Inventory() {
         <div className="p-6 overflow-y-auto h-full">
           <div className="flex justify-between items-center mb-6">
             <h2 className="text-2xl font-bold">جدول المنتجات</h2>
-            <button 
-              onClick={() => setShowAddProduct(true)}
-              className="bg-primary text-primary-foreground px-6 py-3 rounded-lg hover:bg-primary/90 transition-colors"
-              data-testid="button-add-product"
-            >
-              إضافة منتج جديد
-            </button>
+            <div className="flex gap-2">
+              {canViewCosts(user?.role) && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <button
+                      className="border border-border px-6 py-3 rounded-lg hover:bg-accent transition-colors flex items-center gap-2"
+                      data-testid="button-export-products"
+                    >
+                      <Download className="h-4 w-4" />
+                      تصدير
+                    </button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuLabel>منتج في كل صف</DropdownMenuLabel>
+                    <DropdownMenuItem asChild>
+                      <a href={exportUrl(query, "product", "xlsx")} download data-testid="link-export-products-xlsx">Excel (XLSX)</a>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem asChild>
+                      <a href={exportUrl(query, "product", "csv")} download data-testid="link-export-products-csv">CSV</a>
+                    </DropdownMenuItem>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuLabel>لون ومقاس في كل صف</DropdownMenuLabel>
+                    <DropdownMenuItem asChild>
+                      <a href={exportUrl(query, "variant", "xlsx")} download data-testid="link-export-variants-xlsx">Excel (XLSX)</a>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem asChild>
+                      <a href={exportUrl(query, "variant", "csv")} download data-testid="link-export-variants-csv">CSV</a>
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
+              {can("products:edit") && (
+                <>
+                  <button
+                    onClick={() => setShowBulkPrice(true)}
+                    className="border border-border px-6 py-3 rounded-lg hover:bg-accent transition-colors"
+                    data-testid="button-bulk-price"
+                  >
+                    تعديل الأسعار
+                  </button>
+                  <button
+                    onClick={() => setShowImport(true)}
+                    className="border border-border px-6 py-3 rounded-lg hover:bg-accent transition-colors"
+                    data-testid="button-import-products"
+                  >
+                    استيراد من ملف
+                  </button>
+                  <button 
+                    onClick={() => setShowAddProduct(true)}
+                    className="bg-primary text-primary-foreground px-6 py-3 rounded-lg hover:bg-primary/90 transition-colors"
+                    data-testid="button-add-product"
+                  >
+                    إضافة منتج جديد
+                  </button>
+                </>
+              )}
+            </div>
           </div>
 
-          <ProductTable products={productsArray} isLoading={isLoading} />
+          <ProductTable query={query} onQueryChange={setQuery} />
         </div>
       </main>
 
       {showAddProduct && (
         <AddProductModal onClose={() => setShowAddProduct(false)} />
       )}
+
+      {showImport && (
+        <ImportProductsModal onClose={() => setShowImport(false)} />
+      )}
+
+      {showBulkPrice && (
+        <BulkPriceModal products={products || []} onClose={() => setShowBulkPrice(false)} />
+      )}
     </div>
   );
 }
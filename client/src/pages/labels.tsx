@@ -0,0 +1,153 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import Sidebar from "@/components/layout/sidebar";
+import Header from "@/components/layout/header";
+import Barcode from "@/components/products/barcode";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Printer, Tag } from "lucide-react";
+import type { ProductInventory, ProductWithInventory } from "@shared/schema";
+
+export default function Labels() {
+  const [productId, setProductId] = useState("");
+  // Number of labels to print per inventory row id
+  const [copies, setCopies] = useState<Record<string, number>>({});
+
+  const { data: products, isLoading } = useQuery<ProductWithInventory[]>({
+    queryKey: ["/api/products"],
+  });
+
+  const product = products?.find(p => p.id === productId);
+  const variants = (product?.inventory || [])
+    .filter(item => item.barcode)
+    .sort((a, b) => a.color.localeCompare(b.color) || a.size.localeCompare(b.size));
+
+  const getCopies = (item: ProductInventory) => copies[item.id] ?? 1;
+
+  const selectProduct = (id: string) => {
+    setProductId(id);
+    setCopies({});
+  };
+
+  const copiesFromStock = () => {
+    const next: Record<string, number> = {};
+    variants.forEach(item => { next[item.id] = item.quantity; });
+    setCopies(next);
+  };
+
+  const labels: ProductInventory[] = [];
+  variants.forEach((item) => {
+    for (let i = 0; i < getCopies(item); i++) {
+      labels.push(item);
+    }
+  });
+
+  return (
+    <div className="min-h-screen flex">
+      <div className="print:hidden">
+        <Sidebar />
+      </div>
+      <main className="flex-1 overflow-hidden print:overflow-visible">
+        <div className="print:hidden">
+          <Header title="طباعة الملصقات" subtitle="ملصقات الأسعار مع الباركود لكل لون ومقاس" />
+        </div>
+
+        <div className="p-6 overflow-y-auto h-full print:p-0 print:overflow-visible">
+          <Card className="mb-6 print:hidden">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Tag className="h-5 w-5" />
+                اختيار المنتج
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-center gap-4">
+                <Select value={productId} onValueChange={selectProduct} disabled={isLoading}>
+                  <SelectTrigger className="w-72" data-testid="select-label-product">
+                    <SelectValue placeholder={isLoading ? "جاري التحميل..." : "اختر المنتج"} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(products || []).map((p) => (
+                      <SelectItem key={p.id} value={p.id}>
+                        {p.modelNumber} - {p.companyName}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {product && (
+                  <>
+                    <Button variant="outline" onClick={copiesFromStock} data-testid="button-copies-from-stock">
+                      عدد الملصقات حسب المخزون
+                    </Button>
+                    <Button onClick={() => window.print()} disabled={labels.length === 0} data-testid="button-print-labels">
+                      <Printer className="h-4 w-4 ml-1" />
+                      طباعة ({labels.length})
+                    </Button>
+                  </>
+                )}
+              </div>
+
+              {product && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="text-right">اللون</TableHead>
+                      <TableHead className="text-right">المقاس</TableHead>
+                      <TableHead className="text-right">SKU</TableHead>
+                      <TableHead className="text-right">الباركود</TableHead>
+                      <TableHead className="text-right">المخزون</TableHead>
+                      <TableHead className="text-right">عدد الملصقات</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {variants.map((item) => (
+                      <TableRow key={item.id} data-testid={`row-label-${item.id}`}>
+                        <TableCell>{item.color}</TableCell>
+                        <TableCell>{item.size}</TableCell>
+                        <TableCell className="font-mono text-xs" dir="ltr">{item.sku}</TableCell>
+                        <TableCell className="font-mono text-xs" dir="ltr">{item.barcode}</TableCell>
+                        <TableCell>{item.quantity}</TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min="0"
+                            className="w-24"
+                            value={getCopies(item)}
+                            onChange={(e) => setCopies({ ...copies, [item.id]: Math.max(0, parseInt(e.target.value) || 0) })}
+                            data-testid={`input-label-copies-${item.id}`}
+                          />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Label sheet: this is all that is left on the page when printing */}
+          {product && (
+            <div className="flex flex-wrap gap-2 print:gap-0" data-testid="label-sheet">
+              {labels.map((item, index) => (
+                <div
+                  key={`${item.id}-${index}`}
+                  className="w-[50mm] h-[30mm] border border-dashed border-gray-300 bg-white text-black flex flex-col items-center justify-center p-1 break-inside-avoid"
+                >
+                  <div className="flex w-full justify-between text-[9px] font-bold leading-tight">
+                    <span dir="ltr">{product.modelNumber}</span>
+                    <span>{item.color} / {item.size}</span>
+                  </div>
+                  <Barcode code={item.barcode!} className="w-full h-auto max-h-[17mm]" />
+                  <div className="text-[11px] font-bold leading-tight">{product.storePrice} درهم</div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
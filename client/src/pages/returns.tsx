@@ -5,10 +5,12 @@ import ReturnForm from "@/components/returns/return-form";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { useState } from "react";
+import { useAuth } from "@/hooks/use-auth";
 import { RotateCcw } from "lucide-react";
 
 export default function Returns() {
   const [showReturnForm, setShowReturnForm] = useState(false);
+  const { can } = useAuth();
 
   const { data: returns, isLoading } = useQuery({
     queryKey: ["/api/returns"],
@@ -25,13 +27,15 @@ export default function Returns() {
         <div className="p-6 overflow-y-auto h-full">
           <div className="flex justify-between items-center mb-6">
             <h2 className="text-2xl font-bold">سجل المرتجعات</h2>
-            <button 
-              onClick={() => setShowReturnForm(true)}
-              className="bg-primary text-primary-foreground px-6 py-3 rounded-lg hover:bg-primary/90 transition-colors"
-              data-testid="button-new-return"
-            >
-              تسجيل مرتجع جديد
-            </button>
+            {can("returns:create") && (
+              <button 
+                onClick={() => setShowReturnForm(true)}
+                className="bg-primary text-primary-foreground px-6 py-3 rounded-lg hover:bg-primary/90 transition-colors"
+                data-testid="button-new-return"
+              >
+                تسجيل مرتجع جديد
+              </button>
+            )}
           </div>
 
           {isLoading ? (
@@ -59,7 +63,7 @@ export default function Returns() {
                       </div>
                     </CardHeader>
                     <CardContent>
-                      <div className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm">
+                      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
                         <div>
                           <span className="text-muted-foreground">الفاتورة الأصلية:</span>
                           <p className="font-medium">{returnItem.originalSale?.invoiceNumber || 'غير محدد'}</p>
@@ -72,6 +76,10 @@ export default function Returns() {
                           <span className="text-muted-foreground">التاريخ:</span>
                           <p className="text-sm">{new Date(returnItem.createdAt).toLocaleDateString('ar-AE')}</p>
                         </div>
+                        <div>
+                          <span className="text-muted-foreground">الموظف:</span>
+                          <p className="font-medium" data-testid={`text-return-created-by-${returnItem.id}`}>{returnItem.createdByName || 'غير محدد'}</p>
+                        </div>
                       </div>
                       
                       {/* Exchange Details */}
@@ -1,17 +1,22 @@
-import { useQuery } from "@tanstack/react-query";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
 import Sidebar from "@/components/layout/sidebar";
 import Header from "@/components/layout/header";
 import SaleForm from "@/components/sales/sale-form";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
 import { useState } from "react";
-import { TrendingUp } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { Search, TrendingUp } from "lucide-react";
 
 export default function Sales() {
   const [showSaleForm, setShowSaleForm] = useState(false);
+  const [search, setSearch] = useState("");
+  const { can } = useAuth();
 
   const { data: sales, isLoading } = useQuery({
-    queryKey: ["/api/sales"],
+    queryKey: ["/api/sales", { search: search.trim() }],
+    placeholderData: keepPreviousData,
   });
 
   const salesArray = (sales as any) || [];
@@ -25,13 +30,25 @@ export default function Sales() {
         <div className="p-6 overflow-y-auto h-full">
           <div className="flex justify-between items-center mb-6">
             <h2 className="text-2xl font-bold">سجل المبيعات</h2>
-            <button 
-              onClick={() => setShowSaleForm(true)}
-              className="bg-primary text-primary-foreground px-6 py-3 rounded-lg hover:bg-primary/90 transition-colors"
-              data-testid="button-new-sale"
-            >
-              تسجيل بيع جديد
-            </button>
+            <div className="relative mr-auto ml-4">
+              <Search className="absolute right-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="رقم الفاتورة أو اسم العميل أو الهاتف..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="pr-9 w-72"
+                data-testid="input-search-sales"
+              />
+            </div>
+            {can("sales:create") && (
+              <button 
+                onClick={() => setShowSaleForm(true)}
+                className="bg-primary text-primary-foreground px-6 py-3 rounded-lg hover:bg-primary/90 transition-colors"
+                data-testid="button-new-sale"
+              >
+                تسجيل بيع جديد
+              </button>
+            )}
           </div>
 
           {isLoading ? (
@@ -42,7 +59,9 @@ export default function Sales() {
                 <Card>
                   <CardContent className="p-8 text-center">
                     <TrendingUp className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
-                    <p className="text-muted-foreground">لا توجد مبيعات مسجلة بعد</p>
+                    <p className="text-muted-foreground">
+                      {search.trim() ? "لا توجد مبيعات مطابقة للبحث" : "لا توجد مبيعات مسجلة بعد"}
+                    </p>
                   </CardContent>
                 </Card>
               ) : (
@@ -77,11 +96,15 @@ export default function Sales() {
                           <p className="font-bold text-primary">{sale.total} درهم</p>
                         </div>
                       </div>
-                      <div className="grid grid-cols-2 md:grid-cols-3 gap-4 mt-4 text-sm">
+                      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-4 text-sm">
                         <div>
                           <span className="text-muted-foreground">التاريخ:</span>
                           <p className="text-sm">{new Date(sale.createdAt).toLocaleDateString('ar-AE')}</p>
                         </div>
+                        <div>
+                          <span className="text-muted-foreground">الموظف:</span>
+                          <p className="font-medium" data-testid={`text-sale-created-by-${sale.id}`}>{sale.createdByName || 'غير محدد'}</p>
+                        </div>
                         <div>
                           <span className="text-muted-foreground">اسم العميل:</span>
                           <p className="font-medium">{sale.customerName}</p>
@@ -91,7 +114,7 @@ export default function Sales() {
                           <p className="font-medium">{sale.customerPhone}</p>
                         </div>
                         {sale.channel === 'online' && sale.trackingNumber && (
-                          <div className="md:col-span-3">
+                          <div className="md:col-span-4">
                             <span className="text-muted-foreground">رقم التتبع:</span>
                             <p className="font-medium text-accent">{sale.trackingNumber}</p>
                           </div>
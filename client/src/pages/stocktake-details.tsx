@@ -0,0 +1,369 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import Sidebar from "@/components/layout/sidebar";
+import Header from "@/components/layout/header";
+import BarcodeScanInput from "@/components/products/barcode-scan-input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowRight, CheckCircle, XCircle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useCategories } from "@/hooks/use-categories";
+import { apiRequest } from "@/lib/queryClient";
+import { stocktakeStatusLabels, stocktakeStatusVariants } from "@/pages/stocktakes";
+import { canViewCosts } from "@shared/permissions";
+import type { InventoryLookup, StocktakeCount, StocktakeDetails as StocktakeDetailsData, StocktakeLineDetails } from "@shared/schema";
+
+type LineFilter = "all" | "uncounted" | "variance";
+
+const filterLabels: Record<LineFilter, string> = {
+  all: "الكل",
+  uncounted: "لم يُعدّ",
+  variance: "فروقات فقط",
+};
+
+function varianceClass(variance: number | null): string {
+  if (!variance) return "text-muted-foreground";
+  return variance < 0 ? "text-destructive font-medium" : "text-green-600 font-medium";
+}
+
+export default function StocktakeDetails() {
+  const { id } = useParams<{ id: string }>();
+  const [filter, setFilter] = useState<LineFilter>("all");
+  // Counts being typed, keyed by line id, until the field is left or Enter is pressed
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const { toast } = useToast();
+  const { user, can } = useAuth();
+  const { getCategoryName } = useCategories();
+  const queryClient = useQueryClient();
+
+  const { data: stocktake, isLoading } = useQuery<StocktakeDetailsData>({
+    queryKey: ["/api/stocktakes", id],
+  });
+
+  const isCounting = stocktake?.status === "counting";
+
+  const countMutation = useMutation({
+    mutationFn: async (counts: StocktakeCount[]) => {
+      const response = await apiRequest("PUT", `/api/stocktakes/${id}/counts`, { counts });
+      return response.json() as Promise<StocktakeDetailsData>;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(["/api/stocktakes", id], updated);
+      queryClient.invalidateQueries({ queryKey: ["/api/stocktakes"], exact: true });
+    },
+    onError: (error) => {
+      const closed = error instanceof Error && error.message.startsWith("409:");
+      toast({
+        title: "خطأ",
+        description: closed ? "أُغلقت جلسة الجرد، لم يعد بالإمكان تعديل العدّ" : "فشل في حفظ العدّ",
+        variant: "destructive",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/stocktakes", id] });
+    },
+  });
+
+  const closeMutation = useMutation({
+    mutationFn: async (action: "approve" | "cancel") => {
+      const response = await apiRequest("POST", `/api/stocktakes/${id}/${action}`);
+      return response.json() as Promise<StocktakeDetailsData>;
+    },
+    onSuccess: (updated, action) => {
+      queryClient.setQueryData(["/api/stocktakes", id], updated);
+      queryClient.invalidateQueries({ queryKey: ["/api/stocktakes"], exact: true });
+      if (action === "approve") {
+        queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/inventory/low-stock"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      }
+      toast({
+        title: "تم بنجاح",
+        description: action === "approve" ? "تم اعتماد الجرد وتحديث المخزون" : "تم إلغاء الجرد",
+      });
+    },
+    onError: (error) => {
+      const closed = error instanceof Error && error.message.startsWith("409:");
+      toast({
+        title: "خطأ",
+        description: closed ? "جلسة الجرد مغلقة بالفعل" : "فشل في إغلاق جلسة الجرد",
+        variant: "destructive",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/stocktakes", id] });
+    },
+  });
+
+  const saveCount = (line: StocktakeLineDetails, countedQuantity: number | null) => {
+    if (countedQuantity === line.countedQuantity) return;
+    // Shown straight away so the next scan of the same piece adds to this count, not the saved one
+    queryClient.setQueryData<StocktakeDetailsData>(["/api/stocktakes", id], (current) => current && {
+      ...current,
+      lines: current.lines.map(item => item.id === line.id ? {
+        ...item,
+        countedQuantity,
+        variance: countedQuantity === null ? null : countedQuantity - item.systemQuantity,
+      } : item),
+    });
+    countMutation.mutate([{ productId: line.productId, color: line.color, size: line.size, countedQuantity }]);
+  };
+
+  const commitDraft = (line: StocktakeLineDetails) => {
+    const draft = drafts[line.id];
+    if (draft === undefined) return;
+    setDrafts((current) => {
+      const { [line.id]: _, ...rest } = current;
+      return rest;
+    });
+    const value = draft.trim();
+    if (value === "") {
+      saveCount(line, null);
+      return;
+    }
+    const quantity = Number(value);
+    if (!Number.isInteger(quantity) || quantity < 0) {
+      toast({ title: "خطأ", description: "أدخل عدداً صحيحاً غير سالب", variant: "destructive" });
+      return;
+    }
+    saveCount(line, quantity);
+  };
+
+  // Each scan counts one more piece of that color and size
+  const handleScan = (variant: InventoryLookup) => {
+    const current = queryClient.getQueryData<StocktakeDetailsData>(["/api/stocktakes", id]);
+    const line = current?.lines.find(item =>
+      item.productId === variant.productId && item.color === variant.color && item.size === variant.size);
+    if (!line) {
+      toast({
+        title: "خارج نطاق الجرد",
+        description: `${variant.product.modelNumber} - ${variant.color} - ${variant.size} ليس ضمن هذه الجلسة`,
+        variant: "destructive",
+      });
+      return;
+    }
+    saveCount(line, (line.countedQuantity ?? 0) + 1);
+  };
+
+  const handleApprove = () => {
+    if (!stocktake) return;
+    const uncounted = stocktake.lineCount - stocktake.countedCount;
+    const warning = uncounted > 0 ? `\n${uncounted} من الأصناف لم تُعدّ وستبقى كمياتها كما هي.` : "";
+    if (confirm(`سيتم تعديل المخزون ليطابق العدّ الفعلي.${warning}\nهل تريد اعتماد الجرد؟`)) {
+      closeMutation.mutate("approve");
+    }
+  };
+
+  const handleCancel = () => {
+    if (confirm("سيتم إلغاء جلسة الجرد دون تعديل المخزون. هل تريد المتابعة؟")) {
+      closeMutation.mutate("cancel");
+    }
+  };
+
+  const lines = stocktake?.lines.filter((line) => {
+    if (filter === "uncounted") return line.countedQuantity === null;
+    if (filter === "variance") return !!line.variance;
+    return true;
+  }) ?? [];
+
+  return (
+    <div className="min-h-screen flex">
+      <Sidebar />
+      <main className="flex-1 overflow-hidden">
+        <Header title={stocktake?.name ?? "الجرد"} subtitle="عدّ القطع ومقارنتها بكميات النظام" />
+
+        <div className="p-6 overflow-y-auto h-full space-y-6">
+          <Link href="/stocktakes">
+            <a className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground">
+              <ArrowRight className="h-4 w-4" />
+              جميع جلسات الجرد
+            </a>
+          </Link>
+
+          {isLoading ? (
+            <p className="text-center text-muted-foreground py-8">جاري التحميل...</p>
+          ) : !stocktake ? (
+            <p className="text-center text-muted-foreground py-8">جلسة الجرد غير موجودة</p>
+          ) : (
+            <>
+              <Card>
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="flex items-center gap-2">
+                      {stocktake.name}
+                      <Badge variant={stocktakeStatusVariants[stocktake.status]}>
+                        {stocktakeStatusLabels[stocktake.status] || stocktake.status}
+                      </Badge>
+                    </CardTitle>
+                    {isCounting && can("stocktake:manage") && (
+                      <div className="flex gap-2">
+                        <Button
+                          onClick={handleApprove}
+                          disabled={closeMutation.isPending || countMutation.isPending}
+                          data-testid="button-approve-stocktake"
+                        >
+                          <CheckCircle className="h-4 w-4 ml-1" />
+                          اعتماد الجرد
+                        </Button>
+                        <Button
+                          variant="outline"
+                          onClick={handleCancel}
+                          disabled={closeMutation.isPending}
+                          data-testid="button-cancel-stocktake"
+                        >
+                          <XCircle className="h-4 w-4 ml-1" />
+                          إلغاء الجرد
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                </CardHeader>
+                <CardContent className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                  <div>
+                    <p className="text-muted-foreground">النطاق</p>
+                    <p className="font-medium">{stocktake.categoryId ? getCategoryName(stocktake.categoryId) : "كل المتجر"}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">تاريخ البدء</p>
+                    <p className="font-medium">{new Date(stocktake.createdAt).toLocaleDateString('ar-AE')}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">تاريخ الإغلاق</p>
+                    <p className="font-medium">{stocktake.closedAt ? new Date(stocktake.closedAt).toLocaleDateString('ar-AE') : "—"}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">ملاحظات</p>
+                    <p className="whitespace-pre-line">{stocktake.notes || "—"}</p>
+                  </div>
+                </CardContent>
+              </Card>
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
+                <Card>
+                  <CardContent className="pt-6">
+                    <p className="text-sm text-muted-foreground">تم عدّه</p>
+                    <p className="text-2xl font-bold" data-testid="text-stocktake-progress">
+                      {stocktake.countedCount} / {stocktake.lineCount}
+                    </p>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardContent className="pt-6">
+                    <p className="text-sm text-muted-foreground">قطع ناقصة</p>
+                    <p className="text-2xl font-bold text-destructive" data-testid="text-stocktake-short">
+                      {stocktake.summary.shortUnits}
+                    </p>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardContent className="pt-6">
+                    <p className="text-sm text-muted-foreground">قطع زائدة</p>
+                    <p className="text-2xl font-bold text-green-600" data-testid="text-stocktake-over">
+                      {stocktake.summary.overUnits}
+                    </p>
+                  </CardContent>
+                </Card>
+                {canViewCosts(user?.role) && (
+                  <Card>
+                    <CardContent className="pt-6">
+                      <p className="text-sm text-muted-foreground">أثر الفروقات على قيمة المخزون</p>
+                      <p className={`text-2xl font-bold ${varianceClass(Number(stocktake.summary.valueImpact))}`} data-testid="text-stocktake-value">
+                        {stocktake.summary.valueImpact} درهم
+                      </p>
+                      {stocktake.summary.uncostedLines > 0 && (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {stocktake.summary.uncostedLines} من الأصناف بلا سعر تكلفة غير محسوبة
+                        </p>
+                      )}
+                    </CardContent>
+                  </Card>
+                )}
+              </div>
+
+              <Card>
+                <CardHeader>
+                  <div className="flex items-center justify-between gap-4">
+                    <CardTitle>{isCounting ? "العدّ" : "تقرير الفروقات"}</CardTitle>
+                    <div className="flex gap-2">
+                      {(Object.keys(filterLabels) as LineFilter[]).map((key) => (
+                        <Button
+                          key={key}
+                          variant={filter === key ? "default" : "outline"}
+                          size="sm"
+                          onClick={() => setFilter(key)}
+                          data-testid={`button-filter-${key}`}
+                        >
+                          {filterLabels[key]}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {isCounting && (
+                    <BarcodeScanInput onScan={handleScan} testId="input-stocktake-scan" />
+                  )}
+                  {lines.length === 0 ? (
+                    <p className="text-center text-muted-foreground py-8">لا توجد أصناف</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="text-right">المنتج</TableHead>
+                          <TableHead className="text-right">اللون</TableHead>
+                          <TableHead className="text-right">المقاس</TableHead>
+                          <TableHead className="text-right">كمية النظام</TableHead>
+                          <TableHead className="text-right">العدّ الفعلي</TableHead>
+                          <TableHead className="text-right">الفرق</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {lines.map((line) => (
+                          <TableRow key={line.id} data-testid={`row-stocktake-line-${line.id}`}>
+                            <TableCell className="font-medium">
+                              {line.product.modelNumber}
+                              <span className="text-muted-foreground text-sm"> - {line.product.companyName}</span>
+                            </TableCell>
+                            <TableCell>{line.color}</TableCell>
+                            <TableCell>{line.size}</TableCell>
+                            <TableCell>{line.systemQuantity}</TableCell>
+                            <TableCell>
+                              {isCounting ? (
+                                <Input
+                                  type="number"
+                                  min="0"
+                                  className="w-24"
+                                  value={drafts[line.id] ?? (line.countedQuantity === null ? "" : String(line.countedQuantity))}
+                                  onChange={(e) => setDrafts({ ...drafts, [line.id]: e.target.value })}
+                                  onBlur={() => commitDraft(line)}
+                                  onKeyDown={(e) => {
+                                    if (e.key === "Enter") {
+                                      e.preventDefault();
+                                      commitDraft(line);
+                                    }
+                                  }}
+                                  placeholder="—"
+                                  data-testid={`input-count-${line.id}`}
+                                />
+                              ) : (
+                                line.countedQuantity ?? "—"
+                              )}
+                            </TableCell>
+                            <TableCell className={varianceClass(line.variance)}>
+                              {line.variance === null ? "—" : line.variance > 0 ? `+${line.variance}` : line.variance}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link, useLocation } from "wouter";
+import Sidebar from "@/components/layout/sidebar";
+import Header from "@/components/layout/header";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ClipboardCheck, Plus } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useCategories } from "@/hooks/use-categories";
+import { apiRequest } from "@/lib/queryClient";
+import type { InsertStocktake, StocktakeDetails, StocktakeWithProgress } from "@shared/schema";
+
+// Select value standing in for a whole-store count
+const WHOLE_STORE = "all";
+
+export const stocktakeStatusLabels: Record<string, string> = {
+  counting: "قيد الجرد",
+  approved: "معتمد",
+  cancelled: "ملغى",
+};
+
+export const stocktakeStatusVariants: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  counting: "secondary",
+  approved: "default",
+  cancelled: "outline",
+};
+
+export default function Stocktakes() {
+  const [showNew, setShowNew] = useState(false);
+  const [formData, setFormData] = useState({ name: "", categoryId: WHOLE_STORE, notes: "" });
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const { categories, getCategoryLabel, getCategoryName } = useCategories();
+  const queryClient = useQueryClient();
+
+  const { data: stocktakes, isLoading } = useQuery<StocktakeWithProgress[]>({
+    queryKey: ["/api/stocktakes"],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: InsertStocktake) => {
+      const response = await apiRequest("POST", "/api/stocktakes", data);
+      return response.json() as Promise<StocktakeDetails>;
+    },
+    onSuccess: (stocktake) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/stocktakes"] });
+      setShowNew(false);
+      navigate(`/stocktakes/${stocktake.id}`);
+    },
+    onError: () => {
+      toast({
+        title: "خطأ",
+        description: "فشل في بدء الجرد",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openNew = () => {
+    setFormData({ name: `جرد ${new Date().toLocaleDateString('ar-AE')}`, categoryId: WHOLE_STORE, notes: "" });
+    setShowNew(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    createMutation.mutate({
+      name: formData.name,
+      categoryId: formData.categoryId === WHOLE_STORE ? null : formData.categoryId,
+      notes: formData.notes || null,
+    });
+  };
+
+  return (
+    <div className="min-h-screen flex">
+      <Sidebar />
+      <main className="flex-1 overflow-hidden">
+        <Header title="الجرد" subtitle="عدّ المخزون الفعلي ومطابقته مع النظام" />
+
+        <div className="p-6 overflow-y-auto h-full">
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className="flex items-center gap-2">
+                  <ClipboardCheck className="h-5 w-5" />
+                  جلسات الجرد
+                </CardTitle>
+                {can("stocktake:manage") && (
+                  <Button onClick={openNew} data-testid="button-new-stocktake">
+                    <Plus className="h-4 w-4 ml-1" />
+                    جرد جديد
+                  </Button>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <p className="text-center text-muted-foreground py-8">جاري التحميل...</p>
+              ) : !stocktakes || stocktakes.length === 0 ? (
+                <p className="text-center text-muted-foreground py-8">لا توجد جلسات جرد بعد</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="text-right">الجلسة</TableHead>
+                      <TableHead className="text-right">النطاق</TableHead>
+                      <TableHead className="text-right">الحالة</TableHead>
+                      <TableHead className="text-right">تم عدّه</TableHead>
+                      <TableHead className="text-right">التاريخ</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {stocktakes.map((stocktake) => (
+                      <TableRow key={stocktake.id} data-testid={`row-stocktake-${stocktake.id}`}>
+                        <TableCell className="font-medium">
+                          <Link href={`/stocktakes/${stocktake.id}`}>
+                            <a className="hover:underline">{stocktake.name}</a>
+                          </Link>
+                        </TableCell>
+                        <TableCell>{stocktake.categoryId ? getCategoryName(stocktake.categoryId) : "كل المتجر"}</TableCell>
+                        <TableCell>
+                          <Badge variant={stocktakeStatusVariants[stocktake.status]}>
+                            {stocktakeStatusLabels[stocktake.status] || stocktake.status}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>{stocktake.countedCount} / {stocktake.lineCount}</TableCell>
+                        <TableCell>{new Date(stocktake.createdAt).toLocaleDateString('ar-AE')}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+
+      <Dialog open={showNew} onOpenChange={setShowNew}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>جرد جديد</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="stocktake-name">اسم الجلسة</Label>
+              <Input
+                id="stocktake-name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                required
+                data-testid="input-stocktake-name"
+              />
+            </div>
+            <div>
+              <Label>النطاق</Label>
+              <Select value={formData.categoryId} onValueChange={(value) => setFormData({ ...formData, categoryId: value })}>
+                <SelectTrigger data-testid="select-stocktake-category">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={WHOLE_STORE}>كل المتجر</SelectItem>
+                  {categories.map((category) => (
+                    <SelectItem key={category.id} value={category.id}>
+                      {getCategoryLabel(category)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground mt-1">
+                يشمل التصنيف تصنيفاته الفرعية، وتُضاف كل ألوانه ومقاساته الحالية إلى قائمة العدّ
+              </p>
+            </div>
+            <div>
+              <Label htmlFor="stocktake-notes">ملاحظات</Label>
+              <Textarea
+                id="stocktake-notes"
+                value={formData.notes}
+                onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                placeholder="مثال: رفوف المستودع الخلفي"
+                rows={2}
+                data-testid="textarea-stocktake-notes"
+              />
+            </div>
+            <div className="flex gap-2 justify-end">
+              <Button type="button" variant="outline" onClick={() => setShowNew(false)}>
+                إلغاء
+              </Button>
+              <Button type="submit" disabled={createMutation.isPending} data-testid="button-start-stocktake">
+                {createMutation.isPending ? "جاري البدء..." : "بدء الجرد"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,297 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link, useLocation, useParams } from "wouter";
+import Sidebar from "@/components/layout/sidebar";
+import Header from "@/components/layout/header";
+import SupplierFormDialog from "@/components/suppliers/supplier-form-dialog";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowRight, Edit, GitMerge, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useCategories } from "@/hooks/use-categories";
+import { apiRequest } from "@/lib/queryClient";
+import type { Supplier, SupplierDetails as SupplierDetailsData } from "@shared/schema";
+
+const statusLabels: Record<string, string> = {
+  'in-stock': 'متوفر',
+  'low-stock': 'مخزون قليل',
+  'out-of-stock': 'نفذ',
+};
+
+export default function SupplierDetails() {
+  const { id } = useParams<{ id: string }>();
+  const [, navigate] = useLocation();
+  const [showEdit, setShowEdit] = useState(false);
+  const [mergeInto, setMergeInto] = useState("");
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const { getCategoryName } = useCategories();
+  const queryClient = useQueryClient();
+
+  const { data: supplier, isLoading } = useQuery<SupplierDetailsData>({
+    queryKey: ["/api/suppliers", id],
+  });
+
+  const { data: suppliers } = useQuery<Supplier[]>({
+    queryKey: ["/api/suppliers"],
+  });
+
+  const afterRemoval = (description: string) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/suppliers"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/purchases"] });
+    toast({ title: "تم بنجاح", description });
+  };
+
+  const mergeMutation = useMutation({
+    mutationFn: async (intoId: string) => {
+      const response = await apiRequest("POST", `/api/suppliers/${id}/merge`, { intoId });
+      return response.json() as Promise<Supplier>;
+    },
+    onSuccess: (target) => {
+      afterRemoval(`تم نقل المنتجات والمشتريات إلى ${target.name}`);
+      navigate(`/suppliers/${target.id}`);
+    },
+    onError: () => {
+      toast({
+        title: "خطأ",
+        description: "فشل في دمج المورد",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("DELETE", `/api/suppliers/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      afterRemoval("تم حذف المورد");
+      navigate("/suppliers");
+    },
+    onError: (error) => {
+      const inUse = error instanceof Error && error.message.startsWith("409:");
+      toast({
+        title: "تعذر حذف المورد",
+        description: inUse
+          ? "للمورد منتجات أو مشتريات، ادمجه في مورد آخر بدلاً من حذفه"
+          : "حدث خطأ أثناء حذف المورد",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleMerge = () => {
+    const target = suppliers?.find(s => s.id === mergeInto);
+    if (target && supplier && confirm(`سيتم نقل كل منتجات ومشتريات "${supplier.name}" إلى "${target.name}" وحذف "${supplier.name}". هل تريد المتابعة؟`)) {
+      mergeMutation.mutate(target.id);
+    }
+  };
+
+  const handleDelete = () => {
+    if (supplier && confirm(`هل أنت متأكد من حذف المورد "${supplier.name}"؟`)) {
+      deleteMutation.mutate();
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex">
+      <Sidebar />
+      <main className="flex-1 overflow-hidden">
+        <Header title={supplier?.name ?? "المورد"} subtitle="بيانات المورد ومنتجاته ومشترياته" />
+
+        <div className="p-6 overflow-y-auto h-full space-y-6">
+          <Link href="/suppliers">
+            <a className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground">
+              <ArrowRight className="h-4 w-4" />
+              جميع الموردين
+            </a>
+          </Link>
+
+          {isLoading ? (
+            <p className="text-center text-muted-foreground py-8">جاري التحميل...</p>
+          ) : !supplier ? (
+            <p className="text-center text-muted-foreground py-8">المورد غير موجود</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <Card className="md:col-span-2">
+                  <CardHeader>
+                    <div className="flex items-center justify-between">
+                      <CardTitle>{supplier.name}</CardTitle>
+                      {can("suppliers:edit") && (
+                        <div className="flex gap-2">
+                          <Button variant="outline" size="sm" onClick={() => setShowEdit(true)} data-testid="button-edit-supplier">
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={handleDelete}
+                            disabled={deleteMutation.isPending}
+                            data-testid="button-delete-supplier"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  </CardHeader>
+                  <CardContent className="grid grid-cols-2 gap-4 text-sm">
+                    <div>
+                      <p className="text-muted-foreground">مسؤول التواصل</p>
+                      <p className="font-medium">{supplier.contactName || "—"}</p>
+                    </div>
+                    <div>
+                      <p className="text-muted-foreground">الهاتف</p>
+                      <p className="font-medium" dir="ltr">{supplier.phone || "—"}</p>
+                    </div>
+                    <div>
+                      <p className="text-muted-foreground">البريد الإلكتروني</p>
+                      <p className="font-medium" dir="ltr">{supplier.email || "—"}</p>
+                    </div>
+                    <div>
+                      <p className="text-muted-foreground">العنوان</p>
+                      <p className="font-medium">{supplier.address || "—"}</p>
+                    </div>
+                    {supplier.notes && (
+                      <div className="col-span-2">
+                        <p className="text-muted-foreground">ملاحظات</p>
+                        <p className="whitespace-pre-line">{supplier.notes}</p>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle>إجمالي المشتريات</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-2">
+                    <div className="text-3xl font-bold text-orange-600" data-testid="text-supplier-total-spend">
+                      {supplier.totalSpend} درهم
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {supplier.purchaseCount} فاتورة شراء، {supplier.productCount} منتج
+                    </p>
+                  </CardContent>
+                </Card>
+              </div>
+
+              {can("suppliers:edit") && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <GitMerge className="h-5 w-5" />
+                      دمج مع مورد آخر
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="flex items-end gap-3">
+                    <div className="flex-1">
+                      <Label>إذا كان هذا المورد مكرراً بتهجئة أخرى، انقل منتجاته ومشترياته إلى:</Label>
+                      <Select value={mergeInto} onValueChange={setMergeInto}>
+                        <SelectTrigger data-testid="select-merge-supplier">
+                          <SelectValue placeholder="اختر المورد" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(suppliers || []).filter(s => s.id !== supplier.id).map(s => (
+                            <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <Button
+                      onClick={handleMerge}
+                      disabled={!mergeInto || mergeMutation.isPending}
+                      data-testid="button-merge-supplier"
+                    >
+                      {mergeMutation.isPending ? "جاري الدمج..." : "دمج"}
+                    </Button>
+                  </CardContent>
+                </Card>
+              )}
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>المنتجات ({supplier.products.length})</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {supplier.products.length === 0 ? (
+                    <p className="text-center text-muted-foreground py-4">لا توجد منتجات من هذا المورد</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="text-right">رقم الموديل</TableHead>
+                          <TableHead className="text-right">التصنيف</TableHead>
+                          <TableHead className="text-right">سعر المحل</TableHead>
+                          <TableHead className="text-right">سعر الأونلاين</TableHead>
+                          <TableHead className="text-right">الكمية</TableHead>
+                          <TableHead className="text-right">الحالة</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {supplier.products.map((product) => (
+                          <TableRow key={product.id} data-testid={`row-supplier-product-${product.id}`}>
+                            <TableCell className="font-medium">{product.modelNumber}</TableCell>
+                            <TableCell>{getCategoryName(product.productType)}</TableCell>
+                            <TableCell>{product.storePrice} درهم</TableCell>
+                            <TableCell>{product.onlinePrice} درهم</TableCell>
+                            <TableCell>{product.totalQuantity}</TableCell>
+                            <TableCell>
+                              <Badge variant={product.status === "in-stock" ? "default" : "secondary"}>
+                                {statusLabels[product.status]}
+                              </Badge>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>فواتير الشراء ({supplier.purchases.length})</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {supplier.purchases.length === 0 ? (
+                    <p className="text-center text-muted-foreground py-4">لا توجد مشتريات من هذا المورد</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="text-right">التاريخ</TableHead>
+                          <TableHead className="text-right">الوصف</TableHead>
+                          <TableHead className="text-right">المبلغ</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {supplier.purchases.map((purchase) => (
+                          <TableRow key={purchase.id} data-testid={`row-supplier-purchase-${purchase.id}`}>
+                            <TableCell>{new Date(purchase.date).toLocaleDateString('ar-AE')}</TableCell>
+                            <TableCell>{purchase.description}</TableCell>
+                            <TableCell className="font-medium">{purchase.amount} درهم</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </div>
+      </main>
+
+      {showEdit && supplier && <SupplierFormDialog supplier={supplier} onClose={() => setShowEdit(false)} />}
+    </div>
+  );
+}
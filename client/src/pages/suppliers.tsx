@@ -0,0 +1,106 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import Sidebar from "@/components/layout/sidebar";
+import Header from "@/components/layout/header";
+import SupplierFormDialog from "@/components/suppliers/supplier-form-dialog";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Plus, Search, Truck } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import type { SupplierWithStats } from "@shared/schema";
+import { matchesPhone, matchesSearch } from "@shared/search";
+
+export default function Suppliers() {
+  const [showAdd, setShowAdd] = useState(false);
+  const [search, setSearch] = useState("");
+  const { can } = useAuth();
+
+  const { data: suppliers, isLoading } = useQuery<SupplierWithStats[]>({
+    queryKey: ["/api/suppliers", "stats"],
+  });
+
+  const filtered = (suppliers || []).filter(supplier =>
+    matchesSearch(search, supplier.name, supplier.contactName) || matchesPhone(search, supplier.phone)
+  );
+
+  return (
+    <div className="min-h-screen flex">
+      <Sidebar />
+      <main className="flex-1 overflow-hidden">
+        <Header title="الموردون" subtitle="الشركات التي نشتري منها ومنتجاتها ومشترياتها" />
+
+        <div className="p-6 overflow-y-auto h-full">
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between gap-4">
+                <CardTitle className="flex items-center gap-2">
+                  <Truck className="h-5 w-5" />
+                  جميع الموردين
+                </CardTitle>
+                <div className="flex gap-2">
+                  <div className="relative">
+                    <Search className="absolute right-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                    <Input
+                      placeholder="البحث بالاسم أو الهاتف..."
+                      value={search}
+                      onChange={(e) => setSearch(e.target.value)}
+                      className="pr-9 w-64"
+                      data-testid="input-search-suppliers"
+                    />
+                  </div>
+                  {can("suppliers:edit") && (
+                    <Button onClick={() => setShowAdd(true)} data-testid="button-add-supplier">
+                      <Plus className="h-4 w-4 ml-1" />
+                      إضافة مورد
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <p className="text-center text-muted-foreground py-8">جاري التحميل...</p>
+              ) : filtered.length === 0 ? (
+                <p className="text-center text-muted-foreground py-8">لا يوجد موردون</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="text-right">المورد</TableHead>
+                      <TableHead className="text-right">مسؤول التواصل</TableHead>
+                      <TableHead className="text-right">الهاتف</TableHead>
+                      <TableHead className="text-right">المنتجات</TableHead>
+                      <TableHead className="text-right">فواتير الشراء</TableHead>
+                      <TableHead className="text-right">إجمالي المشتريات</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filtered.map((supplier) => (
+                      <TableRow key={supplier.id} data-testid={`row-supplier-${supplier.id}`}>
+                        <TableCell className="font-medium">
+                          <Link href={`/suppliers/${supplier.id}`}>
+                            <a className="text-primary hover:underline" data-testid={`link-supplier-${supplier.id}`}>{supplier.name}</a>
+                          </Link>
+                        </TableCell>
+                        <TableCell>{supplier.contactName || "—"}</TableCell>
+                        <TableCell dir="ltr" className="text-right">{supplier.phone || "—"}</TableCell>
+                        <TableCell>{supplier.productCount}</TableCell>
+                        <TableCell>{supplier.purchaseCount}</TableCell>
+                        <TableCell className="font-medium">{supplier.totalSpend} درهم</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+
+      {showAdd && <SupplierFormDialog onClose={() => setShowAdd(false)} />}
+    </div>
+  );
+}
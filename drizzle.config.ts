@@ -4,11 +4,18 @@ if (!process.env.DATABASE_URL) {
   throw new Error("DATABASE_URL, ensure the database is provisioned");
 }
 
+// "pglite:<dir>" points at an embedded PGlite database for local testing
+const pgliteDir = process.env.DATABASE_URL.startsWith("pglite:")
+  ? process.env.DATABASE_URL.slice("pglite:".length)
+  : undefined;
+
 export default defineConfig({
   out: "./migrations",
   schema: "./shared/schema.ts",
   dialect: "postgresql",
-  dbCredentials: {
-    url: process.env.DATABASE_URL,
-  },
+  // Owned by connect-pg-simple, not by this schema
+  tablesFilter: ["!session"],
+  ...(pgliteDir
+    ? { driver: "pglite", dbCredentials: { url: pgliteDir } }
+    : { dbCredentials: { url: process.env.DATABASE_URL } }),
 });
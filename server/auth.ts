@@ -0,0 +1,184 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { loginSchema, type SafeUser, type User } from "@shared/schema";
+import { canViewCosts, hasPermission, type Permission } from "@shared/permissions";
+import { storage } from "./storage";
+import { log } from "./vite";
+
+declare global {
+  namespace Express {
+    interface User extends SafeUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+export function toSafeUser(user: User): SafeUser {
+  const { passwordHash, ...safeUser } = user;
+  return safeUser;
+}
+
+// Everything under /api except the auth endpoints themselves needs a session
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Authentication required" });
+  }
+  next();
+}
+
+// Route guard for the role permission matrix in shared/permissions.ts
+export function requirePermission(permission: Permission) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    if (!hasPermission(req.user.role, permission)) {
+      return res.status(403).json({ message: "You do not have permission to do this" });
+    }
+    next();
+  };
+}
+
+// Route guard for responses made of cost prices or profit
+export function requireCostAccess(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Authentication required" });
+  }
+  if (!canViewCosts(req.user.role)) {
+    return res.status(403).json({ message: "You do not have permission to do this" });
+  }
+  next();
+}
+
+// Creates the first (manager) account from ADMIN_USERNAME / ADMIN_PASSWORD so a fresh
+// database can be signed into. In development it falls back to admin/admin123.
+async function ensureInitialUser() {
+  const existingUsers = await storage.getUsers();
+  if (existingUsers.length > 0) return;
+
+  let username = process.env.ADMIN_USERNAME;
+  let password = process.env.ADMIN_PASSWORD;
+
+  if (!username || !password) {
+    if (process.env.NODE_ENV !== "development") {
+      log("no users exist; set ADMIN_USERNAME and ADMIN_PASSWORD to create the first account", "auth");
+      return;
+    }
+    username = "admin";
+    password = "admin123";
+  }
+
+  await storage.createUser({
+    username,
+    displayName: username,
+    role: "manager",
+    passwordHash: await hashPassword(password),
+  });
+  log(`created initial user "${username}"`, "auth");
+}
+
+export async function setupAuth(app: Express) {
+  let secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    if (process.env.NODE_ENV !== "development") {
+      throw new Error("SESSION_SECRET must be set");
+    }
+    secret = randomBytes(32).toString("hex");
+  }
+
+  app.set("trust proxy", 1);
+  app.use(session({
+    secret,
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: 12 * 60 * 60 * 1000, // One working day
+    },
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.passwordHash))) {
+          return done(null, false);
+        }
+        return done(null, toSafeUser(user));
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user ? toSafeUser(user) : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    const credentials = loginSchema.safeParse(req.body);
+    if (!credentials.success) {
+      return res.status(400).json({ message: "Username and password are required" });
+    }
+
+    passport.authenticate("local", (error: unknown, user: Express.User | false) => {
+      if (error) return next(error);
+      if (!user) {
+        return res.status(401).json({ message: "Invalid username or password" });
+      }
+      req.login(user, (loginError) => {
+        if (loginError) return next(loginError);
+        res.json(user);
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((error) => {
+      if (error) return next(error);
+      req.session.destroy(() => {
+        res.clearCookie("connect.sid");
+        res.sendStatus(200);
+      });
+    });
+  });
+
+  app.get("/api/me", (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not signed in" });
+    }
+    res.json(req.user);
+  });
+
+  app.use("/api", requireAuth);
+
+  await ensureInitialUser();
+}
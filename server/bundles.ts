@@ -0,0 +1,22 @@
+import type { BundleWithComponents, InsertBundleComponent } from "@shared/schema";
+import { normalizeSearchText } from "@shared/search";
+import { storage } from "./storage";
+
+// Names that differ only in spacing, letter case or Arabic letter variants name the same bundle
+export function findBundleByName(bundles: BundleWithComponents[], name: string): BundleWithComponents | undefined {
+  const key = normalizeSearchText(name.trim().replace(/\s+/g, " "));
+  return bundles.find(bundle => normalizeSearchText(bundle.name.trim().replace(/\s+/g, " ")) === key);
+}
+
+// Indexes of the components whose product or color/size variant does not exist
+export async function findUnknownComponents(components: InsertBundleComponent[]): Promise<number[]> {
+  const unknown: number[] = [];
+  for (let index = 0; index < components.length; index++) {
+    const component = components[index];
+    const product = await storage.getProductById(component.productId);
+    if (!product?.inventory.some(item => item.color === component.color && item.size === component.size)) {
+      unknown.push(index);
+    }
+  }
+  return unknown;
+}
@@ -0,0 +1,46 @@
+import { DEFAULT_CATEGORIES, DEFAULT_COLORS, DEFAULT_SIZE_SYSTEMS } from "@shared/schema";
+import { findInvalidVariants, getVariantCatalog } from "@shared/catalog";
+import { storage } from "./storage";
+
+// Empty catalog tables get the colors, sizes and product types the shop used before they were editable
+export async function seedCatalog() {
+  const seedSizeSystems = (await storage.getSizeSystems()).length === 0;
+  if (seedSizeSystems) {
+    for (const system of DEFAULT_SIZE_SYSTEMS) {
+      await storage.createSizeSystem({ ...system, sizes: [...system.sizes] });
+    }
+  }
+
+  if ((await storage.getColors()).length === 0) {
+    for (let i = 0; i < DEFAULT_COLORS.length; i++) {
+      await storage.createColor({ ...DEFAULT_COLORS[i], sortOrder: i });
+    }
+  }
+
+  if ((await storage.getCategories()).length === 0) {
+    for (let i = 0; i < DEFAULT_CATEGORIES.length; i++) {
+      await storage.createCategory({ ...DEFAULT_CATEGORIES[i], sortOrder: i });
+    }
+  } else if (seedSizeSystems) {
+    // Categories created before size systems existed get the default system for their type
+    for (const { id, sizeSystemId } of DEFAULT_CATEGORIES) {
+      const category = await storage.getCategory(id);
+      if (category && !category.sizeSystemId) {
+        await storage.updateCategory(id, { sizeSystemId });
+      }
+    }
+  }
+}
+
+// The submitted variants whose color or size is not offered for the category
+export async function findOffCatalogVariants<T extends { color: string; size: string }>(
+  categoryId: string,
+  items: T[],
+): Promise<T[]> {
+  const [categories, colors, sizeSystems] = await Promise.all([
+    storage.getCategories(),
+    storage.getColors(),
+    storage.getSizeSystems(),
+  ]);
+  return findInvalidVariants(getVariantCatalog(categories, colors, sizeSystems, categoryId), items);
+}
@@ -0,0 +1,36 @@
+import { randomUUID } from "crypto";
+import type { Category } from "@shared/schema";
+
+// Category ids double as readable slugs ("evening-wear") since products store them directly.
+// Names without any Latin letters or digits fall back to a random id.
+export function categoryId(nameEn: string, takenIds: string[]): string {
+  const slug = nameEn
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  const base = slug || randomUUID();
+
+  let id = base;
+  for (let n = 2; takenIds.indexOf(id) !== -1; n++) {
+    id = `${base}-${n}`;
+  }
+  return id;
+}
+
+// Why `parentId` cannot be the parent of category `id` (undefined for a new category), or null if it can
+export function invalidParentReason(categories: Category[], id: string | undefined, parentId: string): string | null {
+  const byId = new Map(categories.map(category => [category.id, category] as const));
+  if (!byId.has(parentId)) {
+    return "Parent category not found";
+  }
+
+  // Walk up from the new parent; meeting the category itself would close a loop
+  let current: string | null = parentId;
+  while (current) {
+    if (current === id) {
+      return "A category cannot be placed under itself or one of its subcategories";
+    }
+    current = byId.get(current)?.parentId ?? null;
+  }
+  return null;
+}
@@ -0,0 +1,65 @@
+import type {
+  BundleWithComponents,
+  InventoryLookup,
+  Product,
+  ProductInventory,
+  ProductWithInventory,
+  ReturnWithItems,
+  SaleWithItems,
+  StockAdjustmentWithDetails,
+  StocktakeDetails,
+} from "@shared/schema";
+
+// Catalog, sale and stock responses for roles that may not see cost prices (see canViewCosts) leave them out
+
+type WithoutCost<T> = Omit<T, "costPrice">;
+
+export function withoutCost<T extends { costPrice: string | null }>(row: T): WithoutCost<T> {
+  const { costPrice, ...rest } = row;
+  return rest;
+}
+
+export function productWithoutCosts<T extends ProductWithInventory>(product: T): WithoutCost<Omit<T, "inventory">> & { inventory: WithoutCost<ProductInventory>[] } {
+  return { ...withoutCost(product), inventory: product.inventory.map(withoutCost) };
+}
+
+export function variantWithoutCosts<T extends InventoryLookup>(variant: T): WithoutCost<Omit<T, "product">> & { product: WithoutCost<Product> } {
+  return { ...withoutCost(variant), product: withoutCost(variant.product) };
+}
+
+export function bundleWithoutCosts(bundle: BundleWithComponents) {
+  return {
+    ...bundle,
+    components: bundle.components.map(component => ({ ...component, product: withoutCost(component.product) })),
+  };
+}
+
+// Sale items and adjustments also carry the unit cost recorded with them
+export function saleWithoutCosts(sale: SaleWithItems) {
+  return {
+    ...sale,
+    items: sale.items.map(({ unitCost, ...item }) => ({ ...item, product: withoutCost(item.product) })),
+  };
+}
+
+export function returnWithoutCosts(returnRecord: ReturnWithItems) {
+  return {
+    ...returnRecord,
+    items: returnRecord.items.map(item => ({ ...item, product: withoutCost(item.product) })),
+  };
+}
+
+export function adjustmentWithoutCosts(adjustment: StockAdjustmentWithDetails) {
+  const { unitCost, ...rest } = adjustment;
+  return { ...rest, product: withoutCost(adjustment.product) };
+}
+
+// Counters see the variances in pieces, not their value
+export function stocktakeWithoutCosts(stocktake: StocktakeDetails) {
+  const { valueImpact, uncostedLines, ...summary } = stocktake.summary;
+  return {
+    ...stocktake,
+    lines: stocktake.lines.map(({ unitCost, ...line }) => ({ ...line, product: withoutCost(line.product) })),
+    summary,
+  };
+}
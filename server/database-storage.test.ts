@@ -0,0 +1,161 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { createRequire } from "module";
+import session from "express-session";
+import * as schema from "@shared/schema";
+import type { InsertSaleItem, Product } from "@shared/schema";
+import { DatabaseStorage } from "./database-storage";
+import type { Database } from "./db";
+import { InsufficientStockError, ProductInUseError } from "./errors";
+
+// The ESM build of drizzle-kit/api cannot load its own CommonJS dependencies
+const { generateDrizzleJson, generateMigration } = createRequire(import.meta.url)("drizzle-kit/api") as typeof import("drizzle-kit/api");
+
+// DatabaseStorage against an in-memory PGlite database created from shared/schema.ts
+let client: PGlite;
+let storage: DatabaseStorage;
+
+beforeAll(async () => {
+  client = new PGlite();
+  for (const statement of await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema))) {
+    await client.exec(statement);
+  }
+  const db = drizzle({ client, schema }) as unknown as Database;
+  storage = new DatabaseStorage(db, new session.MemoryStore());
+});
+
+afterAll(async () => {
+  await client.close();
+});
+
+let modelCount = 0;
+
+async function createStockedProduct(quantity: number): Promise<Product> {
+  const product = await storage.createProduct({
+    modelNumber: `TEST-${++modelCount}`,
+    companyName: "Test Supplier",
+    productType: "abaya",
+    storePrice: "100.00",
+    onlinePrice: "110.00",
+    costPrice: "40.00",
+  });
+  await storage.bulkUpdateInventory([{ productId: product.id, color: "Black", size: "M", quantity }], "receipt");
+  return product;
+}
+
+const saleItem = (product: Product, quantity: number): InsertSaleItem => ({
+  productId: product.id,
+  color: "Black",
+  size: "M",
+  quantity,
+  unitPrice: "100.00",
+  listPrice: "100.00",
+  unitCost: "40.00",
+});
+
+const sellOne = (product: Product, customerName: string) => storage.createSale({
+  channel: "in-store",
+  paymentMethod: "cash",
+  customerName,
+  customerPhone: "0501234567",
+  subtotal: "100.00",
+  fees: "0",
+  total: "100.00",
+}, [saleItem(product, 1)]);
+
+const quantityOf = async (product: Product) => (await storage.getProductInventory(product.id))[0].quantity;
+
+describe("DatabaseStorage sales", () => {
+  it("deducts the sold pieces and records a sale movement", async () => {
+    const product = await createStockedProduct(5);
+    const sale = await sellOne(product, "Sara");
+
+    expect(sale.items).toHaveLength(1);
+    expect(await quantityOf(product)).toBe(4);
+    const movements = await storage.getStockMovements(product.id);
+    expect(movements.find(movement => movement.reason === "sale")).toMatchObject({ delta: -1, saleId: sale.id });
+  });
+
+  it("refuses a sale beyond the stock without changing it", async () => {
+    const product = await createStockedProduct(1);
+    const attempt = storage.createSale({
+      channel: "in-store",
+      paymentMethod: "cash",
+      customerName: "Mona",
+      customerPhone: "0501234567",
+      subtotal: "200.00",
+      fees: "0",
+      total: "200.00",
+    }, [saleItem(product, 2)]);
+
+    await expect(attempt).rejects.toBeInstanceOf(InsufficientStockError);
+    expect(await quantityOf(product)).toBe(1);
+  });
+
+  it("lets only one of two concurrent sales take the last piece", async () => {
+    const product = await createStockedProduct(1);
+    const results = await Promise.allSettled([sellOne(product, "Huda"), sellOne(product, "Noor")]);
+
+    expect(results.filter(result => result.status === "fulfilled")).toHaveLength(1);
+    const rejected = results.filter((result): result is PromiseRejectedResult => result.status === "rejected");
+    expect(rejected).toHaveLength(1);
+    expect(rejected[0].reason).toBeInstanceOf(InsufficientStockError);
+    expect((rejected[0].reason as InsufficientStockError).shortages).toMatchObject([{ requested: 1, available: 0 }]);
+    expect(await quantityOf(product)).toBe(0);
+  });
+});
+
+describe("DatabaseStorage returns", () => {
+  it("puts a refunded piece back into stock", async () => {
+    const product = await createStockedProduct(2);
+    const sale = await sellOne(product, "Layla");
+
+    const returned = await storage.createReturn(
+      { originalSaleId: sale.id, returnType: "refund", refundAmount: "100.00" },
+      [{ productId: product.id, color: "Black", size: "M", quantity: 1 }],
+    );
+
+    expect(returned.items).toHaveLength(1);
+    expect(await quantityOf(product)).toBe(2);
+    const movements = await storage.getStockMovements(product.id);
+    expect(movements.find(movement => movement.reason === "return")).toMatchObject({ delta: 1, returnId: returned.id });
+  });
+});
+
+describe("DatabaseStorage.deleteProduct", () => {
+  it("deletes a product nothing has recorded yet", async () => {
+    const product = await storage.createProduct({
+      modelNumber: `TEST-${++modelCount}`,
+      companyName: "Test Supplier",
+      productType: "abaya",
+      storePrice: "100.00",
+      onlinePrice: "110.00",
+    });
+
+    expect(await storage.deleteProduct(product.id)).toBe(true);
+    expect(await storage.getProductById(product.id)).toBeUndefined();
+    expect(await storage.getPriceHistory(product.id)).toHaveLength(0);
+  });
+
+  it("refuses to delete a product that has been sold", async () => {
+    const product = await createStockedProduct(3);
+    await sellOne(product, "Reem");
+
+    await expect(storage.deleteProduct(product.id)).rejects.toMatchObject({ reason: "sales", usageCount: 1 });
+    expect(await storage.getProductById(product.id)).toBeDefined();
+  });
+
+  it("refuses to delete a product whose stock has moved", async () => {
+    const product = await createStockedProduct(3);
+
+    const attempt = storage.deleteProduct(product.id);
+    await expect(attempt).rejects.toBeInstanceOf(ProductInUseError);
+    await expect(attempt).rejects.toMatchObject({ reason: "stock-movements" });
+    expect(await storage.getStockMovements(product.id)).toHaveLength(1);
+  });
+
+  it("reports a missing product as not deleted", async () => {
+    expect(await storage.deleteProduct("missing")).toBe(false);
+  });
+});
@@ -0,0 +1,1538 @@
+import type session from "express-session";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
+import { and, asc, desc, eq, gt, gte, inArray, isNotNull, isNull, lte, ne, or, sql, type SQL } from "drizzle-orm";
+import {
+  users,
+  categories,
+  suppliers,
+  colors,
+  sizeSystems,
+  products,
+  productImages,
+  productInventory,
+  sales,
+  saleItems,
+  returns,
+  returnItems,
+  expenses,
+  purchases,
+  stockMovements,
+  priceHistory,
+  scheduledPriceChanges,
+  bundles,
+  bundleComponents,
+  stocktakes,
+  stocktakeLines,
+  stockAdjustments,
+  variantBarcodeSequence,
+  type User,
+  type InsertUser,
+  type Category,
+  type InsertCategory,
+  type Color,
+  type InsertColor,
+  type UpdateColor,
+  type SizeSystem,
+  type InsertSizeSystem,
+  type Supplier,
+  type InsertSupplier,
+  type Product,
+  type InsertProduct,
+  type ProductInventory,
+  type ProductImage,
+  type InsertProductImage,
+  type InsertProductInventory,
+  type Sale,
+  type InsertSale,
+  type InsertSaleItem,
+  type Return,
+  type InsertReturn,
+  type InsertReturnItem,
+  type Expense,
+  type InsertExpense,
+  type Purchase,
+  type InsertPurchase,
+  type ProductWithInventory,
+  type SaleWithItems,
+  type ReturnWithItems,
+  type StockMovement,
+  type StockMovementReason,
+  type EmployeeSummary,
+  type InventoryLookup,
+  type ProductImport,
+  type PriceChangeContext,
+  type PriceChangeWithUser,
+  type ScheduledPriceChange,
+  type InsertScheduledPriceChange,
+  type BulkPriceChange,
+  type Bundle,
+  type BundleWithComponents,
+  type InsertBundle,
+  type LowStockVariant,
+  type InsertStocktake,
+  type StocktakeCount,
+  type StocktakeDetails,
+  type StocktakeWithProgress,
+  type StockAdjustment,
+  type InsertStockAdjustment,
+  type StockAdjustmentWithDetails,
+} from "@shared/schema";
+import { calculateGrossProfit, fromFils, getUnitCost, toFils } from "@shared/pricing";
+import { variantBarcode, variantSku } from "@shared/barcode";
+import { changedChannelPrices, channelPriceField } from "@shared/price-schedule";
+import { orderImages } from "@shared/images";
+import { categorySubtree, type ProductListQuery, type ProductPage } from "@shared/product-filter";
+import { normalizeSearchText, SEARCH_FOLD } from "@shared/search";
+import { findSupplierByName, tidySupplierName } from "@shared/suppliers";
+import { DEFAULT_REORDER_POINT, productStockStatus, resolveCategoryReorderPoint } from "@shared/reorder";
+import { buildStocktakeDetails, stocktakeApprovedQuantity } from "@shared/stocktake";
+import type { Database } from "./db";
+import {
+  BundleInUseError,
+  CatalogInUseError,
+  CategoryInUseError,
+  InsufficientStockError,
+  ProductInUseError,
+  StocktakeClosedError,
+  StocktakeScopeError,
+  SupplierInUseError,
+} from "./errors";
+import { findStockShortages } from "./stock";
+import type { IStorage } from "./storage";
+
+type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
+
+// The column folded like normalizeSearchText, to compare with a normalized search term
+const searchable = (column: AnyPgColumn) => sql`translate(lower(${column}), ${SEARCH_FOLD.from}, ${SEARCH_FOLD.to})`;
+
+function withInventory(product: Product, inventory: ProductInventory[], categories: Category[]): ProductWithInventory {
+  return {
+    ...product,
+    inventory,
+    totalQuantity: inventory.reduce((sum, item) => sum + item.quantity, 0),
+    status: productStockStatus(product, inventory, resolveCategoryReorderPoint(categories, product.productType)),
+  };
+}
+
+// The reorder point of a product_inventory row joined to its product: the variant's own, else the
+// product's, else its category's (resolved up the tree here, as a CASE on the category id)
+function reorderPointSql(categoryList: Category[]): SQL<number> {
+  const byCategory = categoryList.map(category =>
+    sql`when ${category.id} then ${resolveCategoryReorderPoint(categoryList, category.id)}::int`);
+  const categoryPoint = byCategory.length > 0
+    ? sql`case ${products.productType} ${sql.join(byCategory, sql` `)} else ${DEFAULT_REORDER_POINT}::int end`
+    : sql`${DEFAULT_REORDER_POINT}::int`;
+  return sql<number>`coalesce(${productInventory.reorderPoint}, ${products.reorderPoint}, ${categoryPoint})`;
+}
+
+export class DatabaseStorage implements IStorage {
+  constructor(private db: Database, public sessionStore: session.Store) {}
+
+  // Users
+  async getUsers(): Promise<User[]> {
+    return this.db.select().from(users);
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  // Variant catalog
+  async getColors(): Promise<Color[]> {
+    return this.db.select().from(colors).orderBy(asc(colors.sortOrder), asc(colors.name));
+  }
+
+  async createColor(insertColor: InsertColor): Promise<Color> {
+    const [color] = await this.db.insert(colors).values(insertColor).returning();
+    return color;
+  }
+
+  async updateColor(id: string, updateData: UpdateColor): Promise<Color | undefined> {
+    const [color] = await this.db
+      .update(colors)
+      .set(updateData)
+      .where(eq(colors.id, id))
+      .returning();
+    return color;
+  }
+
+  async deleteColor(id: string): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const [color] = await tx.select().from(colors).where(eq(colors.id, id));
+      if (!color) return false;
+
+      const [{ variantCount }] = await tx
+        .select({ variantCount: sql<number>`count(*)::int` })
+        .from(productInventory)
+        .where(eq(productInventory.color, color.name));
+      if (variantCount > 0) {
+        throw new CatalogInUseError("Color is still used by inventory", variantCount);
+      }
+
+      await tx.delete(colors).where(eq(colors.id, id));
+      return true;
+    });
+  }
+
+  async getSizeSystems(): Promise<SizeSystem[]> {
+    return this.db.select().from(sizeSystems);
+  }
+
+  async createSizeSystem(insertSizeSystem: InsertSizeSystem & { id?: string }): Promise<SizeSystem> {
+    const [sizeSystem] = await this.db.insert(sizeSystems).values(insertSizeSystem).returning();
+    return sizeSystem;
+  }
+
+  async updateSizeSystem(id: string, updateData: Partial<InsertSizeSystem>): Promise<SizeSystem | undefined> {
+    const [sizeSystem] = await this.db
+      .update(sizeSystems)
+      .set(updateData)
+      .where(eq(sizeSystems.id, id))
+      .returning();
+    return sizeSystem;
+  }
+
+  async deleteSizeSystem(id: string): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const [{ categoryCount }] = await tx
+        .select({ categoryCount: sql<number>`count(*)::int` })
+        .from(categories)
+        .where(eq(categories.sizeSystemId, id));
+      if (categoryCount > 0) {
+        throw new CatalogInUseError("Size system is still used by categories", categoryCount);
+      }
+
+      const deleted = await tx.delete(sizeSystems).where(eq(sizeSystems.id, id)).returning();
+      return deleted.length > 0;
+    });
+  }
+
+  // Categories
+  async getCategories(): Promise<Category[]> {
+    return this.db.select().from(categories).orderBy(asc(categories.sortOrder), asc(categories.nameAr));
+  }
+
+  async getCategory(id: string): Promise<Category | undefined> {
+    const [category] = await this.db.select().from(categories).where(eq(categories.id, id));
+    return category;
+  }
+
+  async createCategory(insertCategory: InsertCategory & { id: string }): Promise<Category> {
+    const [category] = await this.db.insert(categories).values(insertCategory).returning();
+    return category;
+  }
+
+  async updateCategory(id: string, updateData: Partial<InsertCategory>): Promise<Category | undefined> {
+    const [category] = await this.db
+      .update(categories)
+      .set(updateData)
+      .where(eq(categories.id, id))
+      .returning();
+    return category;
+  }
+
+  async deleteCategory(id: string): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const [{ productCount }] = await tx
+        .select({ productCount: sql<number>`count(*)::int` })
+        .from(products)
+        .where(eq(products.productType, id));
+      const [{ childCount }] = await tx
+        .select({ childCount: sql<number>`count(*)::int` })
+        .from(categories)
+        .where(eq(categories.parentId, id));
+      if (productCount > 0 || childCount > 0) {
+        throw new CategoryInUseError(productCount, childCount);
+      }
+
+      const deleted = await tx.delete(categories).where(eq(categories.id, id)).returning();
+      return deleted.length > 0;
+    });
+  }
+
+  // Suppliers
+  async getSuppliers(): Promise<Supplier[]> {
+    return this.db.select().from(suppliers).orderBy(asc(suppliers.name));
+  }
+
+  async getSupplier(id: string): Promise<Supplier | undefined> {
+    const [supplier] = await this.db.select().from(suppliers).where(eq(suppliers.id, id));
+    return supplier;
+  }
+
+  async createSupplier(insertSupplier: InsertSupplier): Promise<Supplier> {
+    const [supplier] = await this.db.insert(suppliers).values(insertSupplier).returning();
+    return supplier;
+  }
+
+  async updateSupplier(id: string, updateData: Partial<InsertSupplier>): Promise<Supplier | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [supplier] = await tx
+        .update(suppliers)
+        .set(updateData)
+        .where(eq(suppliers.id, id))
+        .returning();
+      if (supplier && updateData.name !== undefined) {
+        await this.assignSupplier(tx, id, supplier);
+      }
+      return supplier;
+    });
+  }
+
+  async deleteSupplier(id: string): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const [{ productCount }] = await tx
+        .select({ productCount: sql<number>`count(*)::int` })
+        .from(products)
+        .where(eq(products.supplierId, id));
+      const [{ purchaseCount }] = await tx
+        .select({ purchaseCount: sql<number>`count(*)::int` })
+        .from(purchases)
+        .where(eq(purchases.supplierId, id));
+      if (productCount > 0 || purchaseCount > 0) {
+        throw new SupplierInUseError(productCount, purchaseCount);
+      }
+
+      const deleted = await tx.delete(suppliers).where(eq(suppliers.id, id)).returning();
+      return deleted.length > 0;
+    });
+  }
+
+  async mergeSupplier(id: string, intoId: string): Promise<Supplier | undefined> {
+    if (id === intoId) return undefined;
+
+    return this.db.transaction(async (tx) => {
+      const [target] = await tx.select().from(suppliers).where(eq(suppliers.id, intoId));
+      if (!target) return undefined;
+
+      await this.assignSupplier(tx, id, target);
+      const deleted = await tx.delete(suppliers).where(eq(suppliers.id, id)).returning();
+      return deleted.length > 0 ? target : undefined;
+    });
+  }
+
+  // Points the products and purchases of supplier `fromId` at `supplier`, copying its name
+  private async assignSupplier(tx: Transaction, fromId: string, supplier: Supplier) {
+    await tx
+      .update(products)
+      .set({ supplierId: supplier.id, companyName: supplier.name })
+      .where(eq(products.supplierId, fromId));
+    await tx
+      .update(purchases)
+      .set({ supplierId: supplier.id, supplier: supplier.name })
+      .where(eq(purchases.supplierId, fromId));
+  }
+
+  // Products
+  async getProducts(): Promise<ProductWithInventory[]> {
+    const productRows = await this.db.select().from(products);
+    const inventoryRows = await this.db.select().from(productInventory);
+    const categoryList = await this.getCategories();
+
+    return productRows.map((product) =>
+      withInventory(product, inventoryRows.filter(item => item.productId === product.id), categoryList)
+    );
+  }
+
+  // Filters, sorts and counts in SQL so only one page of products and their inventory is loaded
+  async getProductPage(query: ProductListQuery): Promise<ProductPage> {
+    const categoryList = await this.getCategories();
+    const quantities = this.db
+      .select({
+        productId: productInventory.productId,
+        total: sql<number>`sum(${productInventory.quantity})::int`.as("total"),
+        low: sql<number>`(count(*) filter (where ${productInventory.quantity} < ${reorderPointSql(categoryList)}))::int`.as("low"),
+      })
+      .from(productInventory)
+      .innerJoin(products, eq(productInventory.productId, products.id))
+      .groupBy(productInventory.productId)
+      .as("quantities");
+    const totalQuantity = sql<number>`coalesce(${quantities.total}, 0)`;
+    const lowVariants = sql<number>`coalesce(${quantities.low}, 0)`;
+
+    const conditions: SQL[] = [];
+    const search = normalizeSearchText(query.search.trim());
+    if (search) {
+      const pattern = `%${search.replace(/[\\%_]/g, "\\$&")}%`;
+      conditions.push(or(
+        sql`${searchable(products.modelNumber)} like ${pattern}`,
+        sql`${searchable(products.companyName)} like ${pattern}`,
+      )!);
+    }
+    if (query.status === "out-of-stock") {
+      conditions.push(eq(totalQuantity, 0));
+    } else if (query.status === "low-stock") {
+      conditions.push(and(gt(totalQuantity, 0), gt(lowVariants, 0))!);
+    } else if (query.status === "in-stock") {
+      conditions.push(and(gt(totalQuantity, 0), eq(lowVariants, 0))!);
+    }
+    if (query.category !== "all") {
+      const categoryIds = categorySubtree(categoryList, query.category);
+      conditions.push(inArray(products.productType, categoryIds.length > 0 ? categoryIds : [query.category]));
+    }
+    if (query.company !== "all") {
+      conditions.push(eq(products.companyName, query.company));
+    }
+    if (query.minPrice) {
+      conditions.push(gte(products.storePrice, query.minPrice));
+    }
+    if (query.maxPrice) {
+      conditions.push(lte(products.storePrice, query.maxPrice));
+    }
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const sortColumn = query.sort === "totalQuantity" ? totalQuantity : products[query.sort];
+    const rows = await this.db
+      .select({ product: products })
+      .from(products)
+      .leftJoin(quantities, eq(quantities.productId, products.id))
+      .where(where)
+      .orderBy(query.order === "asc" ? asc(sortColumn) : desc(sortColumn), asc(products.modelNumber))
+      .limit(query.limit)
+      .offset((query.page - 1) * query.limit);
+    const [{ total }] = await this.db
+      .select({ total: sql<number>`count(*)::int` })
+      .from(products)
+      .leftJoin(quantities, eq(quantities.productId, products.id))
+      .where(where);
+
+    const ids = rows.map(({ product }) => product.id);
+    const inventoryRows = ids.length > 0
+      ? await this.db.select().from(productInventory).where(inArray(productInventory.productId, ids))
+      : [];
+
+    return {
+      items: rows.map(({ product }) =>
+        withInventory(product, inventoryRows.filter(item => item.productId === product.id), categoryList)),
+      total,
+      page: query.page,
+      limit: query.limit,
+      pageCount: Math.ceil(total / query.limit),
+    };
+  }
+
+  async getProductById(id: string): Promise<ProductWithInventory | undefined> {
+    const [product] = await this.db.select().from(products).where(eq(products.id, id));
+    if (!product) return undefined;
+
+    const inventory = await this.getProductInventory(id);
+    return withInventory(product, inventory, await this.getCategories());
+  }
+
+  async getProductByModelNumber(modelNumber: string): Promise<Product | undefined> {
+    const [product] = await this.db.select().from(products).where(eq(products.modelNumber, modelNumber));
+    return product;
+  }
+
+  async createProduct(insertProduct: InsertProduct, createdBy?: string | null): Promise<Product> {
+    return this.db.transaction((tx) => this.insertProduct(tx, insertProduct, createdBy));
+  }
+
+  async updateProduct(
+    id: string,
+    updateData: Partial<InsertProduct>,
+    change: PriceChangeContext = { reason: "manual-edit" },
+  ): Promise<Product | undefined> {
+    return this.db.transaction((tx) => this.writeProduct(tx, id, updateData, change));
+  }
+
+  async bulkUpdatePrices(items: BulkPriceChange[], changedBy?: string | null): Promise<number> {
+    return this.db.transaction(async (tx) => {
+      let updated = 0;
+      for (const item of items) {
+        const prices: Partial<InsertProduct> = {};
+        item.changes.forEach(({ channel, newPrice }) => {
+          prices[channelPriceField(channel)] = newPrice;
+        });
+        if (await this.writeProduct(tx, item.productId, prices, { reason: "bulk-update", changedBy })) {
+          updated++;
+        }
+      }
+      return updated;
+    });
+  }
+
+  async deleteProduct(id: string): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      // Sale and return items reference the product, so Postgres would refuse the delete anyway
+      const [{ saleCount }] = await tx
+        .select({ saleCount: sql<number>`count(distinct ${saleItems.saleId})::int` })
+        .from(saleItems)
+        .where(eq(saleItems.productId, id));
+      if (saleCount > 0) {
+        throw new ProductInUseError("Product has been sold", "sales", saleCount);
+      }
+      const [{ returnCount }] = await tx
+        .select({ returnCount: sql<number>`count(distinct ${returnItems.returnId})::int` })
+        .from(returnItems)
+        .where(eq(returnItems.productId, id));
+      if (returnCount > 0) {
+        throw new ProductInUseError("Product has been returned", "returns", returnCount);
+      }
+      const [{ stocktakeCount }] = await tx
+        .select({ stocktakeCount: sql<number>`count(distinct ${stocktakeLines.stocktakeId})::int` })
+        .from(stocktakeLines)
+        .where(eq(stocktakeLines.productId, id));
+      if (stocktakeCount > 0) {
+        throw new ProductInUseError("Product is part of a stocktake", "stocktakes", stocktakeCount);
+      }
+      const [{ adjustmentCount }] = await tx
+        .select({ adjustmentCount: sql<number>`count(*)::int` })
+        .from(stockAdjustments)
+        .where(eq(stockAdjustments.productId, id));
+      if (adjustmentCount > 0) {
+        throw new ProductInUseError("Product has stock adjustments", "stock-adjustments", adjustmentCount);
+      }
+      const [{ movementCount }] = await tx
+        .select({ movementCount: sql<number>`count(*)::int` })
+        .from(stockMovements)
+        .where(eq(stockMovements.productId, id));
+      if (movementCount > 0) {
+        throw new ProductInUseError("Product has stock movements", "stock-movements", movementCount);
+      }
+      // The prices recorded on creation and changes still waiting to start are not history yet
+      const [{ priceEntryCount }] = await tx
+        .select({ priceEntryCount: sql<number>`count(*)::int` })
+        .from(priceHistory)
+        .where(and(eq(priceHistory.productId, id), ne(priceHistory.reason, "created")));
+      const [{ scheduledCount }] = await tx
+        .select({ scheduledCount: sql<number>`count(*)::int` })
+        .from(scheduledPriceChanges)
+        .where(and(eq(scheduledPriceChanges.productId, id), ne(scheduledPriceChanges.status, "pending")));
+      if (priceEntryCount + scheduledCount > 0) {
+        throw new ProductInUseError("Product has price history", "price-history", priceEntryCount + scheduledCount);
+      }
+
+      await tx.delete(productInventory).where(eq(productInventory.productId, id));
+      await tx.delete(productImages).where(eq(productImages.productId, id));
+      await tx.delete(priceHistory).where(eq(priceHistory.productId, id));
+      await tx.delete(scheduledPriceChanges).where(eq(scheduledPriceChanges.productId, id));
+      const deleted = await tx.delete(products).where(eq(products.id, id)).returning();
+      return deleted.length > 0;
+    });
+  }
+
+  // Product Images
+  async getProductImages(productId: string): Promise<ProductImage[]> {
+    return this.db
+      .select()
+      .from(productImages)
+      .where(eq(productImages.productId, productId))
+      .orderBy(asc(productImages.sortOrder), asc(productImages.createdAt));
+  }
+
+  async addProductImage(productId: string, insertImage: InsertProductImage): Promise<ProductImage> {
+    const [image] = await this.db
+      .insert(productImages)
+      .values({
+        ...insertImage,
+        productId,
+        sortOrder: sql`(select coalesce(max(${productImages.sortOrder}) + 1, 0) from ${productImages} where ${productImages.productId} = ${productId})`,
+      })
+      .returning();
+    return image;
+  }
+
+  async updateProductImage(id: string, updateData: Partial<InsertProductImage>): Promise<ProductImage | undefined> {
+    const [image] = await this.db
+      .update(productImages)
+      .set(updateData)
+      .where(eq(productImages.id, id))
+      .returning();
+    return image;
+  }
+
+  async reorderProductImages(productId: string, imageIds: string[]): Promise<ProductImage[]> {
+    return this.db.transaction(async (tx) => {
+      const images = await tx
+        .select()
+        .from(productImages)
+        .where(eq(productImages.productId, productId))
+        .orderBy(asc(productImages.sortOrder), asc(productImages.createdAt));
+
+      const ordered = orderImages(images, imageIds);
+      for (let i = 0; i < ordered.length; i++) {
+        await tx.update(productImages).set({ sortOrder: i }).where(eq(productImages.id, ordered[i].id));
+      }
+      return ordered.map((image, index) => ({ ...image, sortOrder: index }));
+    });
+  }
+
+  async deleteProductImage(id: string): Promise<ProductImage | undefined> {
+    const [image] = await this.db.delete(productImages).where(eq(productImages.id, id)).returning();
+    return image;
+  }
+
+  // Product Inventory
+  async getProductInventory(productId: string): Promise<ProductInventory[]> {
+    return this.db.select().from(productInventory).where(eq(productInventory.productId, productId));
+  }
+
+  async updateInventory(productId: string, color: string, size: string, quantity: number, reason: StockMovementReason = "manual-edit"): Promise<ProductInventory> {
+    return this.db.transaction((tx) => this.upsertInventory(tx, productId, color, size, quantity, reason));
+  }
+
+  async bulkUpdateInventory(inventoryItems: (InsertProductInventory & { productId: string })[], reason: StockMovementReason = "manual-edit"): Promise<ProductInventory[]> {
+    return this.db.transaction(async (tx) => {
+      const results: ProductInventory[] = [];
+
+      for (const item of inventoryItems) {
+        const result = await this.upsertInventory(tx, item.productId, item.color, item.size, item.quantity || 0, reason, item);
+        results.push(result);
+      }
+
+      return results;
+    });
+  }
+
+  async importProducts(items: ProductImport[], importedBy?: string | null): Promise<{ created: number; updated: number }> {
+    return this.db.transaction(async (tx) => {
+      let created = 0;
+      let updated = 0;
+      const knownSuppliers = await tx.select().from(suppliers);
+
+      for (const item of items) {
+        const { variants } = item;
+        let supplier = findSupplierByName(knownSuppliers, item.product.companyName);
+        if (!supplier) {
+          [supplier] = await tx.insert(suppliers).values({ name: tidySupplierName(item.product.companyName) }).returning();
+          knownSuppliers.push(supplier);
+        }
+        const product = { ...item.product, supplierId: supplier.id, companyName: supplier.name };
+        const [existing] = await tx.select().from(products).where(eq(products.modelNumber, product.modelNumber));
+        let productId: string;
+        if (existing) {
+          await this.writeProduct(tx, existing.id, product, { reason: "import", changedBy: importedBy });
+          productId = existing.id;
+          updated++;
+        } else {
+          productId = (await this.insertProduct(tx, product, importedBy)).id;
+          created++;
+        }
+
+        for (const variant of variants) {
+          await this.upsertInventory(tx, productId, variant.color, variant.size, variant.quantity, "import");
+        }
+      }
+      return { created, updated };
+    });
+  }
+
+  async setProductInventory(productId: string, inventoryItems: InsertProductInventory[], reason: StockMovementReason = "manual-edit"): Promise<ProductInventory[]> {
+    return this.db.transaction(async (tx) => {
+      // Variants missing from the new list are emptied and removed
+      const existingRows = await tx.select().from(productInventory).where(eq(productInventory.productId, productId));
+      for (const row of existingRows) {
+        if (!inventoryItems.some(item => item.color === row.color && item.size === row.size)) {
+          await this.recordMovement(tx, { ...row, quantity: 0 }, -row.quantity, reason);
+          await tx.delete(productInventory).where(eq(productInventory.id, row.id));
+        }
+      }
+
+      const results: ProductInventory[] = [];
+      for (const item of inventoryItems) {
+        results.push(await this.upsertInventory(tx, productId, item.color, item.size, item.quantity || 0, reason, item));
+      }
+      return results;
+    });
+  }
+
+  async deleteProductInventory(productId: string): Promise<boolean> {
+    await this.setProductInventory(productId, []);
+    return true;
+  }
+
+  async assignMissingVariantCodes(): Promise<number> {
+    return this.db.transaction(async (tx) => {
+      const missing = await tx
+        .select()
+        .from(productInventory)
+        .where(or(isNull(productInventory.sku), isNull(productInventory.barcode)));
+
+      for (const row of missing) {
+        await tx
+          .update(productInventory)
+          .set(await this.variantCodes(tx, row.productId, row.color, row.size))
+          .where(eq(productInventory.id, row.id));
+      }
+      return missing.length;
+    });
+  }
+
+  async findInventoryByCode(code: string): Promise<InventoryLookup | undefined> {
+    const [row] = await this.db
+      .select()
+      .from(productInventory)
+      .innerJoin(products, eq(productInventory.productId, products.id))
+      .where(or(eq(productInventory.barcode, code), eq(productInventory.sku, code.toUpperCase())));
+    if (!row) return undefined;
+
+    return { ...row.product_inventory, product: row.products };
+  }
+
+  async getLowStockVariants(): Promise<LowStockVariant[]> {
+    const threshold = reorderPointSql(await this.getCategories());
+    const rows = await this.db
+      .select({ variant: productInventory, product: products, threshold })
+      .from(productInventory)
+      .innerJoin(products, eq(productInventory.productId, products.id))
+      .where(sql`${productInventory.quantity} < ${threshold}`)
+      .orderBy(asc(productInventory.quantity), asc(products.modelNumber), asc(productInventory.color), asc(productInventory.size));
+
+    return rows.map(row => ({ ...row.variant, product: row.product, threshold: row.threshold }));
+  }
+
+  // Stock Movements
+  async getStockMovements(productId: string, variant: { color?: string; size?: string } = {}): Promise<StockMovement[]> {
+    return this.db
+      .select()
+      .from(stockMovements)
+      .where(and(
+        eq(stockMovements.productId, productId),
+        variant.color ? eq(stockMovements.color, variant.color) : undefined,
+        variant.size ? eq(stockMovements.size, variant.size) : undefined,
+      ))
+      .orderBy(desc(stockMovements.createdAt));
+  }
+
+  // Price History
+  async getPriceHistory(productId: string): Promise<PriceChangeWithUser[]> {
+    const rows = await this.db
+      .select()
+      .from(priceHistory)
+      .where(eq(priceHistory.productId, productId))
+      .orderBy(desc(priceHistory.createdAt));
+    const userNames = await this.userNamesByIds(rows.map(row => row.changedBy));
+    return rows.map(row => ({ ...row, changedByName: (row.changedBy && userNames.get(row.changedBy)) || null }));
+  }
+
+  // Scheduled Price Changes
+  async getScheduledPriceChanges(productId?: string): Promise<ScheduledPriceChange[]> {
+    return this.db
+      .select()
+      .from(scheduledPriceChanges)
+      .where(productId ? eq(scheduledPriceChanges.productId, productId) : undefined)
+      .orderBy(asc(scheduledPriceChanges.startsAt));
+  }
+
+  async getScheduledPriceChange(id: string): Promise<ScheduledPriceChange | undefined> {
+    const [change] = await this.db.select().from(scheduledPriceChanges).where(eq(scheduledPriceChanges.id, id));
+    return change;
+  }
+
+  async createScheduledPriceChange(
+    productId: string,
+    insertChange: InsertScheduledPriceChange,
+    createdBy?: string | null,
+  ): Promise<ScheduledPriceChange> {
+    const [change] = await this.db
+      .insert(scheduledPriceChanges)
+      .values({ ...insertChange, endsAt: insertChange.endsAt ?? null, productId, createdBy: createdBy ?? null })
+      .returning();
+    return change;
+  }
+
+  async startScheduledPriceChange(id: string): Promise<ScheduledPriceChange | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [change] = await tx.select().from(scheduledPriceChanges).where(eq(scheduledPriceChanges.id, id)).for("update");
+      if (!change || change.status !== "pending") return undefined;
+
+      const [product] = await tx.select().from(products).where(eq(products.id, change.productId));
+      const field = channelPriceField(change.channel);
+      await this.writeProduct(tx, product.id, { [field]: change.price }, { reason: "schedule-start", scheduledChangeId: change.id });
+
+      const [started] = await tx
+        .update(scheduledPriceChanges)
+        .set({ status: change.endsAt ? "active" : "completed", previousPrice: product[field] })
+        .where(eq(scheduledPriceChanges.id, id))
+        .returning();
+      return started;
+    });
+  }
+
+  async endScheduledPriceChange(id: string, status: "completed" | "cancelled"): Promise<ScheduledPriceChange | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [change] = await tx.select().from(scheduledPriceChanges).where(eq(scheduledPriceChanges.id, id)).for("update");
+      if (!change || (change.status !== "pending" && change.status !== "active")) return undefined;
+
+      if (change.status === "active" && change.previousPrice !== null) {
+        const [product] = await tx.select().from(products).where(eq(products.id, change.productId));
+        const field = channelPriceField(change.channel);
+        // A price edited by hand while the change ran is kept
+        if (toFils(product[field]) === toFils(change.price)) {
+          await this.writeProduct(tx, product.id, { [field]: change.previousPrice }, { reason: "schedule-end", scheduledChangeId: change.id });
+        }
+      }
+
+      const [ended] = await tx
+        .update(scheduledPriceChanges)
+        .set({ status })
+        .where(eq(scheduledPriceChanges.id, id))
+        .returning();
+      return ended;
+    });
+  }
+
+  // Bundles
+  async getBundles(): Promise<BundleWithComponents[]> {
+    const bundleRows = await this.db.select().from(bundles).orderBy(asc(bundles.name));
+    return this.attachBundleComponents(bundleRows);
+  }
+
+  async getBundle(id: string): Promise<BundleWithComponents | undefined> {
+    const [bundle] = await this.db.select().from(bundles).where(eq(bundles.id, id));
+    if (!bundle) return undefined;
+
+    const [bundleWithComponents] = await this.attachBundleComponents([bundle]);
+    return bundleWithComponents;
+  }
+
+  async createBundle(insertBundle: InsertBundle): Promise<BundleWithComponents> {
+    const { components, ...bundleData } = insertBundle;
+    const bundleId = await this.db.transaction(async (tx) => {
+      const [bundle] = await tx.insert(bundles).values(bundleData).returning();
+      await tx.insert(bundleComponents).values(components.map(component => ({ ...component, bundleId: bundle.id })));
+      return bundle.id;
+    });
+    return (await this.getBundle(bundleId))!;
+  }
+
+  async updateBundle(id: string, insertBundle: InsertBundle): Promise<BundleWithComponents | undefined> {
+    const { components, ...bundleData } = insertBundle;
+    const updated = await this.db.transaction(async (tx) => {
+      const [bundle] = await tx.update(bundles).set(bundleData).where(eq(bundles.id, id)).returning();
+      if (!bundle) return false;
+
+      await tx.delete(bundleComponents).where(eq(bundleComponents.bundleId, id));
+      await tx.insert(bundleComponents).values(components.map(component => ({ ...component, bundleId: id })));
+      return true;
+    });
+    return updated ? this.getBundle(id) : undefined;
+  }
+
+  async deleteBundle(id: string): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const [{ saleCount }] = await tx
+        .select({ saleCount: sql<number>`count(distinct ${saleItems.saleId})::int` })
+        .from(saleItems)
+        .where(eq(saleItems.bundleId, id));
+      if (saleCount > 0) {
+        throw new BundleInUseError(saleCount);
+      }
+
+      await tx.delete(bundleComponents).where(eq(bundleComponents.bundleId, id));
+      const deleted = await tx.delete(bundles).where(eq(bundles.id, id)).returning();
+      return deleted.length > 0;
+    });
+  }
+
+  // Stocktakes
+  async getStocktakes(): Promise<StocktakeWithProgress[]> {
+    const rows = await this.db
+      .select({
+        stocktake: stocktakes,
+        lineCount: sql<number>`count(${stocktakeLines.id})::int`,
+        countedCount: sql<number>`count(${stocktakeLines.countedQuantity})::int`,
+      })
+      .from(stocktakes)
+      .leftJoin(stocktakeLines, eq(stocktakeLines.stocktakeId, stocktakes.id))
+      .groupBy(stocktakes.id)
+      .orderBy(desc(stocktakes.createdAt));
+
+    return rows.map(({ stocktake, lineCount, countedCount }) => ({ ...stocktake, lineCount, countedCount }));
+  }
+
+  async getStocktake(id: string): Promise<StocktakeDetails | undefined> {
+    const [stocktake] = await this.db.select().from(stocktakes).where(eq(stocktakes.id, id));
+    if (!stocktake) return undefined;
+
+    const lines = await this.db.select().from(stocktakeLines).where(eq(stocktakeLines.stocktakeId, id));
+    const productIds = Array.from(new Set(lines.map(line => line.productId)));
+    const productMap = await this.productsByIds(productIds);
+    const inventoryRows = productIds.length > 0
+      ? await this.db.select().from(productInventory).where(inArray(productInventory.productId, productIds))
+      : [];
+    return buildStocktakeDetails(stocktake, lines, Array.from(productMap.values()), inventoryRows);
+  }
+
+  async createStocktake(insertStocktake: InsertStocktake, createdBy?: string | null): Promise<StocktakeDetails> {
+    const categoryIds = insertStocktake.categoryId
+      ? categorySubtree(await this.getCategories(), insertStocktake.categoryId)
+      : null;
+
+    const stocktakeId = await this.db.transaction(async (tx) => {
+      const [stocktake] = await tx
+        .insert(stocktakes)
+        .values({ ...insertStocktake, categoryId: insertStocktake.categoryId || null, createdBy })
+        .returning();
+
+      const variants = await tx
+        .select({ productId: productInventory.productId, color: productInventory.color, size: productInventory.size })
+        .from(productInventory)
+        .innerJoin(products, eq(productInventory.productId, products.id))
+        .where(categoryIds ? inArray(products.productType, categoryIds) : undefined);
+      if (variants.length > 0) {
+        await tx.insert(stocktakeLines).values(variants.map(variant => ({ ...variant, stocktakeId: stocktake.id })));
+      }
+      return stocktake.id;
+    });
+    return (await this.getStocktake(stocktakeId))!;
+  }
+
+  async recordStocktakeCounts(id: string, counts: StocktakeCount[]): Promise<StocktakeDetails | undefined> {
+    const found = await this.db.transaction(async (tx) => {
+      if (!(await this.lockOpenStocktake(tx, id))) return false;
+
+      const lines = await tx.select().from(stocktakeLines).where(eq(stocktakeLines.stocktakeId, id));
+      const findLine = (count: StocktakeCount) =>
+        lines.find(line => line.productId === count.productId && line.color === count.color && line.size === count.size);
+      const outside = counts.filter(count => !findLine(count));
+      if (outside.length > 0) {
+        throw new StocktakeScopeError(outside.map(({ productId, color, size }) => ({ productId, color, size })));
+      }
+
+      for (const count of counts) {
+        // The system quantity at the moment of counting is what the count is compared with
+        const [variant] = await tx
+          .select({ quantity: productInventory.quantity })
+          .from(productInventory)
+          .where(and(
+            eq(productInventory.productId, count.productId),
+            eq(productInventory.color, count.color),
+            eq(productInventory.size, count.size),
+          ));
+        await tx
+          .update(stocktakeLines)
+          .set({
+            countedQuantity: count.countedQuantity,
+            systemQuantity: count.countedQuantity === null ? null : variant?.quantity ?? 0,
+          })
+          .where(eq(stocktakeLines.id, findLine(count)!.id));
+      }
+      return true;
+    });
+    return found ? this.getStocktake(id) : undefined;
+  }
+
+  async approveStocktake(id: string, approvedBy?: string | null): Promise<StocktakeDetails | undefined> {
+    const found = await this.db.transaction(async (tx) => {
+      if (!(await this.lockOpenStocktake(tx, id))) return false;
+
+      const lines = await tx
+        .select({ line: stocktakeLines, product: products })
+        .from(stocktakeLines)
+        .innerJoin(products, eq(stocktakeLines.productId, products.id))
+        .where(and(eq(stocktakeLines.stocktakeId, id), isNotNull(stocktakeLines.countedQuantity)));
+
+      for (const { line, product } of lines) {
+        // Locked so a sale in between cannot be lost
+        const [variant] = await tx
+          .select()
+          .from(productInventory)
+          .where(and(
+            eq(productInventory.productId, line.productId),
+            eq(productInventory.color, line.color),
+            eq(productInventory.size, line.size),
+          ))
+          .for("update");
+        await tx
+          .update(stocktakeLines)
+          .set({ unitCost: getUnitCost(product, variant) })
+          .where(eq(stocktakeLines.id, line.id));
+
+        // Applied as a change, so sales and returns since the count are kept
+        const current = variant?.quantity ?? 0;
+        const quantity = stocktakeApprovedQuantity(line, current);
+        if (quantity === current) continue;
+        // A variant deleted since the count started is recreated when pieces were found on the shelf
+        const [adjusted] = variant
+          ? await tx.update(productInventory).set({ quantity }).where(eq(productInventory.id, variant.id)).returning()
+          : await tx
+            .insert(productInventory)
+            .values({ productId: line.productId, color: line.color, size: line.size, quantity, ...(await this.variantCodes(tx, line.productId, line.color, line.size)) })
+            .returning();
+        await this.recordMovement(tx, adjusted, quantity - current, "stocktake", { stocktakeId: id });
+      }
+
+      await tx
+        .update(stocktakes)
+        .set({ status: "approved", closedBy: approvedBy, closedAt: new Date() })
+        .where(eq(stocktakes.id, id));
+      return true;
+    });
+    return found ? this.getStocktake(id) : undefined;
+  }
+
+  async cancelStocktake(id: string, cancelledBy?: string | null): Promise<StocktakeDetails | undefined> {
+    const found = await this.db.transaction(async (tx) => {
+      if (!(await this.lockOpenStocktake(tx, id))) return false;
+
+      await tx
+        .update(stocktakes)
+        .set({ status: "cancelled", closedBy: cancelledBy, closedAt: new Date() })
+        .where(eq(stocktakes.id, id));
+      return true;
+    });
+    return found ? this.getStocktake(id) : undefined;
+  }
+
+  // Stock Adjustments
+  async getStockAdjustments(filter: { productId?: string; from?: Date; to?: Date } = {}): Promise<StockAdjustmentWithDetails[]> {
+    const rows = await this.db
+      .select({ adjustment: stockAdjustments, product: products })
+      .from(stockAdjustments)
+      .innerJoin(products, eq(stockAdjustments.productId, products.id))
+      .where(and(
+        filter.productId ? eq(stockAdjustments.productId, filter.productId) : undefined,
+        filter.from ? gte(stockAdjustments.createdAt, filter.from) : undefined,
+        filter.to ? lte(stockAdjustments.createdAt, filter.to) : undefined,
+      ))
+      .orderBy(desc(stockAdjustments.createdAt));
+    const userNames = await this.userNamesByIds(rows.map(row => row.adjustment.createdBy));
+    return rows.map(({ adjustment, product }) => ({
+      ...adjustment,
+      product,
+      createdByName: (adjustment.createdBy && userNames.get(adjustment.createdBy)) || null,
+    }));
+  }
+
+  async createStockAdjustment(insertAdjustment: InsertStockAdjustment, createdBy?: string | null): Promise<StockAdjustment | undefined> {
+    return this.db.transaction(async (tx) => {
+      // Locked so a sale in between cannot take the pieces being written off
+      const [row] = await tx
+        .select({ variant: productInventory, product: products })
+        .from(productInventory)
+        .innerJoin(products, eq(productInventory.productId, products.id))
+        .where(and(
+          eq(productInventory.productId, insertAdjustment.productId),
+          eq(productInventory.color, insertAdjustment.color),
+          eq(productInventory.size, insertAdjustment.size),
+        ))
+        .for("update", { of: productInventory });
+      if (!row) return undefined;
+
+      if (insertAdjustment.delta < 0) {
+        const shortages = findStockShortages(
+          [{ ...insertAdjustment, quantity: -insertAdjustment.delta }],
+          () => row.variant.quantity,
+        );
+        if (shortages.length > 0) {
+          throw new InsufficientStockError(shortages);
+        }
+      }
+
+      const [adjustment] = await tx
+        .insert(stockAdjustments)
+        .values({
+          ...insertAdjustment,
+          note: insertAdjustment.note || null,
+          unitCost: getUnitCost(row.product, row.variant),
+          createdBy,
+        })
+        .returning();
+      const [updated] = await tx
+        .update(productInventory)
+        .set({ quantity: sql`${productInventory.quantity} + ${adjustment.delta}` })
+        .where(eq(productInventory.id, row.variant.id))
+        .returning();
+      await this.recordMovement(tx, updated, adjustment.delta, "adjustment", { adjustmentId: adjustment.id });
+      return adjustment;
+    });
+  }
+
+  // False when there is no such stocktake; throws StocktakeClosedError when it is no longer counting
+  private async lockOpenStocktake(tx: Transaction, id: string): Promise<boolean> {
+    const [stocktake] = await tx.select().from(stocktakes).where(eq(stocktakes.id, id)).for("update");
+    if (!stocktake) return false;
+    if (stocktake.status !== "counting") {
+      throw new StocktakeClosedError(stocktake.status);
+    }
+    return true;
+  }
+
+  // Sales
+  async getSales(): Promise<SaleWithItems[]> {
+    const saleRows = await this.db.select().from(sales);
+    return this.attachSaleItems(saleRows);
+  }
+
+  async getSaleById(id: string): Promise<SaleWithItems | undefined> {
+    const [sale] = await this.db.select().from(sales).where(eq(sales.id, id));
+    if (!sale) return undefined;
+
+    const [saleWithItems] = await this.attachSaleItems([sale]);
+    return saleWithItems;
+  }
+
+  async createSale(insertSale: InsertSale, items: InsertSaleItem[]): Promise<SaleWithItems> {
+    const saleId = await this.db.transaction(async (tx) => {
+      // Lock the variant rows being sold so concurrent sales wait for this one to commit
+      const lockedRows = items.length === 0 ? [] : await tx
+        .select()
+        .from(productInventory)
+        .where(or(...items.map(item => and(
+          eq(productInventory.productId, item.productId),
+          eq(productInventory.color, item.color),
+          eq(productInventory.size, item.size),
+        ))))
+        .orderBy(productInventory.id)
+        .for("update");
+
+      const findLocked = (item: InsertSaleItem) => lockedRows.find(
+        row => row.productId === item.productId && row.color === item.color && row.size === item.size
+      );
+
+      const shortages = findStockShortages(items, (item) => findLocked(item)?.quantity ?? 0);
+      if (shortages.length > 0) {
+        throw new InsufficientStockError(shortages);
+      }
+
+      const [sale] = await tx
+        .insert(sales)
+        .values({ ...insertSale, invoiceNumber: `INV-${Date.now()}` })
+        .returning();
+
+      for (const item of items) {
+        await tx.insert(saleItems).values({ ...item, saleId: sale.id });
+        const [updated] = await tx
+          .update(productInventory)
+          .set({ quantity: sql`${productInventory.quantity} - ${item.quantity}` })
+          .where(eq(productInventory.id, findLocked(item)!.id))
+          .returning();
+        await this.recordMovement(tx, updated, -item.quantity, "sale", { saleId: sale.id });
+      }
+
+      return sale.id;
+    });
+
+    return (await this.getSaleById(saleId))!;
+  }
+
+  async getSalesByDateRange(startDate: Date, endDate: Date): Promise<SaleWithItems[]> {
+    const saleRows = await this.db
+      .select()
+      .from(sales)
+      .where(and(gte(sales.createdAt, startDate), lte(sales.createdAt, endDate)));
+    return this.attachSaleItems(saleRows);
+  }
+
+  // Returns
+  async getReturns(): Promise<ReturnWithItems[]> {
+    const returnRows = await this.db.select().from(returns);
+    return this.attachReturnItems(returnRows);
+  }
+
+  async getReturnById(id: string): Promise<ReturnWithItems | undefined> {
+    const [returnData] = await this.db.select().from(returns).where(eq(returns.id, id));
+    if (!returnData) return undefined;
+
+    const [returnWithItems] = await this.attachReturnItems([returnData]);
+    return returnWithItems;
+  }
+
+  async createReturn(insertReturn: InsertReturn, items: InsertReturnItem[]): Promise<ReturnWithItems> {
+    const returnId = await this.db.transaction(async (tx) => {
+      const [returnData] = await tx.insert(returns).values(insertReturn).returning();
+      const reason = returnData.returnType === 'exchange' ? "exchange" : "return";
+      const refs = { returnId: returnData.id };
+
+      for (const item of items) {
+        await tx.insert(returnItems).values({ ...item, returnId: returnData.id });
+
+        // The returned item always goes back to its original variant
+        const originalItem = await this.findInventory(tx, item.productId, item.color, item.size);
+        if (originalItem) {
+          await this.adjustInventory(tx, originalItem, item.quantity, reason, refs);
+        }
+
+        if (returnData.returnType !== 'exchange') continue;
+
+        // For exchanges, deduct the replacement variant when it is in stock
+        let replacement: { productId: string; color: string; size: string } | undefined;
+        if (returnData.exchangeType === 'product-to-product' && returnData.newProductId) {
+          replacement = { productId: returnData.newProductId, color: item.color, size: item.size };
+        } else if (returnData.exchangeType === 'color-change' && returnData.newColor) {
+          replacement = { productId: item.productId, color: returnData.newColor, size: item.size };
+        } else if (returnData.exchangeType === 'size-change' && returnData.newSize) {
+          replacement = { productId: item.productId, color: item.color, size: returnData.newSize };
+        }
+
+        if (replacement) {
+          const inventoryItem = await this.findInventory(tx, replacement.productId, replacement.color, replacement.size);
+          if (inventoryItem && inventoryItem.quantity >= item.quantity) {
+            await this.adjustInventory(tx, inventoryItem, -item.quantity, reason, refs);
+          }
+        }
+      }
+
+      return returnData.id;
+    });
+
+    return (await this.getReturnById(returnId))!;
+  }
+
+  // Expenses
+  async getExpenses(): Promise<Expense[]> {
+    return this.db.select().from(expenses);
+  }
+
+  async createExpense(insertExpense: InsertExpense): Promise<Expense> {
+    const [expense] = await this.db.insert(expenses).values(insertExpense).returning();
+    return expense;
+  }
+
+  async getExpensesByDateRange(startDate: Date, endDate: Date): Promise<Expense[]> {
+    return this.db
+      .select()
+      .from(expenses)
+      .where(and(gte(expenses.date, startDate), lte(expenses.date, endDate)));
+  }
+
+  // Purchases
+  async getPurchases(): Promise<Purchase[]> {
+    return this.db.select().from(purchases);
+  }
+
+  async createPurchase(insertPurchase: InsertPurchase): Promise<Purchase> {
+    const [purchase] = await this.db.insert(purchases).values(insertPurchase).returning();
+    return purchase;
+  }
+
+  async updatePurchase(id: string, updateData: Partial<InsertPurchase>): Promise<Purchase | undefined> {
+    const [purchase] = await this.db
+      .update(purchases)
+      .set(updateData)
+      .where(eq(purchases.id, id))
+      .returning();
+    return purchase;
+  }
+
+  async getPurchasesByDateRange(startDate: Date, endDate: Date): Promise<Purchase[]> {
+    return this.db
+      .select()
+      .from(purchases)
+      .where(and(gte(purchases.date, startDate), lte(purchases.date, endDate)));
+  }
+
+  // Analytics
+  async getDashboardStats(): Promise<{
+    totalProducts: number;
+    todaySales: number;
+    todayGrossProfit: number;
+    outOfStockCount: number;
+    lowStockCount: number;
+    onlineOrdersCount: number;
+  }> {
+    const allProducts = await this.getProducts();
+    const totalProducts = allProducts.length;
+    const outOfStockCount = allProducts.filter(p => p.status === 'out-of-stock').length;
+    const lowStockCount = (await this.getLowStockVariants()).length;
+
+    const today = new Date();
+    const todayStart = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+    const todayEnd = new Date(todayStart.getTime() + 24 * 60 * 60 * 1000);
+
+    const todaySalesData = await this.getSalesByDateRange(todayStart, todayEnd);
+    const todaySales = todaySalesData.reduce((sum, sale) => sum + parseFloat(sale.total), 0);
+    const todayGrossProfit = parseFloat(calculateGrossProfit(todaySalesData.flatMap(sale => sale.items)));
+
+    const onlineOrdersCount = todaySalesData.filter(sale => sale.channel === 'online').length;
+
+    return {
+      totalProducts,
+      todaySales,
+      todayGrossProfit,
+      outOfStockCount,
+      lowStockCount,
+      onlineOrdersCount,
+    };
+  }
+
+  async getEmployeeSummary(startDate?: Date, endDate?: Date): Promise<EmployeeSummary[]> {
+    const saleConditions: SQL[] = [isNotNull(sales.createdBy)];
+    const returnConditions: SQL[] = [isNotNull(returns.createdBy)];
+    if (startDate) {
+      saleConditions.push(gte(sales.createdAt, startDate));
+      returnConditions.push(gte(returns.createdAt, startDate));
+    }
+    if (endDate) {
+      saleConditions.push(lte(sales.createdAt, endDate));
+      returnConditions.push(lte(returns.createdAt, endDate));
+    }
+
+    const saleTotals = await this.db
+      .select({
+        userId: sales.createdBy,
+        count: sql<number>`count(*)::int`,
+        total: sql<string>`coalesce(sum(${sales.total}), 0)`,
+      })
+      .from(sales)
+      .where(and(...saleConditions))
+      .groupBy(sales.createdBy);
+    const returnTotals = await this.db
+      .select({
+        userId: returns.createdBy,
+        count: sql<number>`count(*)::int`,
+        total: sql<string>`coalesce(sum(${returns.refundAmount}), 0)`,
+      })
+      .from(returns)
+      .where(and(...returnConditions))
+      .groupBy(returns.createdBy);
+
+    const userRows = await this.db.select().from(users);
+    return userRows.map((user) => {
+      const saleRow = saleTotals.find(row => row.userId === user.id);
+      const returnRow = returnTotals.find(row => row.userId === user.id);
+
+      return {
+        userId: user.id,
+        displayName: user.displayName,
+        salesCount: saleRow?.count ?? 0,
+        salesTotal: fromFils(toFils(saleRow?.total ?? 0)),
+        returnsCount: returnRow?.count ?? 0,
+        refundTotal: fromFils(toFils(returnRow?.total ?? 0)),
+      };
+    });
+  }
+
+  // Helpers
+  private async findInventory(
+    tx: Database | Transaction,
+    productId: string,
+    color: string,
+    size: string,
+  ): Promise<ProductInventory | undefined> {
+    const [item] = await tx
+      .select()
+      .from(productInventory)
+      .where(and(
+        eq(productInventory.productId, productId),
+        eq(productInventory.color, color),
+        eq(productInventory.size, size),
+      ));
+    return item;
+  }
+
+  private async insertProduct(tx: Database | Transaction, insertProduct: InsertProduct, createdBy?: string | null): Promise<Product> {
+    const [product] = await tx.insert(products).values(insertProduct).returning();
+    await tx.insert(priceHistory).values([
+      { productId: product.id, channel: "in-store", oldPrice: null, newPrice: product.storePrice, reason: "created", changedBy: createdBy ?? null },
+      { productId: product.id, channel: "online", oldPrice: null, newPrice: product.onlinePrice, reason: "created", changedBy: createdBy ?? null },
+    ]);
+    return product;
+  }
+
+  private async writeProduct(
+    tx: Database | Transaction,
+    id: string,
+    updateData: Partial<InsertProduct>,
+    change: PriceChangeContext,
+  ): Promise<Product | undefined> {
+    const [existing] = await tx.select().from(products).where(eq(products.id, id));
+    if (!existing) return undefined;
+
+    const [product] = await tx
+      .update(products)
+      .set(updateData)
+      .where(eq(products.id, id))
+      .returning();
+
+    const priceChanges = changedChannelPrices(existing, updateData);
+    if (priceChanges.length > 0) {
+      await tx.insert(priceHistory).values(priceChanges.map(({ channel, oldPrice, newPrice }) => ({
+        productId: id,
+        channel,
+        oldPrice,
+        newPrice,
+        reason: change.reason,
+        scheduledChangeId: change.scheduledChangeId,
+        changedBy: change.changedBy ?? null,
+      })));
+    }
+    return product;
+  }
+
+  private async upsertInventory(
+    tx: Database | Transaction,
+    productId: string,
+    color: string,
+    size: string,
+    quantity: number,
+    reason: StockMovementReason,
+    overrides: Pick<InsertProductInventory, "costPrice" | "reorderPoint"> = {}, // Omitted keeps the current one, null clears it
+  ): Promise<ProductInventory> {
+    const existingItem = await this.findInventory(tx, productId, color, size);
+    const { costPrice, reorderPoint } = overrides;
+
+    if (existingItem) {
+      const [updated] = await tx
+        .update(productInventory)
+        .set({
+          quantity,
+          ...(costPrice === undefined ? {} : { costPrice }),
+          ...(reorderPoint === undefined ? {} : { reorderPoint }),
+        })
+        .where(eq(productInventory.id, existingItem.id))
+        .returning();
+      await this.recordMovement(tx, updated, quantity - existingItem.quantity, reason);
+      return updated;
+    }
+
+    const [created] = await tx
+      .insert(productInventory)
+      .values({ productId, color, size, quantity, costPrice, reorderPoint, ...(await this.variantCodes(tx, productId, color, size)) })
+      .returning();
+    await this.recordMovement(tx, created, quantity, reason);
+    return created;
+  }
+
+  // The barcode sequence also disambiguates a SKU that is already taken (e.g. after a model number change)
+  private async variantCodes(
+    tx: Database | Transaction,
+    productId: string,
+    color: string,
+    size: string,
+  ): Promise<{ sku: string; barcode: string }> {
+    const [{ modelNumber, sequence }] = await tx
+      .select({
+        modelNumber: products.modelNumber,
+        sequence: sql<number>`nextval(${variantBarcodeSequence.seqName})::int`,
+      })
+      .from(products)
+      .where(eq(products.id, productId));
+
+    let sku = variantSku(modelNumber, color, size, sequence);
+    const [taken] = await tx.select().from(productInventory).where(eq(productInventory.sku, sku));
+    if (taken) {
+      sku = `${sku}-${sequence}`;
+    }
+    return { sku, barcode: variantBarcode(sequence) };
+  }
+
+  private async adjustInventory(
+    tx: Database | Transaction,
+    inventoryItem: ProductInventory,
+    delta: number,
+    reason: StockMovementReason,
+    refs: { saleId?: string; returnId?: string; stocktakeId?: string } = {},
+  ): Promise<ProductInventory> {
+    const [updated] = await tx
+      .update(productInventory)
+      .set({ quantity: sql`${productInventory.quantity} + ${delta}` })
+      .where(eq(productInventory.id, inventoryItem.id))
+      .returning();
+    await this.recordMovement(tx, updated, delta, reason, refs);
+    return updated;
+  }
+
+  private async recordMovement(
+    tx: Database | Transaction,
+    item: ProductInventory,
+    delta: number,
+    reason: StockMovementReason,
+    refs: { saleId?: string; returnId?: string; stocktakeId?: string; adjustmentId?: string } = {},
+  ): Promise<void> {
+    if (delta === 0) return;
+
+    await tx.insert(stockMovements).values({
+      productId: item.productId,
+      color: item.color,
+      size: item.size,
+      delta,
+      balance: item.quantity,
+      reason,
+      saleId: refs.saleId,
+      returnId: refs.returnId,
+      stocktakeId: refs.stocktakeId,
+      adjustmentId: refs.adjustmentId,
+      // now() is fixed per transaction; clock_timestamp() keeps movements within one sale in order
+      createdAt: sql`clock_timestamp()`,
+    });
+  }
+
+  private async productsByIds(ids: string[]): Promise<Map<string, Product>> {
+    if (ids.length === 0) return new Map();
+    const rows = await this.db.select().from(products).where(inArray(products.id, ids));
+    return new Map(rows.map(product => [product.id, product]));
+  }
+
+  private async userNamesByIds(ids: (string | null)[]): Promise<Map<string, string>> {
+    const userIds = Array.from(new Set(ids.filter((id): id is string => !!id)));
+    if (userIds.length === 0) return new Map();
+    const rows = await this.db.select().from(users).where(inArray(users.id, userIds));
+    return new Map(rows.map(user => [user.id, user.displayName]));
+  }
+
+  private async attachBundleComponents(bundleRows: Bundle[]): Promise<BundleWithComponents[]> {
+    if (bundleRows.length === 0) return [];
+
+    const componentRows = await this.db
+      .select({ component: bundleComponents, product: products })
+      .from(bundleComponents)
+      .innerJoin(products, eq(bundleComponents.productId, products.id))
+      .where(inArray(bundleComponents.bundleId, bundleRows.map(bundle => bundle.id)))
+      .orderBy(asc(products.modelNumber), asc(bundleComponents.color), asc(bundleComponents.size));
+
+    return bundleRows.map(bundle => ({
+      ...bundle,
+      components: componentRows
+        .filter(row => row.component.bundleId === bundle.id)
+        .map(row => ({ ...row.component, product: row.product })),
+    }));
+  }
+
+  private async attachSaleItems(saleRows: Sale[]): Promise<SaleWithItems[]> {
+    if (saleRows.length === 0) return [];
+
+    const itemRows = await this.db
+      .select()
+      .from(saleItems)
+      .where(inArray(saleItems.saleId, saleRows.map(sale => sale.id)));
+    const productMap = await this.productsByIds(Array.from(new Set(itemRows.map(item => item.productId))));
+    const userNames = await this.userNamesByIds(saleRows.map(sale => sale.createdBy));
+
+    return saleRows.map((sale) => ({
+      ...sale,
+      items: itemRows
+        .filter(item => item.saleId === sale.id)
+        .map(item => ({ ...item, product: productMap.get(item.productId)! })),
+      createdByName: (sale.createdBy && userNames.get(sale.createdBy)) || null,
+    }));
+  }
+
+  private async attachReturnItems(returnRows: Return[]): Promise<ReturnWithItems[]> {
+    if (returnRows.length === 0) return [];
+
+    const itemRows = await this.db
+      .select()
+      .from(returnItems)
+      .where(inArray(returnItems.returnId, returnRows.map(returnData => returnData.id)));
+    const productMap = await this.productsByIds(Array.from(new Set(itemRows.map(item => item.productId))));
+    const originalSales = await this.db
+      .select()
+      .from(sales)
+      .where(inArray(sales.id, Array.from(new Set(returnRows.map(returnData => returnData.originalSaleId)))));
+    const saleMap = new Map(originalSales.map(sale => [sale.id, sale]));
+    const userNames = await this.userNamesByIds(returnRows.map(returnData => returnData.createdBy));
+
+    return returnRows.map((returnData) => ({
+      ...returnData,
+      items: itemRows
+        .filter(item => item.returnId === returnData.id)
+        .map(item => ({ ...item, product: productMap.get(item.productId)! })),
+      originalSale: saleMap.get(returnData.originalSaleId)!,
+      createdByName: (returnData.createdBy && userNames.get(returnData.createdBy)) || null,
+    }));
+  }
+}
@@ -0,0 +1,47 @@
+import { Pool as NeonPool, neonConfig } from "@neondatabase/serverless";
+import { drizzle as drizzleNeon } from "drizzle-orm/neon-serverless";
+import { drizzle as drizzleNodePg } from "drizzle-orm/node-postgres";
+import { drizzle as drizzlePglite } from "drizzle-orm/pglite";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import { PGlite } from "@electric-sql/pglite";
+import pg from "pg";
+import ws from "ws";
+import session from "express-session";
+import connectPgSimple from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+// Picks the driver from the connection string:
+// - "pglite:<dir>" opens an embedded PGlite database in <dir> (local testing)
+// - Neon hosts go through the serverless websocket driver
+// - anything else is treated as a plain Postgres server
+export function createDatabase(url: string): Database {
+  if (url.startsWith("pglite:")) {
+    const client = new PGlite(url.slice("pglite:".length));
+    return drizzlePglite({ client, schema }) as unknown as Database;
+  }
+
+  if (new URL(url).hostname.endsWith(".neon.tech")) {
+    const pool = new NeonPool({ connectionString: url });
+    return drizzleNeon({ client: pool, schema }) as unknown as Database;
+  }
+
+  const pool = new pg.Pool({ connectionString: url });
+  return drizzleNodePg({ client: pool, schema }) as unknown as Database;
+}
+
+// Sessions live in the same Postgres database; PGlite cannot be shared with
+// connect-pg-simple, so the embedded setup keeps sessions in memory.
+export function createSessionStore(url: string): session.Store {
+  if (url.startsWith("pglite:")) {
+    const MemoryStore = createMemoryStore(session);
+    return new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+  }
+
+  const PgStore = connectPgSimple(session);
+  return new PgStore({ conString: url, createTableIfMissing: true });
+}
@@ -0,0 +1,82 @@
+import type { StockShortage } from "@shared/schema";
+
+export class InsufficientStockError extends Error {
+  constructor(public shortages: StockShortage[]) {
+    super("Insufficient inventory for one or more items");
+    this.name = "InsufficientStockError";
+  }
+}
+
+// A sale request the server refuses to price: unknown product, unjustified override or mismatched totals
+export class PricingError extends Error {
+  constructor(message: string, public details?: Record<string, unknown>) {
+    super(message);
+    this.name = "PricingError";
+  }
+}
+
+// Deleting a category that products or subcategories still point at
+export class CategoryInUseError extends Error {
+  constructor(public productCount: number, public childCount: number) {
+    super("Category is still in use");
+    this.name = "CategoryInUseError";
+  }
+}
+
+// Deleting a color or size system that inventory or categories still rely on
+export class CatalogInUseError extends Error {
+  constructor(message: string, public usageCount: number) {
+    super(message);
+    this.name = "CatalogInUseError";
+  }
+}
+
+// An import file that cannot be read at all, as opposed to individual invalid rows
+export class ImportFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImportFileError";
+  }
+}
+
+// Deleting a supplier that products or purchases still point at; merging it into another works instead
+export class SupplierInUseError extends Error {
+  constructor(public productCount: number, public purchaseCount: number) {
+    super("Supplier is still in use");
+    this.name = "SupplierInUseError";
+  }
+}
+
+// Deleting a bundle that sales already record; its sale items keep pointing at it
+export class BundleInUseError extends Error {
+  constructor(public saleCount: number) {
+    super("Bundle has been sold");
+    this.name = "BundleInUseError";
+  }
+}
+
+// Deleting a product whose records are kept: `reason` names what still records it
+export class ProductInUseError extends Error {
+  constructor(message: string, public reason: ProductUsage, public usageCount: number) {
+    super(message);
+    this.name = "ProductInUseError";
+  }
+}
+
+export type ProductUsage = "sales" | "returns" | "stocktakes" | "stock-adjustments" | "stock-movements" | "price-history";
+
+// Counting into, approving or cancelling a stocktake that was already approved or cancelled
+export class StocktakeClosedError extends Error {
+  constructor(public status: string) {
+    super("Stocktake is already closed");
+    this.name = "StocktakeClosedError";
+  }
+}
+
+// Counts for variants that were not in the stocktake's scope when it started
+export class StocktakeScopeError extends Error {
+  constructor(public variants: { productId: string; color: string; size: string }[]) {
+    super("Variants are not part of this stocktake");
+    this.name = "StocktakeScopeError";
+  }
+}
@@ -0,0 +1,90 @@
+import ExcelJS from "exceljs";
+import { z } from "zod";
+import type { Category, ProductWithInventory } from "@shared/schema";
+import { getUnitCost } from "@shared/pricing";
+import { productFilterSchema } from "@shared/product-filter";
+
+export const exportQuerySchema = productFilterSchema.extend({
+  format: z.enum(["csv", "xlsx"]).default("xlsx"),
+  level: z.enum(["product", "variant"]).default("product"),
+});
+
+export type ExportQuery = z.infer<typeof exportQuerySchema>;
+
+const STATUS_LABELS: Record<ProductWithInventory["status"], string> = {
+  "in-stock": "متوفر",
+  "low-stock": "مخزون قليل",
+  "out-of-stock": "نفذ",
+};
+
+// Prices go out as numbers so spreadsheets can sum them; a missing cost stays blank
+const amount = (value: string | null) => (value === null ? null : Number(value));
+
+function buildSheet(products: ProductWithInventory[], level: ExportQuery["level"], categories: Category[]) {
+  const categoryName = (id: string) => categories.find(category => category.id === id)?.nameAr ?? id;
+
+  if (level === "product") {
+    return {
+      columns: ["رقم الموديل", "الشركة", "التصنيف", "سعر المحل", "سعر الأونلاين", "سعر التكلفة", "عدد الألوان والمقاسات", "الكمية الإجمالية", "الحالة"],
+      rows: products.map(product => [
+        product.modelNumber,
+        product.companyName,
+        categoryName(product.productType),
+        amount(product.storePrice),
+        amount(product.onlinePrice),
+        amount(product.costPrice),
+        product.inventory.length,
+        product.totalQuantity,
+        STATUS_LABELS[product.status],
+      ]),
+    };
+  }
+
+  const rows: (string | number | null)[][] = [];
+  products.forEach((product) => {
+    product.inventory.forEach((variant) => {
+      rows.push([
+        product.modelNumber,
+        product.companyName,
+        categoryName(product.productType),
+        variant.color,
+        variant.size,
+        variant.sku,
+        variant.barcode,
+        variant.quantity,
+        amount(product.storePrice),
+        amount(product.onlinePrice),
+        amount(getUnitCost(product, variant)),
+        STATUS_LABELS[product.status],
+      ]);
+    });
+  });
+  return {
+    columns: ["رقم الموديل", "الشركة", "التصنيف", "اللون", "المقاس", "SKU", "الباركود", "الكمية", "سعر المحل", "سعر الأونلاين", "سعر التكلفة", "حالة المنتج"],
+    rows,
+  };
+}
+
+// CSV starts with a UTF-8 byte order mark: without it Excel reads the Arabic text as ANSI
+export async function writeProductExport(
+  products: ProductWithInventory[],
+  query: ExportQuery,
+  categories: Category[],
+): Promise<Buffer> {
+  const { columns, rows } = buildSheet(products, query.level, categories);
+  const workbook = new ExcelJS.Workbook();
+  const worksheet = workbook.addWorksheet(query.level === "product" ? "المنتجات" : "المخزون", {
+    views: [{ rightToLeft: true, state: "frozen", ySplit: 1 }],
+  });
+  worksheet.addRow(columns).font = { bold: true };
+  worksheet.addRows(rows);
+  worksheet.columns.forEach((column) => {
+    column.width = 16;
+  });
+
+  if (query.format === "csv") {
+    const csv = await workbook.csv.writeBuffer();
+    return Buffer.concat([Buffer.from("\uFEFF", "utf8"), Buffer.from(csv)]);
+  }
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
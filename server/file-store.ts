@@ -0,0 +1,49 @@
+import { mkdir, unlink, writeFile } from "fs/promises";
+import path from "path";
+
+// Where uploaded files live. Only the local disk is implemented; an object store
+// (S3, R2, ...) would implement the same interface and return its own public URLs.
+export interface FileStore {
+  // Saves under `key` (e.g. "products/abc.webp") and returns the URL clients load it from
+  save(key: string, data: Buffer): Promise<string>;
+  // Removes the file behind a URL returned by save; unknown URLs are ignored
+  delete(url: string): Promise<void>;
+  // Whether a URL was produced by this store
+  owns(url: string): boolean;
+}
+
+export class LocalFileStore implements FileStore {
+  constructor(public readonly root: string, public readonly publicPath: string) {}
+
+  async save(key: string, data: Buffer): Promise<string> {
+    const filePath = this.resolve(key);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, data);
+    return `${this.publicPath}/${key}`;
+  }
+
+  async delete(url: string): Promise<void> {
+    if (!this.owns(url)) return;
+    try {
+      await unlink(this.resolve(url.slice(this.publicPath.length + 1)));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+    }
+  }
+
+  owns(url: string): boolean {
+    return url.startsWith(`${this.publicPath}/`);
+  }
+
+  // Keys come from the server, but never let one escape the upload directory
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(path.resolve(this.root) + path.sep)) {
+      throw new Error(`Invalid file key "${key}"`);
+    }
+    return filePath;
+  }
+}
+
+// UPLOAD_DIR defaults to ./uploads; the files are served at /uploads
+export const fileStore = new LocalFileStore(path.resolve(process.env.UPLOAD_DIR || "uploads"), "/uploads");
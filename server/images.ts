@@ -0,0 +1,57 @@
+import { randomUUID } from "crypto";
+import sharp from "sharp";
+import { thumbnailUrl } from "@shared/images";
+import { fileStore } from "./file-store";
+import { storage } from "./storage";
+
+// Longest side, in pixels, of the stored image and of its thumbnail
+const IMAGE_SIZE = 1600;
+const THUMBNAIL_SIZE = 400;
+
+export interface SavedImage {
+  url: string;
+  thumbnailUrl: string;
+}
+
+// Re-encodes any image sharp can read as WebP (auto-rotated, metadata stripped)
+// and stores it with a thumbnail. Throws if the data is not a readable image.
+export async function saveProductImage(data: Buffer): Promise<SavedImage> {
+  const image = sharp(data).rotate();
+  const [full, thumbnail] = await Promise.all([
+    image.clone().resize(IMAGE_SIZE, IMAGE_SIZE, { fit: "inside", withoutEnlargement: true }).webp({ quality: 85 }).toBuffer(),
+    image.clone().resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: "inside", withoutEnlargement: true }).webp({ quality: 80 }).toBuffer(),
+  ]);
+
+  const name = `products/${randomUUID()}`;
+  const url = await fileStore.save(`${name}.webp`, full);
+  await fileStore.save(`${name}-thumb.webp`, thumbnail);
+  return { url, thumbnailUrl: thumbnailUrl(url) };
+}
+
+// Leaves external URLs alone
+export async function deleteStoredImage(url: string | null) {
+  if (!url || !fileStore.owns(url)) return;
+  await fileStore.delete(url);
+  await fileStore.delete(thumbnailUrl(url));
+}
+
+// Products saved before uploads existed hold the whole image as a base64 data URL;
+// this moves each one into the file store. Returns how many were converted.
+export async function migrateDataUrlImages(): Promise<number> {
+  const products = await storage.getProducts();
+  let converted = 0;
+
+  for (const product of products) {
+    const match = product.imageUrl && /^data:image\/[\w.+-]+;base64,(.+)$/.exec(product.imageUrl);
+    if (!match) continue;
+
+    try {
+      const { url } = await saveProductImage(Buffer.from(match[1], "base64"));
+      await storage.updateProduct(product.id, { imageUrl: url });
+      converted++;
+    } catch (error) {
+      console.error(`Could not convert the image of product ${product.modelNumber}:`, error);
+    }
+  }
+  return converted;
+}
@@ -0,0 +1,215 @@
+import ExcelJS from "exceljs";
+import { Readable } from "stream";
+import {
+  insertProductInventorySchema,
+  insertProductSchema,
+  type Category,
+  type ImportPreview,
+  type ImportRowError,
+  type InsertProduct,
+  type ProductImport,
+} from "@shared/schema";
+import { getVariantCatalog, type VariantCatalog } from "@shared/catalog";
+import { ImportFileError } from "./errors";
+import { storage } from "./storage";
+
+type ImportField = "modelNumber" | "companyName" | "productType" | "storePrice" | "onlinePrice" | "costPrice" | "color" | "size" | "quantity";
+
+// Header names accepted for each column, compared after trimming and lower-casing
+const FIELD_HEADERS: Record<ImportField, string[]> = {
+  modelNumber: ["modelnumber", "model number", "model", "رقم الموديل", "الموديل"],
+  companyName: ["companyname", "company name", "company", "اسم الشركة", "الشركة"],
+  productType: ["producttype", "product type", "category", "نوع المنتج", "التصنيف"],
+  storePrice: ["storeprice", "store price", "سعر المحل"],
+  onlinePrice: ["onlineprice", "online price", "سعر الأونلاين", "سعر الاونلاين"],
+  costPrice: ["costprice", "cost price", "cost", "سعر التكلفة", "التكلفة"],
+  color: ["color", "colour", "اللون"],
+  size: ["size", "المقاس"],
+  quantity: ["quantity", "qty", "الكمية"],
+};
+
+const REQUIRED_FIELDS: ImportField[] = ["modelNumber", "companyName", "productType", "storePrice", "onlinePrice", "color", "size", "quantity"];
+
+const FIELD_LABELS: Record<ImportField, string> = {
+  modelNumber: "رقم الموديل",
+  companyName: "اسم الشركة",
+  productType: "التصنيف",
+  storePrice: "سعر المحل",
+  onlinePrice: "سعر الأونلاين",
+  costPrice: "سعر التكلفة",
+  color: "اللون",
+  size: "المقاس",
+  quantity: "الكمية",
+};
+
+// The fields every row of one model must repeat identically
+const PRODUCT_FIELDS: (keyof InsertProduct & ImportField)[] = ["companyName", "productType", "storePrice", "onlinePrice", "costPrice"];
+
+interface SheetRow {
+  row: number; // As numbered in the spreadsheet, header included
+  values: Partial<Record<ImportField, string>>;
+}
+
+// Reads the first worksheet of an .xlsx file, or a .csv file, into trimmed strings keyed by field
+export async function readImportFile(buffer: Buffer, fileName: string): Promise<SheetRow[]> {
+  const workbook = new ExcelJS.Workbook();
+  let worksheet: ExcelJS.Worksheet | undefined;
+
+  try {
+    if (/\.csv$/i.test(fileName)) {
+      // Excel saves UTF-8 CSV with a byte order mark that would stick to the first header
+      const text = buffer.toString("utf8").replace(/^\uFEFF/, "");
+      // Keep every value as typed: the default mapping turns model numbers like "0012" into numbers
+      worksheet = await workbook.csv.read(Readable.from([text]), { map: (value: string) => value });
+    } else if (/\.xlsx$/i.test(fileName)) {
+      await workbook.xlsx.load(buffer);
+      worksheet = workbook.worksheets[0];
+    } else {
+      throw new ImportFileError("نوع الملف غير مدعوم، استخدم ملف CSV أو XLSX");
+    }
+  } catch (error) {
+    if (error instanceof ImportFileError) throw error;
+    throw new ImportFileError("تعذر قراءة الملف، تأكد من أنه ملف CSV أو XLSX صالح");
+  }
+
+  if (!worksheet || worksheet.rowCount === 0) {
+    throw new ImportFileError("الملف فارغ");
+  }
+
+  const columns: Partial<Record<ImportField, number>> = {};
+  worksheet.getRow(1).eachCell((cell, column) => {
+    const header = cell.text.trim().toLowerCase();
+    (Object.keys(FIELD_HEADERS) as ImportField[]).forEach((field) => {
+      if (FIELD_HEADERS[field].indexOf(header) !== -1 && columns[field] === undefined) {
+        columns[field] = column;
+      }
+    });
+  });
+
+  const missing = REQUIRED_FIELDS.filter(field => columns[field] === undefined);
+  if (missing.length > 0) {
+    throw new ImportFileError(`أعمدة مفقودة في الملف: ${missing.map(field => FIELD_LABELS[field]).join("، ")}`);
+  }
+
+  const rows: SheetRow[] = [];
+  worksheet.eachRow((row, rowNumber) => {
+    if (rowNumber === 1) return;
+    const values: SheetRow["values"] = {};
+    (Object.keys(columns) as ImportField[]).forEach((field) => {
+      const text = row.getCell(columns[field]!).text.trim();
+      if (text) values[field] = text;
+    });
+    if (Object.keys(values).length > 0) {
+      rows.push({ row: rowNumber, values });
+    }
+  });
+  return rows;
+}
+
+const isAmount = (value: string) => /^\d+(\.\d{1,2})?$/.test(value);
+
+// Validates the rows and groups them by model. Rows of a model with any error are left out of
+// `products`, so an import is only committed once `errors` is empty.
+export async function buildImportPreview(rows: SheetRow[]): Promise<ImportPreview> {
+  const [categories, colors, sizeSystems] = await Promise.all([
+    storage.getCategories(),
+    storage.getColors(),
+    storage.getSizeSystems(),
+  ]);
+
+  const findCategory = (value: string): Category | undefined => {
+    const key = value.toLowerCase();
+    return categories.find(category =>
+      category.id === value || category.nameAr === value || category.nameEn.toLowerCase() === key
+    );
+  };
+
+  const errors: ImportRowError[] = [];
+  const models = new Map<string, { item: ProductImport; catalog: VariantCatalog; rows: number[] }>();
+  const failedModels = new Set<string>();
+  const order: string[] = [];
+
+  rows.forEach(({ row, values }) => {
+    const fail = (message: string) => {
+      errors.push({ row, message });
+      if (values.modelNumber) failedModels.add(values.modelNumber);
+    };
+
+    const blank = REQUIRED_FIELDS.filter(field => !values[field]);
+    if (blank.length > 0) {
+      return fail(`قيم مفقودة: ${blank.map(field => FIELD_LABELS[field]).join("، ")}`);
+    }
+
+    const badAmounts = (["storePrice", "onlinePrice", "costPrice"] as ImportField[])
+      .filter(field => values[field] !== undefined && !isAmount(values[field]!));
+    if (badAmounts.length > 0) {
+      return fail(`سعر غير صالح في: ${badAmounts.map(field => FIELD_LABELS[field]).join("، ")}`);
+    }
+
+    if (!/^\d+$/.test(values.quantity!)) {
+      return fail(`الكمية يجب أن تكون عدداً صحيحاً غير سالب (${values.quantity})`);
+    }
+
+    const category = findCategory(values.productType!);
+    if (!category) {
+      return fail(`التصنيف "${values.productType}" غير موجود`);
+    }
+
+    const product = insertProductSchema.safeParse({
+      modelNumber: values.modelNumber,
+      companyName: values.companyName,
+      productType: category.id,
+      storePrice: values.storePrice,
+      onlinePrice: values.onlinePrice,
+      ...(values.costPrice !== undefined ? { costPrice: values.costPrice } : {}),
+    });
+    const variant = insertProductInventorySchema.safeParse({
+      color: values.color,
+      size: values.size,
+      quantity: parseInt(values.quantity!, 10),
+    });
+    if (!product.success || !variant.success) {
+      return fail("بيانات الصف غير صالحة");
+    }
+
+    let model = models.get(product.data.modelNumber);
+    if (!model) {
+      model = {
+        item: { product: product.data, variants: [] },
+        catalog: getVariantCatalog(categories, colors, sizeSystems, category.id),
+        rows: [],
+      };
+      models.set(product.data.modelNumber, model);
+      order.push(product.data.modelNumber);
+    }
+    model.rows.push(row);
+
+    const conflicting = PRODUCT_FIELDS.filter(field => (product.data[field] ?? null) !== (model!.item.product[field] ?? null));
+    if (conflicting.length > 0) {
+      return fail(`${conflicting.map(field => FIELD_LABELS[field]).join("، ")} يختلف عن الصف ${model.rows[0]} للموديل نفسه`);
+    }
+
+    const { color, size, quantity } = variant.data;
+    if (model.catalog.colors.indexOf(color) === -1) {
+      return fail(`اللون "${color}" غير موجود في قائمة الألوان`);
+    }
+    if (model.catalog.sizes.indexOf(size) === -1) {
+      return fail(`المقاس "${size}" غير متاح لتصنيف ${category.nameAr}`);
+    }
+    if (model.item.variants.some(existing => existing.color === color && existing.size === size)) {
+      return fail(`اللون ${color} والمقاس ${size} مكرران للموديل ${product.data.modelNumber}`);
+    }
+    model.item.variants.push({ color, size, quantity: quantity ?? 0 });
+  });
+
+  const products: ImportPreview["products"] = [];
+  for (const modelNumber of order) {
+    if (failedModels.has(modelNumber)) continue;
+    const model = models.get(modelNumber)!;
+    const existing = await storage.getProductByModelNumber(modelNumber);
+    products.push({ ...model.item, action: existing ? "update" : "create" });
+  }
+
+  errors.sort((a, b) => a.row - b.row);
+  return { rowCount: rows.length, products, errors };
+}
@@ -0,0 +1,38 @@
+import { storage } from "./storage";
+import { log } from "./vite";
+
+// Starts pending changes whose time has come and reverts active ones that have ended.
+// A change whose whole window passed while the server was down is closed without applying it.
+export async function runDuePriceChanges(now: Date = new Date()): Promise<number> {
+  let handled = 0;
+
+  const changes = await storage.getScheduledPriceChanges();
+  for (const change of changes) {
+    const ended = change.endsAt !== null && change.endsAt <= now;
+    if (change.status === "pending" && change.startsAt <= now) {
+      await (ended ? storage.endScheduledPriceChange(change.id, "completed") : storage.startScheduledPriceChange(change.id));
+      handled++;
+    } else if (change.status === "active" && ended) {
+      await storage.endScheduledPriceChange(change.id, "completed");
+      handled++;
+    }
+  }
+  return handled;
+}
+
+// Checks once a minute, and once right away so changes due during downtime are caught up
+export function startPriceScheduler(intervalMs = 60_000): NodeJS.Timeout {
+  const tick = async () => {
+    try {
+      const handled = await runDuePriceChanges();
+      if (handled > 0) {
+        log(`processed ${handled} scheduled price changes`, "prices");
+      }
+    } catch (error) {
+      console.error("Error applying scheduled price changes:", error);
+    }
+  };
+
+  tick();
+  return setInterval(tick, intervalMs);
+}
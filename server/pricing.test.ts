@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import type { BundleWithComponents, ProductWithInventory, SaleRequest } from "@shared/schema";
+import { priceSale } from "./pricing";
+
+const product = (id: string, price: string) => ({
+  id,
+  storePrice: price,
+  onlinePrice: price,
+  costPrice: null,
+  inventory: [{ color: "Black", size: "52", quantity: 100, costPrice: null }],
+}) as unknown as ProductWithInventory;
+
+const scarf = product("scarf", "33.33");
+const pin = product("pin", "11.11");
+
+const bundle = {
+  id: "set",
+  storePrice: "100.00",
+  onlinePrice: "100.00",
+  components: [
+    { productId: "scarf", color: "Black", size: "52", quantity: 2, product: scarf },
+    { productId: "pin", color: "Black", size: "52", quantity: 3, product: pin },
+  ],
+} as unknown as BundleWithComponents;
+
+const getProduct = async (id: string) => [scarf, pin].find(p => p.id === id);
+const getBundle = async (id: string) => (id === bundle.id ? bundle : undefined);
+
+describe("priceSale", () => {
+  it("charges a bundle at exactly its set price, as the sale form totals it", async () => {
+    const { sale, items, lines } = await priceSale(
+      { channel: "in-store", paymentMethod: "cash", subtotal: "500.00" } as SaleRequest,
+      [{ bundleId: "set", quantity: 5 }],
+      getProduct,
+      getBundle,
+    );
+
+    expect(sale.subtotal).toBe("500.00");
+    expect(items.filter(item => item.productId === "scarf").reduce((sum, item) => sum + item.quantity, 0)).toBe(10);
+    expect(items.filter(item => item.productId === "pin").reduce((sum, item) => sum + item.quantity, 0)).toBe(15);
+    expect(items.every(item => item.bundleId === "set")).toBe(true);
+    expect(lines.every(line => line === 0)).toBe(true);
+  });
+});
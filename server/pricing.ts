@@ -0,0 +1,124 @@
+import {
+  type BundleWithComponents,
+  type InsertSale,
+  type InsertSaleItem,
+  type ProductWithInventory,
+  type SaleRequest,
+  type SaleRequestLine,
+} from "@shared/schema";
+import { calculateSaleTotals, fromFils, getChannelPrice, getUnitCost, toFils } from "@shared/pricing";
+import { allocateBundlePrice } from "@shared/bundles";
+import { PricingError } from "./errors";
+import { log } from "./vite";
+
+// Builds the sale from catalog prices. A line may carry its own unitPrice only
+// with a justification; client totals, when sent, must match the server's within one fils.
+// Each line also snapshots the current unit cost so later cost changes do not rewrite past margins.
+// A bundle line becomes one item per component, or two for the piece that carries the rounding remainder;
+// `lines` gives the request line of every item.
+export async function priceSale(
+  request: SaleRequest,
+  requestItems: SaleRequestLine[],
+  getProduct: (id: string) => Promise<ProductWithInventory | undefined>,
+  getBundle: (id: string) => Promise<BundleWithComponents | undefined>,
+): Promise<{ sale: InsertSale; items: InsertSaleItem[]; lines: number[] }> {
+  const items: InsertSaleItem[] = [];
+  const lines: number[] = [];
+
+  for (let index = 0; index < requestItems.length; index++) {
+    const item = requestItems[index];
+    const priced = "bundleId" in item ? await getBundle(item.bundleId) : await getProduct(item.productId);
+    if (!priced) {
+      const [what, id] = "bundleId" in item ? ["bundle", item.bundleId] : ["product", item.productId];
+      throw new PricingError(`Unknown ${what} on line ${index + 1}`, { line: index, [`${what}Id`]: id });
+    }
+
+    const listPrice = getChannelPrice(priced, request.channel);
+    const isOverride = item.unitPrice !== undefined && toFils(item.unitPrice) !== toFils(listPrice);
+    const overrideReason = item.priceOverrideReason?.trim();
+
+    if (isOverride && !overrideReason) {
+      throw new PricingError(`Price override on line ${index + 1} needs a reason`, {
+        line: index,
+        listPrice,
+        unitPrice: item.unitPrice,
+      });
+    }
+
+    if (isOverride) {
+      const label = "name" in priced ? priced.name : priced.modelNumber;
+      log(`price override: ${label} ${listPrice} -> ${item.unitPrice} (${overrideReason})`, "pricing");
+    }
+
+    const unitPrice = isOverride ? fromFils(toFils(item.unitPrice!)) : listPrice;
+
+    if ("bundleId" in item) {
+      const bundle = priced as BundleWithComponents;
+      const componentPrices = bundle.components.map(component => getChannelPrice(component.product, request.channel));
+      const shares = allocateBundlePrice(unitPrice, bundle.components.map((component, i) => ({
+        quantity: component.quantity,
+        listPrice: componentPrices[i],
+      })));
+
+      for (const share of shares) {
+        const component = bundle.components[share.component];
+        const variant = (await getProduct(component.productId))?.inventory
+          .find(inv => inv.color === component.color && inv.size === component.size);
+        items.push({
+          productId: component.productId,
+          color: component.color,
+          size: component.size,
+          quantity: share.quantity * item.quantity,
+          unitPrice: share.unitPrice,
+          listPrice: componentPrices[share.component],
+          priceOverrideReason: isOverride ? overrideReason : null,
+          unitCost: getUnitCost(component.product, variant),
+          bundleId: bundle.id,
+        });
+        lines.push(index);
+      }
+      continue;
+    }
+
+    const product = priced as ProductWithInventory;
+    const variant = product.inventory.find(inv => inv.color === item.color && inv.size === item.size);
+
+    items.push({
+      productId: item.productId,
+      color: item.color,
+      size: item.size,
+      quantity: item.quantity,
+      unitPrice,
+      listPrice,
+      priceOverrideReason: isOverride ? overrideReason : null,
+      unitCost: getUnitCost(product, variant),
+    });
+    lines.push(index);
+  }
+
+  const totals = calculateSaleTotals(items, request.paymentMethod);
+
+  for (const field of ["subtotal", "fees", "total"] as const) {
+    const claimed = request[field];
+    if (claimed !== undefined && Math.abs(toFils(claimed) - toFils(totals[field])) > 1) {
+      throw new PricingError("Sale totals do not match server prices", {
+        field,
+        submitted: claimed,
+        expected: totals,
+      });
+    }
+  }
+
+  return {
+    sale: {
+      channel: request.channel,
+      paymentMethod: request.paymentMethod,
+      customerName: request.customerName,
+      customerPhone: request.customerPhone,
+      trackingNumber: request.trackingNumber,
+      ...totals,
+    },
+    items,
+    lines,
+  };
+}
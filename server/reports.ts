@@ -0,0 +1,73 @@
+import {
+  STOCK_ADJUSTMENT_REASONS,
+  type ProductSalesSummary,
+  type SaleWithItems,
+  type StockAdjustment,
+  type StockAdjustmentReport,
+} from "@shared/schema";
+import { calculateGrossProfit, fromFils, toFils } from "@shared/pricing";
+
+// Per-product units, revenue and gross profit, best sellers first. Bundles were split into
+// component items when sold, so their revenue is already credited to the component products.
+export function summarizeProductSales(sales: SaleWithItems[]): ProductSalesSummary[] {
+  const byProduct = new Map<string, { summary: ProductSalesSummary; items: SaleWithItems["items"] }>();
+
+  sales.forEach((sale) => {
+    sale.items.forEach((item) => {
+      let entry = byProduct.get(item.productId);
+      if (!entry) {
+        entry = {
+          summary: {
+            productId: item.productId,
+            modelNumber: item.product.modelNumber,
+            companyName: item.product.companyName,
+            quantity: 0,
+            revenue: "0.00",
+            bundleRevenue: "0.00",
+            grossProfit: "0.00",
+          },
+          items: [],
+        };
+        byProduct.set(item.productId, entry);
+      }
+
+      const lineTotal = item.quantity * toFils(item.unitPrice);
+      entry.summary.quantity += item.quantity;
+      entry.summary.revenue = fromFils(toFils(entry.summary.revenue) + lineTotal);
+      if (item.bundleId) {
+        entry.summary.bundleRevenue = fromFils(toFils(entry.summary.bundleRevenue) + lineTotal);
+      }
+      entry.items.push(item);
+    });
+  });
+
+  return Array.from(byProduct.values())
+    .map(({ summary, items }) => ({ ...summary, grossProfit: calculateGrossProfit(items) }))
+    .sort((a, b) => toFils(b.revenue) - toFils(a.revenue));
+}
+
+// Adjustments totalled per reason, in STOCK_ADJUSTMENT_REASONS order, valued at the cost recorded with each
+export function summarizeStockAdjustments(adjustments: StockAdjustment[]): StockAdjustmentReport {
+  const report: StockAdjustmentReport = { reasons: [], units: 0, value: "0.00", uncostedCount: 0 };
+
+  STOCK_ADJUSTMENT_REASONS.forEach((reason) => {
+    const matching = adjustments.filter(adjustment => adjustment.reason === reason);
+    if (matching.length === 0) return;
+
+    let units = 0;
+    let value = 0;
+    let uncostedCount = 0;
+    matching.forEach((adjustment) => {
+      units += adjustment.delta;
+      if (adjustment.unitCost === null) uncostedCount++;
+      else value += adjustment.delta * toFils(adjustment.unitCost);
+    });
+
+    report.reasons.push({ reason, count: matching.length, units, value: fromFils(value), uncostedCount });
+    report.units += units;
+    report.value = fromFils(toFils(report.value) + value);
+    report.uncostedCount += uncostedCount;
+  });
+
+  return report;
+}
@@ -1,56 +1,696 @@
-import type { Express } from "express";
+import express, { type Express, type Request, type Response } from "express";
 import { createServer, type Server } from "http";
+import multer from "multer";
 import { storage } from "./storage";
+import { setupAuth, requireCostAccess, requirePermission, hashPassword, toSafeUser } from "./auth";
+import {
+  BundleInUseError,
+  CatalogInUseError,
+  CategoryInUseError,
+  ImportFileError,
+  InsufficientStockError,
+  PricingError,
+  ProductInUseError,
+  StocktakeClosedError,
+  StocktakeScopeError,
+  SupplierInUseError,
+} from "./errors";
+import { buildImportPreview, readImportFile } from "./import";
+import { exportQuerySchema, writeProductExport } from "./export";
+import { categoryId, invalidParentReason } from "./categories";
+import { findOffCatalogVariants, seedCatalog } from "./catalog";
+import { linkSuppliers, resolveSupplier, withSupplierStats } from "./suppliers";
+import { findBundleByName, findUnknownComponents } from "./bundles";
+import { summarizeProductSales, summarizeStockAdjustments } from "./reports";
+import { fileStore } from "./file-store";
+import { deleteStoredImage, migrateDataUrlImages, saveProductImage } from "./images";
+import { priceSale } from "./pricing";
+import {
+  adjustmentWithoutCosts,
+  bundleWithoutCosts,
+  productWithoutCosts,
+  returnWithoutCosts,
+  saleWithoutCosts,
+  stocktakeWithoutCosts,
+  variantWithoutCosts,
+  withoutCost,
+} from "./costs";
+import { filterProducts, productListQuerySchema, sortProducts } from "@shared/product-filter";
+import { scheduledChangesOverlap } from "@shared/price-schedule";
+import { buildBulkPricePreview } from "@shared/bulk-pricing";
+import { saleMatchesSearch } from "@shared/search";
+import { canViewCosts } from "@shared/permissions";
+import { findSupplierByName, tidySupplierName } from "@shared/suppliers";
+import { log } from "./vite";
 import { 
+  createUserSchema,
+  insertCategorySchema,
+  insertSupplierSchema,
+  insertColorSchema,
+  updateColorSchema,
+  insertSizeSystemSchema,
   insertProductSchema, 
-  insertSaleSchema, 
-  insertSaleItemSchema,
+  insertProductImageSchema,
+  insertStockAdjustmentSchema,
+  saleRequestSchema,
+  saleRequestLineSchema,
+  insertBundleSchema,
+  insertStocktakeSchema,
+  stocktakeCountSchema,
   insertReturnSchema,
   insertReturnItemSchema,
   insertExpenseSchema,
   insertPurchaseSchema,
-  insertProductInventorySchema
+  insertProductInventorySchema,
+  insertScheduledPriceChangeSchema,
+  bulkPriceUpdateSchema,
+  type ImportPreview,
 } from "@shared/schema";
+import { z } from "zod";
+
+// Uploads are kept in memory only long enough to be resized
+const imageUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 10 * 1024 * 1024, files: 1 },
+});
+
+const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 5 * 1024 * 1024, files: 1 },
+});
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Uploaded files never change once written, so they can be cached for long
+  app.use("/uploads", express.static(fileStore.root, { maxAge: "30d", immutable: true }));
+
+  // Sessions, login/logout/me, and the auth guard for every route below
+  await setupAuth(app);
+
+  // Variants created before SKUs and barcodes existed get theirs on first start
+  const codedVariants = await storage.assignMissingVariantCodes();
+  if (codedVariants > 0) {
+    log(`assigned SKU and barcode to ${codedVariants} variants`, "inventory");
+  }
+
+  await seedCatalog();
+
+  // Images stored inline as data URLs before uploads existed move into the file store
+  const convertedImages = await migrateDataUrlImages();
+  if (convertedImages > 0) {
+    log(`moved ${convertedImages} product images from data URLs to ${fileStore.root}`, "images");
+  }
+
+  // Products and purchases recorded before suppliers existed are linked by name
+  const linkedRows = await linkSuppliers();
+  if (linkedRows > 0) {
+    log(`linked ${linkedRows} products and purchases to suppliers`, "suppliers");
+  }
+
+  // Users routes
+  app.get("/api/users", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const users = await storage.getUsers();
+      res.json(users.map(toSafeUser));
+    } catch (error) {
+      console.error("Error fetching users:", error);
+      res.status(500).json({ message: "Failed to fetch users" });
+    }
+  });
+
+  app.post("/api/users", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const { password, ...userData } = createUserSchema.parse(req.body);
+
+      const existingUser = await storage.getUserByUsername(userData.username);
+      if (existingUser) {
+        return res.status(400).json({ message: "Username already exists" });
+      }
+
+      const user = await storage.createUser({
+        ...userData,
+        passwordHash: await hashPassword(password),
+      });
+      res.status(201).json(toSafeUser(user));
+    } catch (error) {
+      console.error("Error creating user:", error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        res.status(400).json({ message: "Invalid user data", errors: error });
+      } else {
+        res.status(500).json({ message: "Failed to create user" });
+      }
+    }
+  });
+
+  // Categories routes
+  app.get("/api/categories", async (req, res) => {
+    try {
+      const categories = await storage.getCategories();
+      res.json(categories);
+    } catch (error) {
+      console.error("Error fetching categories:", error);
+      res.status(500).json({ message: "Failed to fetch categories" });
+    }
+  });
+
+  app.post("/api/categories", requirePermission("products:edit"), async (req, res) => {
+    try {
+      const categoryData = insertCategorySchema.parse(req.body);
+      const categories = await storage.getCategories();
+
+      if (categoryData.parentId) {
+        const reason = invalidParentReason(categories, undefined, categoryData.parentId);
+        if (reason) {
+          return res.status(400).json({ message: reason });
+        }
+      }
+      if (categoryData.sizeSystemId && !(await storage.getSizeSystems()).some(s => s.id === categoryData.sizeSystemId)) {
+        return res.status(400).json({ message: "Size system not found" });
+      }
+
+      const category = await storage.createCategory({
+        ...categoryData,
+        id: categoryId(categoryData.nameEn, categories.map(c => c.id)),
+      });
+      res.status(201).json(category);
+    } catch (error) {
+      console.error("Error creating category:", error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        res.status(400).json({ message: "Invalid category data", errors: error });
+      } else {
+        res.status(500).json({ message: "Failed to create category" });
+      }
+    }
+  });
+
+  app.put("/api/categories/:id", requirePermission("products:edit"), async (req, res) => {
+    try {
+      const categoryData = insertCategorySchema.partial().parse(req.body);
+
+      if (categoryData.parentId) {
+        const reason = invalidParentReason(await storage.getCategories(), req.params.id, categoryData.parentId);
+        if (reason) {
+          return res.status(400).json({ message: reason });
+        }
+      }
+      if (categoryData.sizeSystemId && !(await storage.getSizeSystems()).some(s => s.id === categoryData.sizeSystemId)) {
+        return res.status(400).json({ message: "Size system not found" });
+      }
+
+      const category = await storage.updateCategory(req.params.id, categoryData);
+      if (!category) {
+        return res.status(404).json({ message: "Category not found" });
+      }
+      res.json(category);
+    } catch (error) {
+      console.error("Error updating category:", error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        res.status(400).json({ message: "Invalid category data", errors: error });
+      } else {
+        res.status(500).json({ message: "Failed to update category" });
+      }
+    }
+  });
+
+  app.delete("/api/categories/:id", requirePermission("products:edit"), async (req, res) => {
+    try {
+      const success = await storage.deleteCategory(req.params.id);
+      if (!success) {
+        return res.status(404).json({ message: "Category not found" });
+      }
+      res.json({ message: "Category deleted successfully" });
+    } catch (error) {
+      if (error instanceof CategoryInUseError) {
+        return res.status(409).json({
+          message: error.message,
+          productCount: error.productCount,
+          childCount: error.childCount,
+        });
+      }
+      console.error("Error deleting category:", error);
+      res.status(500).json({ message: "Failed to delete category" });
+    }
+  });
+
+  // Suppliers routes: the list feeds the pickers; stats, details and spend are accounting data
+  app.get("/api/suppliers", async (req, res) => {
+    try {
+      const suppliers = await storage.getSuppliers();
+      res.json(suppliers);
+    } catch (error) {
+      console.error("Error fetching suppliers:", error);
+      res.status(500).json({ message: "Failed to fetch suppliers" });
+    }
+  });
+
+  app.get("/api/suppliers/stats", requirePermission("accounting:view"), async (req, res) => {
+    try {
+      const [suppliers, products, purchases] = await Promise.all([
+        storage.getSuppliers(),
+        storage.getProducts(),
+        storage.getPurchases(),
+      ]);
+      res.json(suppliers.map(supplier => withSupplierStats(supplier, products, purchases)));
+    } catch (error) {
+      console.error("Error fetching supplier stats:", error);
+      res.status(500).json({ message: "Failed to fetch supplier stats" });
+    }
+  });
+
+  app.get("/api/suppliers/:id", requirePermission("accounting:view"), async (req, res) => {
+    try {
+      const supplier = await storage.getSupplier(req.params.id);
+      if (!supplier) {
+        return res.status(404).json({ message: "Supplier not found" });
+      }
+      const [products, purchases] = await Promise.all([storage.getProducts(), storage.getPurchases()]);
+      res.json({
+        ...withSupplierStats(supplier, products, purchases),
+        products: products.filter(product => product.supplierId === supplier.id),
+        purchases: purchases
+          .filter(purchase => purchase.supplierId === supplier.id)
+          .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()),
+      });
+    } catch (error) {
+      console.error("Error fetching supplier:", error);
+      res.status(500).json({ message: "Failed to fetch supplier" });
+    }
+  });
+
+  app.post("/api/suppliers", requirePermission("suppliers:edit"), async (req, res) => {
+    try {
+      const supplierData = insertSupplierSchema.parse(req.body);
+      const name = tidySupplierName(supplierData.name);
+      if (findSupplierByName(await storage.getSuppliers(), name)) {
+        return res.status(409).json({ message: "A supplier with this name already exists" });
+      }
+
+      const supplier = await storage.createSupplier({ ...supplierData, name });
+      res.status(201).json(supplier);
+    } catch (error) {
+      console.error("Error creating supplier:", error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        res.status(400).json({ message: "Invalid supplier data", errors: error });
+      } else {
+        res.status(500).json({ message: "Failed to create supplier" });
+      }
+    }
+  });
+
+  app.put("/api/suppliers/:id", requirePermission("suppliers:edit"), async (req, res) => {
+    try {
+      const supplierData = insertSupplierSchema.partial().parse(req.body);
+      if (supplierData.name !== undefined) {
+        supplierData.name = tidySupplierName(supplierData.name);
+        const sameName = findSupplierByName(await storage.getSuppliers(), supplierData.name);
+        if (sameName && sameName.id !== req.params.id) {
+          return res.status(409).json({ message: "A supplier with this name already exists" });
+        }
+      }
+
+      const supplier = await storage.updateSupplier(req.params.id, supplierData);
+      if (!supplier) {
+        return res.status(404).json({ message: "Supplier not found" });
+      }
+      res.json(supplier);
+    } catch (error) {
+      console.error("Error updating supplier:", error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        res.status(400).json({ message: "Invalid supplier data", errors: error });
+      } else {
+        res.status(500).json({ message: "Failed to update supplier" });
+      }
+    }
+  });
+
+  // Folds a duplicate spelling into the supplier { intoId }: its products and purchases move over
+  app.post("/api/suppliers/:id/merge", requirePermission("suppliers:edit"), async (req, res) => {
+    try {
+      const { intoId } = z.object({ intoId: z.string().min(1) }).parse(req.body);
+      if (intoId === req.params.id) {
+        return res.status(400).json({ message: "A supplier cannot be merged into itself" });
+      }
+
+      const supplier = await storage.mergeSupplier(req.params.id, intoId);
+      if (!supplier) {
+        return res.status(404).json({ message: "Supplier not found" });
+      }
+      res.json(supplier);
+    } catch (error) {
+      console.error("Error merging suppliers:", error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        res.status(400).json({ message: "Invalid merge request", errors: error });
+      } else {
+        res.status(500).json({ message: "Failed to merge suppliers" });
+      }
+    }
+  });
+
+  app.delete("/api/suppliers/:id", requirePermission("suppliers:edit"), async (req, res) => {
+    try {
+      const success = await storage.deleteSupplier(req.params.id);
+      if (!success) {
+        return res.status(404).json({ message: "Supplier not found" });
+      }
+      res.json({ message: "Supplier deleted successfully" });
+    } catch (error) {
+      if (error instanceof SupplierInUseError) {
+        return res.status(409).json({
+          message: error.message,
+          productCount: error.productCount,
+          purchaseCount: error.purchaseCount,
+        });
+      }
+      console.error("Error deleting supplier:", error);
+      res.status(500).json({ message: "Failed to delete supplier" });
+    }
+  });
+
+  // Variant catalog routes
+  app.get("/api/colors", async (req, res) => {
+    try {
+      const colors = await storage.getColors();
+      res.json(colors);
+    } catch (error) {
+      console.error("Error fetching colors:", error);
+      res.status(500).json({ message: "Failed to fetch colors" });
+    }
+  });
+
+  app.post("/api/colors", requirePermission("products:edit"), async (req, res) => {
+    try {
+      const colorData = insertColorSchema.parse(req.body);
+      if ((await storage.getColors()).some(c => c.name === colorData.name)) {
+        return res.status(400).json({ message: "Color already exists" });
+      }
+
+      const color = await storage.createColor(colorData);
+      res.status(201).json(color);
+    } catch (error) {
+      console.error("Error creating color:", error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        res.status(400).json({ message: "Invalid color data", errors: error });
+      } else {
+        res.status(500).json({ message: "Failed to create color" });
+      }
+    }
+  });
+
+  app.put("/api/colors/:id", requirePermission("products:edit"), async (req, res) => {
+    try {
+      const colorData = updateColorSchema.parse(req.body);
+      const color = await storage.updateColor(req.params.id, colorData);
+      if (!color) {
+        return res.status(404).json({ message: "Color not found" });
+      }
+      res.json(color);
+    } catch (error) {
+      console.error("Error updating color:", error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        res.status(400).json({ message: "Invalid color data", errors: error });
+      } else {
+        res.status(500).json({ message: "Failed to update color" });
+      }
+    }
+  });
+
+  app.delete("/api/colors/:id", requirePermission("products:edit"), async (req, res) => {
+    try {
+      const success = await storage.deleteColor(req.params.id);
+      if (!success) {
+        return res.status(404).json({ message: "Color not found" });
+      }
+      res.json({ message: "Color deleted successfully" });
+    } catch (error) {
+      if (error instanceof CatalogInUseError) {
+        return res.status(409).json({ message: error.message, usageCount: error.usageCount });
+      }
+      console.error("Error deleting color:", error);
+      res.status(500).json({ message: "Failed to delete color" });
+    }
+  });
+
+  app.get("/api/size-systems", async (req, res) => {
+    try {
+      const sizeSystems = await storage.getSizeSystems();
+      res.json(sizeSystems);
+    } catch (error) {
+      console.error("Error fetching size systems:", error);
+      res.status(500).json({ message: "Failed to fetch size systems" });
+    }
+  });
+
+  app.post("/api/size-systems", requirePermission("products:edit"), async (req, res) => {
+    try {
+      const sizeSystemData = insertSizeSystemSchema.parse(req.body);
+      const sizeSystem = await storage.createSizeSystem(sizeSystemData);
+      res.status(201).json(sizeSystem);
+    } catch (error) {
+      console.error("Error creating size system:", error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        res.status(400).json({ message: "Invalid size system data", errors: error });
+      } else {
+        res.status(500).json({ message: "Failed to create size system" });
+      }
+    }
+  });
+
+  app.put("/api/size-systems/:id", requirePermission("products:edit"), async (req, res) => {
+    try {
+      const sizeSystemData = insertSizeSystemSchema.partial().parse(req.body);
+      const sizeSystem = await storage.updateSizeSystem(req.params.id, sizeSystemData);
+      if (!sizeSystem) {
+        return res.status(404).json({ message: "Size system not found" });
+      }
+      res.json(sizeSystem);
+    } catch (error) {
+      console.error("Error updating size system:", error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        res.status(400).json({ message: "Invalid size system data", errors: error });
+      } else {
+        res.status(500).json({ message: "Failed to update size system" });
+      }
+    }
+  });
+
+  app.delete("/api/size-systems/:id", requirePermission("products:edit"), async (req, res) => {
+    try {
+      const success = await storage.deleteSizeSystem(req.params.id);
+      if (!success) {
+        return res.status(404).json({ message: "Size system not found" });
+      }
+      res.json({ message: "Size system deleted successfully" });
+    } catch (error) {
+      if (error instanceof CatalogInUseError) {
+        return res.status(409).json({ message: error.message, usageCount: error.usageCount });
+      }
+      console.error("Error deleting size system:", error);
+      res.status(500).json({ message: "Failed to delete size system" });
+    }
+  });
+
+  // Image uploads: multipart field "image"; responds with the stored image and thumbnail URLs
+  app.post("/api/uploads/images", requirePermission("products:edit"), (req, res) => {
+    imageUpload.single("image")(req, res, async (uploadError: unknown) => {
+      try {
+        if (uploadError instanceof multer.MulterError) {
+          const tooLarge = uploadError.code === "LIMIT_FILE_SIZE";
+          return res.status(tooLarge ? 413 : 400).json({ message: tooLarge ? "Image is larger than 10 MB" : uploadError.message });
+        }
+        if (uploadError) throw uploadError;
+
+        if (!req.file) {
+          return res.status(400).json({ message: "image file is required" });
+        }
+
+        let image;
+        try {
+          image = await saveProductImage(req.file.buffer);
+        } catch (error) {
+          console.error("Error reading uploaded image:", error);
+          return res.status(400).json({ message: "File is not a supported image" });
+        }
+        res.status(201).json(image);
+      } catch (error) {
+        console.error("Error uploading image:", error);
+        res.status(500).json({ message: "Failed to upload image" });
+      }
+    });
+  });
+
   // Products routes
+  // With ?page= this returns one ProductPage filtered and sorted by the query (see shared/product-filter.ts);
+  // without it, the whole catalog as an array for the pickers that need every product.
+  // Cost prices are left out for roles that may not see them, here and in the other catalog reads.
   app.get("/api/products", async (req, res) => {
     try {
+      const showCosts = canViewCosts(req.user!.role);
+      if (req.query.page !== undefined) {
+        const query = productListQuerySchema.parse(req.query);
+        const page = await storage.getProductPage(query);
+        return res.json(showCosts ? page : { ...page, items: page.items.map(productWithoutCosts) });
+      }
       const products = await storage.getProducts();
-      res.json(products);
+      res.json(showCosts ? products : products.map(productWithoutCosts));
     } catch (error) {
       console.error("Error fetching products:", error);
-      res.status(500).json({ message: "Failed to fetch products" });
+      if (error instanceof Error && error.name === 'ZodError') {
+        res.status(400).json({ message: "Invalid product query", errors: error });
+      } else {
+        res.status(500).json({ message: "Failed to fetch products" });
+      }
+    }
+  });
+
+  // Catalog export with the inventory table's filters: ?format=csv|xlsx&level=product|variant&search=&status=&category=
+  app.get("/api/products/export", requireCostAccess, async (req, res) => {
+    try {
+      const query = exportQuerySchema.parse(req.query);
+      const [products, categories] = await Promise.all([storage.getProducts(), storage.getCategories()]);
+      const selected = sortProducts(filterProducts(products, query, categories), query.sort, query.order);
+      const file = await writeProductExport(selected, query, categories);
+
+      const date = new Date().toISOString().slice(0, 10);
+      res.setHeader("Content-Type", query.format === "csv"
+        ? "text/csv; charset=utf-8"
+        : "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+      res.setHeader("Content-Disposition", `attachment; filename="${query.level === "product" ? "products" : "inventory"}-${date}.${query.format}"`);
+      res.send(file);
+    } catch (error) {
+      console.error("Error exporting products:", error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        res.status(400).json({ message: "Invalid export options", errors: error });
+      } else {
+        res.status(500).json({ message: "Failed to export products" });
+      }
+    }
+  });
+
+  // Bulk price update: the preview lists the new prices without saving; the update recomputes
+  // them from current prices and refuses to run while any would drop to zero or below
+  app.post("/api/products/bulk-price/preview", requirePermission("products:edit"), async (req, res) => {
+    try {
+      const update = bulkPriceUpdateSchema.parse(req.body);
+      const [products, categories] = await Promise.all([storage.getProducts(), storage.getCategories()]);
+      res.json(buildBulkPricePreview(products, update, categories));
+    } catch (error) {
+      console.error("Error previewing bulk price update:", error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        res.status(400).json({ message: "Invalid bulk price update", errors: error });
+      } else {
+        res.status(500).json({ message: "Failed to preview bulk price update" });
+      }
     }
   });
 
+  app.post("/api/products/bulk-price", requirePermission("products:edit"), async (req, res) => {
+    try {
+      const update = bulkPriceUpdateSchema.parse(req.body);
+      const [products, categories] = await Promise.all([storage.getProducts(), storage.getCategories()]);
+      const preview = buildBulkPricePreview(products, update, categories);
+      if (preview.invalid.length > 0) {
+        return res.status(400).json({ message: "Some prices would drop to zero or below", ...preview });
+      }
+
+      const updated = await storage.bulkUpdatePrices(preview.products, req.user!.id);
+      res.json({ updated });
+    } catch (error) {
+      console.error("Error applying bulk price update:", error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        res.status(400).json({ message: "Invalid bulk price update", errors: error });
+      } else {
+        res.status(500).json({ message: "Failed to apply bulk price update" });
+      }
+    }
+  });
+
+  // Product import: multipart field "file" (.csv or .xlsx), one row per variant.
+  // The preview validates without saving; the import validates again and commits only when every row is valid.
+  const readImport = (req: Request, res: Response, onPreview: (preview: ImportPreview) => Promise<void>) => {
+    importUpload.single("file")(req, res, async (uploadError: unknown) => {
+      try {
+        if (uploadError instanceof multer.MulterError) {
+          const tooLarge = uploadError.code === "LIMIT_FILE_SIZE";
+          return res.status(tooLarge ? 413 : 400).json({ message: tooLarge ? "Import file is larger than 5 MB" : uploadError.message });
+        }
+        if (uploadError) throw uploadError;
+
+        if (!req.file) {
+          return res.status(400).json({ message: "file is required" });
+        }
+
+        const rows = await readImportFile(req.file.buffer, req.file.originalname);
+        await onPreview(await buildImportPreview(rows));
+      } catch (error) {
+        if (error instanceof ImportFileError) {
+          return res.status(400).json({ message: error.message });
+        }
+        console.error("Error importing products:", error);
+        res.status(500).json({ message: "Failed to import products" });
+      }
+    });
+  };
+
+  app.post("/api/products/import/preview", requirePermission("products:edit"), (req, res) => {
+    readImport(req, res, async (preview) => {
+      res.json(preview);
+    });
+  });
+
+  app.post("/api/products/import", requirePermission("products:edit"), (req, res) => {
+    readImport(req, res, async (preview) => {
+      if (preview.errors.length > 0 || preview.products.length === 0) {
+        return void res.status(400).json({ message: "Import file has invalid rows", ...preview });
+      }
+      const result = await storage.importProducts(preview.products, req.user!.id);
+      res.json(result);
+    });
+  });
+
   app.get("/api/products/:id", async (req, res) => {
     try {
       const product = await storage.getProductById(req.params.id);
       if (!product) {
         return res.status(404).json({ message: "Product not found" });
       }
-      res.json(product);
+      res.json(canViewCosts(req.user!.role) ? product : productWithoutCosts(product));
     } catch (error) {
       console.error("Error fetching product:", error);
       res.status(500).json({ message: "Failed to fetch product" });
     }
   });
 
-  app.post("/api/products", async (req, res) => {
+  app.post("/api/products", requirePermission("products:edit"), async (req, res) => {
     try {
       const productData = insertProductSchema.parse(req.body.product);
       const inventoryData = req.body.inventory?.map((item: any) => 
         insertProductInventorySchema.parse(item)
       ) || [];
 
+      if (!(await storage.getCategory(productData.productType))) {
+        return res.status(400).json({ message: "Unknown product category" });
+      }
+      const supplier = await resolveSupplier(productData.supplierId, productData.companyName);
+      if (!supplier) {
+        return res.status(400).json({ message: "Supplier not found" });
+      }
+      const offCatalog = await findOffCatalogVariants(productData.productType, inventoryData);
+      if (offCatalog.length > 0) {
+        return res.status(400).json({
+          message: "Variants outside the color and size catalog",
+          variants: offCatalog.map(({ color, size }) => ({ color, size })),
+        });
+      }
+
       // Check if model number already exists
       const existingProduct = await storage.getProductByModelNumber(productData.modelNumber);
       if (existingProduct) {
         return res.status(400).json({ message: "Product with this model number already exists" });
       }
 
-      const product = await storage.createProduct(productData);
+      const product = await storage.createProduct(
+        { ...productData, supplierId: supplier.id, companyName: supplier.name },
+        req.user!.id,
+      );
       
       // Create inventory entries
       if (inventoryData.length > 0) {
@@ -58,7 +698,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           ...item,
           productId: product.id
         }));
-        await storage.bulkUpdateInventory(inventoryWithProductId);
+        await storage.bulkUpdateInventory(inventoryWithProductId, "receipt");
       }
 
       const productWithInventory = await storage.getProductById(product.id);
@@ -73,7 +713,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/products/:id", async (req, res) => {
+  app.put("/api/products/:id", requirePermission("products:edit"), async (req, res) => {
     try {
       // Handle both product data and inventory data
       if (req.body.product && req.body.inventory) {
@@ -83,20 +723,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
           insertProductInventorySchema.parse(item)
         ) || [];
 
-        const product = await storage.updateProduct(req.params.id, productData);
+        if (!(await storage.getCategory(productData.productType))) {
+          return res.status(400).json({ message: "Unknown product category" });
+        }
+        const supplier = await resolveSupplier(productData.supplierId, productData.companyName);
+        if (!supplier) {
+          return res.status(400).json({ message: "Supplier not found" });
+        }
+        // Variants stocked before the catalog existed may stay; only new ones must fit it
+        const existing = await storage.getProductInventory(req.params.id);
+        const offCatalog = (await findOffCatalogVariants(productData.productType, inventoryData)).filter(
+          (item) => !existing.some(e => e.color === item.color && e.size === item.size)
+        );
+        if (offCatalog.length > 0) {
+          return res.status(400).json({
+            message: "Variants outside the color and size catalog",
+            variants: offCatalog.map(({ color, size }) => ({ color, size })),
+          });
+        }
+
+        const product = await storage.updateProduct(
+          req.params.id,
+          { ...productData, supplierId: supplier.id, companyName: supplier.name },
+          { reason: "manual-edit", changedBy: req.user!.id },
+        );
         if (!product) {
           return res.status(404).json({ message: "Product not found" });
         }
 
-        // Update inventory - delete all existing and add new ones
-        await storage.deleteProductInventory(req.params.id);
-        if (inventoryData.length > 0) {
-          const inventoryWithProductId = inventoryData.map((item: any) => ({
-            ...item,
-            productId: req.params.id
-          }));
-          await storage.bulkUpdateInventory(inventoryWithProductId);
-        }
+        // Replace the inventory grid; each changed variant is logged as a manual edit
+        await storage.setProductInventory(req.params.id, inventoryData, "manual-edit");
 
         const productWithInventory = await storage.getProductById(req.params.id);
         res.json(productWithInventory);
@@ -111,7 +767,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
         
         const productData = insertProductSchema.partial().parse(requestBody);
-        const product = await storage.updateProduct(req.params.id, productData);
+        if (productData.productType && !(await storage.getCategory(productData.productType))) {
+          return res.status(400).json({ message: "Unknown product category" });
+        }
+        if (productData.supplierId || productData.companyName) {
+          const supplier = await resolveSupplier(productData.supplierId, productData.companyName);
+          if (!supplier) {
+            return res.status(400).json({ message: "Supplier not found" });
+          }
+          productData.supplierId = supplier.id;
+          productData.companyName = supplier.name;
+        }
+        const product = await storage.updateProduct(req.params.id, productData, { reason: "manual-edit", changedBy: req.user!.id });
         if (!product) {
           return res.status(404).json({ message: "Product not found" });
         }
@@ -119,35 +786,272 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
     } catch (error) {
       console.error("Error updating product:", error);
-      res.status(500).json({ message: "Failed to update product" });
+      if (error instanceof Error && error.name === 'ZodError') {
+        res.status(400).json({ message: "Invalid product data", errors: error });
+      } else {
+        res.status(500).json({ message: "Failed to update product" });
+      }
     }
   });
 
-  app.delete("/api/products/:id", async (req, res) => {
+  app.delete("/api/products/:id", requirePermission("products:delete"), async (req, res) => {
     try {
+      const inBundles = (await storage.getBundles())
+        .filter(bundle => bundle.components.some(component => component.productId === req.params.id));
+      if (inBundles.length > 0) {
+        return res.status(409).json({
+          message: "Product is part of a bundle",
+          bundles: inBundles.map(bundle => bundle.name),
+        });
+      }
+
+      const product = await storage.getProductById(req.params.id);
+      const images = await storage.getProductImages(req.params.id);
       const success = await storage.deleteProduct(req.params.id);
       if (!success) {
         return res.status(404).json({ message: "Product not found" });
       }
+      await deleteStoredImage(product?.imageUrl ?? null);
+      for (const image of images) {
+        await deleteStoredImage(image.url);
+      }
       res.json({ message: "Product deleted successfully" });
     } catch (error) {
+      if (error instanceof ProductInUseError) {
+        return res.status(409).json({ message: error.message, reason: error.reason, usageCount: error.usageCount });
+      }
       console.error("Error deleting product:", error);
       res.status(500).json({ message: "Failed to delete product" });
     }
   });
 
+  // Product image gallery routes
+  app.get("/api/products/:id/images", async (req, res) => {
+    try {
+      const images = await storage.getProductImages(req.params.id);
+      res.json(images);
+    } catch (error) {
+      console.error("Error fetching product images:", error);
+      res.status(500).json({ message: "Failed to fetch product images" });
+    }
+  });
+
+  app.post("/api/products/:id/images", requirePermission("products:edit"), async (req, res) => {
+    try {
+      const imageData = insertProductImageSchema.parse(req.body);
+
+      const product = await storage.getProductById(req.params.id);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      if (imageData.color && !(await storage.getColors()).some(c => c.name === imageData.color)) {
+        return res.status(400).json({ message: "Unknown color" });
+      }
+
+      const image = await storage.addProductImage(req.params.id, imageData);
+      res.status(201).json(image);
+    } catch (error) {
+      console.error("Error adding product image:", error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        res.status(400).json({ message: "Invalid image data", errors: error });
+      } else {
+        res.status(500).json({ message: "Failed to add product image" });
+      }
+    }
+  });
+
+  app.put("/api/products/:id/images/order", requirePermission("products:edit"), async (req, res) => {
+    try {
+      const { imageIds } = z.object({ imageIds: z.array(z.string()) }).parse(req.body);
+      const images = await storage.reorderProductImages(req.params.id, imageIds);
+      res.json(images);
+    } catch (error) {
+      console.error("Error reordering product images:", error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        res.status(400).json({ message: "Invalid image order", errors: error });
+      } else {
+        res.status(500).json({ message: "Failed to reorder product images" });
+      }
+    }
+  });
+
+  app.put("/api/products/:id/images/:imageId", requirePermission("products:edit"), async (req, res) => {
+    try {
+      const imageData = insertProductImageSchema.pick({ color: true }).parse(req.body);
+
+      const images = await storage.getProductImages(req.params.id);
+      if (!images.some(image => image.id === req.params.imageId)) {
+        return res.status(404).json({ message: "Image not found" });
+      }
+      if (imageData.color && !(await storage.getColors()).some(c => c.name === imageData.color)) {
+        return res.status(400).json({ message: "Unknown color" });
+      }
+
+      const image = await storage.updateProductImage(req.params.imageId, { color: imageData.color ?? null });
+      res.json(image);
+    } catch (error) {
+      console.error("Error updating product image:", error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        res.status(400).json({ message: "Invalid image data", errors: error });
+      } else {
+        res.status(500).json({ message: "Failed to update product image" });
+      }
+    }
+  });
+
+  app.delete("/api/products/:id/images/:imageId", requirePermission("products:edit"), async (req, res) => {
+    try {
+      const images = await storage.getProductImages(req.params.id);
+      if (!images.some(image => image.id === req.params.imageId)) {
+        return res.status(404).json({ message: "Image not found" });
+      }
+
+      const image = await storage.deleteProductImage(req.params.imageId);
+      await deleteStoredImage(image?.url ?? null);
+      res.json({ message: "Image deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting product image:", error);
+      res.status(500).json({ message: "Failed to delete product image" });
+    }
+  });
+
   // Inventory routes
   app.get("/api/products/:id/inventory", async (req, res) => {
     try {
       const inventory = await storage.getProductInventory(req.params.id);
-      res.json(inventory);
+      res.json(canViewCosts(req.user!.role) ? inventory : inventory.map(withoutCost));
     } catch (error) {
       console.error("Error fetching inventory:", error);
       res.status(500).json({ message: "Failed to fetch inventory" });
     }
   });
 
-  app.put("/api/inventory", async (req, res) => {
+  app.get("/api/products/:id/stock-movements", async (req, res) => {
+    try {
+      const movements = await storage.getStockMovements(req.params.id, {
+        color: typeof req.query.color === 'string' ? req.query.color : undefined,
+        size: typeof req.query.size === 'string' ? req.query.size : undefined,
+      });
+      res.json(movements);
+    } catch (error) {
+      console.error("Error fetching stock movements:", error);
+      res.status(500).json({ message: "Failed to fetch stock movements" });
+    }
+  });
+
+  // Stock adjustments of one product, newest first
+  app.get("/api/products/:id/stock-adjustments", async (req, res) => {
+    try {
+      const adjustments = await storage.getStockAdjustments({ productId: req.params.id });
+      res.json(canViewCosts(req.user!.role) ? adjustments : adjustments.map(adjustmentWithoutCosts));
+    } catch (error) {
+      console.error("Error fetching stock adjustments:", error);
+      res.status(500).json({ message: "Failed to fetch stock adjustments" });
+    }
+  });
+
+  // Price history, newest first
+  app.get("/api/products/:id/price-history", async (req, res) => {
+    try {
+      const history = await storage.getPriceHistory(req.params.id);
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching price history:", error);
+      res.status(500).json({ message: "Failed to fetch price history" });
+    }
+  });
+
+  // Scheduled price changes, applied and reverted by server/price-scheduler.ts
+  app.get("/api/products/:id/price-schedules", async (req, res) => {
+    try {
+      const changes = await storage.getScheduledPriceChanges(req.params.id);
+      res.json(changes);
+    } catch (error) {
+      console.error("Error fetching scheduled price changes:", error);
+      res.status(500).json({ message: "Failed to fetch scheduled price changes" });
+    }
+  });
+
+  app.post("/api/products/:id/price-schedules", requirePermission("products:edit"), async (req, res) => {
+    try {
+      const changeData = insertScheduledPriceChangeSchema.parse(req.body);
+      if (!(await storage.getProductById(req.params.id))) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      if (changeData.startsAt <= new Date()) {
+        return res.status(400).json({ message: "startsAt must be in the future; edit the product to change the price now" });
+      }
+
+      const conflict = (await storage.getScheduledPriceChanges(req.params.id)).find(change =>
+        change.channel === changeData.channel &&
+        (change.status === "pending" || change.status === "active") &&
+        scheduledChangesOverlap(change, { startsAt: changeData.startsAt, endsAt: changeData.endsAt ?? null })
+      );
+      if (conflict) {
+        return res.status(409).json({ message: "Overlaps another scheduled change for this channel", conflict });
+      }
+
+      const change = await storage.createScheduledPriceChange(req.params.id, changeData, req.user!.id);
+      res.status(201).json(change);
+    } catch (error) {
+      console.error("Error scheduling price change:", error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        res.status(400).json({ message: "Invalid scheduled price change", errors: error });
+      } else {
+        res.status(500).json({ message: "Failed to schedule price change" });
+      }
+    }
+  });
+
+  // Cancelling a running change puts the previous price back straight away
+  app.delete("/api/products/:id/price-schedules/:scheduleId", requirePermission("products:edit"), async (req, res) => {
+    try {
+      const existing = await storage.getScheduledPriceChange(req.params.scheduleId);
+      if (!existing || existing.productId !== req.params.id) {
+        return res.status(404).json({ message: "Scheduled price change not found" });
+      }
+
+      const change = await storage.endScheduledPriceChange(existing.id, "cancelled");
+      if (!change) {
+        return res.status(400).json({ message: "Scheduled price change has already finished" });
+      }
+      res.json(change);
+    } catch (error) {
+      console.error("Error cancelling scheduled price change:", error);
+      res.status(500).json({ message: "Failed to cancel scheduled price change" });
+    }
+  });
+
+  // Resolves a scanned barcode or typed SKU to its variant and current stock
+  app.get("/api/inventory/lookup", async (req, res) => {
+    try {
+      const code = typeof req.query.code === 'string' ? req.query.code.trim() : "";
+      if (!code) {
+        return res.status(400).json({ message: "code is required" });
+      }
+
+      const variant = await storage.findInventoryByCode(code);
+      if (!variant) {
+        return res.status(404).json({ message: "No variant with this code" });
+      }
+      res.json(canViewCosts(req.user!.role) ? variant : variantWithoutCosts(variant));
+    } catch (error) {
+      console.error("Error looking up inventory code:", error);
+      res.status(500).json({ message: "Failed to look up code" });
+    }
+  });
+
+  app.get("/api/inventory/low-stock", async (req, res) => {
+    try {
+      const variants = await storage.getLowStockVariants();
+      res.json(canViewCosts(req.user!.role) ? variants : variants.map(variantWithoutCosts));
+    } catch (error) {
+      console.error("Error fetching low stock variants:", error);
+      res.status(500).json({ message: "Failed to fetch low stock variants" });
+    }
+  });
+
+  app.put("/api/inventory", requirePermission("products:edit"), async (req, res) => {
     try {
       const inventoryData = req.body.map((item: any) => 
         insertProductInventorySchema.parse(item)
@@ -160,56 +1064,281 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Bundle routes
+  app.get("/api/bundles", async (req, res) => {
+    try {
+      const bundleList = await storage.getBundles();
+      res.json(canViewCosts(req.user!.role) ? bundleList : bundleList.map(bundleWithoutCosts));
+    } catch (error) {
+      console.error("Error fetching bundles:", error);
+      res.status(500).json({ message: "Failed to fetch bundles" });
+    }
+  });
+
+  app.post("/api/bundles", requirePermission("products:edit"), async (req, res) => {
+    try {
+      const bundleData = insertBundleSchema.parse(req.body);
+      if (findBundleByName(await storage.getBundles(), bundleData.name)) {
+        return res.status(409).json({ message: "A bundle with this name already exists" });
+      }
+      const unknown = await findUnknownComponents(bundleData.components);
+      if (unknown.length > 0) {
+        return res.status(400).json({ message: "Unknown variant in bundle", components: unknown });
+      }
+
+      const bundle = await storage.createBundle(bundleData);
+      res.status(201).json(bundle);
+    } catch (error) {
+      console.error("Error creating bundle:", error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        res.status(400).json({ message: "Invalid bundle data", errors: error });
+      } else {
+        res.status(500).json({ message: "Failed to create bundle" });
+      }
+    }
+  });
+
+  // Past sales keep the prices they were sold at; only new sales see the changes
+  app.put("/api/bundles/:id", requirePermission("products:edit"), async (req, res) => {
+    try {
+      const bundleData = insertBundleSchema.parse(req.body);
+      const sameName = findBundleByName(await storage.getBundles(), bundleData.name);
+      if (sameName && sameName.id !== req.params.id) {
+        return res.status(409).json({ message: "A bundle with this name already exists" });
+      }
+      const unknown = await findUnknownComponents(bundleData.components);
+      if (unknown.length > 0) {
+        return res.status(400).json({ message: "Unknown variant in bundle", components: unknown });
+      }
+
+      const bundle = await storage.updateBundle(req.params.id, bundleData);
+      if (!bundle) {
+        return res.status(404).json({ message: "Bundle not found" });
+      }
+      res.json(bundle);
+    } catch (error) {
+      console.error("Error updating bundle:", error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        res.status(400).json({ message: "Invalid bundle data", errors: error });
+      } else {
+        res.status(500).json({ message: "Failed to update bundle" });
+      }
+    }
+  });
+
+  app.delete("/api/bundles/:id", requirePermission("products:edit"), async (req, res) => {
+    try {
+      const success = await storage.deleteBundle(req.params.id);
+      if (!success) {
+        return res.status(404).json({ message: "Bundle not found" });
+      }
+      res.json({ message: "Bundle deleted successfully" });
+    } catch (error) {
+      if (error instanceof BundleInUseError) {
+        return res.status(409).json({ message: error.message, saleCount: error.saleCount });
+      }
+      console.error("Error deleting bundle:", error);
+      res.status(500).json({ message: "Failed to delete bundle" });
+    }
+  });
+
+  // Stocktake routes
+  app.get("/api/stocktakes", requirePermission("stocktake:count"), async (req, res) => {
+    try {
+      const stocktakeList = await storage.getStocktakes();
+      res.json(stocktakeList);
+    } catch (error) {
+      console.error("Error fetching stocktakes:", error);
+      res.status(500).json({ message: "Failed to fetch stocktakes" });
+    }
+  });
+
+  app.get("/api/stocktakes/:id", requirePermission("stocktake:count"), async (req, res) => {
+    try {
+      const stocktake = await storage.getStocktake(req.params.id);
+      if (!stocktake) {
+        return res.status(404).json({ message: "Stocktake not found" });
+      }
+      res.json(canViewCosts(req.user!.role) ? stocktake : stocktakeWithoutCosts(stocktake));
+    } catch (error) {
+      console.error("Error fetching stocktake:", error);
+      res.status(500).json({ message: "Failed to fetch stocktake" });
+    }
+  });
+
+  app.post("/api/stocktakes", requirePermission("stocktake:manage"), async (req, res) => {
+    try {
+      const stocktakeData = insertStocktakeSchema.parse(req.body);
+      if (stocktakeData.categoryId && !(await storage.getCategory(stocktakeData.categoryId))) {
+        return res.status(400).json({ message: "Unknown product category" });
+      }
+
+      const stocktake = await storage.createStocktake(stocktakeData, req.user!.id);
+      res.status(201).json(stocktake);
+    } catch (error) {
+      console.error("Error creating stocktake:", error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        res.status(400).json({ message: "Invalid stocktake data", errors: error });
+      } else {
+        res.status(500).json({ message: "Failed to create stocktake" });
+      }
+    }
+  });
+
+  // Replaces the counted quantities of the listed variants; the others keep theirs
+  app.put("/api/stocktakes/:id/counts", requirePermission("stocktake:count"), async (req, res) => {
+    try {
+      const counts = z.array(stocktakeCountSchema).min(1).parse(req.body.counts);
+      const stocktake = await storage.recordStocktakeCounts(req.params.id, counts);
+      if (!stocktake) {
+        return res.status(404).json({ message: "Stocktake not found" });
+      }
+      res.json(canViewCosts(req.user!.role) ? stocktake : stocktakeWithoutCosts(stocktake));
+    } catch (error) {
+      if (error instanceof StocktakeClosedError) {
+        return res.status(409).json({ message: error.message, status: error.status });
+      }
+      if (error instanceof StocktakeScopeError) {
+        return res.status(400).json({ message: error.message, variants: error.variants });
+      }
+      console.error("Error recording stocktake counts:", error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        res.status(400).json({ message: "Invalid stocktake counts", errors: error });
+      } else {
+        res.status(500).json({ message: "Failed to record stocktake counts" });
+      }
+    }
+  });
+
+  app.post("/api/stocktakes/:id/approve", requirePermission("stocktake:manage"), async (req, res) => {
+    try {
+      const stocktake = await storage.approveStocktake(req.params.id, req.user!.id);
+      if (!stocktake) {
+        return res.status(404).json({ message: "Stocktake not found" });
+      }
+      res.json(stocktake);
+    } catch (error) {
+      if (error instanceof StocktakeClosedError) {
+        return res.status(409).json({ message: error.message, status: error.status });
+      }
+      console.error("Error approving stocktake:", error);
+      res.status(500).json({ message: "Failed to approve stocktake" });
+    }
+  });
+
+  app.post("/api/stocktakes/:id/cancel", requirePermission("stocktake:manage"), async (req, res) => {
+    try {
+      const stocktake = await storage.cancelStocktake(req.params.id, req.user!.id);
+      if (!stocktake) {
+        return res.status(404).json({ message: "Stocktake not found" });
+      }
+      res.json(stocktake);
+    } catch (error) {
+      if (error instanceof StocktakeClosedError) {
+        return res.status(409).json({ message: error.message, status: error.status });
+      }
+      console.error("Error cancelling stocktake:", error);
+      res.status(500).json({ message: "Failed to cancel stocktake" });
+    }
+  });
+
+  // Stock adjustment routes
+  app.get("/api/stock-adjustments", requirePermission("accounting:view"), async (req, res) => {
+    try {
+      const day = z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional();
+      const { from, to } = z.object({ from: day, to: day }).parse(req.query);
+
+      const adjustments = await storage.getStockAdjustments({
+        from: from ? new Date(`${from}T00:00:00`) : undefined,
+        to: to ? new Date(`${to}T23:59:59.999`) : undefined,
+      });
+      res.json(adjustments);
+    } catch (error) {
+      console.error("Error fetching stock adjustments:", error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        res.status(400).json({ message: "Invalid date range", errors: error });
+      } else {
+        res.status(500).json({ message: "Failed to fetch stock adjustments" });
+      }
+    }
+  });
+
+  app.post("/api/stock-adjustments", requirePermission("products:edit"), async (req, res) => {
+    try {
+      const adjustmentData = insertStockAdjustmentSchema.parse(req.body);
+      const adjustment = await storage.createStockAdjustment(adjustmentData, req.user!.id);
+      if (!adjustment) {
+        return res.status(404).json({ message: "Variant not found" });
+      }
+      res.status(201).json(adjustment);
+    } catch (error) {
+      console.error("Error creating stock adjustment:", error);
+      if (error instanceof InsufficientStockError) {
+        res.status(409).json({ message: error.message, shortages: error.shortages });
+      } else if (error instanceof Error && error.name === 'ZodError') {
+        res.status(400).json({ message: "Invalid stock adjustment", errors: error });
+      } else {
+        res.status(500).json({ message: "Failed to create stock adjustment" });
+      }
+    }
+  });
+
   // Sales routes
-  app.get("/api/sales", async (req, res) => {
+  // ?search= looks up an invoice number, customer name or phone
+  app.get("/api/sales", requirePermission("sales:view"), async (req, res) => {
     try {
+      const search = typeof req.query.search === 'string' ? req.query.search : "";
       const sales = await storage.getSales();
-      res.json(sales);
+      const matches = search ? sales.filter(sale => saleMatchesSearch(sale, search)) : sales;
+      res.json(canViewCosts(req.user!.role) ? matches : matches.map(saleWithoutCosts));
     } catch (error) {
       console.error("Error fetching sales:", error);
       res.status(500).json({ message: "Failed to fetch sales" });
     }
   });
 
-  app.get("/api/sales/:id", async (req, res) => {
+  app.get("/api/sales/:id", requirePermission("sales:view"), async (req, res) => {
     try {
       const sale = await storage.getSaleById(req.params.id);
       if (!sale) {
         return res.status(404).json({ message: "Sale not found" });
       }
-      res.json(sale);
+      res.json(canViewCosts(req.user!.role) ? sale : saleWithoutCosts(sale));
     } catch (error) {
       console.error("Error fetching sale:", error);
       res.status(500).json({ message: "Failed to fetch sale" });
     }
   });
 
-  app.post("/api/sales", async (req, res) => {
+  // Each item is a variant or a bundle; a bundle is recorded as one sale item per component
+  app.post("/api/sales", requirePermission("sales:create"), async (req, res) => {
+    let lines: number[] = [];
     try {
-      const saleData = insertSaleSchema.parse(req.body.sale);
-      const itemsData = req.body.items.map((item: any) => 
-        insertSaleItemSchema.parse(item)
-      );
+      const saleRequest = saleRequestSchema.parse(req.body.sale);
+      const itemRequests = z.array(saleRequestLineSchema).min(1).parse(req.body.items);
 
-      // Validate inventory availability
-      for (const item of itemsData) {
-        const inventory = await storage.getProductInventory(item.productId);
-        const availableItem = inventory.find(
-          inv => inv.color === item.color && inv.size === item.size
-        );
-        
-        if (!availableItem || availableItem.quantity < item.quantity) {
-          return res.status(400).json({ 
-            message: `Insufficient inventory for ${item.color} ${item.size}. Available: ${availableItem?.quantity || 0}, Requested: ${item.quantity}` 
-          });
-        }
-      }
+      // Prices, fees and totals come from the catalog, not from the form
+      const priced = await priceSale(
+        saleRequest,
+        itemRequests,
+        (id) => storage.getProductById(id),
+        (id) => storage.getBundle(id),
+      );
+      const { sale: saleData, items: itemsData } = priced;
+      lines = priced.lines;
 
-      const sale = await storage.createSale(saleData, itemsData);
-      res.status(201).json(sale);
+      // Stock is checked and decremented atomically inside createSale
+      const sale = await storage.createSale({ ...saleData, createdBy: req.user!.id }, itemsData);
+      res.status(201).json(canViewCosts(req.user!.role) ? sale : saleWithoutCosts(sale));
     } catch (error) {
       console.error("Error creating sale:", error);
-      if (error instanceof Error && error.name === 'ZodError') {
+      if (error instanceof InsufficientStockError) {
+        // Report shortages against the submitted lines, not the split bundle items
+        const shortages = error.shortages.map(shortage => ({ ...shortage, line: lines[shortage.line] ?? shortage.line }));
+        res.status(409).json({ message: error.message, shortages });
+      } else if (error instanceof PricingError) {
+        res.status(400).json({ message: error.message, ...error.details });
+      } else if (error instanceof Error && error.name === 'ZodError') {
         res.status(400).json({ message: "Invalid sale data", errors: error });
       } else {
         res.status(500).json({ message: "Failed to create sale" });
@@ -218,25 +1347,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Returns routes
-  app.get("/api/returns", async (req, res) => {
+  app.get("/api/returns", requirePermission("returns:view"), async (req, res) => {
     try {
       const returns = await storage.getReturns();
-      res.json(returns);
+      res.json(canViewCosts(req.user!.role) ? returns : returns.map(returnWithoutCosts));
     } catch (error) {
       console.error("Error fetching returns:", error);
       res.status(500).json({ message: "Failed to fetch returns" });
     }
   });
 
-  app.post("/api/returns", async (req, res) => {
+  app.post("/api/returns", requirePermission("returns:create"), async (req, res) => {
     try {
       const returnData = insertReturnSchema.parse(req.body.return);
       const itemsData = req.body.items.map((item: any) => 
         insertReturnItemSchema.parse(item)
       );
 
-      const returnRecord = await storage.createReturn(returnData, itemsData);
-      res.status(201).json(returnRecord);
+      const returnRecord = await storage.createReturn({ ...returnData, createdBy: req.user!.id }, itemsData);
+      res.status(201).json(canViewCosts(req.user!.role) ? returnRecord : returnWithoutCosts(returnRecord));
     } catch (error) {
       console.error("Error creating return:", error);
       if (error instanceof Error && error.name === 'ZodError') {
@@ -248,7 +1377,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Expenses routes
-  app.get("/api/expenses", async (req, res) => {
+  app.get("/api/expenses", requirePermission("accounting:view"), async (req, res) => {
     try {
       const expenses = await storage.getExpenses();
       res.json(expenses);
@@ -258,7 +1387,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/expenses", async (req, res) => {
+  app.post("/api/expenses", requirePermission("accounting:edit"), async (req, res) => {
     try {
       // تحويل المبلغ إلى string إذا كان number
       const requestBody = { ...req.body };
@@ -267,7 +1396,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const expenseData = insertExpenseSchema.parse(requestBody);
-      const expense = await storage.createExpense(expenseData);
+      const expense = await storage.createExpense({ ...expenseData, createdBy: req.user!.id });
       res.status(201).json(expense);
     } catch (error) {
       console.error("Error creating expense:", error);
@@ -276,7 +1405,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Purchases routes
-  app.get("/api/purchases", async (req, res) => {
+  app.get("/api/purchases", requirePermission("accounting:view"), async (req, res) => {
     try {
       const purchases = await storage.getPurchases();
       res.json(purchases);
@@ -286,7 +1415,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/purchases", async (req, res) => {
+  app.post("/api/purchases", requirePermission("accounting:edit"), async (req, res) => {
     try {
       // تحويل المبلغ إلى string إذا كان number
       const requestBody = { ...req.body };
@@ -295,25 +1424,104 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const purchaseData = insertPurchaseSchema.parse(requestBody);
-      const purchase = await storage.createPurchase(purchaseData);
+      const supplier = await resolveSupplier(purchaseData.supplierId, purchaseData.supplier);
+      if (!supplier) {
+        return res.status(400).json({ message: "Supplier not found" });
+      }
+
+      const purchase = await storage.createPurchase({
+        ...purchaseData,
+        supplierId: supplier.id,
+        supplier: supplier.name,
+        createdBy: req.user!.id,
+      });
       res.status(201).json(purchase);
     } catch (error) {
       console.error("Error creating purchase:", error);
-      res.status(500).json({ message: "Failed to create purchase" });
+      if (error instanceof Error && error.name === 'ZodError') {
+        res.status(400).json({ message: "Invalid purchase data", errors: error });
+      } else {
+        res.status(500).json({ message: "Failed to create purchase" });
+      }
     }
   });
 
   // Dashboard analytics
   app.get("/api/dashboard/stats", async (req, res) => {
     try {
-      const stats = await storage.getDashboardStats();
-      res.json(stats);
+      const { todayGrossProfit, ...stats } = await storage.getDashboardStats();
+      res.json(canViewCosts(req.user!.role) ? { ...stats, todayGrossProfit } : stats);
     } catch (error) {
       console.error("Error fetching dashboard stats:", error);
       res.status(500).json({ message: "Failed to fetch dashboard stats" });
     }
   });
 
+  // Reports
+  // ?from=YYYY-MM-DD&to=YYYY-MM-DD, both optional and inclusive, in server local time
+  app.get("/api/reports/employees", requirePermission("accounting:view"), async (req, res) => {
+    try {
+      const day = z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional();
+      const { from, to } = z.object({ from: day, to: day }).parse(req.query);
+
+      const summary = await storage.getEmployeeSummary(
+        from ? new Date(`${from}T00:00:00`) : undefined,
+        to ? new Date(`${to}T23:59:59.999`) : undefined,
+      );
+      res.json(summary);
+    } catch (error) {
+      console.error("Error fetching employee summary:", error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        res.status(400).json({ message: "Invalid date range", errors: error });
+      } else {
+        res.status(500).json({ message: "Failed to fetch employee summary" });
+      }
+    }
+  });
+
+  // Units, revenue and profit per product over ?from=&to= like the employee report;
+  // bundle sales count towards their component products
+  app.get("/api/reports/products", requirePermission("accounting:view"), async (req, res) => {
+    try {
+      const day = z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional();
+      const { from, to } = z.object({ from: day, to: day }).parse(req.query);
+
+      const sales = await storage.getSalesByDateRange(
+        from ? new Date(`${from}T00:00:00`) : new Date(0),
+        to ? new Date(`${to}T23:59:59.999`) : new Date(),
+      );
+      res.json(summarizeProductSales(sales));
+    } catch (error) {
+      console.error("Error fetching product sales summary:", error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        res.status(400).json({ message: "Invalid date range", errors: error });
+      } else {
+        res.status(500).json({ message: "Failed to fetch product sales summary" });
+      }
+    }
+  });
+
+  // Damaged, lost, gifted, sample and found stock per reason, valued at cost
+  app.get("/api/reports/adjustments", requirePermission("accounting:view"), async (req, res) => {
+    try {
+      const day = z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional();
+      const { from, to } = z.object({ from: day, to: day }).parse(req.query);
+
+      const adjustments = await storage.getStockAdjustments({
+        from: from ? new Date(`${from}T00:00:00`) : undefined,
+        to: to ? new Date(`${to}T23:59:59.999`) : undefined,
+      });
+      res.json(summarizeStockAdjustments(adjustments));
+    } catch (error) {
+      console.error("Error fetching stock adjustment summary:", error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        res.status(400).json({ message: "Invalid date range", errors: error });
+      } else {
+        res.status(500).json({ message: "Failed to fetch stock adjustment summary" });
+      }
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
@@ -0,0 +1,38 @@
+import type { StockShortage } from "@shared/schema";
+
+interface VariantLine {
+  productId: string;
+  color: string;
+  size: string;
+  quantity: number;
+}
+
+// Walks the lines in order, drawing each one from the variant's remaining stock,
+// so two lines for the same variant cannot both claim the last piece.
+export function findStockShortages<T extends VariantLine>(
+  lines: T[],
+  getAvailable: (line: T) => number,
+): StockShortage[] {
+  const remaining = new Map<string, number>();
+  const shortages: StockShortage[] = [];
+
+  lines.forEach((line, index) => {
+    const key = `${line.productId}|${line.color}|${line.size}`;
+    const available = Math.max(remaining.get(key) ?? getAvailable(line), 0);
+
+    if (line.quantity > available) {
+      shortages.push({
+        line: index,
+        productId: line.productId,
+        color: line.color,
+        size: line.size,
+        requested: line.quantity,
+        available,
+      });
+    }
+
+    remaining.set(key, available - line.quantity);
+  });
+
+  return shortages;
+}
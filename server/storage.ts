@@ -1,7 +1,15 @@
 import { 
+  type User,
+  type InsertUser,
+  type Category,
+  type InsertCategory,
+  type Supplier,
+  type InsertSupplier,
   type Product, 
   type InsertProduct, 
   type ProductInventory, 
+  type ProductImage,
+  type InsertProductImage,
   type InsertProductInventory,
   type Sale,
   type InsertSale,
@@ -18,29 +26,196 @@ import {
   type ProductWithInventory,
   type SaleWithItems,
   type ReturnWithItems,
-  COLORS,
-  SIZES
+  type StockMovement,
+  type StockMovementReason,
+  type EmployeeSummary,
+  type InventoryLookup,
+  type LowStockVariant,
+  type Stocktake,
+  type StocktakeLine,
+  type InsertStocktake,
+  type StocktakeCount,
+  type StocktakeDetails,
+  type StocktakeWithProgress,
+  type StockAdjustment,
+  type InsertStockAdjustment,
+  type StockAdjustmentWithDetails,
+  type ProductImport,
+  type PriceChange,
+  type PriceChangeContext,
+  type PriceChangeWithUser,
+  type ScheduledPriceChange,
+  type InsertScheduledPriceChange,
+  type BulkPriceChange,
+  type Bundle,
+  type BundleComponent,
+  type BundleWithComponents,
+  type InsertBundle,
+  type Color,
+  type InsertColor,
+  type UpdateColor,
+  type SizeSystem,
+  type InsertSizeSystem,
+  DEFAULT_COLORS,
+  DEFAULT_SIZE_SYSTEMS
 } from "@shared/schema";
 import { randomUUID } from "crypto";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import { createDatabase, createSessionStore } from "./db";
+import { DatabaseStorage } from "./database-storage";
+import {
+  BundleInUseError,
+  CatalogInUseError,
+  CategoryInUseError,
+  InsufficientStockError,
+  ProductInUseError,
+  StocktakeClosedError,
+  StocktakeScopeError,
+  SupplierInUseError,
+} from "./errors";
+import { findStockShortages } from "./stock";
+import { calculateGrossProfit, fromFils, getUnitCost, toFils } from "@shared/pricing";
+import { variantBarcode, variantSku } from "@shared/barcode";
+import { orderImages } from "@shared/images";
+import { changedChannelPrices, channelPriceField } from "@shared/price-schedule";
+import { categorySubtree, filterProducts, sortProducts, type ProductListQuery, type ProductPage } from "@shared/product-filter";
+import { buildStocktakeDetails, stocktakeApprovedQuantity } from "@shared/stocktake";
+import { findSupplierByName, tidySupplierName } from "@shared/suppliers";
+import { isBelowReorderPoint, productStockStatus, resolveCategoryReorderPoint, variantReorderPoint } from "@shared/reorder";
+
+const MemoryStore = createMemoryStore(session);
 
 export interface IStorage {
+  // Sessions for express-session, kept next to the data they belong to
+  sessionStore: session.Store;
+
+  // Users
+  getUsers(): Promise<User[]>;
+  getUser(id: string): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  createUser(user: InsertUser): Promise<User>;
+
+  // Variant catalog: colors ordered by sortOrder then name
+  getColors(): Promise<Color[]>;
+  createColor(color: InsertColor): Promise<Color>;
+  updateColor(id: string, color: UpdateColor): Promise<Color | undefined>;
+  // Throws CatalogInUseError while inventory rows use the color
+  deleteColor(id: string): Promise<boolean>;
+  getSizeSystems(): Promise<SizeSystem[]>;
+  createSizeSystem(sizeSystem: InsertSizeSystem & { id?: string }): Promise<SizeSystem>;
+  updateSizeSystem(id: string, sizeSystem: Partial<InsertSizeSystem>): Promise<SizeSystem | undefined>;
+  // Throws CatalogInUseError while categories use the size system
+  deleteSizeSystem(id: string): Promise<boolean>;
+
+  // Categories, ordered by sortOrder then Arabic name
+  getCategories(): Promise<Category[]>;
+  getCategory(id: string): Promise<Category | undefined>;
+  createCategory(category: InsertCategory & { id: string }): Promise<Category>;
+  updateCategory(id: string, category: Partial<InsertCategory>): Promise<Category | undefined>;
+  // Throws CategoryInUseError while products or subcategories still use it
+  deleteCategory(id: string): Promise<boolean>;
+
+  // Suppliers, ordered by name
+  getSuppliers(): Promise<Supplier[]>;
+  getSupplier(id: string): Promise<Supplier | undefined>;
+  createSupplier(supplier: InsertSupplier): Promise<Supplier>;
+  // A new name is copied onto the supplier's products and purchases
+  updateSupplier(id: string, supplier: Partial<InsertSupplier>): Promise<Supplier | undefined>;
+  // Throws SupplierInUseError while products or purchases still point at it
+  deleteSupplier(id: string): Promise<boolean>;
+  // Moves the products and purchases of supplier `id` to `intoId` and deletes `id`; returns the remaining supplier
+  mergeSupplier(id: string, intoId: string): Promise<Supplier | undefined>;
+
   // Products
   getProducts(): Promise<ProductWithInventory[]>;
+  // One page of products matching the query, with the total count
+  getProductPage(query: ProductListQuery): Promise<ProductPage>;
   getProductById(id: string): Promise<ProductWithInventory | undefined>;
   getProductByModelNumber(modelNumber: string): Promise<Product | undefined>;
-  createProduct(product: InsertProduct): Promise<Product>;
-  updateProduct(id: string, product: Partial<InsertProduct>): Promise<Product | undefined>;
+  // Channel prices set here are written to the price history, by default as a manual edit
+  createProduct(product: InsertProduct, createdBy?: string | null): Promise<Product>;
+  updateProduct(id: string, product: Partial<InsertProduct>, change?: PriceChangeContext): Promise<Product | undefined>;
+  // Sets the listed new channel prices on every product at once, recorded as a bulk update
+  bulkUpdatePrices(items: BulkPriceChange[], changedBy?: string | null): Promise<number>;
+  // Also removes the product's image rows; the files are the caller's to delete. Throws ProductInUseError
+  // once the product was sold, returned or listed in a stocktake, its stock was adjusted or has moved, or
+  // its prices changed after it was created (pending scheduled changes do not count).
   deleteProduct(id: string): Promise<boolean>;
+
+  // Product Images, in gallery order
+  getProductImages(productId: string): Promise<ProductImage[]>;
+  addProductImage(productId: string, image: InsertProductImage): Promise<ProductImage>;
+  updateProductImage(id: string, image: Partial<InsertProductImage>): Promise<ProductImage | undefined>;
+  // `imageIds` lists the product's images in their new order; ids not listed keep their relative order after them
+  reorderProductImages(productId: string, imageIds: string[]): Promise<ProductImage[]>;
+  deleteProductImage(id: string): Promise<ProductImage | undefined>;
   
   // Product Inventory
+  // Every quantity change below is also written to the stock movement ledger
   getProductInventory(productId: string): Promise<ProductInventory[]>;
-  updateInventory(productId: string, color: string, size: string, quantity: number): Promise<ProductInventory>;
-  bulkUpdateInventory(inventoryItems: (InsertProductInventory & { productId: string })[]): Promise<ProductInventory[]>;
+  updateInventory(productId: string, color: string, size: string, quantity: number, reason?: StockMovementReason): Promise<ProductInventory>;
+  bulkUpdateInventory(inventoryItems: (InsertProductInventory & { productId: string })[], reason?: StockMovementReason): Promise<ProductInventory[]>;
+  setProductInventory(productId: string, inventoryItems: InsertProductInventory[], reason?: StockMovementReason): Promise<ProductInventory[]>;
   deleteProductInventory(productId: string): Promise<boolean>;
+  // New variants get a SKU and barcode automatically; this fills in rows created before that
+  assignMissingVariantCodes(): Promise<number>;
+  // Creates or updates each product by model number and sets the listed variant quantities,
+  // all or nothing. Company names are matched to suppliers, adding any that are new.
+  // Unlisted variants of existing products are left alone.
+  importProducts(items: ProductImport[], importedBy?: string | null): Promise<{ created: number; updated: number }>;
+  // Matches the barcode exactly or the SKU case-insensitively
+  findInventoryByCode(code: string): Promise<InventoryLookup | undefined>;
+  // Variants below their reorder point (see shared/reorder.ts), emptiest first
+  getLowStockVariants(): Promise<LowStockVariant[]>;
+
+  // Stock Movements
+  getStockMovements(productId: string, variant?: { color?: string; size?: string }): Promise<StockMovement[]>;
+
+  // Price History, newest first
+  getPriceHistory(productId: string): Promise<PriceChangeWithUser[]>;
+
+  // Scheduled Price Changes, in start order; see server/price-scheduler.ts
+  getScheduledPriceChanges(productId?: string): Promise<ScheduledPriceChange[]>;
+  getScheduledPriceChange(id: string): Promise<ScheduledPriceChange | undefined>;
+  createScheduledPriceChange(productId: string, change: InsertScheduledPriceChange, createdBy?: string | null): Promise<ScheduledPriceChange>;
+  // Sets the scheduled price on a pending change; it becomes active, or completed when it has no end
+  startScheduledPriceChange(id: string): Promise<ScheduledPriceChange | undefined>;
+  // Closes a pending or active change, restoring the previous price unless it was edited by hand meanwhile
+  endScheduledPriceChange(id: string, status: "completed" | "cancelled"): Promise<ScheduledPriceChange | undefined>;
   
+  // Bundles, ordered by name, each with its components
+  getBundles(): Promise<BundleWithComponents[]>;
+  getBundle(id: string): Promise<BundleWithComponents | undefined>;
+  createBundle(bundle: InsertBundle): Promise<BundleWithComponents>;
+  // Replaces the name, prices and the whole component list
+  updateBundle(id: string, bundle: InsertBundle): Promise<BundleWithComponents | undefined>;
+  // Throws BundleInUseError once a sale has recorded the bundle
+  deleteBundle(id: string): Promise<boolean>;
+
+  // Stocktakes, newest first
+  getStocktakes(): Promise<StocktakeWithProgress[]>;
+  getStocktake(id: string): Promise<StocktakeDetails | undefined>;
+  // Starts counting every variant in the category and its subcategories, or in the whole store
+  createStocktake(stocktake: InsertStocktake, createdBy?: string | null): Promise<StocktakeDetails>;
+  // Saves each count with the system quantity at that moment. Throws StocktakeClosedError once closed
+  // and StocktakeScopeError for variants outside the session
+  recordStocktakeCounts(id: string, counts: StocktakeCount[]): Promise<StocktakeDetails | undefined>;
+  // Adds each counted line's variance (counted minus the quantity saved with the count) to the current
+  // stock with "stocktake" stock movements, all or nothing, and snapshots the costs for the variance report
+  approveStocktake(id: string, approvedBy?: string | null): Promise<StocktakeDetails | undefined>;
+  cancelStocktake(id: string, cancelledBy?: string | null): Promise<StocktakeDetails | undefined>;
+
+  // Stock Adjustments, newest first; `to` is inclusive
+  getStockAdjustments(filter?: { productId?: string; from?: Date; to?: Date }): Promise<StockAdjustmentWithDetails[]>;
+  // Changes one existing variant by the signed delta with an "adjustment" stock movement. Undefined when
+  // the variant does not exist; throws InsufficientStockError rather than going below zero
+  createStockAdjustment(adjustment: InsertStockAdjustment, createdBy?: string | null): Promise<StockAdjustment | undefined>;
+
   // Sales
   getSales(): Promise<SaleWithItems[]>;
   getSaleById(id: string): Promise<SaleWithItems | undefined>;
+  // All-or-nothing: throws InsufficientStockError and records nothing if any line is short
   createSale(sale: InsertSale, items: InsertSaleItem[]): Promise<SaleWithItems>;
   getSalesByDateRange(startDate: Date, endDate: Date): Promise<SaleWithItems[]>;
   
@@ -57,26 +232,47 @@ export interface IStorage {
   // Purchases
   getPurchases(): Promise<Purchase[]>;
   createPurchase(purchase: InsertPurchase): Promise<Purchase>;
+  updatePurchase(id: string, purchase: Partial<InsertPurchase>): Promise<Purchase | undefined>;
   getPurchasesByDateRange(startDate: Date, endDate: Date): Promise<Purchase[]>;
   
   // Analytics
   getDashboardStats(): Promise<{
     totalProducts: number;
     todaySales: number;
+    todayGrossProfit: number;
     outOfStockCount: number;
+    lowStockCount: number; // Variants below their reorder point
     onlineOrdersCount: number;
   }>;
+  // Sales and returns per employee; either bound may be left open
+  getEmployeeSummary(startDate?: Date, endDate?: Date): Promise<EmployeeSummary[]>;
 }
 
 export class MemStorage implements IStorage {
+  sessionStore: session.Store = new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+  private users: Map<string, User> = new Map();
+  private categories: Map<string, Category> = new Map();
+  private suppliers: Map<string, Supplier> = new Map();
+  private colors: Map<string, Color> = new Map();
+  private sizeSystems: Map<string, SizeSystem> = new Map();
   private products: Map<string, Product> = new Map();
   private inventory: Map<string, ProductInventory> = new Map();
+  private productImages: Map<string, ProductImage> = new Map();
   private sales: Map<string, Sale> = new Map();
   private saleItems: Map<string, SaleItem> = new Map();
   private returns: Map<string, Return> = new Map();
   private returnItems: Map<string, ReturnItem> = new Map();
   private expenses: Map<string, Expense> = new Map();
   private purchases: Map<string, Purchase> = new Map();
+  private stockMovements: Map<string, StockMovement> = new Map();
+  private priceHistory: Map<string, PriceChange> = new Map();
+  private scheduledPriceChanges: Map<string, ScheduledPriceChange> = new Map();
+  private bundles: Map<string, Bundle> = new Map();
+  private bundleComponents: Map<string, BundleComponent> = new Map();
+  private stocktakes: Map<string, Stocktake> = new Map();
+  private stocktakeLines: Map<string, StocktakeLine> = new Map();
+  private stockAdjustments: Map<string, StockAdjustment> = new Map();
+  private barcodeSequence = 0;
 
   constructor() {
     // Initialize with some sample data for testing
@@ -84,15 +280,22 @@ export class MemStorage implements IStorage {
   }
 
   private initializeSampleData() {
+    // Sample suppliers
+    const supplier1 = this.addSampleSupplier("شركة الأزياء الراقية");
+    const supplier2 = this.addSampleSupplier("شركة الحجاب الفاخر");
+
     // Sample products
     const product1: Product = {
       id: randomUUID(),
       modelNumber: "EVE-001",
-      companyName: "شركة الأزياء الراقية",
+      companyName: supplier1.name,
+      supplierId: supplier1.id,
       productType: "evening-wear",
       storePrice: "890.00",
       onlinePrice: "850.00",
       imageUrl: null,
+      costPrice: null,
+      reorderPoint: null,
       specifications: "فستان سهرة أنيق مصنوع من أجود الأقمشة",
       createdAt: new Date(),
     };
@@ -100,11 +303,14 @@ export class MemStorage implements IStorage {
     const product2: Product = {
       id: randomUUID(),
       modelNumber: "HIJ-025",
-      companyName: "شركة الحجاب الفاخر",
+      companyName: supplier2.name,
+      supplierId: supplier2.id,
       productType: "hijab",
       storePrice: "150.00",
       onlinePrice: "140.00",
       imageUrl: null,
+      costPrice: null,
+      reorderPoint: null,
       specifications: "حجاب حرير فاخر بجودة عالية",
       createdAt: new Date(),
     };
@@ -112,121 +318,426 @@ export class MemStorage implements IStorage {
     this.products.set(product1.id, product1);
     this.products.set(product2.id, product2);
 
-    // Sample inventory
-    COLORS.forEach((color) => {
-      SIZES.forEach((size) => {
-        const inventory1: ProductInventory = {
-          id: randomUUID(),
-          productId: product1.id,
-          color,
-          size,
-          quantity: Math.floor(Math.random() * 20) + 1,
-        };
-        const inventory2: ProductInventory = {
-          id: randomUUID(),
-          productId: product2.id,
-          color,
-          size,
-          quantity: Math.floor(Math.random() * 10) + 1,
-        };
-        this.inventory.set(inventory1.id, inventory1);
-        this.inventory.set(inventory2.id, inventory2);
-      });
+    // Sample inventory: the dress in numeric sizes 36-50, the hijab in one size
+    const dressSizes = DEFAULT_SIZE_SYSTEMS[0].sizes.slice(0, 8);
+    const hijabSizes = DEFAULT_SIZE_SYSTEMS[2].sizes;
+    DEFAULT_COLORS.forEach(({ name: color }) => {
+      dressSizes.forEach((size) => this.addSampleVariant(product1.id, color, size, 20));
+      hijabSizes.forEach((size) => this.addSampleVariant(product2.id, color, size, 10));
+    });
+  }
+
+  private addSampleSupplier(name: string): Supplier {
+    const supplier: Supplier = {
+      id: randomUUID(),
+      name,
+      contactName: null,
+      phone: null,
+      email: null,
+      address: null,
+      notes: null,
+      createdAt: new Date(),
+    };
+    this.suppliers.set(supplier.id, supplier);
+    return supplier;
+  }
+
+  private addSampleVariant(productId: string, color: string, size: string, maxQuantity: number) {
+    const item: ProductInventory = {
+      id: randomUUID(),
+      productId,
+      color,
+      size,
+      quantity: Math.floor(Math.random() * maxQuantity) + 1,
+      costPrice: null,
+      reorderPoint: null,
+      ...this.variantCodes(productId, color, size),
+    };
+    this.inventory.set(item.id, item);
+    this.recordMovement(item, item.quantity, "receipt");
+  }
+
+  // Users
+  async getUsers(): Promise<User[]> {
+    return Array.from(this.users.values());
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(u => u.username === username);
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const id = randomUUID();
+    const user: User = {
+      ...insertUser,
+      id,
+      role: insertUser.role || "cashier",
+      createdAt: new Date(),
+    };
+    this.users.set(id, user);
+    return user;
+  }
+
+  // Variant catalog
+  async getColors(): Promise<Color[]> {
+    return Array.from(this.colors.values()).sort(
+      (a, b) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name)
+    );
+  }
+
+  async createColor(insertColor: InsertColor): Promise<Color> {
+    const id = randomUUID();
+    const color: Color = {
+      ...insertColor,
+      id,
+      sortOrder: insertColor.sortOrder ?? 0,
+    };
+    this.colors.set(id, color);
+    return color;
+  }
+
+  async updateColor(id: string, updateData: UpdateColor): Promise<Color | undefined> {
+    const existingColor = this.colors.get(id);
+    if (!existingColor) return undefined;
+
+    const updatedColor = { ...existingColor, ...updateData };
+    this.colors.set(id, updatedColor);
+    return updatedColor;
+  }
+
+  async deleteColor(id: string): Promise<boolean> {
+    const color = this.colors.get(id);
+    if (!color) return false;
+
+    const variantCount = Array.from(this.inventory.values()).filter(item => item.color === color.name).length;
+    if (variantCount > 0) {
+      throw new CatalogInUseError("Color is still used by inventory", variantCount);
+    }
+    return this.colors.delete(id);
+  }
+
+  async getSizeSystems(): Promise<SizeSystem[]> {
+    return Array.from(this.sizeSystems.values());
+  }
+
+  async createSizeSystem(insertSizeSystem: InsertSizeSystem & { id?: string }): Promise<SizeSystem> {
+    const sizeSystem: SizeSystem = {
+      ...insertSizeSystem,
+      id: insertSizeSystem.id || randomUUID(),
+    };
+    this.sizeSystems.set(sizeSystem.id, sizeSystem);
+    return sizeSystem;
+  }
+
+  async updateSizeSystem(id: string, updateData: Partial<InsertSizeSystem>): Promise<SizeSystem | undefined> {
+    const existingSizeSystem = this.sizeSystems.get(id);
+    if (!existingSizeSystem) return undefined;
+
+    const updatedSizeSystem = { ...existingSizeSystem, ...updateData };
+    this.sizeSystems.set(id, updatedSizeSystem);
+    return updatedSizeSystem;
+  }
+
+  async deleteSizeSystem(id: string): Promise<boolean> {
+    const categoryCount = Array.from(this.categories.values()).filter(c => c.sizeSystemId === id).length;
+    if (categoryCount > 0) {
+      throw new CatalogInUseError("Size system is still used by categories", categoryCount);
+    }
+    return this.sizeSystems.delete(id);
+  }
+
+  // Categories
+  async getCategories(): Promise<Category[]> {
+    return Array.from(this.categories.values()).sort(
+      (a, b) => a.sortOrder - b.sortOrder || a.nameAr.localeCompare(b.nameAr)
+    );
+  }
+
+  async getCategory(id: string): Promise<Category | undefined> {
+    return this.categories.get(id);
+  }
+
+  async createCategory(insertCategory: InsertCategory & { id: string }): Promise<Category> {
+    const category: Category = {
+      ...insertCategory,
+      parentId: insertCategory.parentId || null,
+      sizeSystemId: insertCategory.sizeSystemId || null,
+      reorderPoint: insertCategory.reorderPoint ?? null,
+      sortOrder: insertCategory.sortOrder ?? 0,
+      createdAt: new Date(),
+    };
+    this.categories.set(category.id, category);
+    return category;
+  }
+
+  async updateCategory(id: string, updateData: Partial<InsertCategory>): Promise<Category | undefined> {
+    const existingCategory = this.categories.get(id);
+    if (!existingCategory) return undefined;
+
+    const updatedCategory = { ...existingCategory, ...updateData };
+    this.categories.set(id, updatedCategory);
+    return updatedCategory;
+  }
+
+  async deleteCategory(id: string): Promise<boolean> {
+    const productCount = Array.from(this.products.values()).filter(p => p.productType === id).length;
+    const childCount = Array.from(this.categories.values()).filter(c => c.parentId === id).length;
+    if (productCount > 0 || childCount > 0) {
+      throw new CategoryInUseError(productCount, childCount);
+    }
+    return this.categories.delete(id);
+  }
+
+  // Suppliers
+  async getSuppliers(): Promise<Supplier[]> {
+    return Array.from(this.suppliers.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getSupplier(id: string): Promise<Supplier | undefined> {
+    return this.suppliers.get(id);
+  }
+
+  async createSupplier(insertSupplier: InsertSupplier): Promise<Supplier> {
+    const supplier: Supplier = {
+      id: randomUUID(),
+      name: insertSupplier.name,
+      contactName: insertSupplier.contactName || null,
+      phone: insertSupplier.phone || null,
+      email: insertSupplier.email || null,
+      address: insertSupplier.address || null,
+      notes: insertSupplier.notes || null,
+      createdAt: new Date(),
+    };
+    this.suppliers.set(supplier.id, supplier);
+    return supplier;
+  }
+
+  async updateSupplier(id: string, updateData: Partial<InsertSupplier>): Promise<Supplier | undefined> {
+    const existingSupplier = this.suppliers.get(id);
+    if (!existingSupplier) return undefined;
+
+    const updatedSupplier = { ...existingSupplier, ...updateData };
+    this.suppliers.set(id, updatedSupplier);
+    if (updatedSupplier.name !== existingSupplier.name) {
+      this.assignSupplier(id, updatedSupplier);
+    }
+    return updatedSupplier;
+  }
+
+  async deleteSupplier(id: string): Promise<boolean> {
+    const productCount = Array.from(this.products.values()).filter(p => p.supplierId === id).length;
+    const purchaseCount = Array.from(this.purchases.values()).filter(p => p.supplierId === id).length;
+    if (productCount > 0 || purchaseCount > 0) {
+      throw new SupplierInUseError(productCount, purchaseCount);
+    }
+    return this.suppliers.delete(id);
+  }
+
+  async mergeSupplier(id: string, intoId: string): Promise<Supplier | undefined> {
+    const target = this.suppliers.get(intoId);
+    if (!target || !this.suppliers.has(id) || id === intoId) return undefined;
+
+    this.assignSupplier(id, target);
+    this.suppliers.delete(id);
+    return target;
+  }
+
+  // Points the products and purchases of supplier `fromId` at `supplier`, copying its name
+  private assignSupplier(fromId: string, supplier: Supplier) {
+    Array.from(this.products.values()).filter(p => p.supplierId === fromId).forEach((product) => {
+      this.products.set(product.id, { ...product, supplierId: supplier.id, companyName: supplier.name });
+    });
+    Array.from(this.purchases.values()).filter(p => p.supplierId === fromId).forEach((purchase) => {
+      this.purchases.set(purchase.id, { ...purchase, supplierId: supplier.id, supplier: supplier.name });
     });
   }
 
   // Products
   async getProducts(): Promise<ProductWithInventory[]> {
-    const productsArray = Array.from(this.products.values());
-    const productsWithInventory = await Promise.all(
-      productsArray.map(async (product) => {
-        const inventory = await this.getProductInventory(product.id);
-        const totalQuantity = inventory.reduce((sum, item) => sum + item.quantity, 0);
-        let status: 'in-stock' | 'low-stock' | 'out-of-stock' = 'in-stock';
-        
-        if (totalQuantity === 0) {
-          status = 'out-of-stock';
-        } else if (totalQuantity < 10) {
-          status = 'low-stock';
-        }
+    const categories = await this.getCategories();
+    return Array.from(this.products.values()).map(product => this.withInventory(product, categories));
+  }
 
-        return {
-          ...product,
-          inventory,
-          totalQuantity,
-          status,
-        } as ProductWithInventory;
-      })
-    );
-    
-    return productsWithInventory;
+  async getProductPage(query: ProductListQuery): Promise<ProductPage> {
+    const matching = filterProducts(await this.getProducts(), query, await this.getCategories());
+    const start = (query.page - 1) * query.limit;
+    return {
+      items: sortProducts(matching, query.sort, query.order).slice(start, start + query.limit),
+      total: matching.length,
+      page: query.page,
+      limit: query.limit,
+      pageCount: Math.ceil(matching.length / query.limit),
+    };
   }
 
   async getProductById(id: string): Promise<ProductWithInventory | undefined> {
     const product = this.products.get(id);
     if (!product) return undefined;
 
-    const inventory = await this.getProductInventory(id);
-    const totalQuantity = inventory.reduce((sum, item) => sum + item.quantity, 0);
-    let status: 'in-stock' | 'low-stock' | 'out-of-stock' = 'in-stock';
-    
-    if (totalQuantity === 0) {
-      status = 'out-of-stock';
-    } else if (totalQuantity < 10) {
-      status = 'low-stock';
-    }
+    return this.withInventory(product, await this.getCategories());
+  }
 
+  private withInventory(product: Product, categories: Category[]): ProductWithInventory {
+    const inventory = Array.from(this.inventory.values()).filter(item => item.productId === product.id);
     return {
       ...product,
       inventory,
-      totalQuantity,
-      status,
-    } as ProductWithInventory;
+      totalQuantity: inventory.reduce((sum, item) => sum + item.quantity, 0),
+      status: productStockStatus(product, inventory, resolveCategoryReorderPoint(categories, product.productType)),
+    };
   }
 
   async getProductByModelNumber(modelNumber: string): Promise<Product | undefined> {
     return Array.from(this.products.values()).find(p => p.modelNumber === modelNumber);
   }
 
-  async createProduct(insertProduct: InsertProduct): Promise<Product> {
+  async createProduct(insertProduct: InsertProduct, createdBy?: string | null): Promise<Product> {
     const id = randomUUID();
     const product: Product = {
       ...insertProduct,
       id,
+      supplierId: insertProduct.supplierId || null,
       imageUrl: insertProduct.imageUrl || null,
       specifications: insertProduct.specifications || null,
+      costPrice: insertProduct.costPrice || null,
+      reorderPoint: insertProduct.reorderPoint ?? null,
       createdAt: new Date(),
     };
     this.products.set(id, product);
+    this.recordPriceChange(id, "in-store", null, product.storePrice, { reason: "created", changedBy: createdBy });
+    this.recordPriceChange(id, "online", null, product.onlinePrice, { reason: "created", changedBy: createdBy });
     return product;
   }
 
-  async updateProduct(id: string, updateData: Partial<InsertProduct>): Promise<Product | undefined> {
+  async updateProduct(
+    id: string,
+    updateData: Partial<InsertProduct>,
+    change: PriceChangeContext = { reason: "manual-edit" },
+  ): Promise<Product | undefined> {
     const existingProduct = this.products.get(id);
     if (!existingProduct) return undefined;
 
     const updatedProduct = { ...existingProduct, ...updateData };
     this.products.set(id, updatedProduct);
+    changedChannelPrices(existingProduct, updateData).forEach(({ channel, oldPrice, newPrice }) => {
+      this.recordPriceChange(id, channel, oldPrice, newPrice, change);
+    });
     return updatedProduct;
   }
 
+  async bulkUpdatePrices(items: BulkPriceChange[], changedBy?: string | null): Promise<number> {
+    let updated = 0;
+    for (const item of items) {
+      const prices: Partial<InsertProduct> = {};
+      item.changes.forEach(({ channel, newPrice }) => {
+        prices[channelPriceField(channel)] = newPrice;
+      });
+      if (await this.updateProduct(item.productId, prices, { reason: "bulk-update", changedBy })) {
+        updated++;
+      }
+    }
+    return updated;
+  }
+
   async deleteProduct(id: string): Promise<boolean> {
+    const saleIds = new Set(Array.from(this.saleItems.values()).filter(item => item.productId === id).map(item => item.saleId));
+    if (saleIds.size > 0) {
+      throw new ProductInUseError("Product has been sold", "sales", saleIds.size);
+    }
+    const returnIds = new Set(Array.from(this.returnItems.values()).filter(item => item.productId === id).map(item => item.returnId));
+    if (returnIds.size > 0) {
+      throw new ProductInUseError("Product has been returned", "returns", returnIds.size);
+    }
+    const stocktakeIds = new Set(Array.from(this.stocktakeLines.values()).filter(line => line.productId === id).map(line => line.stocktakeId));
+    if (stocktakeIds.size > 0) {
+      throw new ProductInUseError("Product is part of a stocktake", "stocktakes", stocktakeIds.size);
+    }
+    const adjustmentCount = Array.from(this.stockAdjustments.values()).filter(adjustment => adjustment.productId === id).length;
+    if (adjustmentCount > 0) {
+      throw new ProductInUseError("Product has stock adjustments", "stock-adjustments", adjustmentCount);
+    }
+    const movementCount = Array.from(this.stockMovements.values()).filter(movement => movement.productId === id).length;
+    if (movementCount > 0) {
+      throw new ProductInUseError("Product has stock movements", "stock-movements", movementCount);
+    }
+    const priceEntries = Array.from(this.priceHistory.values()).filter(entry => entry.productId === id);
+    const scheduledChanges = Array.from(this.scheduledPriceChanges.values()).filter(change => change.productId === id);
+    const priceChangeCount = priceEntries.filter(entry => entry.reason !== "created").length
+      + scheduledChanges.filter(change => change.status !== "pending").length;
+    if (priceChangeCount > 0) {
+      throw new ProductInUseError("Product has price history", "price-history", priceChangeCount);
+    }
+    priceEntries.forEach(entry => this.priceHistory.delete(entry.id));
+    scheduledChanges.forEach(change => this.scheduledPriceChanges.delete(change.id));
+    Array.from(this.productImages.values())
+      .filter(image => image.productId === id)
+      .forEach(image => this.productImages.delete(image.id));
     return this.products.delete(id);
   }
 
+  // Product Images
+  async getProductImages(productId: string): Promise<ProductImage[]> {
+    return Array.from(this.productImages.values())
+      .filter(image => image.productId === productId)
+      .sort((a, b) => a.sortOrder - b.sortOrder || a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async addProductImage(productId: string, insertImage: InsertProductImage): Promise<ProductImage> {
+    const existing = await this.getProductImages(productId);
+    const image: ProductImage = {
+      ...insertImage,
+      id: randomUUID(),
+      productId,
+      color: insertImage.color || null,
+      sortOrder: existing.length > 0 ? existing[existing.length - 1].sortOrder + 1 : 0,
+      createdAt: new Date(),
+    };
+    this.productImages.set(image.id, image);
+    return image;
+  }
+
+  async updateProductImage(id: string, updateData: Partial<InsertProductImage>): Promise<ProductImage | undefined> {
+    const existingImage = this.productImages.get(id);
+    if (!existingImage) return undefined;
+
+    const updatedImage = { ...existingImage, ...updateData };
+    this.productImages.set(id, updatedImage);
+    return updatedImage;
+  }
+
+  async reorderProductImages(productId: string, imageIds: string[]): Promise<ProductImage[]> {
+    const images = await this.getProductImages(productId);
+    orderImages(images, imageIds).forEach((image, index) => {
+      this.productImages.set(image.id, { ...image, sortOrder: index });
+    });
+    return this.getProductImages(productId);
+  }
+
+  async deleteProductImage(id: string): Promise<ProductImage | undefined> {
+    const image = this.productImages.get(id);
+    this.productImages.delete(id);
+    return image;
+  }
+
   // Product Inventory
   async getProductInventory(productId: string): Promise<ProductInventory[]> {
     return Array.from(this.inventory.values()).filter(item => item.productId === productId);
   }
 
-  async updateInventory(productId: string, color: string, size: string, quantity: number): Promise<ProductInventory> {
+  async updateInventory(productId: string, color: string, size: string, quantity: number, reason: StockMovementReason = "manual-edit"): Promise<ProductInventory> {
     const existingItem = Array.from(this.inventory.values()).find(
       item => item.productId === productId && item.color === color && item.size === size
     );
 
     if (existingItem) {
+      const delta = quantity - existingItem.quantity;
       existingItem.quantity = quantity;
       this.inventory.set(existingItem.id, existingItem);
+      this.recordMovement(existingItem, delta, reason);
       return existingItem;
     } else {
       const id = randomUUID();
@@ -236,35 +747,532 @@ export class MemStorage implements IStorage {
         color,
         size,
         quantity,
+        costPrice: null,
+        reorderPoint: null,
+        ...this.variantCodes(productId, color, size),
       };
       this.inventory.set(id, newItem);
+      this.recordMovement(newItem, quantity, reason);
       return newItem;
     }
   }
 
-  async bulkUpdateInventory(inventoryItems: (InsertProductInventory & { productId: string })[]): Promise<ProductInventory[]> {
+  async importProducts(items: ProductImport[], importedBy?: string | null): Promise<{ created: number; updated: number }> {
+    let created = 0;
+    let updated = 0;
+
+    // Nothing below can fail part way, so there is nothing to roll back
+    for (const item of items) {
+      const { variants } = item;
+      const supplier = findSupplierByName(Array.from(this.suppliers.values()), item.product.companyName)
+        ?? await this.createSupplier({ name: tidySupplierName(item.product.companyName) });
+      const product = { ...item.product, supplierId: supplier.id, companyName: supplier.name };
+      const existing = await this.getProductByModelNumber(product.modelNumber);
+      let productId: string;
+      if (existing) {
+        await this.updateProduct(existing.id, product, { reason: "import", changedBy: importedBy });
+        productId = existing.id;
+        updated++;
+      } else {
+        productId = (await this.createProduct(product, importedBy)).id;
+        created++;
+      }
+
+      for (const variant of variants) {
+        await this.updateInventory(productId, variant.color, variant.size, variant.quantity, "import");
+      }
+    }
+    return { created, updated };
+  }
+
+  async bulkUpdateInventory(inventoryItems: (InsertProductInventory & { productId: string })[], reason: StockMovementReason = "manual-edit"): Promise<ProductInventory[]> {
     const results: ProductInventory[] = [];
     
     for (const item of inventoryItems) {
-      const result = await this.updateInventory(item.productId, item.color, item.size, item.quantity || 0);
+      const result = await this.updateInventory(item.productId, item.color, item.size, item.quantity || 0, reason);
+      // An omitted cost or reorder point keeps the variant's current override; null clears it
+      if (item.costPrice !== undefined) {
+        result.costPrice = item.costPrice;
+      }
+      if (item.reorderPoint !== undefined) {
+        result.reorderPoint = item.reorderPoint;
+      }
       results.push(result);
     }
     
     return results;
   }
 
+  async setProductInventory(productId: string, inventoryItems: InsertProductInventory[], reason: StockMovementReason = "manual-edit"): Promise<ProductInventory[]> {
+    // Variants missing from the new list are emptied and removed
+    for (const item of await this.getProductInventory(productId)) {
+      if (!inventoryItems.some(newItem => newItem.color === item.color && newItem.size === item.size)) {
+        const delta = -item.quantity;
+        item.quantity = 0;
+        this.recordMovement(item, delta, reason);
+        this.inventory.delete(item.id);
+      }
+    }
+
+    return this.bulkUpdateInventory(
+      inventoryItems.map(item => ({ ...item, productId })),
+      reason
+    );
+  }
+
   async deleteProductInventory(productId: string): Promise<boolean> {
     const inventoryItems = Array.from(this.inventory.entries()).filter(
       ([, item]) => item.productId === productId
     );
     
-    for (const [id] of inventoryItems) {
+    for (const [id, item] of inventoryItems) {
+      const delta = -item.quantity;
+      item.quantity = 0;
+      this.recordMovement(item, delta, "manual-edit");
       this.inventory.delete(id);
     }
     
     return true;
   }
 
+  async assignMissingVariantCodes(): Promise<number> {
+    const missing = Array.from(this.inventory.values()).filter(item => !item.sku || !item.barcode);
+    missing.forEach((item) => {
+      Object.assign(item, this.variantCodes(item.productId, item.color, item.size));
+    });
+    return missing.length;
+  }
+
+  async findInventoryByCode(code: string): Promise<InventoryLookup | undefined> {
+    const sku = code.toUpperCase();
+    const item = Array.from(this.inventory.values()).find(
+      inv => inv.barcode === code || inv.sku === sku
+    );
+    if (!item) return undefined;
+
+    return { ...item, product: this.products.get(item.productId)! };
+  }
+
+  async getLowStockVariants(): Promise<LowStockVariant[]> {
+    const categories = await this.getCategories();
+    const low: LowStockVariant[] = [];
+    Array.from(this.inventory.values()).forEach((item) => {
+      const product = this.products.get(item.productId)!;
+      const threshold = variantReorderPoint(item, product, resolveCategoryReorderPoint(categories, product.productType));
+      if (isBelowReorderPoint(item.quantity, threshold)) {
+        low.push({ ...item, product, threshold });
+      }
+    });
+    return low.sort((a, b) =>
+      a.quantity - b.quantity ||
+      a.product.modelNumber.localeCompare(b.product.modelNumber) ||
+      a.color.localeCompare(b.color) ||
+      a.size.localeCompare(b.size));
+  }
+
+  // Same scheme as DatabaseStorage: one counter for all barcodes, which also
+  // disambiguates a SKU that is already taken (e.g. after a model number change)
+  private variantCodes(productId: string, color: string, size: string): { sku: string; barcode: string } {
+    const sequence = ++this.barcodeSequence;
+    const modelNumber = this.products.get(productId)?.modelNumber ?? "";
+    let sku = variantSku(modelNumber, color, size, sequence);
+    if (Array.from(this.inventory.values()).some(item => item.sku === sku)) {
+      sku = `${sku}-${sequence}`;
+    }
+    return { sku, barcode: variantBarcode(sequence) };
+  }
+
+  // Stock Movements
+  async getStockMovements(productId: string, variant: { color?: string; size?: string } = {}): Promise<StockMovement[]> {
+    // Newest first; reversing before the stable sort keeps same-millisecond movements in order
+    return Array.from(this.stockMovements.values())
+      .reverse()
+      .filter(movement =>
+        movement.productId === productId &&
+        (!variant.color || movement.color === variant.color) &&
+        (!variant.size || movement.size === variant.size)
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  private recordMovement(
+    item: ProductInventory,
+    delta: number,
+    reason: StockMovementReason,
+    refs: { saleId?: string; returnId?: string; stocktakeId?: string; adjustmentId?: string } = {}
+  ) {
+    if (delta === 0) return;
+
+    const movement: StockMovement = {
+      id: randomUUID(),
+      productId: item.productId,
+      color: item.color,
+      size: item.size,
+      delta,
+      balance: item.quantity,
+      reason,
+      saleId: refs.saleId || null,
+      returnId: refs.returnId || null,
+      stocktakeId: refs.stocktakeId || null,
+      adjustmentId: refs.adjustmentId || null,
+      createdAt: new Date(),
+    };
+    this.stockMovements.set(movement.id, movement);
+  }
+
+  // Price History
+  async getPriceHistory(productId: string): Promise<PriceChangeWithUser[]> {
+    // Newest first; reversing before the stable sort keeps same-millisecond changes in order
+    return Array.from(this.priceHistory.values())
+      .reverse()
+      .filter(entry => entry.productId === productId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .map(entry => ({ ...entry, changedByName: this.createdByName(entry.changedBy) }));
+  }
+
+  private recordPriceChange(
+    productId: string,
+    channel: string,
+    oldPrice: string | null,
+    newPrice: string,
+    change: PriceChangeContext,
+  ) {
+    const entry: PriceChange = {
+      id: randomUUID(),
+      productId,
+      channel,
+      oldPrice,
+      newPrice,
+      reason: change.reason,
+      scheduledChangeId: change.scheduledChangeId || null,
+      changedBy: change.changedBy || null,
+      createdAt: new Date(),
+    };
+    this.priceHistory.set(entry.id, entry);
+  }
+
+  // Scheduled Price Changes
+  async getScheduledPriceChanges(productId?: string): Promise<ScheduledPriceChange[]> {
+    return Array.from(this.scheduledPriceChanges.values())
+      .filter(change => !productId || change.productId === productId)
+      .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+  }
+
+  async getScheduledPriceChange(id: string): Promise<ScheduledPriceChange | undefined> {
+    return this.scheduledPriceChanges.get(id);
+  }
+
+  async createScheduledPriceChange(
+    productId: string,
+    insertChange: InsertScheduledPriceChange,
+    createdBy?: string | null,
+  ): Promise<ScheduledPriceChange> {
+    const change: ScheduledPriceChange = {
+      ...insertChange,
+      id: randomUUID(),
+      productId,
+      endsAt: insertChange.endsAt ?? null,
+      status: "pending",
+      previousPrice: null,
+      createdBy: createdBy ?? null,
+      createdAt: new Date(),
+    };
+    this.scheduledPriceChanges.set(change.id, change);
+    return change;
+  }
+
+  async startScheduledPriceChange(id: string): Promise<ScheduledPriceChange | undefined> {
+    const change = this.scheduledPriceChanges.get(id);
+    const product = change && this.products.get(change.productId);
+    if (!change || !product || change.status !== "pending") return undefined;
+
+    const field = channelPriceField(change.channel);
+    const started: ScheduledPriceChange = {
+      ...change,
+      status: change.endsAt ? "active" : "completed",
+      previousPrice: product[field],
+    };
+    await this.updateProduct(product.id, { [field]: change.price }, { reason: "schedule-start", scheduledChangeId: id });
+    this.scheduledPriceChanges.set(id, started);
+    return started;
+  }
+
+  async endScheduledPriceChange(id: string, status: "completed" | "cancelled"): Promise<ScheduledPriceChange | undefined> {
+    const change = this.scheduledPriceChanges.get(id);
+    if (!change || (change.status !== "pending" && change.status !== "active")) return undefined;
+
+    const product = this.products.get(change.productId);
+    const field = channelPriceField(change.channel);
+    // A price edited by hand while the change ran is kept
+    if (change.status === "active" && change.previousPrice !== null && product && toFils(product[field]) === toFils(change.price)) {
+      await this.updateProduct(product.id, { [field]: change.previousPrice }, { reason: "schedule-end", scheduledChangeId: id });
+    }
+
+    const ended: ScheduledPriceChange = { ...change, status };
+    this.scheduledPriceChanges.set(id, ended);
+    return ended;
+  }
+
+  // Bundles
+  async getBundles(): Promise<BundleWithComponents[]> {
+    return Array.from(this.bundles.values())
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(bundle => this.withComponents(bundle));
+  }
+
+  async getBundle(id: string): Promise<BundleWithComponents | undefined> {
+    const bundle = this.bundles.get(id);
+    return bundle && this.withComponents(bundle);
+  }
+
+  async createBundle(insertBundle: InsertBundle): Promise<BundleWithComponents> {
+    const { components, ...bundleData } = insertBundle;
+    const bundle: Bundle = { ...bundleData, id: randomUUID(), createdAt: new Date() };
+    this.bundles.set(bundle.id, bundle);
+    this.setBundleComponents(bundle.id, components);
+    return this.withComponents(bundle);
+  }
+
+  async updateBundle(id: string, insertBundle: InsertBundle): Promise<BundleWithComponents | undefined> {
+    const existingBundle = this.bundles.get(id);
+    if (!existingBundle) return undefined;
+
+    const { components, ...bundleData } = insertBundle;
+    const bundle = { ...existingBundle, ...bundleData };
+    this.bundles.set(id, bundle);
+    this.setBundleComponents(id, components);
+    return this.withComponents(bundle);
+  }
+
+  async deleteBundle(id: string): Promise<boolean> {
+    const soldIn = new Set(Array.from(this.saleItems.values()).filter(item => item.bundleId === id).map(item => item.saleId));
+    if (soldIn.size > 0) {
+      throw new BundleInUseError(soldIn.size);
+    }
+    this.setBundleComponents(id, []);
+    return this.bundles.delete(id);
+  }
+
+  private setBundleComponents(bundleId: string, components: InsertBundle["components"]) {
+    Array.from(this.bundleComponents.values())
+      .filter(component => component.bundleId === bundleId)
+      .forEach(component => this.bundleComponents.delete(component.id));
+    components.forEach((component) => {
+      const id = randomUUID();
+      this.bundleComponents.set(id, { ...component, quantity: component.quantity ?? 1, id, bundleId });
+    });
+  }
+
+  private withComponents(bundle: Bundle): BundleWithComponents {
+    return {
+      ...bundle,
+      components: Array.from(this.bundleComponents.values())
+        .filter(component => component.bundleId === bundle.id)
+        .map(component => ({ ...component, product: this.products.get(component.productId)! }))
+        .sort((a, b) => a.product.modelNumber.localeCompare(b.product.modelNumber) ||
+          a.color.localeCompare(b.color) || a.size.localeCompare(b.size)),
+    };
+  }
+
+  // Stocktakes
+  async getStocktakes(): Promise<StocktakeWithProgress[]> {
+    return Array.from(this.stocktakes.values())
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .map((stocktake) => {
+        const { lines, summary, ...progress } = this.withStocktakeLines(stocktake);
+        return progress;
+      });
+  }
+
+  async getStocktake(id: string): Promise<StocktakeDetails | undefined> {
+    const stocktake = this.stocktakes.get(id);
+    return stocktake && this.withStocktakeLines(stocktake);
+  }
+
+  async createStocktake(insertStocktake: InsertStocktake, createdBy?: string | null): Promise<StocktakeDetails> {
+    const stocktake: Stocktake = {
+      id: randomUUID(),
+      name: insertStocktake.name,
+      categoryId: insertStocktake.categoryId || null,
+      status: "counting",
+      notes: insertStocktake.notes || null,
+      createdBy: createdBy || null,
+      createdAt: new Date(),
+      closedBy: null,
+      closedAt: null,
+    };
+    this.stocktakes.set(stocktake.id, stocktake);
+
+    const categoryIds = stocktake.categoryId ? categorySubtree(await this.getCategories(), stocktake.categoryId) : null;
+    Array.from(this.inventory.values()).forEach((item) => {
+      const product = this.products.get(item.productId);
+      if (!product || (categoryIds && categoryIds.indexOf(product.productType) === -1)) return;
+      const line: StocktakeLine = {
+        id: randomUUID(),
+        stocktakeId: stocktake.id,
+        productId: item.productId,
+        color: item.color,
+        size: item.size,
+        countedQuantity: null,
+        systemQuantity: null,
+        unitCost: null,
+      };
+      this.stocktakeLines.set(line.id, line);
+    });
+    return this.withStocktakeLines(stocktake);
+  }
+
+  async recordStocktakeCounts(id: string, counts: StocktakeCount[]): Promise<StocktakeDetails | undefined> {
+    const stocktake = this.stocktakes.get(id);
+    if (!stocktake) return undefined;
+    if (stocktake.status !== "counting") {
+      throw new StocktakeClosedError(stocktake.status);
+    }
+
+    const lines = this.getStocktakeLines(id);
+    const findLine = (count: StocktakeCount) =>
+      lines.find(line => line.productId === count.productId && line.color === count.color && line.size === count.size);
+    const outside = counts.filter(count => !findLine(count));
+    if (outside.length > 0) {
+      throw new StocktakeScopeError(outside.map(({ productId, color, size }) => ({ productId, color, size })));
+    }
+
+    counts.forEach((count) => {
+      const line = findLine(count)!;
+      const variant = Array.from(this.inventory.values()).find(
+        item => item.productId === count.productId && item.color === count.color && item.size === count.size
+      );
+      line.countedQuantity = count.countedQuantity;
+      line.systemQuantity = count.countedQuantity === null ? null : variant?.quantity ?? 0;
+    });
+    return this.withStocktakeLines(stocktake);
+  }
+
+  async approveStocktake(id: string, approvedBy?: string | null): Promise<StocktakeDetails | undefined> {
+    const stocktake = this.stocktakes.get(id);
+    if (!stocktake) return undefined;
+    if (stocktake.status !== "counting") {
+      throw new StocktakeClosedError(stocktake.status);
+    }
+
+    // Nothing below can fail part way, so there is nothing to roll back
+    this.getStocktakeLines(id).forEach((line) => {
+      if (line.countedQuantity === null) return;
+      const product = this.products.get(line.productId)!;
+      let variant = Array.from(this.inventory.values()).find(
+        item => item.productId === line.productId && item.color === line.color && item.size === line.size
+      );
+      line.unitCost = getUnitCost(product, variant);
+
+      // Applied as a change, so sales and returns since the count are kept
+      const current = variant?.quantity ?? 0;
+      const quantity = stocktakeApprovedQuantity(line, current);
+      const delta = quantity - current;
+      if (delta === 0) return;
+      if (!variant) {
+        // Deleted since the count started, but pieces were found on the shelf
+        variant = {
+          id: randomUUID(),
+          productId: line.productId,
+          color: line.color,
+          size: line.size,
+          quantity: 0,
+          costPrice: null,
+          reorderPoint: null,
+          ...this.variantCodes(line.productId, line.color, line.size),
+        };
+        this.inventory.set(variant.id, variant);
+      }
+      variant.quantity = quantity;
+      this.recordMovement(variant, delta, "stocktake", { stocktakeId: id });
+    });
+
+    const approved = { ...stocktake, status: "approved", closedBy: approvedBy || null, closedAt: new Date() };
+    this.stocktakes.set(id, approved);
+    return this.withStocktakeLines(approved);
+  }
+
+  async cancelStocktake(id: string, cancelledBy?: string | null): Promise<StocktakeDetails | undefined> {
+    const stocktake = this.stocktakes.get(id);
+    if (!stocktake) return undefined;
+    if (stocktake.status !== "counting") {
+      throw new StocktakeClosedError(stocktake.status);
+    }
+
+    const cancelled = { ...stocktake, status: "cancelled", closedBy: cancelledBy || null, closedAt: new Date() };
+    this.stocktakes.set(id, cancelled);
+    return this.withStocktakeLines(cancelled);
+  }
+
+  private getStocktakeLines(stocktakeId: string): StocktakeLine[] {
+    return Array.from(this.stocktakeLines.values()).filter(line => line.stocktakeId === stocktakeId);
+  }
+
+  private withStocktakeLines(stocktake: Stocktake): StocktakeDetails {
+    return buildStocktakeDetails(
+      stocktake,
+      this.getStocktakeLines(stocktake.id),
+      Array.from(this.products.values()),
+      Array.from(this.inventory.values()),
+    );
+  }
+
+  // Stock Adjustments
+  async getStockAdjustments(filter: { productId?: string; from?: Date; to?: Date } = {}): Promise<StockAdjustmentWithDetails[]> {
+    return Array.from(this.stockAdjustments.values())
+      .reverse()
+      .filter(adjustment =>
+        (!filter.productId || adjustment.productId === filter.productId) &&
+        (!filter.from || adjustment.createdAt >= filter.from) &&
+        (!filter.to || adjustment.createdAt <= filter.to) &&
+        this.products.has(adjustment.productId)
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .map(adjustment => ({
+        ...adjustment,
+        product: this.products.get(adjustment.productId)!,
+        createdByName: this.createdByName(adjustment.createdBy),
+      }));
+  }
+
+  async createStockAdjustment(insertAdjustment: InsertStockAdjustment, createdBy?: string | null): Promise<StockAdjustment | undefined> {
+    const product = this.products.get(insertAdjustment.productId);
+    const variant = Array.from(this.inventory.values()).find(item =>
+      item.productId === insertAdjustment.productId &&
+      item.color === insertAdjustment.color &&
+      item.size === insertAdjustment.size
+    );
+    if (!product || !variant) return undefined;
+
+    if (insertAdjustment.delta < 0) {
+      const shortages = findStockShortages(
+        [{ ...insertAdjustment, quantity: -insertAdjustment.delta }],
+        () => variant.quantity,
+      );
+      if (shortages.length > 0) {
+        throw new InsufficientStockError(shortages);
+      }
+    }
+
+    const adjustment: StockAdjustment = {
+      id: randomUUID(),
+      productId: insertAdjustment.productId,
+      color: insertAdjustment.color,
+      size: insertAdjustment.size,
+      delta: insertAdjustment.delta,
+      reason: insertAdjustment.reason,
+      note: insertAdjustment.note || null,
+      unitCost: getUnitCost(product, variant),
+      createdBy: createdBy || null,
+      createdAt: new Date(),
+    };
+    this.stockAdjustments.set(adjustment.id, adjustment);
+
+    variant.quantity += adjustment.delta;
+    this.recordMovement(variant, adjustment.delta, "adjustment", { adjustmentId: adjustment.id });
+    return adjustment;
+  }
+
   // Sales
   async getSales(): Promise<SaleWithItems[]> {
     const salesArray = Array.from(this.sales.values());
@@ -280,6 +1288,7 @@ export class MemStorage implements IStorage {
         return {
           ...sale,
           items,
+          createdByName: this.createdByName(sale.createdBy),
         } as SaleWithItems;
       })
     );
@@ -299,10 +1308,21 @@ export class MemStorage implements IStorage {
     return {
       ...sale,
       items,
+      createdByName: this.createdByName(sale.createdBy),
     } as SaleWithItems;
   }
 
   async createSale(insertSale: InsertSale, items: InsertSaleItem[]): Promise<SaleWithItems> {
+    // Check and decrement stock without awaiting in between, so concurrent sales cannot interleave
+    const findInventoryItem = (item: InsertSaleItem) => Array.from(this.inventory.values()).find(
+      inv => inv.productId === item.productId && inv.color === item.color && inv.size === item.size
+    );
+
+    const shortages = findStockShortages(items, (item) => findInventoryItem(item)?.quantity ?? 0);
+    if (shortages.length > 0) {
+      throw new InsufficientStockError(shortages);
+    }
+
     const saleId = randomUUID();
     const invoiceNumber = `INV-${Date.now()}`;
     
@@ -312,6 +1332,7 @@ export class MemStorage implements IStorage {
       invoiceNumber,
       trackingNumber: insertSale.trackingNumber || null,
       fees: insertSale.fees || "0",
+      createdBy: insertSale.createdBy || null,
       createdAt: new Date(),
     };
 
@@ -325,19 +1346,19 @@ export class MemStorage implements IStorage {
         ...item,
         id: saleItemId,
         saleId,
+        listPrice: item.listPrice || null,
+        priceOverrideReason: item.priceOverrideReason || null,
+        unitCost: item.unitCost || null,
+        bundleId: item.bundleId || null,
       };
       
       this.saleItems.set(saleItemId, saleItem);
       
       // Update inventory (decrease quantity)
-      const inventoryItem = Array.from(this.inventory.values()).find(
-        inv => inv.productId === item.productId && inv.color === item.color && inv.size === item.size
-      );
-      
-      if (inventoryItem && inventoryItem.quantity >= item.quantity) {
-        inventoryItem.quantity -= item.quantity;
-        this.inventory.set(inventoryItem.id, inventoryItem);
-      }
+      const inventoryItem = findInventoryItem(item)!;
+      inventoryItem.quantity -= item.quantity;
+      this.inventory.set(inventoryItem.id, inventoryItem);
+      this.recordMovement(inventoryItem, -item.quantity, "sale", { saleId });
 
       saleItemsWithProducts.push({
         ...saleItem,
@@ -348,6 +1369,7 @@ export class MemStorage implements IStorage {
     return {
       ...sale,
       items: saleItemsWithProducts,
+      createdByName: this.createdByName(sale.createdBy),
     } as SaleWithItems;
   }
 
@@ -377,6 +1399,7 @@ export class MemStorage implements IStorage {
           ...returnData,
           items,
           originalSale,
+          createdByName: this.createdByName(returnData.createdBy),
         } as ReturnWithItems;
       })
     );
@@ -399,6 +1422,7 @@ export class MemStorage implements IStorage {
       ...returnData,
       items,
       originalSale,
+      createdByName: this.createdByName(returnData.createdBy),
     } as ReturnWithItems;
   }
 
@@ -413,6 +1437,7 @@ export class MemStorage implements IStorage {
       newColor: insertReturn.newColor || null,
       newSize: insertReturn.newSize || null,
       refundAmount: insertReturn.refundAmount || "0",
+      createdBy: insertReturn.createdBy || null,
       createdAt: new Date(),
     };
 
@@ -439,6 +1464,7 @@ export class MemStorage implements IStorage {
         if (inventoryItem) {
           inventoryItem.quantity += item.quantity;
           this.inventory.set(inventoryItem.id, inventoryItem);
+          this.recordMovement(inventoryItem, item.quantity, "return", { returnId });
         }
       } else if (returnData.returnType === 'exchange') {
         // Handle different types of exchanges
@@ -450,6 +1476,7 @@ export class MemStorage implements IStorage {
           if (originalInventory) {
             originalInventory.quantity += item.quantity;
             this.inventory.set(originalInventory.id, originalInventory);
+            this.recordMovement(originalInventory, item.quantity, "exchange", { returnId });
           }
           
           // Deduct from new product (same color/size as requested in exchange)
@@ -460,6 +1487,7 @@ export class MemStorage implements IStorage {
             if (newInventory && newInventory.quantity >= item.quantity) {
               newInventory.quantity -= item.quantity;
               this.inventory.set(newInventory.id, newInventory);
+              this.recordMovement(newInventory, -item.quantity, "exchange", { returnId });
             }
           }
         } else if (returnData.exchangeType === 'color-change') {
@@ -470,6 +1498,7 @@ export class MemStorage implements IStorage {
           if (originalInventory) {
             originalInventory.quantity += item.quantity;
             this.inventory.set(originalInventory.id, originalInventory);
+            this.recordMovement(originalInventory, item.quantity, "exchange", { returnId });
           }
           
           // Deduct from new color
@@ -480,6 +1509,7 @@ export class MemStorage implements IStorage {
             if (newColorInventory && newColorInventory.quantity >= item.quantity) {
               newColorInventory.quantity -= item.quantity;
               this.inventory.set(newColorInventory.id, newColorInventory);
+              this.recordMovement(newColorInventory, -item.quantity, "exchange", { returnId });
             }
           }
         } else if (returnData.exchangeType === 'size-change') {
@@ -490,6 +1520,7 @@ export class MemStorage implements IStorage {
           if (originalInventory) {
             originalInventory.quantity += item.quantity;
             this.inventory.set(originalInventory.id, originalInventory);
+            this.recordMovement(originalInventory, item.quantity, "exchange", { returnId });
           }
           
           // Deduct from new size
@@ -500,6 +1531,7 @@ export class MemStorage implements IStorage {
             if (newSizeInventory && newSizeInventory.quantity >= item.quantity) {
               newSizeInventory.quantity -= item.quantity;
               this.inventory.set(newSizeInventory.id, newSizeInventory);
+              this.recordMovement(newSizeInventory, -item.quantity, "exchange", { returnId });
             }
           }
         }
@@ -517,6 +1549,7 @@ export class MemStorage implements IStorage {
       ...returnData,
       items: returnItemsWithProducts,
       originalSale,
+      createdByName: this.createdByName(returnData.createdBy),
     } as ReturnWithItems;
   }
 
@@ -530,6 +1563,7 @@ export class MemStorage implements IStorage {
     const expense: Expense = {
       ...insertExpense,
       id,
+      createdBy: insertExpense.createdBy || null,
       date: insertExpense.date || new Date(),
     };
     this.expenses.set(id, expense);
@@ -554,12 +1588,23 @@ export class MemStorage implements IStorage {
     const purchase: Purchase = {
       ...insertPurchase,
       id,
+      supplierId: insertPurchase.supplierId || null,
+      createdBy: insertPurchase.createdBy || null,
       date: insertPurchase.date || new Date(),
     };
     this.purchases.set(id, purchase);
     return purchase;
   }
 
+  async updatePurchase(id: string, updateData: Partial<InsertPurchase>): Promise<Purchase | undefined> {
+    const existingPurchase = this.purchases.get(id);
+    if (!existingPurchase) return undefined;
+
+    const updatedPurchase = { ...existingPurchase, ...updateData };
+    this.purchases.set(id, updatedPurchase);
+    return updatedPurchase;
+  }
+
   async getPurchasesByDateRange(startDate: Date, endDate: Date): Promise<Purchase[]> {
     const allPurchases = await this.getPurchases();
     return allPurchases.filter(purchase => {
@@ -572,12 +1617,15 @@ export class MemStorage implements IStorage {
   async getDashboardStats(): Promise<{
     totalProducts: number;
     todaySales: number;
+    todayGrossProfit: number;
     outOfStockCount: number;
+    lowStockCount: number;
     onlineOrdersCount: number;
   }> {
     const products = await this.getProducts();
     const totalProducts = products.length;
     const outOfStockCount = products.filter(p => p.status === 'out-of-stock').length;
+    const lowStockCount = (await this.getLowStockVariants()).length;
 
     const today = new Date();
     const todayStart = new Date(today.getFullYear(), today.getMonth(), today.getDate());
@@ -585,16 +1633,68 @@ export class MemStorage implements IStorage {
     
     const todaySalesData = await this.getSalesByDateRange(todayStart, todayEnd);
     const todaySales = todaySalesData.reduce((sum, sale) => sum + parseFloat(sale.total), 0);
+    const todayGrossProfit = parseFloat(calculateGrossProfit(todaySalesData.flatMap(sale => sale.items)));
     
     const onlineOrdersCount = todaySalesData.filter(sale => sale.channel === 'online').length;
 
     return {
       totalProducts,
       todaySales,
+      todayGrossProfit,
       outOfStockCount,
+      lowStockCount,
       onlineOrdersCount,
     };
   }
+
+  async getEmployeeSummary(startDate?: Date, endDate?: Date): Promise<EmployeeSummary[]> {
+    const inRange = (date: Date) => (!startDate || date >= startDate) && (!endDate || date <= endDate);
+    const salesArray = Array.from(this.sales.values()).filter(sale => inRange(sale.createdAt));
+    const returnsArray = Array.from(this.returns.values()).filter(returnData => inRange(returnData.createdAt));
+
+    return Array.from(this.users.values()).map((user) => {
+      const userSales = salesArray.filter(sale => sale.createdBy === user.id);
+      const userReturns = returnsArray.filter(returnData => returnData.createdBy === user.id);
+
+      return {
+        userId: user.id,
+        displayName: user.displayName,
+        salesCount: userSales.length,
+        salesTotal: fromFils(userSales.reduce((sum, sale) => sum + toFils(sale.total), 0)),
+        returnsCount: userReturns.length,
+        refundTotal: fromFils(userReturns.reduce((sum, returnData) => sum + toFils(returnData.refundAmount), 0)),
+      };
+    });
+  }
+
+  private createdByName(userId: string | null): string | null {
+    if (!userId) return null;
+    return this.users.get(userId)?.displayName ?? null;
+  }
+}
+
+// STORAGE_DRIVER selects the backend: "database" (Postgres via DATABASE_URL)
+// or "memory" (sample data, lost on restart). Defaults to the database when
+// DATABASE_URL is set.
+function createStorage(): IStorage {
+  const driver = process.env.STORAGE_DRIVER || (process.env.DATABASE_URL ? "database" : "memory");
+
+  if (driver === "memory") {
+    return new MemStorage();
+  }
+
+  if (driver !== "database") {
+    throw new Error(`Unknown STORAGE_DRIVER "${driver}", expected "database" or "memory"`);
+  }
+
+  if (!process.env.DATABASE_URL) {
+    throw new Error("DATABASE_URL must be set when STORAGE_DRIVER is \"database\"");
+  }
+
+  return new DatabaseStorage(
+    createDatabase(process.env.DATABASE_URL),
+    createSessionStore(process.env.DATABASE_URL)
+  );
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
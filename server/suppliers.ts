@@ -0,0 +1,62 @@
+import type { Product, Purchase, Supplier, SupplierWithStats } from "@shared/schema";
+import { fromFils, toFils } from "@shared/pricing";
+import { findSupplierByName, tidySupplierName } from "@shared/suppliers";
+import { storage } from "./storage";
+
+// The supplier a form picked by id, or else the one called `name`, created if there is none yet.
+// Undefined when the picked id does not exist or no name was given.
+export async function resolveSupplier(supplierId: string | null | undefined, name: string | undefined): Promise<Supplier | undefined> {
+  if (supplierId) {
+    return storage.getSupplier(supplierId);
+  }
+  if (!name || !tidySupplierName(name)) {
+    return undefined;
+  }
+  const existing = findSupplierByName(await storage.getSuppliers(), name);
+  return existing ?? storage.createSupplier({ name: tidySupplierName(name) });
+}
+
+// Products and purchases saved before suppliers existed only carry a name. This links each one
+// to the supplier of that name, creating suppliers as needed, so variants of one spelling end up
+// under a single supplier; the rest can be merged by hand. Returns how many rows were linked.
+export async function linkSuppliers(): Promise<number> {
+  const [products, purchases, suppliers] = await Promise.all([
+    storage.getProducts(),
+    storage.getPurchases(),
+    storage.getSuppliers(),
+  ]);
+
+  const supplierFor = async (name: string) => {
+    let supplier = findSupplierByName(suppliers, name);
+    if (!supplier) {
+      supplier = await storage.createSupplier({ name: tidySupplierName(name) });
+      suppliers.push(supplier);
+    }
+    return supplier;
+  };
+
+  let linked = 0;
+  for (const product of products) {
+    if (product.supplierId || !tidySupplierName(product.companyName)) continue;
+    const supplier = await supplierFor(product.companyName);
+    await storage.updateProduct(product.id, { supplierId: supplier.id, companyName: supplier.name });
+    linked++;
+  }
+  for (const purchase of purchases) {
+    if (purchase.supplierId || !tidySupplierName(purchase.supplier)) continue;
+    const supplier = await supplierFor(purchase.supplier);
+    await storage.updatePurchase(purchase.id, { supplierId: supplier.id, supplier: supplier.name });
+    linked++;
+  }
+  return linked;
+}
+
+export function withSupplierStats(supplier: Supplier, products: Product[], purchases: Purchase[]): SupplierWithStats {
+  const supplierPurchases = purchases.filter(purchase => purchase.supplierId === supplier.id);
+  return {
+    ...supplier,
+    productCount: products.filter(product => product.supplierId === supplier.id).length,
+    purchaseCount: supplierPurchases.length,
+    totalSpend: fromFils(supplierPurchases.reduce((sum, purchase) => sum + toFils(purchase.amount), 0)),
+  };
+}
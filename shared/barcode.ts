@@ -0,0 +1,62 @@
+// Variant codes printed on price tags and read back by the scanner.
+// Barcodes are EAN-13 numbers with prefix "2", the range reserved for in-store
+// (restricted circulation) use, so they never clash with manufacturer barcodes.
+const IN_STORE_PREFIX = "2";
+
+// Latin short codes for SKUs; colors outside this list fall back to a numbered code
+export const COLOR_CODES: Record<string, string> = {
+  "أسود": "BLK",
+  "أبيض": "WHT",
+  "أحمر": "RED",
+  "أزرق": "BLU",
+  "أخضر": "GRN",
+  "وردي": "PNK",
+};
+
+export function ean13CheckDigit(digits: string): number {
+  let sum = 0;
+  for (let i = 0; i < 12; i++) {
+    sum += Number(digits[i]) * (i % 2 === 0 ? 1 : 3);
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+export function isValidEan13(code: string): boolean {
+  return /^\d{13}$/.test(code) && ean13CheckDigit(code) === Number(code[12]);
+}
+
+// `sequence` is the per-variant counter kept by storage
+export function variantBarcode(sequence: number): string {
+  const digits = IN_STORE_PREFIX + String(sequence).padStart(11, "0");
+  return digits + ean13CheckDigit(digits);
+}
+
+export function variantSku(modelNumber: string, color: string, size: string, sequence: number): string {
+  const colorCode = COLOR_CODES[color] ?? `C${sequence}`;
+  return `${modelNumber}-${colorCode}-${size}`.toUpperCase();
+}
+
+const EAN_L = ["0001101", "0011001", "0010011", "0111101", "0100011", "0110001", "0101111", "0111011", "0110111", "0001011"];
+const EAN_G = ["0100111", "0110011", "0011011", "0100001", "0011101", "0111001", "0000101", "0010001", "0001001", "0010111"];
+const EAN_R = ["1110010", "1100110", "1101100", "1000010", "1011100", "1001110", "1010000", "1000100", "1001000", "1110100"];
+// The first digit is not drawn; it picks the L/G mix of the left half
+const EAN_PARITY = ["LLLLLL", "LLGLGG", "LLGGLG", "LLGGGL", "LGLLGG", "LGGLLG", "LGGGLL", "LGLGLG", "LGLGGL", "LGGLGL"];
+
+// The 95 modules of an EAN-13 symbol, "1" for a bar and "0" for a space
+export function encodeEan13(code: string): string {
+  if (!isValidEan13(code)) {
+    throw new Error(`Invalid EAN-13 code "${code}"`);
+  }
+
+  const parity = EAN_PARITY[Number(code[0])];
+  let modules = "101";
+  for (let i = 1; i <= 6; i++) {
+    const digit = Number(code[i]);
+    modules += parity[i - 1] === "L" ? EAN_L[digit] : EAN_G[digit];
+  }
+  modules += "01010";
+  for (let i = 7; i <= 12; i++) {
+    modules += EAN_R[Number(code[i])];
+  }
+  return modules + "101";
+}
@@ -0,0 +1,62 @@
+import type { BulkPriceChange, BulkPricePreview, BulkPriceUpdate, Category, ProductWithInventory } from "./schema";
+import { isInCategory } from "./product-filter";
+import { channelPriceField } from "./price-schedule";
+import { fromFils, toFils } from "./pricing";
+
+export function matchesBulkPriceFilter(
+  product: ProductWithInventory,
+  filter: BulkPriceUpdate["filter"],
+  categories: Category[],
+): boolean {
+  return (!filter.companyName || product.companyName === filter.companyName) &&
+    (!filter.productType || isInCategory(categories, product.productType, filter.productType)) &&
+    (!filter.status || product.status === filter.status) &&
+    (!filter.productIds || filter.productIds.indexOf(product.id) !== -1);
+}
+
+// Works in fils so a 10% rise on 249.99 does not pick up float drift
+export function applyPriceRule(price: string, rule: Pick<BulkPriceUpdate, "mode" | "amount" | "roundTo" | "roundDirection">): string {
+  const current = toFils(price);
+  let next = rule.mode === "percent"
+    ? Math.round(current * (100 + rule.amount) / 100)
+    : current + toFils(rule.amount);
+
+  const step = toFils(rule.roundTo);
+  if (step > 0 && next > 0) {
+    const round = rule.roundDirection === "up" ? Math.ceil : rule.roundDirection === "down" ? Math.floor : Math.round;
+    next = round(next / step) * step;
+  }
+  return fromFils(next);
+}
+
+export function buildBulkPricePreview(
+  products: ProductWithInventory[],
+  update: BulkPriceUpdate,
+  categories: Category[],
+): BulkPricePreview {
+  const matching = products.filter(product => matchesBulkPriceFilter(product, update.filter, categories));
+  const preview: BulkPricePreview = { matched: matching.length, products: [], invalid: [] };
+
+  matching.forEach((product) => {
+    const item: BulkPriceChange = {
+      productId: product.id,
+      modelNumber: product.modelNumber,
+      companyName: product.companyName,
+      changes: [],
+    };
+    update.channels.forEach((channel) => {
+      const oldPrice = product[channelPriceField(channel)];
+      const newPrice = applyPriceRule(oldPrice, update);
+      if (toFils(newPrice) !== toFils(oldPrice)) {
+        item.changes.push({ channel, oldPrice, newPrice });
+      }
+    });
+
+    if (item.changes.some(change => toFils(change.newPrice) <= 0)) {
+      preview.invalid.push(item);
+    } else if (item.changes.length > 0) {
+      preview.products.push(item);
+    }
+  });
+  return preview;
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { allocateBundlePrice } from "./bundles";
+import { toFils } from "./pricing";
+
+const setTotal = (shares: ReturnType<typeof allocateBundlePrice>) =>
+  shares.reduce((sum, share) => sum + share.quantity * toFils(share.unitPrice), 0);
+
+const piecesOf = (shares: ReturnType<typeof allocateBundlePrice>, component: number) =>
+  shares.filter(share => share.component === component).reduce((sum, share) => sum + share.quantity, 0);
+
+describe("allocateBundlePrice", () => {
+  it("splits the set price in proportion to the list prices", () => {
+    const shares = allocateBundlePrice("300.00", [
+      { quantity: 1, listPrice: "250.00" },
+      { quantity: 1, listPrice: "100.00" },
+    ]);
+    expect(shares).toEqual([
+      { component: 0, quantity: 1, unitPrice: "214.29" },
+      { component: 1, quantity: 1, unitPrice: "85.71" },
+    ]);
+  });
+
+  it("puts the fils left over on one piece when every component has several pieces", () => {
+    const components = [
+      { quantity: 2, listPrice: "33.33" },
+      { quantity: 3, listPrice: "11.11" },
+    ];
+    const shares = allocateBundlePrice("100.00", components);
+    expect(setTotal(shares)).toBe(10000);
+    expect(piecesOf(shares, 0)).toBe(2);
+    expect(piecesOf(shares, 1)).toBe(3);
+    expect(shares).toHaveLength(3);
+  });
+
+  it("shares a set of unpriced components by pieces", () => {
+    const shares = allocateBundlePrice("10.00", [
+      { quantity: 1, listPrice: "0.00" },
+      { quantity: 2, listPrice: "0.00" },
+    ]);
+    expect(setTotal(shares)).toBe(1000);
+  });
+
+  it("always adds up to exactly the set price", () => {
+    const listPrices = ["0.01", "9.99", "33.33", "11.11", "149.50", "7.00"];
+    for (let setFils = 1; setFils <= 100000; setFils += 997) {
+      for (let a = 1; a <= 4; a++) {
+        for (let b = 1; b <= 4; b++) {
+          const components = [
+            { quantity: a, listPrice: listPrices[(setFils + a) % listPrices.length] },
+            { quantity: b, listPrice: listPrices[(setFils + b + 3) % listPrices.length] },
+            { quantity: a + b, listPrice: listPrices[setFils % listPrices.length] },
+          ];
+          const shares = allocateBundlePrice((setFils / 100).toFixed(2), components);
+          expect(setTotal(shares)).toBe(setFils);
+          components.forEach((component, index) => expect(piecesOf(shares, index)).toBe(component.quantity));
+          shares.forEach(share => expect(toFils(share.unitPrice)).toBeGreaterThanOrEqual(0));
+        }
+      }
+    }
+  });
+});
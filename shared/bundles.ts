@@ -0,0 +1,55 @@
+import { fromFils, getChannelPrice, toFils } from "./pricing";
+import type { BundleWithComponents } from "./schema";
+
+// What the components of one set cost bought separately on the channel
+export function bundleSeparatePrice(bundle: BundleWithComponents, channel: string): string {
+  return fromFils(bundle.components.reduce(
+    (sum, component) => sum + component.quantity * toFils(getChannelPrice(component.product, channel)), 0));
+}
+
+// One set's worth of a component at one unit price; `component` indexes the bundle's components
+export interface BundleShare {
+  component: number;
+  quantity: number;
+  unitPrice: string;
+}
+
+// Splits the price of one set over its components in proportion to their own list prices, so
+// reports credit each product with its share of the bundle. The shares always add up to the set
+// price exactly: the rounding remainder goes to components sold one piece per set, and when every
+// component has several pieces per set, one piece of the smallest is split off at a higher price.
+export function allocateBundlePrice(
+  setPrice: string,
+  components: { quantity: number; listPrice: string }[],
+): BundleShare[] {
+  const price = toFils(setPrice);
+  const weights = components.map(component => component.quantity * toFils(component.listPrice));
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  // Components without list prices share the set price by pieces
+  const shareOf = (index: number) => totalWeight > 0
+    ? weights[index] / totalWeight
+    : components[index].quantity / components.reduce((sum, component) => sum + component.quantity, 0);
+
+  const unitPrices = components.map((component, index) => Math.floor(price * shareOf(index) / component.quantity));
+  let remainder = price - unitPrices.reduce((sum, unitPrice, index) => sum + unitPrice * components[index].quantity, 0);
+
+  const byPieces = components.map((_, index) => index).sort((a, b) => components[a].quantity - components[b].quantity);
+  for (let i = 0; i < byPieces.length && remainder > 0; i++) {
+    const index = byPieces[i];
+    const extra = Math.floor(remainder / components[index].quantity);
+    unitPrices[index] += extra;
+    remainder -= extra * components[index].quantity;
+  }
+
+  const shares: BundleShare[] = [];
+  components.forEach((component, index) => {
+    if (remainder > 0 && index === byPieces[0]) {
+      // Less than a fils per piece is left over; one piece carries all of it
+      shares.push({ component: index, quantity: component.quantity - 1, unitPrice: fromFils(unitPrices[index]) });
+      shares.push({ component: index, quantity: 1, unitPrice: fromFils(unitPrices[index] + remainder) });
+    } else {
+      shares.push({ component: index, quantity: component.quantity, unitPrice: fromFils(unitPrices[index]) });
+    }
+  });
+  return shares;
+}
@@ -0,0 +1,46 @@
+import type { Category, Color, SizeSystem } from "./schema";
+
+// The colors and sizes a product in one category may be stocked in
+export interface VariantCatalog {
+  colors: string[];
+  sizes: string[];
+}
+
+// The category's own size system, else the nearest parent's
+export function resolveSizeSystem(
+  categories: Category[],
+  sizeSystems: SizeSystem[],
+  categoryId: string,
+): SizeSystem | undefined {
+  let current = categories.find(category => category.id === categoryId);
+  for (let depth = 0; current && depth <= categories.length; depth++) {
+    if (current.sizeSystemId) {
+      return sizeSystems.find(system => system.id === current!.sizeSystemId);
+    }
+    const parentId: string | null = current.parentId;
+    current = categories.find(category => category.id === parentId);
+  }
+  return undefined;
+}
+
+// A category without a size system anywhere up its tree accepts every size in the catalog
+export function getVariantCatalog(
+  categories: Category[],
+  colors: Color[],
+  sizeSystems: SizeSystem[],
+  categoryId: string,
+): VariantCatalog {
+  const system = resolveSizeSystem(categories, sizeSystems, categoryId);
+  const sizes: string[] = [];
+  (system ? [system] : sizeSystems).forEach((s) => {
+    s.sizes.forEach((size) => {
+      if (sizes.indexOf(size) === -1) sizes.push(size);
+    });
+  });
+
+  return { colors: colors.map(color => color.name), sizes };
+}
+
+export function findInvalidVariants<T extends { color: string; size: string }>(catalog: VariantCatalog, items: T[]): T[] {
+  return items.filter(item => catalog.colors.indexOf(item.color) === -1 || catalog.sizes.indexOf(item.size) === -1);
+}
@@ -0,0 +1,16 @@
+// Uploaded product images are stored as "<name>.webp" next to a "<name>-thumb.webp" thumbnail.
+// Image URLs typed in by hand have no thumbnail and are used as they are.
+const UPLOADED_IMAGE = /^(\/uploads\/.+)\.webp$/;
+
+export function thumbnailUrl(imageUrl: string): string {
+  const match = UPLOADED_IMAGE.exec(imageUrl);
+  return match ? `${match[1]}-thumb.webp` : imageUrl;
+}
+
+// Puts the listed images first, in the listed order, followed by any the list left out
+export function orderImages<T extends { id: string }>(images: T[], imageIds: string[]): T[] {
+  const listed = imageIds
+    .map(id => images.find(image => image.id === id))
+    .filter((image): image is T => image !== undefined);
+  return listed.concat(images.filter(image => imageIds.indexOf(image.id) === -1));
+}
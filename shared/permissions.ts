@@ -0,0 +1,35 @@
+import type { UserRole } from "./schema";
+
+export const PERMISSIONS = [
+  "products:edit",    // Create and update products, prices and inventory
+  "products:delete",
+  "sales:view",
+  "sales:create",
+  "returns:view",
+  "returns:create",
+  "accounting:view",  // Expenses, purchases and the accounting page
+  "accounting:edit",  // Post expenses and purchases
+  "suppliers:edit",   // Create, edit and merge suppliers
+  "stocktake:count",  // See stocktakes and enter counted quantities
+  "stocktake:manage", // Start, approve and cancel stocktakes
+  "users:manage",
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+// Viewing the catalog and dashboard is open to every signed-in role
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  cashier: ["sales:view", "sales:create", "returns:view", "returns:create", "stocktake:count"],
+  manager: PERMISSIONS,
+  accountant: ["sales:view", "returns:view", "accounting:view", "accounting:edit", "suppliers:edit"],
+};
+
+export function hasPermission(role: string | undefined, permission: Permission): boolean {
+  if (!role || !(role in ROLE_PERMISSIONS)) return false;
+  return ROLE_PERMISSIONS[role as UserRole].includes(permission);
+}
+
+// Cost prices and profit are for the roles that buy stock or keep the books
+export function canViewCosts(role: string | undefined): boolean {
+  return hasPermission(role, "accounting:view") || hasPermission(role, "products:edit");
+}
@@ -0,0 +1,35 @@
+import type { InsertProduct, Product, ScheduledPriceChange } from "./schema";
+import { toFils } from "./pricing";
+
+type ChannelPrices = Pick<Product, "storePrice" | "onlinePrice">;
+
+// The product field holding each sales channel's price
+export function channelPriceField(channel: string): keyof ChannelPrices {
+  return channel === "online" ? "onlinePrice" : "storePrice";
+}
+
+// The channel prices an update actually changes; "250" and "250.00" are the same price
+export function changedChannelPrices(
+  before: ChannelPrices,
+  update: Partial<InsertProduct>,
+): { channel: "in-store" | "online"; oldPrice: string; newPrice: string }[] {
+  const changes: { channel: "in-store" | "online"; oldPrice: string; newPrice: string }[] = [];
+  (["in-store", "online"] as const).forEach((channel) => {
+    const field = channelPriceField(channel);
+    const newPrice = update[field];
+    if (newPrice !== undefined && toFils(newPrice) !== toFils(before[field])) {
+      changes.push({ channel, oldPrice: before[field], newPrice });
+    }
+  });
+  return changes;
+}
+
+// Whether two changes to the same channel would fight over the price. A permanent change
+// counts as a single instant, so it may come before or after a temporary one but not inside it.
+export function scheduledChangesOverlap(
+  a: Pick<ScheduledPriceChange, "startsAt" | "endsAt">,
+  b: Pick<ScheduledPriceChange, "startsAt" | "endsAt">,
+): boolean {
+  const end = (change: typeof a) => (change.endsAt ? change.endsAt.getTime() : change.startsAt.getTime() + 1);
+  return a.startsAt.getTime() < end(b) && b.startsAt.getTime() < end(a);
+}
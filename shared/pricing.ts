@@ -0,0 +1,64 @@
+import type { Product, ProductInventory } from "./schema";
+
+// Card payments carry the processor's fee; every other method is free
+export const PAYMENT_METHOD_FEE_RATES: Record<string, number> = {
+  "visa": 0.05,
+};
+
+export function getFeeRate(paymentMethod: string): number {
+  return PAYMENT_METHOD_FEE_RATES[paymentMethod] ?? 0;
+}
+
+export function getChannelPrice(product: Pick<Product, "storePrice" | "onlinePrice">, channel: string): string {
+  return channel === "online" ? product.onlinePrice : product.storePrice;
+}
+
+// Money is summed in fils (1/100 dirham) so totals do not pick up float drift
+export function toFils(amount: string | number): number {
+  return Math.round(parseFloat(String(amount || 0)) * 100);
+}
+
+export function fromFils(fils: number): string {
+  return (fils / 100).toFixed(2);
+}
+
+export function calculateSaleTotals(
+  lines: { quantity: number; unitPrice: string | number }[],
+  paymentMethod: string,
+): { subtotal: string; fees: string; total: string } {
+  const subtotal = lines.reduce((sum, line) => sum + line.quantity * toFils(line.unitPrice), 0);
+  const fees = Math.round(subtotal * getFeeRate(paymentMethod));
+
+  return {
+    subtotal: fromFils(subtotal),
+    fees: fromFils(fees),
+    total: fromFils(subtotal + fees),
+  };
+}
+
+// A variant's own cost wins over the product cost; null means nobody has entered one
+export function getUnitCost(
+  product: Pick<Product, "costPrice">,
+  variant?: Pick<ProductInventory, "costPrice">,
+): string | null {
+  return variant?.costPrice ?? product.costPrice ?? null;
+}
+
+// Margin as a percentage of the selling price, or null when there is no cost to compare against
+export function calculateMargin(price: string | number, cost: string | number | null | undefined): number | null {
+  if (cost === null || cost === undefined || cost === "") return null;
+  const priceFils = toFils(price);
+  if (priceFils <= 0) return null;
+  return ((priceFils - toFils(cost)) / priceFils) * 100;
+}
+
+export function formatMargin(margin: number | null): string {
+  return margin === null ? "—" : `${margin.toFixed(1)}%`;
+}
+
+// Lines sold without a known cost are left out rather than counted as pure profit
+export function calculateGrossProfit(lines: { quantity: number; unitPrice: string; unitCost: string | null }[]): string {
+  const profit = lines.reduce((sum, line) =>
+    line.unitCost === null ? sum : sum + line.quantity * (toFils(line.unitPrice) - toFils(line.unitCost)), 0);
+  return fromFils(profit);
+}
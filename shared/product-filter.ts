@@ -0,0 +1,93 @@
+import { z } from "zod";
+import type { Category, ProductWithInventory } from "./schema";
+import { toFils } from "./pricing";
+import { matchesSearch } from "./search";
+
+export const PRODUCT_SORT_FIELDS = [
+  "createdAt", "modelNumber", "companyName", "storePrice", "onlinePrice", "totalQuantity"
+] as const;
+
+const priceBound = z.string().trim().regex(/^(\d+(\.\d{1,2})?)?$/).default("");
+
+// The inventory table's search, filters and sort, as carried in its URL; exports apply the same filter
+export const productFilterSchema = z.object({
+  search: z.string().default(""),
+  status: z.enum(["all", "in-stock", "low-stock", "out-of-stock"]).default("all"),
+  category: z.string().default("all"), // Category id, subcategories included
+  company: z.string().default("all"),
+  minPrice: priceBound, // Store price bounds, inclusive; blank for none
+  maxPrice: priceBound,
+  sort: z.enum(PRODUCT_SORT_FIELDS).default("createdAt"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+});
+
+export const productListQuerySchema = productFilterSchema.extend({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(24),
+});
+
+export type ProductFilter = z.infer<typeof productFilterSchema>;
+export type ProductListQuery = z.infer<typeof productListQuerySchema>;
+
+export const DEFAULT_PRODUCT_FILTER: ProductFilter = productFilterSchema.parse({});
+export const DEFAULT_PRODUCT_LIST_QUERY: ProductListQuery = productListQuerySchema.parse({});
+
+// One page of the filtered catalog; `total` counts every match
+export interface ProductPage {
+  items: ProductWithInventory[];
+  total: number;
+  page: number;
+  limit: number;
+  pageCount: number;
+}
+
+// True when `id` is `ancestorId` or one of its subcategories at any depth
+export function isInCategory(categories: Category[], id: string, ancestorId: string): boolean {
+  let current: string | null | undefined = id;
+  for (let depth = 0; current && depth <= categories.length; depth++) {
+    if (current === ancestorId) return true;
+    current = categories.find(category => category.id === current)?.parentId;
+  }
+  return false;
+}
+
+// The category and all of its subcategories
+export function categorySubtree(categories: Category[], ancestorId: string): string[] {
+  return categories.filter(category => isInCategory(categories, category.id, ancestorId)).map(category => category.id);
+}
+
+export function filterProducts<T extends ProductWithInventory>(
+  products: T[],
+  filter: ProductFilter,
+  categories: Category[],
+): T[] {
+  return products.filter((product) => {
+    const matchesText = matchesSearch(filter.search, product.modelNumber, product.companyName);
+    const matchesStatus = filter.status === "all" || product.status === filter.status;
+    const matchesCategory = filter.category === "all" || isInCategory(categories, product.productType, filter.category);
+    const matchesCompany = filter.company === "all" || product.companyName === filter.company;
+    const matchesPrice = (!filter.minPrice || toFils(product.storePrice) >= toFils(filter.minPrice)) &&
+                         (!filter.maxPrice || toFils(product.storePrice) <= toFils(filter.maxPrice));
+    return matchesText && matchesStatus && matchesCategory && matchesCompany && matchesPrice;
+  });
+}
+
+// Returns a sorted copy; ties keep a stable order by model number
+export function sortProducts<T extends ProductWithInventory>(products: T[], sort: ProductFilter["sort"], order: ProductFilter["order"]): T[] {
+  const value = (product: T): number | string => {
+    switch (sort) {
+      case "createdAt": return new Date(product.createdAt).getTime();
+      case "storePrice": return toFils(product.storePrice);
+      case "onlinePrice": return toFils(product.onlinePrice);
+      case "totalQuantity": return product.totalQuantity;
+      default: return product[sort];
+    }
+  };
+  const direction = order === "asc" ? 1 : -1;
+  return products.slice().sort((a, b) => {
+    const x = value(a);
+    const y = value(b);
+    const compared = typeof x === "string" ? x.localeCompare(y as string) : x - (y as number);
+    return compared * direction || a.modelNumber.localeCompare(b.modelNumber);
+  });
+}
@@ -0,0 +1,46 @@
+import type { Category, Product, ProductInventory, ProductWithInventory } from "./schema";
+
+// Used when neither the variant, its product nor any category up the tree sets a reorder point
+export const DEFAULT_REORDER_POINT = 3;
+
+// The category's own reorder point, else the nearest parent's, else the default
+export function resolveCategoryReorderPoint(categories: Category[], categoryId: string): number {
+  let current = categories.find(category => category.id === categoryId);
+  for (let depth = 0; current && depth <= categories.length; depth++) {
+    if (current.reorderPoint !== null) {
+      return current.reorderPoint;
+    }
+    const parentId: string | null = current.parentId;
+    current = categories.find(category => category.id === parentId);
+  }
+  return DEFAULT_REORDER_POINT;
+}
+
+export function variantReorderPoint(
+  variant: Pick<ProductInventory, "reorderPoint">,
+  product: Pick<Product, "reorderPoint">,
+  categoryReorderPoint: number,
+): number {
+  return variant.reorderPoint ?? product.reorderPoint ?? categoryReorderPoint;
+}
+
+// A variant needs reordering once its quantity falls below its reorder point, so 0 turns the alert off
+export function isBelowReorderPoint(quantity: number, reorderPoint: number): boolean {
+  return quantity < reorderPoint;
+}
+
+// Out of stock when nothing is left at all; low when any single color/size is below its reorder
+// point, even while the other sizes are plentiful
+export function productStockStatus(
+  product: Pick<Product, "reorderPoint">,
+  inventory: Pick<ProductInventory, "quantity" | "reorderPoint">[],
+  categoryReorderPoint: number,
+): ProductWithInventory["status"] {
+  const totalQuantity = inventory.reduce((sum, item) => sum + item.quantity, 0);
+  if (totalQuantity === 0) {
+    return "out-of-stock";
+  }
+  const low = inventory.some(item =>
+    isBelowReorderPoint(item.quantity, variantReorderPoint(item, product, categoryReorderPoint)));
+  return low ? "low-stock" : "in-stock";
+}
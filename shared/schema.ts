@@ -1,21 +1,83 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, decimal, timestamp, integer } from "drizzle-orm/pg-core";
+import { pgTable, pgSequence, text, varchar, decimal, timestamp, integer, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Users table - store employees who can sign in
+export const users = pgTable("users", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  username: text("username").notNull().unique(),
+  displayName: text("display_name").notNull(),
+  role: text("role").notNull().default("cashier"), // See USER_ROLES
+  passwordHash: text("password_hash").notNull(), // scrypt "hash.salt", see server/auth.ts
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Colors table - the catalog variants pick their color from; variants store the name
+export const colors = pgTable("colors", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull().unique(),
+  hex: text("hex").notNull(), // Swatch shown next to the name, "#RRGGBB"
+  sortOrder: integer("sort_order").notNull().default(0),
+});
+
+// Size systems table - an ordered list of sizes, e.g. numeric 36-60 or S-XXL
+export const sizeSystems = pgTable("size_systems", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`), // The seeded systems use readable ids
+  nameAr: text("name_ar").notNull(),
+  sizes: text("sizes").array().notNull(),
+});
+
+// Categories table - the id is a readable slug, stored on products as productType
+export const categories = pgTable("categories", {
+  id: text("id").primaryKey(),
+  nameAr: text("name_ar").notNull(),
+  nameEn: text("name_en").notNull(),
+  parentId: text("parent_id").references((): AnyPgColumn => categories.id),
+  sizeSystemId: varchar("size_system_id").references(() => sizeSystems.id), // Null inherits the parent's
+  reorderPoint: integer("reorder_point"), // Default for its products' variants; null inherits the parent's
+  sortOrder: integer("sort_order").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Suppliers table - products and purchases point at it and keep a copy of the name
+export const suppliers = pgTable("suppliers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull().unique(),
+  contactName: text("contact_name"),
+  phone: text("phone"),
+  email: text("email"),
+  address: text("address"),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 // Products table
 export const products = pgTable("products", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   modelNumber: text("model_number").notNull().unique(),
-  companyName: text("company_name").notNull(),
-  productType: text("product_type").notNull(),
+  companyName: text("company_name").notNull(), // The supplier's name, kept in step with it
+  supplierId: varchar("supplier_id").references(() => suppliers.id), // Null only before server/suppliers.ts links it
+  productType: text("product_type").notNull(), // Category id
   storePrice: decimal("store_price", { precision: 10, scale: 2 }).notNull(),
   onlinePrice: decimal("online_price", { precision: 10, scale: 2 }).notNull(),
+  costPrice: decimal("cost_price", { precision: 10, scale: 2 }), // What we pay per piece; null until known
+  reorderPoint: integer("reorder_point"), // Overrides the category's for every variant; see shared/reorder.ts
   imageUrl: text("image_url"),
   specifications: text("specifications"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Product images table - the gallery; products.imageUrl stays the cover shown in lists
+export const productImages = pgTable("product_images", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  productId: varchar("product_id").notNull().references(() => products.id),
+  url: text("url").notNull(), // See shared/images.ts for thumbnails
+  color: text("color"), // The variant color it shows; null for pictures of the whole product
+  sortOrder: integer("sort_order").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 // Product inventory table
 export const productInventory = pgTable("product_inventory", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -23,6 +85,32 @@ export const productInventory = pgTable("product_inventory", {
   color: text("color").notNull(),
   size: text("size").notNull(),
   quantity: integer("quantity").notNull().default(0),
+  costPrice: decimal("cost_price", { precision: 10, scale: 2 }), // Overrides the product cost for this variant
+  reorderPoint: integer("reorder_point"), // Overrides the product's reorder point for this variant
+  sku: text("sku").unique(), // Assigned by storage when the variant is created, see shared/barcode.ts
+  barcode: text("barcode").unique(), // EAN-13
+});
+
+// Numbers the variant barcodes; never reused, even when a variant is deleted
+export const variantBarcodeSequence = pgSequence("variant_barcode_seq");
+
+// Bundles table - a set of variants sold together at the set's own price, e.g. an abaya with its hijab
+export const bundles = pgTable("bundles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull().unique(),
+  storePrice: decimal("store_price", { precision: 10, scale: 2 }).notNull(),
+  onlinePrice: decimal("online_price", { precision: 10, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Bundle components table - the variants in one set and how many pieces of each
+export const bundleComponents = pgTable("bundle_components", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  bundleId: varchar("bundle_id").notNull().references(() => bundles.id),
+  productId: varchar("product_id").notNull().references(() => products.id),
+  color: text("color").notNull(),
+  size: text("size").notNull(),
+  quantity: integer("quantity").notNull().default(1), // Pieces per set
 });
 
 // Sales table
@@ -37,6 +125,7 @@ export const sales = pgTable("sales", {
   subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull(),
   fees: decimal("fees", { precision: 10, scale: 2 }).notNull().default("0"),
   total: decimal("total", { precision: 10, scale: 2 }).notNull(),
+  createdBy: varchar("created_by").references(() => users.id), // Employee signed in when it was recorded
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -49,6 +138,12 @@ export const saleItems = pgTable("sale_items", {
   size: text("size").notNull(),
   quantity: integer("quantity").notNull(),
   unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(),
+  listPrice: decimal("list_price", { precision: 10, scale: 2 }), // Channel price at the time of sale
+  priceOverrideReason: text("price_override_reason"), // Set when unitPrice differs from listPrice
+  unitCost: decimal("unit_cost", { precision: 10, scale: 2 }), // Cost at the time of sale; null if unknown then
+  // Set when the item is one component of a bundle sold as one line; unitPrice is then its share
+  // of the bundle price (see shared/bundles.ts) and listPrice its own channel price
+  bundleId: varchar("bundle_id").references(() => bundles.id),
 });
 
 // Returns table
@@ -61,6 +156,7 @@ export const returns = pgTable("returns", {
   newColor: text("new_color"), // For exchanges
   newSize: text("new_size"), // For exchanges
   refundAmount: decimal("refund_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  createdBy: varchar("created_by").references(() => users.id), // Employee signed in when it was recorded
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -74,12 +170,97 @@ export const returnItems = pgTable("return_items", {
   quantity: integer("quantity").notNull(),
 });
 
+// Stocktakes table - a physical count of every variant in one category (with its subcategories) or
+// the whole store. Counting sessions compare against the live inventory; approving posts the variances
+export const stocktakes = pgTable("stocktakes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  categoryId: text("category_id").references(() => categories.id), // Null counts every product
+  status: text("status").notNull().default("counting"), // See STOCKTAKE_STATUSES
+  notes: text("notes"),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  closedBy: varchar("closed_by").references(() => users.id), // The manager who approved or cancelled it
+  closedAt: timestamp("closed_at"),
+});
+
+// Stocktake lines table - one per variant in scope when the session started
+export const stocktakeLines = pgTable("stocktake_lines", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  stocktakeId: varchar("stocktake_id").notNull().references(() => stocktakes.id),
+  productId: varchar("product_id").notNull().references(() => products.id),
+  color: text("color").notNull(),
+  size: text("size").notNull(),
+  countedQuantity: integer("counted_quantity"), // Null until counted; uncounted lines are not adjusted
+  systemQuantity: integer("system_quantity"), // Saved with each count; approval posts counted minus this
+  unitCost: decimal("unit_cost", { precision: 10, scale: 2 }), // Snapshotted on approval for the variance report
+});
+
+// Stock adjustments table - stock written off or found outside a sale, return or count, never updated
+export const stockAdjustments = pgTable("stock_adjustments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  productId: varchar("product_id").notNull().references(() => products.id),
+  color: text("color").notNull(),
+  size: text("size").notNull(),
+  delta: integer("delta").notNull(), // Signed; only found stock is positive
+  reason: text("reason").notNull(), // See STOCK_ADJUSTMENT_REASONS
+  note: text("note"),
+  unitCost: decimal("unit_cost", { precision: 10, scale: 2 }), // Cost when adjusted; null if unknown
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Stock movements table - one row per inventory change, never updated
+export const stockMovements = pgTable("stock_movements", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  productId: varchar("product_id").notNull().references(() => products.id),
+  color: text("color").notNull(),
+  size: text("size").notNull(),
+  delta: integer("delta").notNull(), // Signed change in quantity
+  balance: integer("balance").notNull(), // Quantity after the change
+  reason: text("reason").notNull(), // See STOCK_MOVEMENT_REASONS
+  saleId: varchar("sale_id").references(() => sales.id),
+  returnId: varchar("return_id").references(() => returns.id),
+  stocktakeId: varchar("stocktake_id").references(() => stocktakes.id),
+  adjustmentId: varchar("adjustment_id").references(() => stockAdjustments.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Scheduled price changes - a channel price that takes effect at startsAt and, when endsAt is set,
+// is reverted then. Applied by server/price-scheduler.ts
+export const scheduledPriceChanges = pgTable("scheduled_price_changes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  productId: varchar("product_id").notNull().references(() => products.id),
+  channel: text("channel").notNull(), // 'in-store' or 'online'
+  price: decimal("price", { precision: 10, scale: 2 }).notNull(),
+  startsAt: timestamp("starts_at").notNull(),
+  endsAt: timestamp("ends_at"), // Null for a permanent change
+  status: text("status").notNull().default("pending"), // See SCHEDULED_PRICE_STATUSES
+  previousPrice: decimal("previous_price", { precision: 10, scale: 2 }), // Replaced price, restored at endsAt
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Price history table - one row per change of a channel price, never updated
+export const priceHistory = pgTable("price_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  productId: varchar("product_id").notNull().references(() => products.id),
+  channel: text("channel").notNull(), // 'in-store' or 'online'
+  oldPrice: decimal("old_price", { precision: 10, scale: 2 }), // Null for the price a product was created with
+  newPrice: decimal("new_price", { precision: 10, scale: 2 }).notNull(),
+  reason: text("reason").notNull(), // See PRICE_CHANGE_REASONS
+  scheduledChangeId: varchar("scheduled_change_id").references(() => scheduledPriceChanges.id),
+  changedBy: varchar("changed_by").references(() => users.id), // Null when the scheduler made the change
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 // Expenses table
 export const expenses = pgTable("expenses", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
   description: text("description").notNull(),
   category: text("category").notNull(),
+  createdBy: varchar("created_by").references(() => users.id), // Employee signed in when it was recorded
   date: timestamp("date").defaultNow().notNull(),
 });
 
@@ -88,19 +269,117 @@ export const purchases = pgTable("purchases", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
   description: text("description").notNull(),
-  supplier: text("supplier").notNull(),
+  supplier: text("supplier").notNull(), // The supplier's name, kept in step with it
+  supplierId: varchar("supplier_id").references(() => suppliers.id),
+  createdBy: varchar("created_by").references(() => users.id), // Employee signed in when it was recorded
   date: timestamp("date").defaultNow().notNull(),
 });
 
 // Insert schemas
+export const insertUserSchema = createInsertSchema(users).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Account creation takes a plain password; only its hash is stored
+export const createUserSchema = insertUserSchema.omit({
+  passwordHash: true,
+}).extend({
+  username: z.string().trim().min(3),
+  displayName: z.string().trim().min(1),
+  role: z.enum(["cashier", "manager", "accountant"]),
+  password: z.string().min(6),
+});
+
+export const loginSchema = z.object({
+  username: z.string().min(1),
+  password: z.string().min(1),
+});
+
+export const insertCategorySchema = createInsertSchema(categories).omit({
+  id: true, // Derived from the English name on the server
+  createdAt: true,
+}).extend({
+  nameAr: z.string().trim().min(1),
+  nameEn: z.string().trim().min(1),
+  parentId: z.string().nullable().optional(),
+  sizeSystemId: z.string().nullable().optional(),
+  reorderPoint: z.number().int().min(0).nullable().optional(),
+  sortOrder: z.number().int().optional(),
+});
+
+export const insertColorSchema = createInsertSchema(colors).omit({
+  id: true,
+}).extend({
+  name: z.string().trim().min(1),
+  hex: z.string().regex(/^#[0-9a-fA-F]{6}$/),
+  sortOrder: z.number().int().optional(),
+});
+
+// The name is what variants store, so only the swatch and position can change later
+export const updateColorSchema = insertColorSchema.pick({
+  hex: true,
+  sortOrder: true,
+}).partial();
+
+export const insertSizeSystemSchema = createInsertSchema(sizeSystems).omit({
+  id: true,
+}).extend({
+  nameAr: z.string().trim().min(1),
+  sizes: z.array(z.string().trim().min(1)).min(1),
+});
+
+export const insertSupplierSchema = createInsertSchema(suppliers).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  name: z.string().trim().min(1),
+});
+
+// Images go through /api/uploads/images; inline data URLs would bloat every product row
+const notInlineImage = (url: string) => !/^data:/i.test(url);
+
 export const insertProductSchema = createInsertSchema(products).omit({
   id: true,
   createdAt: true,
+}).extend({
+  imageUrl: z.string().trim().refine(notInlineImage, "Upload the image instead of embedding it").nullable().optional(),
+  reorderPoint: z.number().int().min(0).nullable().optional(),
+});
+
+export const insertProductImageSchema = createInsertSchema(productImages).omit({
+  id: true,
+  productId: true, // Taken from the URL
+  sortOrder: true, // New images go last; see the reorder endpoint
+  createdAt: true,
+}).extend({
+  url: z.string().trim().min(1).refine(notInlineImage, "Upload the image instead of embedding it"),
+  color: z.string().nullable().optional(),
+});
+
+export const insertBundleComponentSchema = createInsertSchema(bundleComponents).omit({
+  id: true,
+  bundleId: true,
+}).extend({
+  quantity: z.number().int().min(1),
+});
+
+// A bundle is saved together with its full list of components
+export const insertBundleSchema = createInsertSchema(bundles).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  name: z.string().trim().min(1),
+  components: z.array(insertBundleComponentSchema).min(1),
 });
 
 export const insertProductInventorySchema = createInsertSchema(productInventory).omit({
   id: true,
   productId: true, // This will be added on the server side
+  sku: true,
+  barcode: true,
+}).extend({
+  reorderPoint: z.number().int().min(0).nullable().optional(),
 });
 
 export const insertSaleSchema = createInsertSchema(sales).omit({
@@ -114,6 +393,35 @@ export const insertSaleItemSchema = createInsertSchema(saleItems).omit({
   saleId: true,
 });
 
+// What the sale form submits: prices and totals are recomputed on the server.
+// Client totals are optional and only used to detect a stale or tampered form.
+export const saleRequestSchema = insertSaleSchema.extend({
+  subtotal: z.string().optional(),
+  fees: z.string().optional(),
+  total: z.string().optional(),
+});
+
+export const saleRequestItemSchema = insertSaleItemSchema.pick({
+  productId: true,
+  color: true,
+  size: true,
+  quantity: true,
+}).extend({
+  quantity: z.number().int().min(1),
+  unitPrice: z.string().optional(), // Only needed for a manual override
+  priceOverrideReason: z.string().optional(),
+});
+
+// A bundle sold as one line; the server records one sale item per component
+export const saleRequestBundleItemSchema = z.object({
+  bundleId: z.string().min(1),
+  quantity: z.number().int().min(1), // Sets
+  unitPrice: z.string().optional(), // Price per set, only needed for a manual override
+  priceOverrideReason: z.string().optional(),
+});
+
+export const saleRequestLineSchema = z.union([saleRequestItemSchema, saleRequestBundleItemSchema]);
+
 export const insertReturnSchema = createInsertSchema(returns).omit({
   id: true,
   createdAt: true,
@@ -132,23 +440,135 @@ export const insertPurchaseSchema = createInsertSchema(purchases).omit({
   id: true,
 });
 
+export const insertStocktakeSchema = createInsertSchema(stocktakes).pick({
+  name: true,
+  categoryId: true,
+  notes: true,
+}).extend({
+  name: z.string().trim().min(1),
+  categoryId: z.string().nullable().optional(),
+  notes: z.string().nullable().optional(),
+});
+
+// Counted quantities replace what was entered before; a null count clears the line
+export const stocktakeCountSchema = z.object({
+  productId: z.string().min(1),
+  color: z.string().min(1),
+  size: z.string().min(1),
+  countedQuantity: z.number().int().min(0).nullable(),
+});
+
+// Found stock adds pieces; every other reason takes them away
+export const insertStockAdjustmentSchema = createInsertSchema(stockAdjustments).pick({
+  productId: true,
+  color: true,
+  size: true,
+  delta: true,
+  reason: true,
+  note: true,
+}).extend({
+  productId: z.string().min(1),
+  color: z.string().min(1),
+  size: z.string().min(1),
+  delta: z.number().int().refine(delta => delta !== 0, "Delta cannot be zero"),
+  reason: z.enum(["damaged", "lost", "gift", "sample", "found"]),
+  note: z.string().trim().nullable().optional(),
+}).refine(adjustment => (adjustment.reason === "found") === (adjustment.delta > 0), {
+  message: "Only found stock can increase the quantity",
+  path: ["delta"],
+});
+
+// Which products a bulk price update touches (all conditions must hold; `productIds` is a hand-picked
+// list) and how their channel prices change. `amount` is a percentage or dirhams, negative to lower,
+// and the result is rounded to a multiple of `roundTo` when it is above zero.
+export const bulkPriceUpdateSchema = z.object({
+  filter: z.object({
+    companyName: z.string().optional(),
+    productType: z.string().optional(), // Includes subcategories
+    status: z.enum(["in-stock", "low-stock", "out-of-stock"]).optional(),
+    productIds: z.array(z.string()).min(1).optional(),
+  }),
+  channels: z.array(z.enum(["in-store", "online"])).min(1),
+  mode: z.enum(["percent", "fixed"]),
+  amount: z.number().refine(amount => amount !== 0, "amount must not be zero"),
+  roundTo: z.number().min(0).default(0),
+  roundDirection: z.enum(["nearest", "up", "down"]).default("nearest"),
+});
+
+export const insertScheduledPriceChangeSchema = createInsertSchema(scheduledPriceChanges).omit({
+  id: true,
+  productId: true, // Taken from the URL
+  status: true,
+  previousPrice: true,
+  createdBy: true,
+  createdAt: true,
+}).extend({
+  channel: z.enum(["in-store", "online"]),
+  price: z.string().regex(/^\d+(\.\d{1,2})?$/),
+  startsAt: z.coerce.date(),
+  endsAt: z.coerce.date().nullable().optional(),
+}).refine(data => !data.endsAt || data.endsAt > data.startsAt, {
+  message: "endsAt must be after startsAt",
+  path: ["endsAt"],
+});
+
 // Types
+export type User = typeof users.$inferSelect;
+export type InsertUser = z.infer<typeof insertUserSchema>;
+export type CreateUser = z.infer<typeof createUserSchema>;
+export type SafeUser = Omit<User, "passwordHash">;
+export type UserRole = typeof USER_ROLES[number];
+export type Color = typeof colors.$inferSelect;
+export type InsertColor = z.infer<typeof insertColorSchema>;
+export type UpdateColor = z.infer<typeof updateColorSchema>;
+export type SizeSystem = typeof sizeSystems.$inferSelect;
+export type InsertSizeSystem = z.infer<typeof insertSizeSystemSchema>;
+export type Category = typeof categories.$inferSelect;
+export type InsertCategory = z.infer<typeof insertCategorySchema>;
+export type Supplier = typeof suppliers.$inferSelect;
+export type InsertSupplier = z.infer<typeof insertSupplierSchema>;
 export type Product = typeof products.$inferSelect;
 export type InsertProduct = z.infer<typeof insertProductSchema>;
+export type ProductImage = typeof productImages.$inferSelect;
+export type InsertProductImage = z.infer<typeof insertProductImageSchema>;
+export type Bundle = typeof bundles.$inferSelect;
+export type BundleComponent = typeof bundleComponents.$inferSelect;
+export type InsertBundle = z.infer<typeof insertBundleSchema>;
+export type InsertBundleComponent = z.infer<typeof insertBundleComponentSchema>;
 export type ProductInventory = typeof productInventory.$inferSelect;
 export type InsertProductInventory = z.infer<typeof insertProductInventorySchema>;
 export type Sale = typeof sales.$inferSelect;
 export type InsertSale = z.infer<typeof insertSaleSchema>;
 export type SaleItem = typeof saleItems.$inferSelect;
 export type InsertSaleItem = z.infer<typeof insertSaleItemSchema>;
+export type SaleRequest = z.infer<typeof saleRequestSchema>;
+export type SaleRequestItem = z.infer<typeof saleRequestItemSchema>;
+export type SaleRequestBundleItem = z.infer<typeof saleRequestBundleItemSchema>;
+export type SaleRequestLine = z.infer<typeof saleRequestLineSchema>;
+export type BulkPriceUpdate = z.infer<typeof bulkPriceUpdateSchema>;
 export type Return = typeof returns.$inferSelect;
 export type InsertReturn = z.infer<typeof insertReturnSchema>;
 export type ReturnItem = typeof returnItems.$inferSelect;
 export type InsertReturnItem = z.infer<typeof insertReturnItemSchema>;
+export type StockMovement = typeof stockMovements.$inferSelect;
+export type StockMovementReason = typeof STOCK_MOVEMENT_REASONS[number];
+export type ScheduledPriceChange = typeof scheduledPriceChanges.$inferSelect;
+export type InsertScheduledPriceChange = z.infer<typeof insertScheduledPriceChangeSchema>;
+export type ScheduledPriceStatus = typeof SCHEDULED_PRICE_STATUSES[number];
+export type PriceChange = typeof priceHistory.$inferSelect;
+export type PriceChangeReason = typeof PRICE_CHANGE_REASONS[number];
 export type Expense = typeof expenses.$inferSelect;
 export type InsertExpense = z.infer<typeof insertExpenseSchema>;
 export type Purchase = typeof purchases.$inferSelect;
 export type InsertPurchase = z.infer<typeof insertPurchaseSchema>;
+export type Stocktake = typeof stocktakes.$inferSelect;
+export type InsertStocktake = z.infer<typeof insertStocktakeSchema>;
+export type StocktakeLine = typeof stocktakeLines.$inferSelect;
+export type StocktakeCount = z.infer<typeof stocktakeCountSchema>;
+export type StocktakeStatus = typeof STOCKTAKE_STATUSES[number];
+export type StockAdjustment = typeof stockAdjustments.$inferSelect;
+export type InsertStockAdjustment = z.infer<typeof insertStockAdjustmentSchema>;
+export type StockAdjustmentReason = typeof STOCK_ADJUSTMENT_REASONS[number];
 
 // Extended types
 export interface ProductWithInventory extends Product {
@@ -157,26 +577,184 @@ export interface ProductWithInventory extends Product {
   status: 'in-stock' | 'low-stock' | 'out-of-stock';
 }
 
+export interface SupplierWithStats extends Supplier {
+  productCount: number;
+  purchaseCount: number;
+  totalSpend: string; // Sum of the supplier's purchases
+}
+
+export interface SupplierDetails extends SupplierWithStats {
+  products: ProductWithInventory[];
+  purchases: Purchase[]; // Newest first
+}
+
+export interface BundleWithComponents extends Bundle {
+  components: (BundleComponent & { product: Product })[];
+}
+
+// A variant resolved from a scanned barcode or SKU
+export interface InventoryLookup extends ProductInventory {
+  product: Product;
+}
+
+export interface StocktakeWithProgress extends Stocktake {
+  lineCount: number;
+  countedCount: number;
+}
+
+export interface StocktakeLineDetails extends StocktakeLine {
+  product: Product;
+  systemQuantity: number; // Saved with the count; the live inventory for lines not counted yet
+  variance: number | null; // Counted minus system quantity; null while uncounted
+}
+
+// The variance report of one session
+export interface StocktakeSummary {
+  shortUnits: number; // Pieces missing from the shelves
+  overUnits: number; // Pieces found beyond the books
+  valueImpact: string; // Variance at unit cost, negative for a loss
+  uncostedLines: number; // Variances left out of valueImpact because the variant has no cost
+}
+
+export interface StocktakeDetails extends StocktakeWithProgress {
+  lines: StocktakeLineDetails[];
+  summary: StocktakeSummary;
+}
+
+// A variant whose quantity has fallen below its reorder point
+export interface LowStockVariant extends InventoryLookup {
+  threshold: number; // The reorder point that applies, after falling back to the product and category
+}
+
+export interface PriceChangeWithUser extends PriceChange {
+  changedByName: string | null;
+}
+
+// Who and what is behind a price change, recorded with it in the price history
+export interface PriceChangeContext {
+  reason: PriceChangeReason;
+  changedBy?: string | null;
+  scheduledChangeId?: string;
+}
+
 export interface SaleWithItems extends Sale {
   items: (SaleItem & { product: Product })[];
+  createdByName: string | null;
 }
 
 export interface ReturnWithItems extends Return {
   items: (ReturnItem & { product: Product })[];
   originalSale: Sale;
+  createdByName: string | null;
+}
+
+// One row per employee; totals are formatted dirham amounts like the money columns
+export interface EmployeeSummary {
+  userId: string;
+  displayName: string;
+  salesCount: number;
+  salesTotal: string;
+  returnsCount: number;
+  refundTotal: string;
+}
+
+// Units and revenue per product; bundle sales count towards their components at their share of the set price
+export interface ProductSalesSummary {
+  productId: string;
+  modelNumber: string;
+  companyName: string;
+  quantity: number;
+  revenue: string;
+  bundleRevenue: string; // The part of revenue that came from bundles
+  grossProfit: string; // Lines without a known cost are left out, see calculateGrossProfit
+}
+
+export interface StockAdjustmentWithDetails extends StockAdjustment {
+  product: Product;
+  createdByName: string | null;
+}
+
+// Pieces and their value at cost per adjustment reason; both negative for stock written off
+export interface StockAdjustmentReasonSummary {
+  reason: StockAdjustmentReason;
+  count: number;
+  units: number;
+  value: string;
+  uncostedCount: number; // Adjustments left out of value because the variant had no cost
+}
+
+export interface StockAdjustmentReport {
+  reasons: StockAdjustmentReasonSummary[];
+  units: number;
+  value: string;
+  uncostedCount: number;
+}
+
+// One product from an import file, with the variant quantities to set
+export interface ProductImport {
+  product: InsertProduct;
+  variants: { color: string; size: string; quantity: number }[];
+}
+
+// `row` is the spreadsheet row number, counting the header as row 1
+export interface ImportRowError {
+  row: number;
+  message: string;
+}
+
+export interface ImportPreview {
+  rowCount: number;
+  products: (ProductImport & { action: "create" | "update" })[];
+  errors: ImportRowError[];
+}
+
+export interface BulkPriceChange {
+  productId: string;
+  modelNumber: string;
+  companyName: string;
+  changes: { channel: "in-store" | "online"; oldPrice: string; newPrice: string }[];
+}
+
+// Products whose price would reach zero or below are listed in `invalid` and block the update
+export interface BulkPricePreview {
+  matched: number; // Products matching the filter, including those whose price does not change
+  products: BulkPriceChange[];
+  invalid: BulkPriceChange[];
+}
+
+// A sale line that could not be fulfilled; `line` is the index in the submitted items
+export interface StockShortage {
+  line: number;
+  productId: string;
+  color: string;
+  size: string;
+  requested: number;
+  available: number;
 }
 
 // Constants
-export const COLORS = [
-  "أسود", "أبيض", "أحمر", "أزرق", "أخضر", "وردي"
+// Seeded into empty catalog tables on startup
+export const DEFAULT_COLORS = [
+  { name: "أسود", hex: "#000000" },
+  { name: "أبيض", hex: "#FFFFFF" },
+  { name: "أحمر", hex: "#DC2626" },
+  { name: "أزرق", hex: "#2563EB" },
+  { name: "أخضر", hex: "#16A34A" },
+  { name: "وردي", hex: "#EC4899" },
 ] as const;
 
-export const SIZES = [
-  "36", "38", "40", "42", "44", "46", "48", "50"
+export const DEFAULT_SIZE_SYSTEMS = [
+  { id: "numeric", nameAr: "مقاسات رقمية", sizes: ["36", "38", "40", "42", "44", "46", "48", "50", "52", "54", "56", "58", "60"] },
+  { id: "letter", nameAr: "مقاسات حرفية", sizes: ["S", "M", "L", "XL", "XXL"] },
+  { id: "one-size", nameAr: "مقاس واحد", sizes: ["OS"] },
 ] as const;
 
-export const PRODUCT_TYPES = [
-  "dress", "evening-wear", "hijab", "abaya", "accessories"
+export const DEFAULT_CATEGORIES = [
+  { id: "dress", nameAr: "فستان", nameEn: "Dress", sizeSystemId: "numeric" },
+  { id: "evening-wear", nameAr: "فستان سهرة", nameEn: "Evening wear", sizeSystemId: "numeric" },
+  { id: "hijab", nameAr: "حجاب", nameEn: "Hijab", sizeSystemId: "one-size" },
+  { id: "abaya", nameAr: "عباية", nameEn: "Abaya", sizeSystemId: "numeric" },
+  { id: "accessories", nameAr: "إكسسوارات", nameEn: "Accessories", sizeSystemId: "one-size" },
 ] as const;
 
 export const SALES_CHANNELS = [
@@ -190,3 +768,25 @@ export const PAYMENT_METHODS = [
 export const RETURN_TYPES = [
   "refund", "exchange"
 ] as const;
+
+export const STOCK_MOVEMENT_REASONS = [
+  "sale", "return", "exchange", "manual-edit", "receipt", "import", "stocktake", "adjustment"
+] as const;
+
+export const STOCK_ADJUSTMENT_REASONS = ["damaged", "lost", "gift", "sample", "found"] as const;
+
+export const STOCKTAKE_STATUSES = ["counting", "approved", "cancelled"] as const;
+
+export const PRICE_CHANGE_REASONS = [
+  "created", "manual-edit", "import", "schedule-start", "schedule-end", "bulk-update"
+] as const;
+
+// pending -> active -> completed, or cancelled before it ends. A change without endsAt
+// goes straight from pending to completed since there is nothing to revert.
+export const SCHEDULED_PRICE_STATUSES = [
+  "pending", "active", "completed", "cancelled"
+] as const;
+
+export const USER_ROLES = [
+  "cashier", "manager", "accountant"
+] as const;
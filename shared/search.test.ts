@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { PGlite } from "@electric-sql/pglite";
+import { matchesPhone, matchesSearch, normalizeSearchText, saleMatchesSearch, SEARCH_FOLD } from "./search";
+
+describe("normalizeSearchText", () => {
+  it("folds the alef variants to a bare alef", () => {
+    expect(normalizeSearchText("أإآٱ")).toBe("اااا");
+    expect(normalizeSearchText("أسود")).toBe(normalizeSearchText("اسود"));
+  });
+
+  it("folds taa marbuta to haa", () => {
+    expect(normalizeSearchText("عباية")).toBe("عبايه");
+  });
+
+  it("folds alef maqsura to yaa", () => {
+    expect(normalizeSearchText("مستشفى")).toBe("مستشفي");
+  });
+
+  it("drops diacritics, tanween, the superscript alef and tatweel", () => {
+    expect(normalizeSearchText("فُسْتَانٌ")).toBe("فستان");
+    expect(normalizeSearchText("هٰذا")).toBe("هذا");
+    expect(normalizeSearchText("عبـــاية")).toBe("عبايه");
+  });
+
+  it("turns Arabic-Indic and Eastern Arabic digits into ASCII digits", () => {
+    expect(normalizeSearchText("٠١٢٣٤٥٦٧٨٩")).toBe("0123456789");
+    expect(normalizeSearchText("۰۱۲۳۴۵۶۷۸۹")).toBe("0123456789");
+  });
+
+  it("lower-cases Latin text and leaves everything else alone", () => {
+    expect(normalizeSearchText("INV-42 Abaya")).toBe("inv-42 abaya");
+  });
+});
+
+describe("matchesSearch", () => {
+  it("matches a field containing the term however it was typed", () => {
+    expect(matchesSearch("عبايه", "عباية سوداء")).toBe(true);
+    expect(matchesSearch("اسود", null, "فستان أسود")).toBe(true);
+    expect(matchesSearch("١٢", "DR-120")).toBe(true);
+  });
+
+  it("does not match when no field contains the term", () => {
+    expect(matchesSearch("حجاب", "عباية", undefined)).toBe(false);
+  });
+
+  it("matches everything for a blank term", () => {
+    expect(matchesSearch("   ", "anything")).toBe(true);
+  });
+});
+
+describe("matchesPhone", () => {
+  it("compares digits only, in any script", () => {
+    expect(matchesPhone("050 123 4567", "050-1234567")).toBe(true);
+    expect(matchesPhone("٠٥٠١٢٣", "+971 50 123 4567")).toBe(false);
+    expect(matchesPhone("٠٥٠١٢٣", "050 123 4567")).toBe(true);
+  });
+
+  it("never matches a term without digits or a missing phone", () => {
+    expect(matchesPhone("أحمد", "0501234567")).toBe(false);
+    expect(matchesPhone("050", null)).toBe(false);
+  });
+});
+
+describe("saleMatchesSearch", () => {
+  const sale = { invoiceNumber: "INV-1700000000000", customerName: "فاطمة أحمد", customerPhone: "050 123 4567" };
+
+  it("finds a sale by invoice number, customer name or phone", () => {
+    expect(saleMatchesSearch(sale, "inv-17")).toBe(true);
+    expect(saleMatchesSearch(sale, "فاطمه احمد")).toBe(true);
+    expect(saleMatchesSearch(sale, "٠٥٠١٢٣")).toBe(true);
+  });
+
+  it("rejects a sale that matches none of them", () => {
+    expect(saleMatchesSearch(sale, "مريم")).toBe(false);
+    expect(saleMatchesSearch({ invoiceNumber: "INV-1" }, "0501")).toBe(false);
+  });
+});
+
+// The database storage searches with translate(lower(column), SEARCH_FOLD.from, SEARCH_FOLD.to)
+describe("SQL translate() fold", () => {
+  it("folds text the same way as normalizeSearchText", async () => {
+    const db = new PGlite();
+    const samples = [
+      SEARCH_FOLD.from,
+      "فُسْتَانٌ أسود - عبايـة مستشفى",
+      "INV-٠١٢ Abaya ۳۴",
+    ];
+    try {
+      for (const sample of samples) {
+        const { rows } = await db.query<{ folded: string }>(
+          "select translate(lower($1), $2, $3) as folded",
+          [sample, SEARCH_FOLD.from, SEARCH_FOLD.to],
+        );
+        expect(rows[0].folded).toBe(normalizeSearchText(sample));
+      }
+    } finally {
+      await db.close();
+    }
+  });
+});
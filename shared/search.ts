@@ -0,0 +1,52 @@
+// Search text folding, so a search matches however the Arabic was typed: "عبايه" finds "عباية",
+// "اسود" finds "أسود" and "١٢٣" finds "123". The same table drives the SQL search (`translate()`),
+// so the memory and database storages match the same rows.
+
+const ARABIC_INDIC_DIGITS = "٠١٢٣٤٥٦٧٨٩";
+const EXTENDED_ARABIC_INDIC_DIGITS = "۰۱۲۳۴۵۶۷۸۹";
+
+// Tatweel, the harakat and tanween (U+064B–U+065F) and the superscript alef
+const DROPPED = "ـ" + Array.from({ length: 0x065f - 0x064b + 1 }, (_, i) => String.fromCharCode(0x064b + i)).join("") + "ٰ";
+
+// Each character of `from` is searched as the character at the same place in `to`; the characters
+// past the end of `to` are dropped. This is the argument order of Postgres translate().
+export const SEARCH_FOLD = {
+  from: "أإآٱ" + "ة" + "ى" + ARABIC_INDIC_DIGITS + EXTENDED_ARABIC_INDIC_DIGITS + DROPPED,
+  to: "اااا" + "ه" + "ي" + "0123456789" + "0123456789",
+};
+
+const foldMap: Record<string, string> = {};
+for (let i = 0; i < SEARCH_FOLD.from.length; i++) {
+  foldMap[SEARCH_FOLD.from[i]] = SEARCH_FOLD.to[i] ?? "";
+}
+
+// Lower case with the Arabic letter variants, diacritics and digits folded
+export function normalizeSearchText(text: string): string {
+  let folded = "";
+  const lower = text.toLowerCase();
+  for (let i = 0; i < lower.length; i++) {
+    const char = lower[i];
+    folded += char in foldMap ? foldMap[char] : char;
+  }
+  return folded;
+}
+
+// True when any of the fields contains the term; a blank term matches everything
+export function matchesSearch(term: string, ...fields: (string | null | undefined)[]): boolean {
+  const needle = normalizeSearchText(term.trim());
+  return !needle || fields.some(field => !!field && normalizeSearchText(field).includes(needle));
+}
+
+// Phone numbers compare by their digits alone, so "050 123 4567", "050-1234567" and "٠٥٠١٢٣٤٥٦٧" agree
+export function matchesPhone(term: string, phone: string | null | undefined): boolean {
+  const digits = normalizeSearchText(term).replace(/\D/g, "");
+  return !!digits && !!phone && normalizeSearchText(phone).replace(/\D/g, "").includes(digits);
+}
+
+// Invoice lookup and customer search: invoice number, customer name or phone
+export function saleMatchesSearch(
+  sale: { invoiceNumber: string; customerName?: string | null; customerPhone?: string | null },
+  term: string,
+): boolean {
+  return matchesSearch(term, sale.invoiceNumber, sale.customerName) || matchesPhone(term, sale.customerPhone);
+}
@@ -0,0 +1,81 @@
+import { fromFils, getUnitCost, toFils } from "./pricing";
+import type {
+  Product,
+  ProductInventory,
+  Stocktake,
+  StocktakeDetails,
+  StocktakeLine,
+  StocktakeLineDetails,
+  StocktakeSummary,
+} from "./schema";
+
+const variantKey = (item: { productId: string; color: string; size: string }) =>
+  `${item.productId}|${item.color}|${item.size}`;
+
+// Lines ordered by model number, color and size. A counted line is compared with the system quantity
+// saved when it was counted, an uncounted one with the current inventory; an approved session keeps
+// the costs it snapshotted when it was posted
+export function buildStocktakeDetails(
+  stocktake: Stocktake,
+  lines: StocktakeLine[],
+  products: Product[],
+  inventory: ProductInventory[],
+): StocktakeDetails {
+  const variants: Record<string, ProductInventory> = {};
+  inventory.forEach((item) => {
+    variants[variantKey(item)] = item;
+  });
+
+  const details: StocktakeLineDetails[] = [];
+  lines.forEach((line) => {
+    const product = products.find(p => p.id === line.productId);
+    if (!product) return;
+    const variant = variants[variantKey(line)];
+    const posted = stocktake.status === "approved" && line.countedQuantity !== null;
+    const systemQuantity = line.systemQuantity ?? variant?.quantity ?? 0;
+    details.push({
+      ...line,
+      product,
+      systemQuantity,
+      unitCost: posted ? line.unitCost : getUnitCost(product, variant),
+      variance: line.countedQuantity === null ? null : line.countedQuantity - systemQuantity,
+    });
+  });
+  details.sort((a, b) =>
+    a.product.modelNumber.localeCompare(b.product.modelNumber) ||
+    a.color.localeCompare(b.color) ||
+    a.size.localeCompare(b.size));
+
+  return {
+    ...stocktake,
+    lineCount: details.length,
+    countedCount: details.filter(line => line.countedQuantity !== null).length,
+    lines: details,
+    summary: summarizeStocktake(details),
+  };
+}
+
+// Approval applies the variance found at counting time to the current stock, so sales, returns and
+// adjustments made since the line was counted are kept; stock never goes below zero
+export function stocktakeApprovedQuantity(
+  line: Pick<StocktakeLine, "countedQuantity" | "systemQuantity">,
+  currentQuantity: number,
+): number {
+  const variance = (line.countedQuantity ?? 0) - (line.systemQuantity ?? currentQuantity);
+  return Math.max(currentQuantity + variance, 0);
+}
+
+export function summarizeStocktake(lines: Pick<StocktakeLineDetails, "variance" | "unitCost">[]): StocktakeSummary {
+  let shortUnits = 0;
+  let overUnits = 0;
+  let valueImpact = 0;
+  let uncostedLines = 0;
+  lines.forEach(({ variance, unitCost }) => {
+    if (!variance) return;
+    if (variance < 0) shortUnits -= variance;
+    else overUnits += variance;
+    if (unitCost === null) uncostedLines++;
+    else valueImpact += variance * toFils(unitCost);
+  });
+  return { shortUnits, overUnits, valueImpact: fromFils(valueImpact), uncostedLines };
+}
@@ -0,0 +1,11 @@
+import type { Supplier } from "./schema";
+import { normalizeSearchText } from "./search";
+
+// Names are stored with surrounding and repeated spaces removed
+export const tidySupplierName = (name: string) => name.trim().replace(/\s+/g, " ");
+
+// Spellings that differ only in spacing, letter case or Arabic letter variants name the same supplier
+export function findSupplierByName(suppliers: Supplier[], name: string): Supplier | undefined {
+  const key = normalizeSearchText(tidySupplierName(name));
+  return suppliers.find(supplier => normalizeSearchText(tidySupplierName(supplier.name)) === key);
+}